@@ -1,12 +1,14 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend,
-  BarChart, Bar, Cell, PieChart, Pie
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush
 } from 'recharts';
 import { 
   Activity, 
   BarChart3, 
+  PieChart,
+  Split,
+  GitCompare,
   Database, 
   Cpu, 
   Zap, 
@@ -21,35 +23,97 @@ import {
   Search,
   Code2,
   Clock,
-  Layers,
   Settings,
   Link as LinkIcon,
   Copy,
   CheckCircle2,
   AlertCircle,
   Wifi,
-  WifiOff,
   Info,
   Key,
   Globe,
   Eye,
   Server,
-  Lock
+  Lock,
+  GitBranch,
+  ListTree,
+  HardDrive,
+  ListOrdered,
+  Bell,
+  Wand2,
+  Lightbulb,
+  History as HistoryIcon,
+  Bookmark,
+  Square,
+  Timer,
+  Rows3
 } from 'lucide-react';
-import { DashboardView, MetricPoint, BusinessData, HTAPStatus, AIInsight, QueryResult, TiDBConfig } from './types';
-import { generateRealtimePerformance, generateBusinessData, getHTAPStatus, runQuery as runMockQuery } from './services/tidbSimulator';
-import { getAIInsights } from './services/geminiService';
-import { executeLiveQuery, testConnection } from './services/tidbApiService';
+import { DashboardView, MetricPoint, HTAPStatus, InsightReport, QueryResult, TiDBConfig, SchemaTableInfo, SchemaCatalog, LiveBackend, StatusFieldError, MetricRange, AlertRule, AlertEvent, AlertSample, AdviceMode, QueryAdvice, AIProviderConfig, QueryTab, QueryHistoryEntry, SavedQuery, ChartConfig, ConnectionProfile, QueryProgress, SqlSession, ScriptRun, ScriptStatement, ScriptStatementRun } from './types';
+import { getHTAPStatus } from './services/tidbSimulator';
+import { collectInsightContext, runInsightAnalysis, loadInsightHistory, saveInsightHistory } from './services/insightService';
+import { createInsightProvider, loadProviderConfig, saveProviderConfig, PROVIDER_OPTIONS } from './services/insightProvider';
+import { createDataSource, verifyConnection, DEFAULT_STAND_IN_URL, DEFAULT_PROXY_ENDPOINT } from './services/dataSource';
+import { isFieldUnavailable } from './services/liveStatusCollector';
+import { ExplainMode, isExplainStatement, isReadOnlyStatement, toExplainSql } from './services/planParser';
+import PlanTree from './components/PlanTree';
+import ReplicaConsole from './components/ReplicaConsole';
+import SchemaBrowser from './components/SchemaBrowser';
+import StatementExplorer from './components/StatementExplorer';
+import AlertCenter from './components/AlertCenter';
+import ToastStack from './components/ToastStack';
+import InsightPanel from './components/InsightPanel';
+import AskBox from './components/AskBox';
+import QueryAdvisor from './components/QueryAdvisor';
+import ResultGrid from './components/ResultGrid';
+import ChartBuilder from './components/ChartBuilder';
+import Dashboards from './components/Dashboards';
+import SupersetView from './components/SupersetView';
+import InterferenceView from './components/InterferenceView';
+import ClusterCompare from './components/ClusterCompare';
+import ProfileManager, { ProfileMeta } from './components/ProfileManager';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ExportMenu from './components/ExportMenu';
+import QueryTabs from './components/QueryTabs';
+import ScriptResultTabs from './components/ScriptResultTabs';
+import QueryHistory from './components/QueryHistory';
+import SavedQueries from './components/SavedQueries';
+import { suggestChartConfig, reconcileChartConfig } from './services/chartData';
+import { MAX_ROWS_OPTIONS, TIMEOUT_OPTIONS, loadMaxRows, saveMaxRows, loadQueryTimeout, saveQueryTimeout, describeStop } from './services/queryControl';
+import { splitStatements, runScript, transactionEffect, dependsOnSession, onlyChangesSession, defaultSelection } from './services/sqlScript';
+import { createTab, loadTabs, saveTabs, loadHistory as loadRunHistory, toHistoryEntry, appendHistory, clearHistory, loadSavedQueries, upsertSavedQuery, deleteSavedQuery } from './services/queryLibrary';
+import { adviseQuery } from './services/sqlAssistant';
+import { getCatalog, buildSelectTemplate, changesSchema } from './services/schemaService';
+import { recordSample, queryRange, queryWithYesterday } from './services/metricStore';
+import { loadProfileStore, saveProfileStore, createProfile, profileFromConfig, needsCredentials, createVault, unlockVault, sealVault, dropOrphanedCredentials, ProfileStore, UnlockedVault } from './services/connectionProfiles';
+import { buildComparisonTargets } from './services/clusterComparison';
+import { toAlertSample, evaluateRules, loadRules, saveRules, loadEvents, saveEvents, appendEvents, notifyBrowser } from './services/alertEngine';
 
-const COLORS = ['#6366f1', '#a855f7', '#ec4899', '#f97316', '#22c55e'];
+const ALERT_WINDOW = 120;
+const TOAST_TTL_MS = 6000;
+const PARTIAL_REFRESH_MS = 250;
 
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<DashboardView>(DashboardView.PERFORMANCE);
   const [metrics, setMetrics] = useState<MetricPoint[]>([]);
-  const [businessData, setBusinessData] = useState<BusinessData[]>([]);
   const [status, setStatus] = useState<HTAPStatus>(getHTAPStatus());
-  const [insight, setInsight] = useState<AIInsight | null>(null);
+  const [insightHistory, setInsightHistory] = useState<InsightReport[]>(loadInsightHistory);
   const [loadingInsight, setLoadingInsight] = useState(false);
+
+  // Metric history
+  const [metricRange, setMetricRange] = useState<MetricRange>('5m');
+  const [compareYesterday, setCompareYesterday] = useState(false);
+  const [history, setHistory] = useState<MetricPoint[]>([]);
+  const [historyAvailable, setHistoryAvailable] = useState(true);
+  const [historyTick, setHistoryTick] = useState(0);
+
+  // Alerting
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadRules);
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>(loadEvents);
+  const [firingRules, setFiringRules] = useState<Set<string>>(new Set());
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const alertRulesRef = useRef(alertRules);
+  const firingRef = useRef<Set<string>>(new Set());
+  const alertSamplesRef = useRef<AlertSample[]>([]);
   
   // Connection Configuration
   const [config, setConfig] = useState<TiDBConfig>({
@@ -57,53 +121,388 @@ const App: React.FC = () => {
     publicKey: '',
     privateKey: '',
     isLive: false,
+    backend: 'dataService',
+    standInUrl: DEFAULT_STAND_IN_URL,
     host: '127.0.0.1',
     port: 4000,
     user: 'root'
   });
 
+  // Connection profiles; credentials are only readable while the vault is unlocked
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfileStore);
+  const [vault, setVault] = useState<UnlockedVault | null>(null);
+  // The connection in use. `config` is what the settings form shows; edits only take effect once applied
+  const [appliedConfig, setAppliedConfig] = useState<TiDBConfig>(config);
+  const applyConfig = (next: TiDBConfig) => {
+    setConfig(next);
+    setAppliedConfig(next);
+  };
+  const activeProfile = profileStore.profiles.find(p => p.id === config.profileId) || null;
+  const comparisonTargets = useMemo(() => buildComparisonTargets(appliedConfig, profileStore.profiles, vault), [appliedConfig, profileStore.profiles, vault]);
+
   const [testStatus, setTestStatus] = useState<{ loading: boolean; success?: boolean; message?: string; timestamp?: string }>({ loading: false });
   const [logs, setLogs] = useState<string[]>([]);
   const logEndRef = useRef<HTMLDivElement>(null);
 
   // SQL Lab State
-  const [sql, setSql] = useState<string>("SELECT category, SUM(amount) as total_sales \nFROM orders \nGROUP BY category \nORDER BY total_sales DESC;");
-  const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
+  const [tabs, setTabs] = useState<QueryTab[]>(loadTabs);
+  const [activeTabId, setActiveTabId] = useState<string>(() => tabs[0].id);
+  const [results, setResults] = useState<Record<string, QueryResult>>({});
+  const [runHistory, setRunHistory] = useState<QueryHistoryEntry[]>(loadRunHistory);
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>(loadSavedQueries);
+  const [sidebarPane, setSidebarPane] = useState<'schema' | 'history' | 'saved'>('schema');
   const [executing, setExecuting] = useState(false);
-  const [copied, setCopied] = useState(false);
+  // Rows of the running statement received so far, shown before the full result arrives
+  const [partialResult, setPartialResult] = useState<QueryResult | null>(null);
+  const pendingPartialRef = useRef<{ progress: QueryProgress; statement: string } | null>(null);
+  const partialTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const [queryTimeoutMs, setQueryTimeoutMs] = useState(loadQueryTimeout);
+  const [maxRows, setMaxRows] = useState(loadMaxRows);
+  const runAbortRef = useRef<AbortController | null>(null);
+  const [scriptRuns, setScriptRuns] = useState<Record<string, ScriptRun>>({});
+  // Counts statement runs, so every run gets a fresh result grid
+  const [runId, setRunId] = useState(0);
+  const [stopOnError, setStopOnError] = useState(true);
+  // Dedicated connection for transactions and session-scoped scripts, held only while something depends on it
+  const sessionRef = useRef<SqlSession | null>(null);
+  const [transactionOpenedAt, setTransactionOpenedAt] = useState<Date | null>(null);
+  const [resultTab, setResultTab] = useState<'rows' | 'chart' | 'plan'>('rows');
+  const [chartConfigs, setChartConfigs] = useState<Record<string, ChartConfig>>({});
+  const [copied, setCopied] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<SchemaCatalog | null>(null);
+  const [schemaLoading, setSchemaLoading] = useState(false);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [adviceMode, setAdviceMode] = useState<AdviceMode | null>(null);
+  const [advice, setAdvice] = useState<QueryAdvice | null>(null);
+  const [adviceLoading, setAdviceLoading] = useState(false);
+  const [adviceError, setAdviceError] = useState<string | null>(null);
+
+  // Every view reads through this one source; it swaps when the connection settings change
+  const dataSource = useMemo(() => createDataSource(appliedConfig), [appliedConfig]);
+
+  // AI Provider
+  const [providerConfig, setProviderConfig] = useState<AIProviderConfig>(loadProviderConfig);
+  const provider = useMemo(() => createInsightProvider(providerConfig), [providerConfig]);
+
+  const updateProviderConfig = (patch: Partial<AIProviderConfig>) => {
+    const next = { ...providerConfig, ...patch };
+    setProviderConfig(next);
+    saveProviderConfig(next);
+  };
 
   const addLog = (msg: string, type: 'info' | 'error' | 'success' = 'info') => {
     const prefix = type === 'error' ? '❌' : type === 'success' ? '✅' : '🔹';
     setLogs(prev => [...prev.slice(-24), `${prefix} [${new Date().toLocaleTimeString()}] ${msg}`]);
   };
 
-  const refreshData = useCallback(() => {
-    setMetrics(generateRealtimePerformance());
-    setBusinessData(generateBusinessData());
-    setStatus(getHTAPStatus());
-  }, []);
+  const loadSchema = useCallback(async (force = false) => {
+    setSchemaLoading(true);
+    try {
+      setCatalog(await getCatalog(dataSource, force));
+      setSchemaError(null);
+    } catch (error: any) {
+      console.error("Schema Load Error:", error);
+      setSchemaError(error.message);
+    } finally {
+      setSchemaLoading(false);
+    }
+  }, [dataSource]);
+
+  const refreshData = useCallback(async () => {
+    try {
+      const [point, nextStatus] = await Promise.all([
+        dataSource.sampleMetrics(),
+        dataSource.getStatus(),
+      ]);
+      setMetrics(prev => [...prev, point].slice(-11));
+      setStatus(nextStatus);
+    } catch (error) {
+      console.error("Data Source Error:", error);
+    }
+    loadSchema();
+  }, [dataSource, loadSchema]);
+
+  const activeTab = tabs.find(t => t.id === activeTabId) || tabs[0];
+  const sql = activeTab.sql;
+  const queryResult = results[activeTab.id] || null;
+  const chartConfig = useMemo(
+    () => queryResult && (chartConfigs[activeTab.id] ? reconcileChartConfig(queryResult, chartConfigs[activeTab.id]) : suggestChartConfig(queryResult)),
+    [queryResult, chartConfigs, activeTab.id]
+  );
+  const updateChartConfig = (config: ChartConfig) => setChartConfigs(prev => ({ ...prev, [activeTab.id]: config }));
+
+  const updateTabs = (next: QueryTab[]) => {
+    setTabs(next);
+    saveTabs(next);
+  };
+
+  const setSql = (statement: string) => {
+    updateTabs(tabs.map(t => t.id === activeTab.id ? { ...t, sql: statement } : t));
+  };
+
+  const openTab = (statement: string, title?: string) => {
+    const tab = createTab(tabs, statement, title);
+    updateTabs([...tabs, tab]);
+    setActiveTabId(tab.id);
+    return tab.id;
+  };
+
+  const closeTab = (id: string) => {
+    const index = tabs.findIndex(t => t.id === id);
+    const next = tabs.filter(t => t.id !== id);
+    updateTabs(next);
+    setResults(({ [id]: _, ...rest }) => rest);
+    setScriptRuns(({ [id]: _, ...rest }) => rest);
+    if (id === activeTab.id) setActiveTabId(next[Math.max(0, index - 1)].id);
+  };
+
+  // Streams arrive in many small batches and the grid re-sorts and re-filters every row it is given,
+  // so batches are shown at most every PARTIAL_REFRESH_MS, each time as a snapshot of the rows so far
+  const showPartial = (progress: QueryProgress, statement: string) => {
+    pendingPartialRef.current = { progress, statement };
+    if (partialTimerRef.current) return;
+    partialTimerRef.current = setTimeout(() => {
+      partialTimerRef.current = undefined;
+      const pending = pendingPartialRef.current;
+      if (!pending) return;
+      setPartialResult({ ...pending.progress, rows: pending.progress.rows.slice(), executionTimeMs: 0, engine: 'Unknown', isMPP: false, sql: pending.statement });
+    }, PARTIAL_REFRESH_MS);
+  };
+
+  const clearPartial = () => {
+    clearTimeout(partialTimerRef.current);
+    partialTimerRef.current = undefined;
+    pendingPartialRef.current = null;
+    setPartialResult(null);
+  };
+
+  const openSession = async (): Promise<SqlSession> => {
+    if (sessionRef.current) return sessionRef.current;
+    if (!dataSource.openSession) {
+      throw new Error("This connection sends every statement on its own, so it cannot hold a transaction. Use the simulator or the local MySQL proxy.");
+    }
+    const session = await dataSource.openSession((reason) => {
+      if (sessionRef.current !== session) return;
+      sessionRef.current = null;
+      setTransactionOpenedAt(null);
+      addLog(reason, 'error');
+    });
+    sessionRef.current = session;
+    return session;
+  };
 
-  const handleRunQuery = async () => {
+  // Picks up the server's transaction state and lets go of the session once no transaction needs it
+  const syncSession = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (session.inTransaction()) {
+      setTransactionOpenedAt(at => at || new Date());
+      return;
+    }
+    session.close();
+    sessionRef.current = null;
+    setTransactionOpenedAt(null);
+  };
+
+  // A session belongs to the connection it was opened on
+  useEffect(() => () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (session.inTransaction()) addLog('Connection changed; the open transaction was rolled back', 'error');
+    session.close();
+    sessionRef.current = null;
+    setTransactionOpenedAt(null);
+  }, [dataSource]);
+
+  const finishRun = () => {
+    runAbortRef.current = null;
+    clearPartial();
+    setExecuting(false);
+  };
+
+  // Results land on the tab that started the run, even if the user switched tabs meanwhile
+  const runStatement = async (statement: string, tabId: string = activeTab.id) => {
+    const controller = new AbortController();
+    runAbortRef.current = controller;
     setExecuting(true);
+    clearPartial();
+    setAdviceMode(null);
+    setScriptRuns(({ [tabId]: _, ...rest }) => rest);
+    setRunId(id => id + 1);
     addLog(`Running query...`);
+    let result: QueryResult;
     try {
-      if (config.isLive) {
-        const result = await executeLiveQuery(config, sql);
-        setQueryResult(result);
-        if (result.error) addLog(`Live Error: ${result.error}`, 'error');
-        else addLog(`Success: Returned ${result.rows.length} rows (${result.engine})`, 'success');
-      } else {
-        const result = await runMockQuery(sql);
-        setQueryResult(result);
-        addLog(`Mock Results: ${result.rows.length} rows simulate.`, 'success');
+      if (!sessionRef.current && onlyChangesSession(statement)) {
+        throw new Error("This statement only changes its own session, which ends right after it. Run it in a script with the statements that need it, or inside a transaction.");
       }
-    } catch (e: any) {
-      setQueryResult({
-        columns: [], rows: [], executionTimeMs: 0, engine: 'TiKV', isMPP: false, sql, error: e.message
+      // While a transaction is open every statement goes through its session, so it sees the uncommitted writes
+      const target = sessionRef.current || (transactionEffect(statement) === 'begin' ? await openSession() : dataSource);
+      result = await target.executeQuery(statement, {
+        signal: controller.signal,
+        timeoutMs: queryTimeoutMs || undefined,
+        maxRows,
+        onRows: (progress) => showPartial(progress, statement),
+        withPlan: true,
       });
+      setResultTab(tab => isExplainStatement(statement) && result.plan ? 'plan' : tab === 'chart' ? 'chart' : 'rows');
+      if (result.error) addLog(`Live Error: ${result.error}`, 'error');
+      else if (result.stopReason || result.truncated) addLog(describeStop(result), 'info');
+      else if (dataSource.kind === 'simulator') addLog(`Mock Results: ${result.rows.length} rows simulate.`, 'success');
+      else addLog(`Success: Returned ${result.rows.length} rows (${result.engine})`, 'success');
+    } catch (e: any) {
+      result = {
+        columns: [], rows: [], executionTimeMs: 0, engine: 'Unknown', isMPP: false, sql: statement, error: e.message
+      };
       addLog(`Execution Failed: ${e.message}`, 'error');
     }
-    setExecuting(false);
+    setResults(prev => ({ ...prev, [tabId]: result }));
+    setRunHistory(prev => appendHistory(prev, toHistoryEntry(dataSource.id, result)));
+    if (!result.error && changesSchema(statement)) loadSchema(true);
+    syncSession();
+    finishRun();
+  };
+
+  const showScriptRun = (tabId: string, runs: ScriptStatementRun[], selected = defaultSelection(runs)) => {
+    setScriptRuns(prev => ({ ...prev, [tabId]: { runs, selected } }));
+    const result = runs[selected]?.result;
+    if (result) setResults(prev => ({ ...prev, [tabId]: result }));
+  };
+
+  const selectScriptStatement = (index: number) => {
+    const run = scriptRuns[activeTab.id];
+    if (!run?.runs[index]?.result) return;
+    showScriptRun(activeTab.id, run.runs, index);
+    setResultTab(tab => tab === 'plan' && !run.runs[index].result.plan ? 'rows' : tab);
+  };
+
+  /**
+   * Runs the statements of a script in order. Scripts that use transactions or
+   * session settings run on one session and are refused where none is available.
+   */
+  const runScriptStatements = async (statements: ScriptStatement[], tabId: string = activeTab.id) => {
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    setExecuting(true);
+    clearPartial();
+    setAdviceMode(null);
+    setResults(({ [tabId]: _, ...rest }) => rest);
+    setScriptRuns(({ [tabId]: _, ...rest }) => rest);
+
+    let target: SqlSession | typeof dataSource = sessionRef.current || dataSource;
+    if (!sessionRef.current && statements.some(statement => dependsOnSession(statement.sql))) {
+      try {
+        target = await openSession();
+      } catch (e: any) {
+        addLog(`Script not run, it needs a session for its transaction or session statements: ${e.message}`, 'error');
+        finishRun();
+        return;
+      }
+    }
+
+    addLog(`Running script: ${statements.length} statements${target === dataSource ? '' : ' on one session'}...`);
+    const runs = await runScript(
+      (statement, options) => {
+        setRunId(id => id + 1);
+        return target.executeQuery(statement, { ...options, withPlan: true, onRows: (progress) => showPartial(progress, statement) });
+      },
+      statements,
+      { stopOnError, signal: controller.signal, timeoutMs: queryTimeoutMs || undefined, maxRows },
+      (next) => {
+        clearPartial();
+        showScriptRun(tabId, next);
+      }
+    );
+
+    runs.forEach((run, index) => {
+      if (run.result?.error) addLog(`Statement ${index + 1} (line ${run.statement.line}) failed: ${run.result.error}`, 'error');
+      else if (run.result?.stopReason || run.result?.truncated) addLog(`Statement ${index + 1} (line ${run.statement.line}): ${describeStop(run.result)}`, 'info');
+    });
+    const count = (status: ScriptStatementRun['status']) => runs.filter(run => run.status === status).length;
+    const failed = count('failed');
+    const skipped = count('skipped');
+    addLog(
+      `Script finished: ${count('done')} of ${runs.length} statements succeeded${failed ? `, ${failed} failed` : ''}${skipped ? `, ${skipped} skipped` : ''}`,
+      failed || skipped ? 'error' : 'success'
+    );
+    setResultTab(tab => tab === 'chart' ? 'chart' : 'rows');
+    setRunHistory(prev => runs.reduce((history, run) => run.result ? appendHistory(history, toHistoryEntry(dataSource.id, run.result)) : history, prev));
+    if (runs.some(run => run.status === 'done' && changesSchema(run.statement.sql))) loadSchema(true);
+
+    syncSession();
+    if (sessionRef.current?.inTransaction()) addLog('The script left a transaction open; commit or roll it back from the editor', 'info');
+    finishRun();
+  };
+
+  const controlTransaction = async (statement: 'BEGIN' | 'COMMIT' | 'ROLLBACK') => {
+    setExecuting(true);
+    try {
+      const session = statement === 'BEGIN' ? await openSession() : sessionRef.current;
+      if (!session) return;
+      const result = await session.executeQuery(statement);
+      if (result.error) addLog(`${statement} failed: ${result.error}`, 'error');
+      else addLog(statement === 'BEGIN' ? 'Transaction started' : statement === 'COMMIT' ? 'Transaction committed' : 'Transaction rolled back', 'success');
+    } catch (e: any) {
+      addLog(`${statement} failed: ${e.message}`, 'error');
+    } finally {
+      syncSession();
+      setExecuting(false);
+    }
+  };
+
+  const cancelQuery = () => runAbortRef.current?.abort();
+
+  const updateQueryTimeout = (ms: number) => {
+    setQueryTimeoutMs(ms);
+    saveQueryTimeout(ms);
+  };
+
+  const updateMaxRows = (rows: number) => {
+    setMaxRows(rows);
+    saveMaxRows(rows);
+  };
+
+  // Several statements run as a script, with a result tab per statement
+  const handleRunQuery = () => {
+    const statements = splitStatements(sql);
+    if (statements.length > 1) runScriptStatements(statements);
+    else runStatement(sql);
+  };
+
+  // EXPLAIN ANALYZE executes the statement, so a write really changes data
+  const confirmExplain = (statement: string, mode: ExplainMode) =>
+    mode !== 'analyze' || isReadOnlyStatement(statement)
+      || confirm('EXPLAIN ANALYZE runs this statement and applies its changes. Run it anyway?');
+
+  const handleExplain = (mode: ExplainMode) => {
+    if (confirmExplain(sql, mode)) runStatement(toExplainSql(sql, mode));
+  };
+
+  const requestAdvice = async (mode: AdviceMode) => {
+    if (!queryResult) return;
+    setAdviceMode(mode);
+    setAdvice(null);
+    setAdviceError(null);
+    setAdviceLoading(true);
+    try {
+      setAdvice(await adviseQuery(mode, queryResult, catalog, dataSource, provider));
+    } catch (e: any) {
+      console.error("Query Advice Error:", e);
+      setAdviceError(e.message);
+    } finally {
+      setAdviceLoading(false);
+    }
+  };
+
+  const openInSqlLab = (statement: string, explain?: ExplainMode) => {
+    const tabId = openTab(statement);
+    setActiveView(DashboardView.SQL_LAB);
+    if (explain && confirmExplain(statement, explain)) runStatement(toExplainSql(statement, explain), tabId);
+  };
+
+  const saveActiveTab = (draft: { name: string; folder: string; tags: string[] }) => {
+    setSavedQueries(upsertSavedQuery(savedQueries, { ...draft, sql }));
+    updateTabs(tabs.map(t => t.id === activeTab.id ? { ...t, sql, title: draft.name.trim() } : t));
+    addLog(`Saved query "${draft.name.trim()}"`, 'success');
   };
 
   const handleTestConnection = async () => {
@@ -111,7 +510,7 @@ const App: React.FC = () => {
     addLog("Testing endpoint connectivity...");
     
     try {
-      const result = await testConnection(config);
+      const result = await verifyConnection(config);
       const now = new Date().toLocaleTimeString();
       setTestStatus({ 
         loading: false, 
@@ -121,12 +520,12 @@ const App: React.FC = () => {
       });
       
       if (result.success) {
-        addLog("Verified! Data Service responded with 200 OK.", 'success');
-        setConfig(prev => ({ ...prev, isLive: true }));
+        addLog(`Verified! ${config.backend === 'standIn' ? 'Stand-in' : 'Data Service'} responded with 200 OK.`, 'success');
+        applyConfig({ ...config, isLive: true });
       } else {
         addLog(`Failed: ${result.message}`, 'error');
         if (result.message.includes('Failed to fetch')) {
-          addLog("Possible CORS issue. Ensure your Data App allows requests from this domain.", 'info');
+          addLog("Possible CORS issue. Ensure your Data App allows requests from this domain, or reach self-hosted TiDB through the local proxy (npm run mysql-proxy).", 'info');
         }
       }
     } catch (err: any) {
@@ -135,18 +534,147 @@ const App: React.FC = () => {
     }
   };
 
-  // Fixed: Added missing fetchAIInsights function to retrieve cluster analysis from Gemini API
+  // Read through refs so a new poll does not trigger another analysis run
+  const statusRef = useRef(status);
+  statusRef.current = status;
+  const metricsRef = useRef(metrics);
+  metricsRef.current = metrics;
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+
   const fetchAIInsights = useCallback(async () => {
     setLoadingInsight(true);
     try {
-      const result = await getAIInsights(status);
-      setInsight(result);
+      const context = await collectInsightContext(dataSource, statusRef.current, metricsRef.current);
+      const report = await runInsightAnalysis(providerRef.current, context, dataSource.id);
+      if (report.fallbackReason) addLog(`AI analysis fell back to rule-based findings: ${report.fallbackReason}`, 'error');
+      setInsightHistory(prev => {
+        const next = [...prev, report];
+        saveInsightHistory(next);
+        return next;
+      });
     } catch (error) {
       console.error("AI Insight Error:", error);
     } finally {
       setLoadingInsight(false);
     }
-  }, [status]);
+  }, [dataSource]);
+
+  const sourceRuns = useMemo(() => runHistory.filter(h => h.sourceId === dataSource.id), [runHistory, dataSource]);
+  const sourceInsights = useMemo(() => insightHistory.filter(r => r.sourceId === dataSource.id), [insightHistory, dataSource]);
+
+  const commitProfiles = async (patch: Partial<ProfileStore>, unlocked: UnlockedVault | null = vault) => {
+    const next = { ...profileStore, ...patch, ...(unlocked ? { vault: await sealVault(unlocked) } : {}) };
+    setProfileStore(next);
+    saveProfileStore(next);
+  };
+
+  const activateProfile = async (profile: ConnectionProfile, unlocked: UnlockedVault | null = vault) => {
+    const credentials = unlocked?.credentials[profile.id];
+    if (needsCredentials(profile) && !credentials) {
+      addLog(`Unlock the credential vault to connect to "${profile.name}".`, 'error');
+      setActiveView(DashboardView.SETTINGS);
+      return;
+    }
+    const next: TiDBConfig = {
+      ...config,
+      backend: profile.backend,
+      endpoint: profile.endpoint,
+      standInUrl: profile.standInUrl,
+      publicKey: credentials?.publicKey || '',
+      privateKey: credentials?.privateKey || '',
+      isLive: true,
+      profileId: profile.id,
+    };
+    applyConfig(next);
+    setTestStatus({ loading: false });
+    if (profileStore.activeId !== profile.id) {
+      const store = { ...profileStore, activeId: profile.id };
+      setProfileStore(store);
+      saveProfileStore(store);
+    }
+    addLog(`Switched to profile "${profile.name}"`, 'info');
+    const result = await verifyConnection(next);
+    setTestStatus({ loading: false, success: result.success, message: result.message, timestamp: new Date().toLocaleTimeString() });
+    addLog(result.success ? `"${profile.name}" is reachable.` : `"${profile.name}" failed its connection check: ${result.message}`, result.success ? 'success' : 'error');
+  };
+
+  const switchToSimulator = () => {
+    applyConfig({ ...config, isLive: false, profileId: undefined });
+    const store = { ...profileStore, activeId: null };
+    setProfileStore(store);
+    saveProfileStore(store);
+  };
+
+  const unlockProfiles = async (passphrase: string) => {
+    const opened = profileStore.vault ? await unlockVault(profileStore.vault, passphrase) : await createVault(passphrase);
+    const pruned = dropOrphanedCredentials(opened, profileStore.profiles);
+    const unlocked = pruned || opened;
+    setVault(unlocked);
+    if (!profileStore.vault || pruned) await commitProfiles({}, unlocked);
+    addLog(profileStore.vault ? "Credential vault unlocked." : "Credential vault created.", 'success');
+    // Reconnect the profile that was active before the reload
+    const last = profileStore.profiles.find(p => p.id === profileStore.activeId);
+    if (last && !config.isLive) activateProfile(last, unlocked);
+  };
+
+  const lockProfiles = () => {
+    setVault(null);
+    if (config.publicKey || config.privateKey) {
+      applyConfig({ ...config, publicKey: '', privateKey: '', isLive: config.backend === 'standIn' && config.isLive });
+    }
+    addLog("Credential vault locked; keys cleared from memory.", 'info');
+  };
+
+  const resetVault = () => {
+    setVault(null);
+    commitProfiles({ vault: null }, null);
+    addLog("Stored API keys were discarded.", 'info');
+  };
+
+  const saveProfile = async (meta: ProfileMeta, profileId?: string) => {
+    const existing = profileStore.profiles.find(p => p.id === profileId);
+    const hasKeys = config.backend === 'dataService' && !!(config.publicKey || config.privateKey);
+    if (hasKeys && !vault) throw new Error("Create or unlock the credential vault before saving API keys.");
+    const profile: ConnectionProfile = existing
+      ? { ...existing, ...profileFromConfig(config, meta) }
+      : createProfile(profileFromConfig(config, meta));
+    const unlocked = vault && hasKeys
+      ? { ...vault, credentials: { ...vault.credentials, [profile.id]: { publicKey: config.publicKey, privateKey: config.privateKey } } }
+      : vault;
+    setVault(unlocked);
+    await commitProfiles({
+      profiles: existing ? profileStore.profiles.map(p => p.id === profile.id ? profile : p) : [...profileStore.profiles, profile],
+      activeId: config.isLive ? profile.id : profileStore.activeId,
+    }, unlocked);
+    setConfig({ ...config, profileId: profile.id });
+    addLog(`${existing ? 'Updated' : 'Saved'} profile "${profile.name}"`, 'success');
+  };
+
+  // Keys of a deleted profile must leave the ciphertext too, which needs the vault unlocked
+  const deleteProfile = async (profile: ConnectionProfile) => {
+    if (profileStore.vault && !vault && needsCredentials(profile)) {
+      addLog(`Unlock the credential vault to delete "${profile.name}" and its API keys.`, 'error');
+      return;
+    }
+    let unlocked = vault;
+    if (vault) {
+      const { [profile.id]: _removed, ...credentials } = vault.credentials;
+      unlocked = { ...vault, credentials };
+      setVault(unlocked);
+    }
+    await commitProfiles({
+      profiles: profileStore.profiles.filter(p => p.id !== profile.id),
+      activeId: profileStore.activeId === profile.id ? null : profileStore.activeId,
+    }, unlocked);
+    if (config.profileId === profile.id) setConfig({ ...config, profileId: undefined });
+  };
+
+  // Stand-in profiles need no keys, so the last one used reconnects straight away
+  useEffect(() => {
+    const last = profileStore.profiles.find(p => p.id === profileStore.activeId);
+    if (last && !needsCredentials(last)) activateProfile(last);
+  }, []);
 
   const loadSampleCredentials = () => {
     setConfig({
@@ -159,22 +687,83 @@ const App: React.FC = () => {
   };
 
   const exploreSchema = () => {
-    setSql("SHOW TABLES;");
+    loadSchema(true);
     setActiveView(DashboardView.SQL_LAB);
-    setTimeout(() => handleRunQuery(), 100);
   };
 
+  const insertTableTemplate = (table: SchemaTableInfo) => {
+    setSql(buildSelectTemplate(table));
+  };
+
+  const updateAlertRules = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    alertRulesRef.current = rules;
+    saveRules(rules);
+  };
+
+  useEffect(() => {
+    saveEvents(alertEvents);
+  }, [alertEvents]);
+
+  const dismissToast = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
+
+  // Runs inside the poll interval, so it reads rules and state through refs
+  const evaluateAlerts = (point: MetricPoint, nextStatus: HTAPStatus) => {
+    alertSamplesRef.current = [...alertSamplesRef.current, toAlertSample(point, nextStatus)].slice(-ALERT_WINDOW);
+    const { events, firing } = evaluateRules(alertRulesRef.current, alertSamplesRef.current, firingRef.current);
+    firingRef.current = firing;
+    setFiringRules(firing);
+    if (events.length === 0) return;
+    setAlertEvents(prev => appendEvents(prev, events));
+    setToasts(prev => [...prev, ...events].slice(-4));
+    events.forEach(event => {
+      notifyBrowser(event);
+      setTimeout(() => dismissToast(event.id), TOAST_TTL_MS);
+    });
+  };
+
+  // A new source starts a new series
   useEffect(() => {
+    setMetrics([]);
     refreshData();
-    const interval = setInterval(() => {
-      setMetrics(prev => {
-        const next = generateRealtimePerformance().slice(-1)[0];
-        return [...prev.slice(1), next];
-      });
-      setStatus(getHTAPStatus());
+    const interval = setInterval(async () => {
+      try {
+        const [next, nextStatus] = await Promise.all([dataSource.sampleMetrics(), dataSource.getStatus()]);
+        setMetrics(prev => [...prev, next].slice(-11));
+        setStatus(nextStatus);
+        evaluateAlerts(next, nextStatus);
+        recordSample(dataSource.id, next, nextStatus)
+          .then(() => setHistoryTick(t => t + 1))
+          .catch(error => {
+            console.error("Metric Store Error:", error);
+            setHistoryAvailable(false);
+          });
+      } catch (error) {
+        console.error("Metric Poll Error:", error);
+      }
     }, 2000);
     return () => clearInterval(interval);
-  }, [refreshData]);
+  }, [refreshData, dataSource]);
+
+  // Samples from another source would blend two clusters into one series
+  useEffect(() => {
+    alertSamplesRef.current = [];
+  }, [dataSource]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(compareYesterday
+        ? await queryWithYesterday(dataSource.id, metricRange)
+        : await queryRange(dataSource.id, metricRange));
+    } catch (error) {
+      console.error("Metric History Error:", error);
+      setHistoryAvailable(false);
+    }
+  }, [dataSource, metricRange, compareYesterday]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, historyTick]);
 
   useEffect(() => {
     fetchAIInsights();
@@ -194,7 +783,20 @@ const App: React.FC = () => {
             </h3>
             <p className="text-slate-400 text-sm">Real-time throughput across TiKV (OLTP) and TiFlash (OLAP)</p>
           </div>
-          <div className="flex gap-4">
+          <div className="flex items-center gap-4">
+            {historyAvailable && (
+              <div className="flex bg-slate-900/80 p-0.5 rounded-lg border border-slate-800">
+                {(['5m', '1h', '24h', '7d'] as MetricRange[]).map(range => (
+                  <button
+                    key={range}
+                    onClick={() => setMetricRange(range)}
+                    className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase transition-all ${metricRange === range ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'}`}
+                  >
+                    {range}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <span className="w-3 h-3 bg-indigo-500 rounded-full shadow-[0_0_8px_rgba(99,102,241,0.6)]"></span>
               <span className="text-xs text-slate-300">OLTP</span>
@@ -207,7 +809,7 @@ const App: React.FC = () => {
         </div>
         <div className="h-[400px] w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={metrics}>
+            <LineChart data={historyAvailable ? history : metrics}>
               <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
               <XAxis dataKey="time" stroke="#94a3b8" fontSize={10} tickMargin={10} axisLine={false} tickLine={false} />
               <YAxis yAxisId="left" stroke="#6366f1" fontSize={10} axisLine={false} tickLine={false} />
@@ -218,9 +820,46 @@ const App: React.FC = () => {
               />
               <Line yAxisId="left" type="monotone" dataKey="oltp" stroke="#6366f1" strokeWidth={3} dot={false} animationDuration={300} />
               <Line yAxisId="right" type="monotone" dataKey="olap" stroke="#a855f7" strokeWidth={3} dot={false} animationDuration={300} />
+              {historyAvailable && history.length > 1 && (
+                <Brush dataKey="time" height={22} stroke="#6366f1" fill="#0f172a" travellerWidth={8} />
+              )}
             </LineChart>
           </ResponsiveContainer>
         </div>
+
+        {historyAvailable && (
+          <div className="mt-6 pt-6 border-t border-slate-800/60">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest">TiFlash Replication Lag</h4>
+              <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={compareYesterday}
+                  onChange={(e) => setCompareYesterday(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                Compare with yesterday
+              </label>
+            </div>
+            <div className="h-[160px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={history}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="time" stroke="#94a3b8" fontSize={10} axisLine={false} tickLine={false} />
+                  <YAxis stroke="#f97316" fontSize={10} axisLine={false} tickLine={false} unit="ms" />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '12px' }}
+                    itemStyle={{ color: '#f8fafc', fontSize: '12px' }}
+                  />
+                  <Line type="monotone" dataKey="syncLagMs" name="Lag" stroke="#f97316" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  {compareYesterday && (
+                    <Line type="monotone" dataKey="yesterdaySyncLagMs" name="Lag (yesterday)" stroke="#94a3b8" strokeDasharray="4 4" strokeWidth={2} dot={false} isAnimationActive={false} connectNulls />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="space-y-6">
@@ -229,53 +868,31 @@ const App: React.FC = () => {
             <Server className="w-4 h-4" /> Node Health
           </h3>
           <div className="space-y-5">
-            <StatusItem label="TiKV Availability" value={status.tikvRegionCount} sub="Regions Replicated" />
-            <StatusItem label="TiFlash Active" value={status.tiflashReplicaCount} sub="Columnar Engine" />
+            <StatusItem label="TiKV Availability" value={status.tikvRegionCount} sub="Regions Replicated" unavailable={isFieldUnavailable(status, 'tikvRegionCount')} />
+            <StatusItem
+              label="TiFlash Active"
+              value={status.tiflashReplicaCount}
+              sub={status.tiflashReplicaProgress !== undefined
+                ? `Columnar Engine • ${(status.tiflashReplicaProgress * 100).toFixed(0)}% synced`
+                : status.tiflashReplicaCount === 0 && !isFieldUnavailable(status, 'tiflashReplicaCount') ? 'Columnar Engine • no replicas' : 'Columnar Engine'}
+              unavailable={isFieldUnavailable(status, 'tiflashReplicaCount')}
+            />
             <StatusItem 
               label="Replication Lag" 
               value={`${status.syncLagMs.toFixed(1)}ms`} 
               sub="Raft-based Consistency" 
-              warning={status.syncLagMs > 50}
+              warning={alertRules.some(r => r.field === 'syncLagMs' && firingRules.has(r.id))}
+              unavailable={isFieldUnavailable(status, 'syncLagMs')}
             />
           </div>
         </div>
 
-        <div className="glass-panel rounded-2xl p-6 border-l-4 border-indigo-500 bg-indigo-500/5 relative overflow-hidden">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-bold flex items-center gap-2">
-              <Sparkles className="text-indigo-400" /> AI Insights
-            </h3>
-            <button 
-              onClick={fetchAIInsights} 
-              disabled={loadingInsight}
-              className="p-1.5 hover:bg-indigo-500/20 rounded-lg transition-colors"
-              title="Refresh AI Analysis"
-            >
-              <RefreshCcw className={`w-4 h-4 text-indigo-400 ${loadingInsight ? 'animate-spin' : ''}`} />
-            </button>
-          </div>
-          {insight ? (
-            <div className="space-y-3">
-              <div className={`text-[10px] font-bold px-2 py-0.5 rounded w-fit uppercase tracking-tighter ${
-                insight.severity === 'high' ? 'bg-rose-500 text-white' : 
-                insight.severity === 'medium' ? 'bg-amber-500 text-white' : 'bg-emerald-500 text-white'
-              }`}>
-                {insight.severity} Priority
-              </div>
-              <h4 className="font-bold text-slate-100 text-sm">{insight.title}</h4>
-              <p className="text-xs text-slate-400 leading-relaxed">{insight.content}</p>
-              <div className="pt-2 border-t border-slate-700/50">
-                <p className="text-[10px] uppercase font-bold text-indigo-400 mb-1">Architectural Advice</p>
-                <p className="text-xs text-slate-200 italic">"{insight.recommendation}"</p>
-              </div>
-            </div>
-          ) : (
-            <div className="h-32 flex flex-col items-center justify-center text-slate-500 text-xs gap-3">
-              <div className="w-8 h-8 border-2 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin" />
-              Gemini is analyzing cluster telemetry...
-            </div>
-          )}
-        </div>
+        <InsightPanel
+          history={sourceInsights}
+          loading={loadingInsight}
+          onRefresh={fetchAIInsights}
+          onOpenSql={(statement) => openInSqlLab(statement)}
+        />
       </div>
     </div>
   );
@@ -285,43 +902,99 @@ const App: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 flex-1 min-h-[600px]">
         {/* Sidebar Browser */}
         <div className="lg:col-span-1 glass-panel rounded-2xl p-5 overflow-y-auto flex flex-col border border-slate-700/50">
-          <div className="flex items-center justify-between mb-6">
-            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Database Schema</h4>
-            <button onClick={exploreSchema} className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-indigo-500/10 rounded-lg transition-all" title="Refresh Schema">
-              <RefreshCcw className="w-3.5 h-3.5" />
-            </button>
-          </div>
-          <div className="space-y-6 flex-1">
-            <SchemaTable name="orders" columns={['id', 'user_id', 'amount', 'status', 'created_at']} />
-            <SchemaTable name="users" columns={['id', 'email', 'name', 'country']} />
-            <SchemaTable name="products" columns={['id', 'name', 'price', 'category_id']} />
+          <div className="flex bg-slate-900 rounded-xl p-1 border border-slate-800 mb-6">
+            {(['schema', 'history', 'saved'] as const).map(pane => (
+              <button
+                key={pane}
+                onClick={() => setSidebarPane(pane)}
+                className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${
+                  sidebarPane === pane ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {pane === 'schema' ? <Database className="w-3 h-3" /> : pane === 'history' ? <HistoryIcon className="w-3 h-3" /> : <Bookmark className="w-3 h-3" />}
+                {pane}
+              </button>
+            ))}
           </div>
 
+          {sidebarPane === 'schema' && (
+            <SchemaBrowser
+              catalog={catalog}
+              loading={schemaLoading}
+              error={schemaError}
+              onRefresh={() => loadSchema(true)}
+              onSelectTable={insertTableTemplate}
+            />
+          )}
+          {sidebarPane === 'history' && (
+            <QueryHistory
+              history={sourceRuns}
+              onOpen={(statement) => openTab(statement)}
+              onRun={(statement) => runStatement(statement, openTab(statement))}
+              onClear={() => setRunHistory(clearHistory())}
+            />
+          )}
+          {sidebarPane === 'saved' && (
+            <SavedQueries
+              key={activeTab.id}
+              queries={savedQueries}
+              defaultName={activeTab.title}
+              onSave={saveActiveTab}
+              onOpen={(query) => openTab(query.sql, query.name)}
+              onDelete={(id) => setSavedQueries(deleteSavedQuery(savedQueries, id))}
+            />
+          )}
+
           <div className="mt-8 pt-6 border-t border-slate-800">
              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3 flex items-center gap-2">
                <Terminal className="w-3.5 h-3.5" /> Direct Access
              </h4>
              <div className="bg-slate-950/80 rounded-xl p-4 font-mono text-[10px] text-indigo-300 border border-slate-800 relative group overflow-hidden">
                 <div className="absolute top-0 left-0 w-1 h-full bg-indigo-500" />
-                <p className="break-all opacity-80 mb-2">mysql -h {config.host} -P {config.port} -u {config.user} -p</p>
-                <button 
-                  onClick={() => {
-                    navigator.clipboard.writeText(`mysql -h ${config.host} -P ${config.port} -u ${config.user} -p`);
-                    setCopied(true);
-                    setTimeout(() => setCopied(false), 2000);
-                  }}
-                  className="flex items-center gap-1.5 text-indigo-400 hover:text-indigo-300 transition-colors"
-                >
-                  {copied ? <CheckCircle2 className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
-                  <span>{copied ? 'Copied' : 'Copy command'}</span>
-                </button>
+                {[
+                  `mysql -h ${config.host} -P ${config.port} -u ${config.user} -p`,
+                  `TIDB_HOST=${config.host} TIDB_PORT=${config.port} TIDB_USER=${config.user} npm run mysql-proxy`,
+                ].map(command => (
+                  <div key={command} className="mb-3 last:mb-0">
+                    <p className="break-all opacity-80 mb-2">{command}</p>
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(command);
+                        setCopied(command);
+                        setTimeout(() => setCopied(null), 2000);
+                      }}
+                      className="flex items-center gap-1.5 text-indigo-400 hover:text-indigo-300 transition-colors"
+                    >
+                      {copied === command ? <CheckCircle2 className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                      <span>{copied === command ? 'Copied' : 'Copy command'}</span>
+                    </button>
+                  </div>
+                ))}
              </div>
           </div>
         </div>
 
         {/* Editor and Results */}
         <div className="lg:col-span-3 flex flex-col gap-6">
+          <AskBox
+            catalog={catalog}
+            provider={provider}
+            onInsert={setSql}
+            onRun={(statement) => {
+              setSql(statement);
+              runStatement(statement);
+            }}
+          />
+
           <div className="glass-panel rounded-2xl overflow-hidden flex flex-col border border-slate-700/50 shadow-xl shadow-black/20">
+            <QueryTabs
+              tabs={tabs}
+              activeId={activeTab.id}
+              onSelect={setActiveTabId}
+              onClose={closeTab}
+              onNew={() => openTab('')}
+              onRename={(id, title) => updateTabs(tabs.map(t => t.id === id ? { ...t, title } : t))}
+            />
             <div className="bg-slate-800/80 px-5 py-3 flex items-center justify-between border-b border-slate-700/50">
               <div className="flex items-center gap-3">
                 <div className="w-2.5 h-2.5 rounded-full bg-amber-500" />
@@ -332,16 +1005,107 @@ const App: React.FC = () => {
                      <span className="text-[10px] font-bold text-emerald-400 uppercase tracking-tighter">Live Connection</span>
                    </div>
                 )}
+                {transactionOpenedAt ? (
+                  <div className="flex items-center gap-2 ml-2">
+                    <div
+                      className="flex items-center gap-1.5 px-2 py-0.5 rounded bg-amber-500/10 border border-amber-500/30"
+                      title="Statements run in this transaction until you commit or roll back"
+                    >
+                      <div className="w-1.5 h-1.5 rounded-full bg-amber-400 animate-pulse" />
+                      <span className="text-[10px] font-bold text-amber-400 uppercase tracking-tighter">
+                        Transaction open since {transactionOpenedAt.toLocaleTimeString()}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => controlTransaction('COMMIT')}
+                      disabled={executing}
+                      className="text-[10px] font-bold text-emerald-400 hover:text-emerald-300 uppercase disabled:opacity-50"
+                    >
+                      Commit
+                    </button>
+                    <button
+                      onClick={() => controlTransaction('ROLLBACK')}
+                      disabled={executing}
+                      className="text-[10px] font-bold text-rose-400 hover:text-rose-300 uppercase disabled:opacity-50"
+                    >
+                      Rollback
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => controlTransaction('BEGIN')}
+                    disabled={executing || !dataSource.openSession}
+                    className="ml-2 text-[10px] font-bold text-slate-400 hover:text-slate-200 uppercase disabled:opacity-40"
+                    title={dataSource.openSession
+                      ? 'Start a transaction; statements share one session until you commit or roll back'
+                      : 'This connection cannot hold a session; use the simulator or the local MySQL proxy'}
+                  >
+                    Begin
+                  </button>
+                )}
               </div>
               <div className="flex items-center gap-3">
-                <button 
-                  onClick={handleRunQuery}
+                <button
+                  onClick={() => handleExplain('explain')}
+                  disabled={executing}
+                  className="bg-slate-700/60 hover:bg-slate-700 disabled:opacity-50 text-slate-200 text-xs font-bold py-2 px-4 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                  title="Show the optimizer plan without running the query"
+                >
+                  <GitBranch className="w-3.5 h-3.5" /> Explain
+                </button>
+                <button
+                  onClick={() => handleExplain('analyze')}
                   disabled={executing}
-                  className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold py-2 px-5 rounded-xl flex items-center gap-2 transition-all shadow-lg shadow-indigo-600/20 active:scale-95"
+                  className="bg-slate-700/60 hover:bg-slate-700 disabled:opacity-50 text-slate-200 text-xs font-bold py-2 px-4 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+                  title="Run the query and collect per-operator runtime statistics"
                 >
-                  {executing ? <RefreshCcw className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
-                  Execute SQL
+                  <ListTree className="w-3.5 h-3.5" /> Explain Analyze
                 </button>
+                <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase" title="Stop statements that run longer than this">
+                  <Timer className="w-3.5 h-3.5" />
+                  <select
+                    value={queryTimeoutMs}
+                    onChange={(e) => updateQueryTimeout(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-1.5 py-1 text-[10px] text-slate-200 outline-none focus:border-indigo-500"
+                  >
+                    {TIMEOUT_OPTIONS.map(option => <option key={option.ms} value={option.ms}>{option.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase" title="Stop reading a result after this many rows">
+                  <Rows3 className="w-3.5 h-3.5" />
+                  <select
+                    value={maxRows}
+                    onChange={(e) => updateMaxRows(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-1.5 py-1 text-[10px] text-slate-200 outline-none focus:border-indigo-500"
+                  >
+                    {MAX_ROWS_OPTIONS.map(option => <option key={option.rows} value={option.rows}>{option.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase cursor-pointer" title="For scripts: skip the remaining statements after one fails">
+                  <input
+                    type="checkbox"
+                    checked={stopOnError}
+                    onChange={(e) => setStopOnError(e.target.checked)}
+                    className="accent-indigo-500"
+                  />
+                  Stop on error
+                </label>
+                {executing ? (
+                  <button
+                    onClick={cancelQuery}
+                    className="bg-rose-600 hover:bg-rose-500 text-white text-xs font-bold py-2 px-5 rounded-xl flex items-center gap-2 transition-all shadow-lg shadow-rose-600/20 active:scale-95"
+                    title="Abort the request and kill the statement on the cluster"
+                  >
+                    <Square className="w-3.5 h-3.5" /> Cancel
+                  </button>
+                ) : (
+                  <button 
+                    onClick={handleRunQuery}
+                    className="bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold py-2 px-5 rounded-xl flex items-center gap-2 transition-all shadow-lg shadow-indigo-600/20 active:scale-95"
+                  >
+                    <Play className="w-3.5 h-3.5" /> Execute SQL
+                  </button>
+                )}
               </div>
             </div>
             <textarea 
@@ -356,26 +1120,50 @@ SELECT * FROM orders LIMIT 10;"
 
           <div className="glass-panel rounded-2xl flex-1 flex flex-col overflow-hidden border border-slate-700/50">
             <div className="px-6 py-4 border-b border-slate-800 bg-slate-800/20 flex items-center justify-between">
-              <h3 className="font-bold text-sm flex items-center gap-2">
-                <TableIcon className="w-4 h-4 text-emerald-400" /> Result Dataset
-              </h3>
+              <div className="flex items-center gap-4">
+                <h3 className="font-bold text-sm flex items-center gap-2">
+                  <TableIcon className="w-4 h-4 text-emerald-400" /> Result Dataset
+                </h3>
+                {queryResult && !queryResult.error && (
+                  <div className="flex bg-slate-900/80 p-0.5 rounded-lg border border-slate-800">
+                    {(queryResult.plan ? ['rows', 'chart', 'plan'] as const : ['rows', 'chart'] as const).map(tab => (
+                      <button
+                        key={tab}
+                        onClick={() => setResultTab(tab)}
+                        className={`px-3 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${resultTab === tab ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'}`}
+                      >
+                        {tab === 'rows' ? 'Rows' : tab === 'chart' ? 'Chart' : 'Plan Tree'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               {queryResult && !queryResult.error && (
                 <div className="flex items-center gap-4">
+                  <ExportMenu result={queryResult} sourceId={dataSource.id} onLog={addLog} />
+                  <button
+                    onClick={() => requestAdvice('optimize')}
+                    disabled={adviceLoading}
+                    className="flex items-center gap-1.5 text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase disabled:opacity-50"
+                    title="Ask the AI for a rewrite, indexes or TiFlash replicas"
+                  >
+                    <Wand2 className="w-3 h-3" /> Optimize this query
+                  </button>
                   <div className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase">
                     <Clock className="w-3 h-3" />
                     {queryResult.executionTimeMs.toFixed(2)}ms
                   </div>
-                  <div className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border ${
-                    queryResult.engine === 'TiFlash' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'
-                  }`}>
-                    {queryResult.engine} {queryResult.isMPP ? '• MPP' : ''}
-                  </div>
+                  <EngineBadge result={queryResult} />
                 </div>
               )}
             </div>
 
+            {scriptRuns[activeTab.id] && (
+              <ScriptResultTabs run={scriptRuns[activeTab.id]} onSelect={selectScriptStatement} />
+            )}
+
             <div className="flex-1 overflow-auto custom-scrollbar">
-              {queryResult?.error ? (
+              {!executing && queryResult?.error ? (
                 <div className="h-full flex flex-col items-center justify-center p-12 text-center bg-rose-500/5">
                   <div className="w-16 h-16 bg-rose-500/10 rounded-full flex items-center justify-center mb-6">
                     <AlertCircle className="w-8 h-8 text-rose-500" />
@@ -384,12 +1172,28 @@ SELECT * FROM orders LIMIT 10;"
                   <p className="text-xs text-slate-400 max-w-md font-mono mb-6 bg-slate-900/50 p-4 rounded-xl border border-rose-500/20 text-rose-300">
                     {queryResult.error}
                   </p>
-                  <button 
-                    onClick={() => setActiveView(DashboardView.SETTINGS)}
-                    className="text-xs font-bold text-indigo-400 hover:text-indigo-300 flex items-center gap-2 bg-indigo-500/10 px-4 py-2 rounded-xl border border-indigo-500/20 transition-all"
-                  >
-                    Review Connection Setup <ExternalLink className="w-3 h-3" />
-                  </button>
+                  <div className="flex flex-wrap items-center justify-center gap-3">
+                    <button
+                      onClick={() => requestAdvice('explainError')}
+                      disabled={adviceLoading}
+                      className="text-xs font-bold text-white flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-4 py-2 rounded-xl transition-all"
+                    >
+                      <Lightbulb className="w-3.5 h-3.5" /> Explain this error
+                    </button>
+                    <button
+                      onClick={() => requestAdvice('optimize')}
+                      disabled={adviceLoading}
+                      className="text-xs font-bold text-indigo-400 hover:text-indigo-300 flex items-center gap-2 bg-indigo-500/10 px-4 py-2 rounded-xl border border-indigo-500/20 disabled:opacity-50 transition-all"
+                    >
+                      <Wand2 className="w-3.5 h-3.5" /> Optimize this query
+                    </button>
+                    <button 
+                      onClick={() => setActiveView(DashboardView.SETTINGS)}
+                      className="text-xs font-bold text-indigo-400 hover:text-indigo-300 flex items-center gap-2 bg-indigo-500/10 px-4 py-2 rounded-xl border border-indigo-500/20 transition-all"
+                    >
+                      Review Connection Setup <ExternalLink className="w-3 h-3" />
+                    </button>
+                  </div>
                 </div>
               ) : !queryResult && !executing ? (
                 <div className="h-full flex flex-col items-center justify-center text-slate-600 p-12 text-center">
@@ -397,151 +1201,78 @@ SELECT * FROM orders LIMIT 10;"
                   <p className="text-sm font-medium">Ready to query the cluster.</p>
                   <p className="text-xs opacity-60 mt-1">Results will appear here instantly using HTAP isolation.</p>
                 </div>
-              ) : executing ? (
+              ) : executing && !partialResult ? (
                 <div className="h-full flex flex-col items-center justify-center p-12">
                    <div className="w-12 h-12 border-4 border-indigo-500/10 border-t-indigo-500 rounded-full animate-spin mb-4" />
                    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Routing query to {config.isLive ? 'Live Cluster' : 'Simulator'}...</p>
                 </div>
+              ) : !executing && resultTab === 'plan' && queryResult?.plan ? (
+                <PlanTree plan={queryResult.plan} />
+              ) : !executing && resultTab === 'chart' && queryResult && chartConfig ? (
+                <div className="p-6">
+                  <ChartBuilder result={queryResult} config={chartConfig} onChange={updateChartConfig} />
+                </div>
               ) : (
-                <table className="w-full text-left text-xs">
-                  <thead className="bg-slate-800/40 sticky top-0 backdrop-blur-md">
-                    <tr>
-                      {queryResult?.columns.map(col => (
-                        <th key={col} className="px-6 py-4 font-bold text-slate-300 border-b border-slate-700/50 uppercase tracking-wider">
-                          {col.replace('_', ' ')}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-800/50">
-                    {(queryResult?.rows || []).map((row, i) => (
-                      <tr key={i} className="hover:bg-white/5 transition-colors group">
-                        {queryResult?.columns.map(col => (
-                          <td key={col} className="px-6 py-4 text-slate-400 font-mono group-hover:text-slate-200">
-                            {row[col]?.toString() || <span className="text-slate-700 italic">NULL</span>}
-                          </td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+                // Streamed and final rows share one grid per run, so sorting and filtering survive new batches
+                <div className="h-full flex flex-col">
+                  {executing ? (
+                    <div className="px-6 py-2 border-b border-slate-800 bg-indigo-500/5 flex items-center gap-2 text-[10px] font-bold text-indigo-300 uppercase tracking-widest">
+                      <RefreshCcw className="w-3 h-3 animate-spin" /> Receiving rows… {partialResult.rows.length.toLocaleString()} so far
+                    </div>
+                  ) : describeStop(queryResult) ? (
+                    <div className="px-6 py-2 border-b border-slate-800 bg-amber-500/5 flex items-center gap-2 text-[10px] font-bold text-amber-400 uppercase tracking-widest">
+                      <AlertCircle className="w-3 h-3" /> {describeStop(queryResult)}
+                    </div>
+                  ) : null}
+                  <ResultGrid
+                    key={`${activeTab.id}:${runId}:${scriptRuns[activeTab.id]?.selected ?? ''}`}
+                    result={executing ? partialResult : queryResult}
+                  />
+                </div>
               )}
             </div>
           </div>
+
+          {adviceMode && (
+            <QueryAdvisor
+              mode={adviceMode}
+              advice={advice}
+              loading={adviceLoading}
+              error={adviceError}
+              onUseSql={setSql}
+              onClose={() => setAdviceMode(null)}
+            />
+          )}
         </div>
       </div>
     </div>
   );
 
   const renderAnalyticsView = () => (
-    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <div className="glass-panel rounded-2xl p-8 border border-slate-700/50">
-          <h3 className="text-lg font-bold mb-8 flex items-center gap-3">
-            <BarChart3 className="text-purple-400" /> Revenue Segment Analysis
-          </h3>
-          <div className="h-[350px] w-full">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={businessData} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                <XAxis dataKey="category" stroke="#94a3b8" fontSize={10} axisLine={false} tickLine={false} />
-                <YAxis stroke="#94a3b8" fontSize={10} axisLine={false} tickLine={false} />
-                <Tooltip 
-                  cursor={{ fill: 'rgba(255,255,255,0.05)' }}
-                  contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '12px' }}
-                />
-                <Bar dataKey="value" fill="#6366f1" radius={[6, 6, 0, 0]}>
-                  {businessData.map((_entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Bar>
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
-
-        <div className="glass-panel rounded-2xl p-8 border border-slate-700/50">
-          <h3 className="text-lg font-bold mb-8 flex items-center gap-3">
-            <Layers className="text-pink-400" /> Inventory Allocation
-          </h3>
-          <div className="h-[350px] w-full">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={businessData}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={100}
-                  outerRadius={140}
-                  paddingAngle={8}
-                  dataKey="value"
-                  stroke="none"
-                >
-                  {businessData.map((_entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Pie>
-                <Tooltip 
-                  contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '12px', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.5)' }}
-                />
-                <Legend iconType="circle" />
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
-      </div>
-
-      <div className="glass-panel rounded-2xl p-8 overflow-x-auto border border-slate-700/50">
-        <h3 className="text-lg font-bold mb-6 flex items-center gap-3">
-          <Activity className="text-emerald-400" /> Multi-Engine Growth Metrics
-        </h3>
-        <table className="w-full text-left text-sm">
-          <thead className="bg-slate-800/40">
-            <tr>
-              <th className="px-8 py-5 text-slate-400 font-bold uppercase tracking-widest text-[10px] border-b border-slate-700">Category Segment</th>
-              <th className="px-8 py-5 text-slate-400 font-bold uppercase tracking-widest text-[10px] border-b border-slate-700">Gross Value</th>
-              <th className="px-8 py-5 text-slate-400 font-bold uppercase tracking-widest text-[10px] border-b border-slate-700">Engine Source</th>
-              <th className="px-8 py-5 text-slate-400 font-bold uppercase tracking-widest text-[10px] border-b border-slate-700">Growth Index</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-slate-800/50">
-            {businessData.map((item, idx) => (
-              <tr key={idx} className="hover:bg-white/5 transition-colors group">
-                <td className="px-8 py-5 font-bold text-slate-100 group-hover:text-indigo-400 transition-colors">{item.category}</td>
-                <td className="px-8 py-5 text-slate-400 font-mono">${item.value.toLocaleString()}</td>
-                <td className="px-8 py-5">
-                   <span className="px-2 py-1 rounded-md bg-purple-500/10 text-purple-400 text-[10px] font-bold border border-purple-500/20">TIFLASH (OLAP)</span>
-                </td>
-                <td className="px-8 py-5">
-                  <div className="flex items-center gap-3">
-                     <span className={`font-bold ${item.growth >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
-                        {item.growth >= 0 ? '+' : ''}{item.growth}%
-                     </span>
-                     <div className="w-32 h-1.5 bg-slate-800 rounded-full overflow-hidden">
-                        <div 
-                          className={`h-full transition-all duration-1000 ${item.growth >= 0 ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]' : 'bg-rose-500 shadow-[0_0_8px_rgba(244,63,94,0.5)]'}`} 
-                          style={{ width: `${Math.min(100, Math.max(5, 50 + item.growth))}%` }}
-                        />
-                     </div>
-                  </div>
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
-    </div>
+    <Dashboards dataSource={dataSource} savedQueries={savedQueries} onLog={addLog} />
   );
 
   const renderSettingsView = () => (
     <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <ProfileManager
+        profiles={profileStore.profiles}
+        activeProfile={activeProfile}
+        isLive={config.isLive}
+        vaultState={vault ? 'unlocked' : profileStore.vault ? 'locked' : 'none'}
+        onUnlock={unlockProfiles}
+        onLock={lockProfiles}
+        onResetVault={resetVault}
+        onSave={saveProfile}
+        onDelete={deleteProfile}
+        onActivate={(profile) => activateProfile(profile)}
+      />
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Connection Configuration */}
         <div className="glass-panel rounded-3xl p-10 flex flex-col border border-slate-700/50 shadow-2xl">
           <div className="flex items-center justify-between mb-10">
             <div>
               <h2 className="text-2xl font-bold flex items-center gap-3">
-                <LinkIcon className="text-indigo-400" /> Connection Profile
+                <LinkIcon className="text-indigo-400" /> Connection Settings
               </h2>
               <p className="text-slate-500 text-sm mt-1">Configure Data Service credentials for live access.</p>
             </div>
@@ -553,6 +1284,36 @@ SELECT * FROM orders LIMIT 10;"
           </div>
 
           <div className="space-y-8 flex-1">
+            <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-800">
+              {([['dataService', 'TiDB Cloud Data Service'], ['standIn', 'Local Stand-in']] as [LiveBackend, string][]).map(([backend, label]) => (
+                <button
+                  key={backend}
+                  onClick={() => {
+                    applyConfig({ ...config, backend, isLive: false });
+                    setTestStatus({ loading: false });
+                  }}
+                  className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${config.backend === backend ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {config.backend === 'standIn' ? (
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 ml-1">
+                  <Server className="w-3.5 h-3.5" /> Stand-in URL
+                </label>
+                <input
+                  type="text"
+                  placeholder={DEFAULT_STAND_IN_URL}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-xl px-5 py-3 text-sm text-slate-100 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none transition-all"
+                  value={config.standInUrl}
+                  onChange={(e) => setConfig({...config, standInUrl: e.target.value})}
+                />
+                <p className="text-[10px] text-slate-600 ml-1">Start it with <span className="font-mono text-slate-400">npm run standin</span></p>
+              </div>
+            ) : (
             <div className="space-y-6">
                <div className="space-y-2">
                  <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 ml-1">
@@ -565,6 +1326,13 @@ SELECT * FROM orders LIMIT 10;"
                    value={config.endpoint}
                    onChange={(e) => setConfig({...config, endpoint: e.target.value})}
                  />
+                 <p className="text-[10px] text-slate-600 ml-1">
+                   Self-hosted TiDB? Start <span className="font-mono text-slate-400">npm run mysql-proxy</span>, then{' '}
+                   <button onClick={() => setConfig({...config, endpoint: DEFAULT_PROXY_ENDPOINT})} className="font-bold text-indigo-400 hover:text-indigo-300">
+                     use the local proxy
+                   </button>{' '}
+                   with the key pair it prints.
+                 </p>
                </div>
                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                  <div className="space-y-2">
@@ -593,11 +1361,12 @@ SELECT * FROM orders LIMIT 10;"
                  </div>
                </div>
             </div>
+            )}
 
             <div className="pt-4 flex gap-4">
               <button 
                 onClick={handleTestConnection}
-                disabled={testStatus.loading || !config.endpoint}
+                disabled={testStatus.loading || (config.backend === 'dataService' && !config.endpoint)}
                 className={`flex-1 font-bold py-4 rounded-2xl transition-all flex items-center justify-center gap-3 shadow-lg ${
                   testStatus.loading ? 'bg-slate-800 text-slate-500' : 
                   testStatus.success ? 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-emerald-600/20' : 
@@ -633,7 +1402,7 @@ SELECT * FROM orders LIMIT 10;"
                       className="sr-only peer"
                       checked={config.isLive}
                       disabled={!testStatus.success && !config.isLive}
-                      onChange={(e) => setConfig({...config, isLive: e.target.checked})}
+                      onChange={(e) => applyConfig({...config, isLive: e.target.checked})}
                     />
                     <div className="w-11 h-6 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
                   </label>
@@ -667,13 +1436,77 @@ SELECT * FROM orders LIMIT 10;"
             </div>
           </div>
 
+          <div className="glass-panel rounded-3xl p-8 border border-slate-700/50 shadow-xl">
+            <h3 className="text-sm font-bold mb-6 flex items-center gap-3 text-indigo-400">
+              <Sparkles className="w-4 h-4" /> AI Provider
+            </h3>
+            <div className="space-y-4">
+              <div className="flex bg-slate-950 p-1 rounded-xl border border-slate-800">
+                {PROVIDER_OPTIONS.map(option => (
+                  <button
+                    key={option.kind}
+                    onClick={() => updateProviderConfig({ kind: option.kind, model: option.defaultModel })}
+                    className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${providerConfig.kind === option.kind ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {providerConfig.kind === 'rules' ? (
+                <p className="text-[11px] text-slate-500">Findings come from fixed thresholds and SQL from schema heuristics. No key or network needed.</p>
+              ) : (
+                <>
+                  {providerConfig.kind === 'openai' && (
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 ml-1">
+                        <Globe className="w-3.5 h-3.5" /> Base URL
+                      </label>
+                      <input
+                        type="text"
+                        className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-sm text-slate-100 focus:border-indigo-500 outline-none transition-all"
+                        value={providerConfig.baseUrl}
+                        onChange={(e) => updateProviderConfig({ baseUrl: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 ml-1">
+                        <Cpu className="w-3.5 h-3.5" /> Model
+                      </label>
+                      <input
+                        type="text"
+                        className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-sm text-slate-100 focus:border-indigo-500 outline-none transition-all"
+                        value={providerConfig.model}
+                        onChange={(e) => updateProviderConfig({ model: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 ml-1">
+                        <Key className="w-3.5 h-3.5" /> API Key
+                      </label>
+                      <input
+                        type="password"
+                        placeholder={providerConfig.kind === 'gemini' && process.env.API_KEY ? 'Using build-time key' : 'Optional for local servers'}
+                        className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-sm text-slate-100 focus:border-indigo-500 outline-none transition-all"
+                        value={providerConfig.apiKey}
+                        onChange={(e) => updateProviderConfig({ apiKey: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-slate-600 ml-1">The key is kept in memory only. If the provider fails, insights fall back to the rule-based findings.</p>
+                </>
+              )}
+            </div>
+          </div>
+
           <div className="glass-panel rounded-3xl p-8 bg-indigo-600/5 border border-indigo-500/20 shadow-xl">
             <h3 className="text-sm font-bold mb-6 flex items-center gap-3 text-indigo-400">
               <Info className="w-4 h-4" /> Environment Status
             </h3>
             <div className="space-y-4">
               <div className="flex items-center justify-between p-3 bg-slate-900/50 rounded-xl border border-slate-800">
-                 <span className="text-xs text-slate-400">Gemini AI Key</span>
+                 <span className="text-xs text-slate-400">Gemini AI Key (build)</span>
                  <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${process.env.API_KEY ? 'bg-emerald-500/10 text-emerald-400 border border-emerald-500/20' : 'bg-rose-500/10 text-rose-400 border border-rose-500/20'}`}>
                     {process.env.API_KEY ? 'ACTIVE' : 'MISSING'}
                  </span>
@@ -719,18 +1552,27 @@ SELECT * FROM orders LIMIT 10;"
 
         <div className="hidden lg:flex bg-slate-900/80 p-1.5 rounded-2xl border border-slate-800/80 backdrop-blur-xl">
           <NavButton active={activeView === DashboardView.PERFORMANCE} onClick={() => setActiveView(DashboardView.PERFORMANCE)} icon={<Activity className="w-4 h-4" />} label="Monitor" />
+          <NavButton active={activeView === DashboardView.INTERFERENCE} onClick={() => setActiveView(DashboardView.INTERFERENCE)} icon={<Split className="w-4 h-4" />} label="Isolation" />
           <NavButton active={activeView === DashboardView.SQL_LAB} onClick={() => setActiveView(DashboardView.SQL_LAB)} icon={<Terminal className="w-4 h-4" />} label="SQL Lab" />
           <NavButton active={activeView === DashboardView.ANALYTICS} onClick={() => setActiveView(DashboardView.ANALYTICS)} icon={<BarChart3 className="w-4 h-4" />} label="Insights" />
+          <NavButton active={activeView === DashboardView.SUPERSET} onClick={() => setActiveView(DashboardView.SUPERSET)} icon={<PieChart className="w-4 h-4" />} label="Superset" />
+          <NavButton active={activeView === DashboardView.COMPARE} onClick={() => setActiveView(DashboardView.COMPARE)} icon={<GitCompare className="w-4 h-4" />} label="Compare" />
+          <NavButton active={activeView === DashboardView.STATEMENTS} onClick={() => setActiveView(DashboardView.STATEMENTS)} icon={<ListOrdered className="w-4 h-4" />} label="Statements" />
+          <NavButton active={activeView === DashboardView.REPLICAS} onClick={() => setActiveView(DashboardView.REPLICAS)} icon={<HardDrive className="w-4 h-4" />} label="Replicas" />
+          <NavButton active={activeView === DashboardView.ALERTS} onClick={() => setActiveView(DashboardView.ALERTS)} icon={<Bell className={`w-4 h-4 ${firingRules.size ? 'text-rose-400' : ''}`} />} label="Alerts" />
           <NavButton active={activeView === DashboardView.SETTINGS} onClick={() => setActiveView(DashboardView.SETTINGS)} icon={<Settings className="w-4 h-4" />} label="Profile" />
         </div>
 
         <div className="flex items-center gap-5">
-          <div className={`h-11 px-5 bg-slate-900 rounded-2xl border border-slate-800 flex items-center justify-center gap-3 transition-all duration-700 ${config.isLive ? 'border-emerald-500/50 shadow-[0_0_20px_rgba(16,185,129,0.1)]' : ''}`}>
-            {config.isLive ? <Wifi className="w-4 h-4 text-emerald-400" /> : <WifiOff className="w-4 h-4 text-slate-600" />}
-            <span className={`text-[10px] font-black uppercase tracking-[0.15em] ${config.isLive ? 'text-emerald-400' : 'text-slate-600'}`}>
-              {config.isLive ? 'Online Cluster' : 'Internal Node'}
-            </span>
-          </div>
+          <ProfileSwitcher
+            isLive={config.isLive}
+            activeProfile={activeProfile}
+            profiles={profileStore.profiles}
+            vaultUnlocked={!!vault}
+            onSelect={(profile) => activateProfile(profile)}
+            onSimulator={switchToSimulator}
+            onManage={() => setActiveView(DashboardView.SETTINGS)}
+          />
           <button 
             onClick={() => setActiveView(DashboardView.SETTINGS)}
             className="lg:hidden p-3 bg-slate-900 border border-slate-800 rounded-2xl text-slate-400 active:scale-90 transition-all shadow-inner"
@@ -742,8 +1584,35 @@ SELECT * FROM orders LIMIT 10;"
 
       <main className="flex-1 p-6 md:p-12 max-w-7xl mx-auto w-full">
         {activeView === DashboardView.PERFORMANCE && renderPerformanceView()}
+        {activeView === DashboardView.INTERFERENCE && (
+          <InterferenceView dataSource={dataSource} historyTick={historyTick} onOpenInSqlLab={(statement) => openInSqlLab(statement)} />
+        )}
         {activeView === DashboardView.SQL_LAB && renderSqlLab()}
         {activeView === DashboardView.ANALYTICS && renderAnalyticsView()}
+        {activeView === DashboardView.SUPERSET && (
+          <SupersetView sqlLabSql={sql} sqlLabTitle={activeTab.title} savedQueries={savedQueries} onLog={addLog} />
+        )}
+        {activeView === DashboardView.COMPARE && (
+          <ClusterCompare targets={comparisonTargets} sqlLabSql={sql} onLog={addLog} />
+        )}
+        {activeView === DashboardView.STATEMENTS && (
+          <StatementExplorer
+            dataSource={dataSource}
+            onOpenInSqlLab={(statement) => openInSqlLab(statement)}
+            onVisualizePlan={(statement) => openInSqlLab(statement, 'explain')}
+          />
+        )}
+        {activeView === DashboardView.REPLICAS && <ReplicaConsole dataSource={dataSource} schema={catalog?.tables || []} onLog={addLog} />}
+        {activeView === DashboardView.ALERTS && (
+          <AlertCenter
+            rules={alertRules}
+            onRulesChange={updateAlertRules}
+            events={alertEvents}
+            firing={firingRules}
+            onClearEvents={() => setAlertEvents([])}
+            onLog={addLog}
+          />
+        )}
         {activeView === DashboardView.SETTINGS && renderSettingsView()}
       </main>
 
@@ -755,6 +1624,8 @@ SELECT * FROM orders LIMIT 10;"
         </div>
         <p className="opacity-50">© 2024 TIDB HTAP VISION • DISTRIBUTED SQL ANALYTICS SYSTEM • V3.0.4-LTS</p>
       </footer>
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 };
@@ -765,12 +1636,43 @@ const NavButton: React.FC<{active: boolean, onClick: () => void, icon: React.Rea
   </button>
 );
 
-const StatusItem: React.FC<{label: string, value: string | number, sub: string, warning?: boolean}> = ({ label, value, sub, warning }) => (
-  <div className="flex items-center justify-between group cursor-default">
+const EngineBadge: React.FC<{result: QueryResult}> = ({ result }) => {
+  const engines = result.plan?.engines.length ? result.plan.engines : [result.engine];
+  const exchanges = result.plan?.mppExchanges || [];
+  return (
+    <div className="flex items-center gap-2" title={result.plan ? 'Engines read from EXPLAIN output' : 'No plan available for this statement'}>
+      {engines.map(engine => (
+        <div key={engine} className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border ${
+          engine === 'TiFlash' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'
+        }`}>
+          {engine}
+        </div>
+      ))}
+      {engines.length > 1 && (
+        <span className="text-[10px] font-bold text-amber-400 uppercase tracking-wider">Mixed Plan</span>
+      )}
+      {result.isMPP && (
+        <div
+          className="px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border bg-purple-500/10 text-purple-400 border-purple-500/20"
+          title={exchanges.length ? `MPP exchanges: ${exchanges.join(', ')}` : undefined}
+        >
+          MPP{exchanges.length ? ` • ${exchanges.length} exchange${exchanges.length > 1 ? 's' : ''}` : ''}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StatusItem: React.FC<{label: string, value: string | number, sub: string, warning?: boolean, unavailable?: StatusFieldError}> = ({ label, value, sub, warning, unavailable }) => (
+  <div className="flex items-center justify-between group cursor-default" title={unavailable ? `${unavailable.source}: ${unavailable.reason}` : undefined}>
     <div>
       <p className="text-[10px] font-bold text-slate-500 mb-1 uppercase tracking-tighter">{label}</p>
-      <p className={`text-2xl font-black transition-all duration-300 ${warning ? 'text-orange-400' : 'text-slate-100 group-hover:text-indigo-400'}`}>{value}</p>
-      <p className="text-[10px] text-slate-600 font-medium mt-0.5">{sub}</p>
+      {unavailable ? (
+        <p className="text-2xl font-black text-slate-600">N/A</p>
+      ) : (
+        <p className={`text-2xl font-black transition-all duration-300 ${warning ? 'text-orange-400' : 'text-slate-100 group-hover:text-indigo-400'}`}>{value}</p>
+      )}
+      <p className={`text-[10px] font-medium mt-0.5 ${unavailable ? 'text-rose-400/70' : 'text-slate-600'}`}>{unavailable ? `Unreadable: ${unavailable.source}` : sub}</p>
     </div>
     <div className="w-10 h-10 rounded-xl bg-slate-800/50 flex items-center justify-center group-hover:bg-indigo-500/10 transition-colors">
        <ChevronRight className="w-5 h-5 text-slate-600 group-hover:text-indigo-400 transition-all translate-x-0 group-hover:translate-x-1" />
@@ -787,23 +1689,4 @@ const Step: React.FC<{icon: React.ReactElement, text: string}> = ({ icon, text }
   </div>
 );
 
-const SchemaTable: React.FC<{name: string, columns: string[]}> = ({ name, columns }) => (
-  <div className="space-y-1.5">
-    <div className="flex items-center gap-2 text-xs font-bold text-slate-200 group cursor-default">
-      <div className="p-1 bg-indigo-500/10 rounded group-hover:bg-indigo-500 transition-colors">
-        <TableIcon className="w-3 h-3 text-indigo-400 group-hover:text-white" />
-      </div>
-      <span className="group-hover:text-indigo-400 transition-colors">{name}</span>
-    </div>
-    <div className="pl-6 space-y-0.5 border-l border-slate-800/50 ml-2 mt-2">
-      {columns.map(col => (
-        <div key={col} className="text-[10px] text-slate-600 font-mono hover:text-indigo-400 cursor-default transition-colors pl-3 py-1 flex items-center gap-2">
-          <div className="w-1 h-1 rounded-full bg-slate-800" />
-          {col}
-        </div>
-      ))}
-    </div>
-  </div>
-);
-
 export default App;
@@ -0,0 +1,209 @@
+
+import React, { useRef, useState } from 'react';
+import { Bell, BellRing, Plus, Trash2, Download, Upload, CheckCircle2, Flame, AlertCircle } from 'lucide-react';
+import { AlertRule, AlertEvent, AlertField, AlertComparator, AlertSeverity } from '../types';
+import { ALERT_FIELDS, describeRule, exportRules, parseRules } from '../services/alertEngine';
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  high: 'bg-rose-500 text-white',
+  medium: 'bg-amber-500 text-white',
+  low: 'bg-emerald-500 text-white',
+};
+
+const inputClass = "bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-100 focus:border-indigo-500 outline-none";
+
+const newRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  name: 'New rule',
+  field: 'syncLagMs',
+  kind: 'threshold',
+  comparator: '>',
+  value: 0,
+  severity: 'medium',
+  enabled: true,
+});
+
+const AlertCenter: React.FC<{
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  events: AlertEvent[];
+  firing: Set<string>;
+  onClearEvents: () => void;
+  onLog: (msg: string, type?: 'info' | 'error' | 'success') => void;
+}> = ({ rules, onRulesChange, events, firing, onClearEvents, onLog }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [permission, setPermission] = useState(typeof Notification === 'undefined' ? 'denied' : Notification.permission);
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) => {
+    onRulesChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportRules(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'htap-alert-rules.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseRules(await file.text());
+      onRulesChange(imported);
+      onLog(`Imported ${imported.length} alert rules`, 'success');
+    } catch (e: any) {
+      onLog(`Alert rule import failed: ${e.message}`, 'error');
+    }
+  };
+
+  const requestPermission = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="lg:col-span-2 glass-panel rounded-2xl p-6 border border-slate-700/50">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-lg font-bold flex items-center gap-3">
+              <Bell className="text-amber-400" /> Alert Rules
+            </h3>
+            <p className="text-slate-400 text-sm">Evaluated on every metric poll</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileRef.current?.click()} className="p-2 text-slate-400 hover:text-indigo-400 hover:bg-indigo-500/10 rounded-lg" title="Import JSON">
+              <Upload className="w-4 h-4" />
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button onClick={handleExport} className="p-2 text-slate-400 hover:text-indigo-400 hover:bg-indigo-500/10 rounded-lg" title="Export JSON">
+              <Download className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onRulesChange([...rules, newRule()])}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold py-2 px-4 rounded-xl flex items-center gap-2"
+            >
+              <Plus className="w-3.5 h-3.5" /> Add Rule
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {rules.map(rule => (
+            <div key={rule.id} className={`p-4 rounded-xl border transition-colors ${firing.has(rule.id) ? 'bg-rose-500/5 border-rose-500/30' : 'bg-slate-900/50 border-slate-800'}`}>
+              <div className="flex items-center gap-3 mb-3">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="accent-indigo-500"
+                  title="Enabled"
+                />
+                <input
+                  value={rule.name}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  className={`${inputClass} flex-1 font-bold`}
+                />
+                {firing.has(rule.id) && (
+                  <span className="flex items-center gap-1 text-[10px] font-bold text-rose-400 uppercase"><Flame className="w-3 h-3" /> Firing</span>
+                )}
+                <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="p-1.5 text-slate-500 hover:text-rose-400" title="Delete rule">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select value={rule.kind} onChange={(e) => updateRule(rule.id, { kind: e.target.value as AlertRule['kind'] })} className={inputClass}>
+                  <option value="threshold">Threshold</option>
+                  <option value="rateOfChange">Rate of change /s</option>
+                  <option value="sustained">Sustained</option>
+                </select>
+                <select value={rule.field} onChange={(e) => updateRule(rule.id, { field: e.target.value as AlertField })} className={`${inputClass} font-mono`}>
+                  {ALERT_FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+                <select value={rule.comparator} onChange={(e) => updateRule(rule.id, { comparator: e.target.value as AlertComparator })} className={inputClass}>
+                  {(['>', '>=', '<', '<='] as AlertComparator[]).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <input
+                  type="number"
+                  value={rule.value}
+                  onChange={(e) => updateRule(rule.id, { value: Number(e.target.value) })}
+                  className={`${inputClass} w-24`}
+                />
+                {rule.kind === 'sustained' && (
+                  <label className="flex items-center gap-1.5 text-[10px] text-slate-500 uppercase font-bold">
+                    for
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.samples || 1}
+                      onChange={(e) => updateRule(rule.id, { samples: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                      className={`${inputClass} w-16`}
+                    />
+                    samples
+                  </label>
+                )}
+                <select value={rule.severity} onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlertSeverity })} className={`${inputClass} ml-auto`}>
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+              </div>
+              <p className="text-[10px] font-mono text-slate-600 mt-2">{describeRule(rule)}</p>
+            </div>
+          ))}
+          {rules.length === 0 && <p className="text-center text-xs text-slate-600 py-10">No alert rules defined.</p>}
+        </div>
+      </div>
+
+      <div className="glass-panel rounded-2xl p-6 border border-slate-700/50 flex flex-col max-h-[720px]">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest">Alert Timeline</h3>
+          <button onClick={onClearEvents} className="text-[10px] font-bold text-slate-600 hover:text-indigo-400 uppercase tracking-wider">Clear</button>
+        </div>
+        <div className="mb-4 flex items-center justify-between p-3 rounded-xl bg-slate-900/50 border border-slate-800">
+          <span className="text-xs text-slate-400 flex items-center gap-2"><BellRing className="w-3.5 h-3.5" /> Browser notifications</span>
+          {permission === 'granted' ? (
+            <span className="text-[10px] font-bold text-emerald-400 uppercase">Enabled</span>
+          ) : permission === 'denied' ? (
+            <span className="text-[10px] font-bold text-rose-400 uppercase">Blocked</span>
+          ) : (
+            <button onClick={requestPermission} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase">Enable</button>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          {[...events].reverse().map(event => (
+            <div key={event.id} className="flex items-start gap-3 p-3 rounded-xl bg-slate-900/40 border border-slate-800/60">
+              {event.state === 'firing'
+                ? <AlertCircle className="w-4 h-4 text-rose-400 shrink-0 mt-0.5" />
+                : <CheckCircle2 className="w-4 h-4 text-emerald-400 shrink-0 mt-0.5" />}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-slate-200 truncate">{event.ruleName}</span>
+                  <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded uppercase ${SEVERITY_STYLES[event.severity]}`}>{event.severity}</span>
+                </div>
+                <p className="text-[10px] text-slate-500 font-mono mt-1">
+                  {event.state} • value {event.value.toFixed(2)} • {new Date(event.at).toLocaleString()}
+                </p>
+              </div>
+            </div>
+          ))}
+          {events.length === 0 && <p className="text-center text-xs text-slate-600 py-10">No alerts have fired.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertCenter;
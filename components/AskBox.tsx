@@ -0,0 +1,115 @@
+
+import React, { useState } from 'react';
+import { MessageSquareText, Sparkles, RefreshCcw, Zap, CornerDownLeft, Play, X } from 'lucide-react';
+import { GeneratedSql, SchemaCatalog, InsightProvider } from '../types';
+import { askForSql, addTiFlashHint } from '../services/sqlAssistant';
+
+const AskBox: React.FC<{
+  catalog: SchemaCatalog | null;
+  provider: InsightProvider;
+  onInsert: (sql: string) => void;
+  onRun: (sql: string) => void;
+}> = ({ catalog, provider, onInsert, onRun }) => {
+  const [question, setQuestion] = useState('');
+  const [draft, setDraft] = useState<GeneratedSql | null>(null);
+  const [useHint, setUseHint] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAsk = async () => {
+    if (!question.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await askForSql(question, catalog, provider);
+      setDraft(result);
+      setUseHint(result.analytical);
+    } catch (e: any) {
+      setError(e.message);
+      setDraft(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const finalSql = draft ? (useHint ? addTiFlashHint(draft.sql) : draft.sql) : '';
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 border border-slate-700/50 space-y-3">
+      <div className="flex items-center gap-3">
+        <MessageSquareText className="w-4 h-4 text-indigo-400 shrink-0" />
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+          placeholder="Ask a question, e.g. total amount by category"
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-100 focus:border-indigo-500 outline-none"
+        />
+        <span
+          className={`px-2.5 py-2 rounded-xl text-[10px] font-bold font-mono border whitespace-nowrap ${
+            provider.kind === 'rules' ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'
+          }`}
+          title="Change the provider in Settings"
+        >
+          {provider.label}
+        </span>
+        <button
+          onClick={handleAsk}
+          disabled={loading || !question.trim()}
+          className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold py-2 px-4 rounded-xl flex items-center gap-2 transition-all active:scale-95"
+        >
+          {loading ? <RefreshCcw className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+          Ask
+        </button>
+      </div>
+
+      {error && <p className="text-[10px] font-mono text-rose-400 break-words">{error}</p>}
+
+      {draft && (
+        <div className="bg-slate-950/80 rounded-xl border border-slate-800 p-4 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-xs text-slate-400">{draft.explanation}</p>
+            <button onClick={() => setDraft(null)} className="text-slate-600 hover:text-slate-300" title="Discard">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <pre className="text-xs font-mono text-indigo-200 whitespace-pre-wrap break-all">{finalSql}</pre>
+          <div className="flex items-center justify-between gap-4">
+            <label className={`flex items-center gap-2 text-[10px] font-bold uppercase cursor-pointer ${draft.analytical ? 'text-emerald-400' : 'text-slate-500'}`}>
+              <input
+                type="checkbox"
+                checked={useHint}
+                onChange={(e) => setUseHint(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              <Zap className="w-3 h-3" /> Read from TiFlash
+              {draft.analytical && <span className="text-slate-500 normal-case font-medium">(suggested for analytical queries)</span>}
+            </label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onInsert(finalSql)}
+                className="bg-slate-700/60 hover:bg-slate-700 text-slate-200 text-[10px] font-bold py-1.5 px-3 rounded-lg flex items-center gap-1.5 uppercase"
+              >
+                <CornerDownLeft className="w-3 h-3" /> Insert
+              </button>
+              <button
+                onClick={() => onRun(finalSql)}
+                className="bg-emerald-600 hover:bg-emerald-500 text-white text-[10px] font-bold py-1.5 px-3 rounded-lg flex items-center gap-1.5 uppercase"
+              >
+                <Play className="w-3 h-3" /> Insert &amp; Run
+              </button>
+            </div>
+          </div>
+          {draft.tables.length > 0 && (
+            <p className="text-[10px] text-slate-600 font-mono">
+              Reads {draft.tables.join(', ')} • drafted by {draft.provider}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AskBox;
@@ -0,0 +1,99 @@
+
+import React from 'react';
+import { ChartConfig, ChartAggregation, QueryResult } from '../types';
+import { CHART_TYPES, AGGREGATIONS, numericColumns, seriesAggregation } from '../services/chartData';
+import ChartView from './ChartView';
+
+const selectClass = "bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{label}</span>
+    {children}
+  </label>
+);
+
+// Chart types that only plot the first y column
+const SINGLE_Y = new Set(['pie', 'scatter', 'heatmap']);
+
+const ChartBuilder: React.FC<{
+  result: QueryResult;
+  config: ChartConfig;
+  onChange: (config: ChartConfig) => void;
+  height?: number;
+}> = ({ result, config, onChange, height = 360 }) => {
+  const numeric = numericColumns(result);
+  const update = (patch: Partial<ChartConfig>) => onChange({ ...config, ...patch });
+  const singleY = SINGLE_Y.has(config.type) || !!config.series;
+
+  const toggleY = (column: string) => {
+    if (singleY) return update({ y: [column] });
+    update({ y: config.y.includes(column) ? config.y.filter(c => c !== column) : [...config.y, column] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1 bg-slate-950 rounded-xl p-1 border border-slate-800 w-fit">
+        {CHART_TYPES.map(t => (
+          <button
+            key={t.type}
+            onClick={() => update({ type: t.type, y: SINGLE_Y.has(t.type) ? config.y.slice(0, 1) : config.y })}
+            className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all ${config.type === t.type ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <Field label="X axis">
+          <select value={config.x} onChange={(e) => update({ x: e.target.value })} className={selectClass}>
+            {result.columns.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </Field>
+        <Field label={config.type === 'heatmap' ? 'Rows' : 'Series'}>
+          <select
+            value={config.series || ''}
+            onChange={(e) => {
+              const series = e.target.value || undefined;
+              update({ series, y: series ? config.y.slice(0, 1) : config.y, aggregation: seriesAggregation({ ...config, series }) });
+            }}
+            className={selectClass}
+          >
+            <option value="">{config.type === 'heatmap' ? 'Select…' : 'None'}</option>
+            {result.columns.filter(c => c !== config.x).map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </Field>
+        {config.type !== 'scatter' && (
+          <Field label="Aggregation">
+            <select value={config.aggregation} onChange={(e) => update({ aggregation: e.target.value as ChartAggregation })} className={selectClass}>
+              {AGGREGATIONS.filter(a => !config.series || a !== 'none').map(a => <option key={a} value={a}>{a}</option>)}
+            </select>
+          </Field>
+        )}
+        {config.aggregation !== 'count' || config.type === 'scatter' ? (
+          <Field label={singleY ? 'Y value' : 'Y values'}>
+            <div className="flex flex-wrap gap-1">
+              {numeric.filter(c => c !== config.x).map(c => (
+                <button
+                  key={c}
+                  onClick={() => toggleY(c)}
+                  className={`px-2 py-1 rounded-md text-[10px] font-mono border ${config.y.includes(c) ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {c}
+                </button>
+              ))}
+              {numeric.length === 0 && <span className="text-[10px] text-slate-600">No numeric columns — use count</span>}
+            </div>
+          </Field>
+        ) : null}
+      </div>
+
+      <div style={{ height }} className="w-full">
+        <ChartView result={result} config={config} />
+      </div>
+    </div>
+  );
+};
+
+export default ChartBuilder;
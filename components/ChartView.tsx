@@ -0,0 +1,141 @@
+
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, ScatterChart, Scatter,
+  XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
+} from 'recharts';
+import { ChartConfig, QueryResult } from '../types';
+import { COLORS, MAX_HEATMAP_CATEGORIES, buildSeriesData, buildPieData, buildScatterData, buildHeatmapData } from '../services/chartData';
+
+const TOOLTIP_STYLE = { backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '12px' };
+const AXIS_PROPS = { stroke: '#94a3b8', fontSize: 10, axisLine: false, tickLine: false };
+
+const Empty: React.FC<{ message: string }> = ({ message }) => (
+  <div className="h-full flex items-center justify-center text-xs text-slate-600">{message}</div>
+);
+
+const Heatmap: React.FC<{ result: QueryResult; config: ChartConfig }> = ({ result, config }) => {
+  const data = useMemo(() => buildHeatmapData(result, config), [result, config]);
+  if (!config.series) return <Empty message="Pick a series column for the heatmap rows." />;
+  if (data.cells.size === 0) return <Empty message="No numeric values to plot." />;
+  const span = data.max - data.min || 1;
+  const hidden = [data.hiddenXs && `${data.hiddenXs} ${config.x}`, data.hiddenYs && `${data.hiddenYs} ${config.series}`].filter(Boolean);
+  return (
+    <div className="h-full overflow-auto custom-scrollbar">
+      {hidden.length > 0 && (
+        <p className="text-[10px] text-slate-500 mb-2">
+          Showing the {MAX_HEATMAP_CATEGORIES} largest values per axis; {hidden.join(' and ')} values hidden.
+        </p>
+      )}
+      <div className="grid gap-px text-[10px] font-mono" style={{ gridTemplateColumns: `max-content repeat(${data.xs.length}, minmax(2.5rem, 1fr))` }}>
+        <div />
+        {data.xs.map(x => <div key={x} className="text-slate-500 truncate text-center px-1" title={x}>{x}</div>)}
+        {data.ys.map(y => (
+          <React.Fragment key={y}>
+            <div className="text-slate-500 truncate pr-2 text-right" title={y}>{y}</div>
+            {data.xs.map(x => {
+              const value = data.cells.get(`${x}\u0000${y}`);
+              return (
+                <div
+                  key={x}
+                  className="h-7 rounded-sm flex items-center justify-center text-slate-100"
+                  style={{ backgroundColor: value === undefined ? 'rgba(30,41,59,0.4)' : COLORS[0], opacity: value === undefined ? 1 : 0.15 + 0.85 * ((value - data.min) / span) }}
+                  title={`${config.x}=${x}, ${config.series}=${y}: ${value ?? 'no data'}`}
+                >
+                  {value !== undefined && Number(value.toPrecision(3))}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders a QueryResult according to a ChartConfig with the same Recharts
+ * styling the fixed dashboards use.
+ */
+const ChartView: React.FC<{ result: QueryResult; config: ChartConfig }> = ({ result, config }) => {
+  const series = useMemo(() => buildSeriesData(result, config), [result, config]);
+
+  if (!config.x) return <Empty message="Pick a column for the x axis." />;
+  if (config.type === 'heatmap') return <Heatmap result={result} config={config} />;
+
+  if (config.type === 'pie') {
+    const slices = buildPieData(result, config);
+    if (slices.length === 0) return <Empty message="No positive values to plot." />;
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <PieChart>
+          <Pie data={slices} dataKey="value" nameKey="name" cx="50%" cy="50%" innerRadius="45%" outerRadius="75%" paddingAngle={4} stroke="none">
+            {slices.map((_slice, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
+          </Pie>
+          <Tooltip contentStyle={TOOLTIP_STYLE} />
+          <Legend iconType="circle" />
+        </PieChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (config.type === 'scatter') {
+    const groups = buildScatterData(result, config);
+    if (groups.length === 0) return <Empty message="Scatter plots need numeric x and y columns." />;
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis type="number" dataKey="x" name={config.x} {...AXIS_PROPS} />
+          <YAxis type="number" dataKey="y" name={config.y[0]} {...AXIS_PROPS} />
+          <ZAxis range={[30, 30]} />
+          <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ strokeDasharray: '3 3' }} />
+          {groups.length > 1 && <Legend />}
+          {groups.map((group, index) => (
+            <Scatter key={group.name} name={group.name} data={group.points} fill={COLORS[index % COLORS.length]} />
+          ))}
+        </ScatterChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (series.rows.length === 0 || series.keys.length === 0) return <Empty message="Pick at least one numeric y column." />;
+
+  const common = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+      <XAxis dataKey={config.x} {...AXIS_PROPS} />
+      <YAxis {...AXIS_PROPS} />
+      <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255,255,255,0.05)' }} />
+      {series.keys.length > 1 && <Legend />}
+    </>
+  );
+  const color = (index: number) => COLORS[index % COLORS.length];
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      {config.type === 'line' ? (
+        <LineChart data={series.rows} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          {common}
+          {series.keys.map((key, i) => <Line key={key} type="monotone" dataKey={key} stroke={color(i)} strokeWidth={2} dot={false} connectNulls />)}
+        </LineChart>
+      ) : config.type === 'area' ? (
+        <AreaChart data={series.rows} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          {common}
+          {series.keys.map((key, i) => <Area key={key} type="monotone" dataKey={key} stroke={color(i)} fill={color(i)} fillOpacity={0.15} stackId={config.series ? 'stack' : undefined} />)}
+        </AreaChart>
+      ) : (
+        <BarChart data={series.rows} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+          {common}
+          {series.keys.map((key, i) => (
+            <Bar key={key} dataKey={key} fill={color(i)} stackId={config.type === 'stackedBar' ? 'stack' : undefined} radius={config.type === 'stackedBar' ? 0 : [6, 6, 0, 0]}>
+              {series.keys.length === 1 && series.rows.map((_row, index) => <Cell key={`cell-${index}`} fill={color(index)} />)}
+            </Bar>
+          ))}
+        </BarChart>
+      )}
+    </ResponsiveContainer>
+  );
+};
+
+export default ChartView;
@@ -0,0 +1,343 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, ArrowLeftRight, Play, Activity, Lock, AlertCircle, AlertTriangle, CheckCircle2, Zap, FileCode } from 'lucide-react';
+import { ComparisonRun, ComparisonTarget, HTAPStatus } from '../types';
+import {
+  runComparison, snapshotComparison, diffResults, findRegressions, diffStatus, deltaPct, MAX_DIFF_ROWS
+} from '../services/clusterComparison';
+
+const RUN_COUNTS = [1, 3, 5];
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+
+const formatNumber = (value?: number) =>
+  value === undefined ? '—' : Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2);
+
+const formatCell = (value: any) => value === null || value === undefined ? 'NULL' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const TargetPicker: React.FC<{
+  label: string;
+  targets: ComparisonTarget[];
+  value: string;
+  onChange: (id: string) => void;
+}> = ({ label, targets, value, onChange }) => {
+  const target = targets.find(t => t.id === value);
+  return (
+    <label className="flex-1 min-w-[200px] space-y-1.5">
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{label}</span>
+      <div className="flex items-center gap-2 bg-slate-950 border border-slate-800 rounded-xl px-3 focus-within:border-indigo-500">
+        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: target?.color }} />
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="flex-1 bg-transparent py-2.5 text-sm text-slate-100 outline-none"
+        >
+          {targets.map(t => (
+            <option key={t.id} value={t.id} disabled={!t.config}>{t.label}{t.config ? '' : ' (locked)'}</option>
+          ))}
+        </select>
+        {target && !target.config && <Lock className="w-3.5 h-3.5 text-slate-500" />}
+      </div>
+    </label>
+  );
+};
+
+const SideSummary: React.FC<{ target: ComparisonTarget; run: ComparisonRun }> = ({ target, run }) => {
+  const { result } = run;
+  return (
+    <div className="glass-panel rounded-2xl p-5 border border-slate-700/50 space-y-3" style={{ borderTopColor: target.color, borderTopWidth: 3 }}>
+      <p className="text-sm font-bold text-slate-100 truncate">{target.label}</p>
+      {result.error ? (
+        <p className="text-xs text-rose-300 font-mono break-all">{result.error}</p>
+      ) : (
+        <>
+          <div className="flex items-baseline gap-3">
+            <span className="text-2xl font-bold font-mono text-slate-100">{formatMs(run.medianTimeMs)}</span>
+            <span className="text-[10px] text-slate-500">
+              {run.timesMs.length > 1 ? `median of ${run.timesMs.map(t => t.toFixed(1)).join(' / ')}` : 'single run'}
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-[10px] font-bold uppercase">
+            <span className={`px-2 py-0.5 rounded border ${result.engine === 'TiFlash' ? 'text-purple-400 border-purple-500/20 bg-purple-500/10' : 'text-blue-400 border-blue-500/20 bg-blue-500/10'}`}>
+              {result.engine}
+            </span>
+            {result.isMPP && (
+              <span className="px-2 py-0.5 rounded border text-amber-400 border-amber-500/20 bg-amber-500/10 flex items-center gap-1">
+                <Zap className="w-3 h-3" /> MPP
+              </span>
+            )}
+            <span className="text-slate-500">{result.rows.length.toLocaleString()} rows</span>
+            {result.plan && <span className="text-slate-500 normal-case">plan: {result.plan.engines.join(' + ') || '—'}</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const DiffRows: React.FC<{ title: string; rows: any[]; columns: string[]; tone: 'missing' | 'extra' }> = ({ title, rows, columns, tone }) => (
+  <div className="glass-panel rounded-2xl border border-slate-700/50 overflow-hidden">
+    <div className="px-5 py-3 border-b border-slate-800/60 flex items-center justify-between">
+      <h4 className={`text-xs font-bold uppercase tracking-widest ${tone === 'missing' ? 'text-rose-400' : 'text-emerald-400'}`}>{title}</h4>
+      <span className="text-[10px] text-slate-500">{rows.length.toLocaleString()} rows{rows.length > MAX_DIFF_ROWS ? `, first ${MAX_DIFF_ROWS} shown` : ''}</span>
+    </div>
+    <div className="overflow-auto max-h-[320px]">
+      <table className="w-full text-left text-xs font-mono">
+        <thead className="sticky top-0 bg-slate-900">
+          <tr>{columns.map(c => <th key={c} className="px-4 py-2 text-[10px] text-slate-500 font-bold uppercase">{c}</th>)}</tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, MAX_DIFF_ROWS).map((row, i) => (
+            <tr key={i} className={`border-t border-slate-800/40 ${tone === 'missing' ? 'bg-rose-500/5' : 'bg-emerald-500/5'}`}>
+              {columns.map(c => <td key={c} className="px-4 py-1.5 text-slate-300 whitespace-nowrap">{formatCell(row[c])}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+/**
+ * Runs one query or status snapshot against two connections and shows where
+ * the candidate differs from the baseline
+ */
+const ClusterCompare: React.FC<{
+  targets: ComparisonTarget[];
+  // The active SQL Lab query, offered as the statement to compare
+  sqlLabSql: string;
+  onLog: (msg: string, type?: 'info' | 'error' | 'success') => void;
+}> = ({ targets, sqlLabSql, onLog }) => {
+  const usable = targets.filter(t => t.config);
+  const [leftId, setLeftId] = useState(() => usable[0]?.id || '');
+  const [rightId, setRightId] = useState(() => usable[1]?.id || usable[0]?.id || '');
+  const [sql, setSql] = useState(sqlLabSql);
+  const [runs, setRuns] = useState(3);
+  const [running, setRunning] = useState(false);
+  const [snapshotting, setSnapshotting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<{ left: ComparisonTarget; right: ComparisonTarget; runs: [ComparisonRun, ComparisonRun] } | null>(null);
+  const [statuses, setStatuses] = useState<{ left: ComparisonTarget; right: ComparisonTarget; status: [HTAPStatus, HTAPStatus] } | null>(null);
+
+  // Profiles can be deleted or locked while this view is open
+  useEffect(() => {
+    if (!usable.some(t => t.id === leftId)) setLeftId(usable[0]?.id || '');
+    if (!usable.some(t => t.id === rightId)) setRightId(usable.find(t => t.id !== leftId)?.id || usable[0]?.id || '');
+  }, [targets]);
+
+  const left = targets.find(t => t.id === leftId);
+  const right = targets.find(t => t.id === rightId);
+  const ready = !!left?.config && !!right?.config && left.id !== right.id;
+
+  const swap = () => {
+    setLeftId(rightId);
+    setRightId(leftId);
+  };
+
+  const compareQuery = async () => {
+    if (!ready || !sql.trim()) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await runComparison(left, right, sql, runs);
+      setOutcome({ left, right, runs: result });
+      onLog(`Compared query on "${left.label}" and "${right.label}"`, 'info');
+    } catch (e: any) {
+      setError(e.message);
+      onLog(`Comparison failed: ${e.message}`, 'error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const compareStatus = async () => {
+    if (!ready) return;
+    setSnapshotting(true);
+    setError(null);
+    try {
+      setStatuses({ left, right, status: await snapshotComparison(left, right) });
+    } catch (e: any) {
+      setError(e.message);
+      onLog(`Status snapshot failed: ${e.message}`, 'error');
+    } finally {
+      setSnapshotting(false);
+    }
+  };
+
+  const analysis = useMemo(() => {
+    if (!outcome) return null;
+    const [a, b] = outcome.runs;
+    if (a.result.error || b.result.error) return null;
+    const diff = diffResults(a.result, b.result);
+    return { diff, regressions: findRegressions(a, b, diff), timeDelta: deltaPct(a.medianTimeMs, b.medianTimeMs) };
+  }, [outcome]);
+
+  const statusDeltas = useMemo(() => statuses && diffStatus(statuses.status[0], statuses.status[1]), [statuses]);
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div>
+        <h3 className="text-lg font-bold flex items-center gap-3"><GitCompare className="text-indigo-400" /> Cluster Comparison</h3>
+        <p className="text-xs text-slate-500 mt-1">Run the same query on a baseline and a candidate cluster, e.g. before and after an upgrade, and check results, timing and engine routing.</p>
+      </div>
+
+      <div className="glass-panel rounded-2xl p-6 border border-slate-700/50 space-y-5">
+        <div className="flex flex-wrap items-end gap-3">
+          <TargetPicker label="Baseline" targets={targets} value={leftId} onChange={setLeftId} />
+          <button onClick={swap} className="mb-1 p-2.5 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-300" title="Swap baseline and candidate">
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+          <TargetPicker label="Candidate" targets={targets} value={rightId} onChange={setRightId} />
+        </div>
+        {usable.length < 2 && (
+          <p className="text-xs text-slate-500">Save a second connection profile, or unlock the credential vault, to compare two clusters.</p>
+        )}
+        {left && right && left.id === right.id && usable.length >= 2 && (
+          <p className="text-xs text-amber-400">Pick two different connections.</p>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider" title="The query runs several times on both clusters, so writes and DDL are refused">
+              Query (read-only)
+            </span>
+            <button onClick={() => setSql(sqlLabSql)} className="text-[10px] font-bold uppercase text-indigo-400 hover:text-indigo-300 flex items-center gap-1.5">
+              <FileCode className="w-3.5 h-3.5" /> Use SQL Lab query
+            </button>
+          </div>
+          <textarea
+            value={sql}
+            onChange={(e) => setSql(e.target.value)}
+            rows={5}
+            spellCheck={false}
+            className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-xs text-slate-100 font-mono focus:border-indigo-500 outline-none"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={compareQuery}
+            disabled={!ready || running || !sql.trim()}
+            className="text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-5 py-2.5 rounded-xl flex items-center gap-2"
+          >
+            <Play className="w-3.5 h-3.5" /> {running ? 'Running…' : 'Run on both'}
+          </button>
+          <label className="flex items-center gap-2 text-[10px] font-bold uppercase text-slate-500">
+            Runs
+            <select
+              value={runs}
+              onChange={(e) => setRuns(Number(e.target.value))}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-100 outline-none focus:border-indigo-500"
+            >
+              {RUN_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={compareStatus}
+            disabled={!ready || snapshotting}
+            className="text-xs font-bold text-slate-200 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-5 py-2.5 rounded-xl flex items-center gap-2 ml-auto"
+          >
+            <Activity className="w-3.5 h-3.5" /> {snapshotting ? 'Reading…' : 'Compare status'}
+          </button>
+        </div>
+        {error && <div className="flex items-center gap-2 text-xs text-rose-300"><AlertCircle className="w-4 h-4" /> {error}</div>}
+      </div>
+
+      {outcome && (
+        <div className="space-y-6">
+          {analysis && (
+            <div className={`glass-panel rounded-2xl p-5 border ${analysis.regressions.length ? 'border-rose-500/30' : 'border-emerald-500/30'}`}>
+              {analysis.regressions.length ? (
+                <ul className="space-y-1.5">
+                  {analysis.regressions.map(finding => (
+                    <li key={finding} className="flex items-start gap-2 text-xs text-rose-300"><AlertTriangle className="w-4 h-4 shrink-0" /> {finding}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="flex items-center gap-2 text-xs text-emerald-400">
+                  <CheckCircle2 className="w-4 h-4" /> Same rows, same engine routing and no slowdown on "{outcome.right.label}".
+                </p>
+              )}
+              {analysis.diff.orderDiffers && (
+                <p className="text-[10px] text-slate-500 mt-2">Rows match but come back in a different order; add ORDER BY if the order matters.</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <SideSummary target={outcome.left} run={outcome.runs[0]} />
+            <SideSummary target={outcome.right} run={outcome.runs[1]} />
+          </div>
+
+          {analysis && (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-center">
+                <Metric label="Matching rows" value={analysis.diff.matchedRows.toLocaleString()} />
+                <Metric label="Missing in candidate" value={analysis.diff.onlyLeftRows.length.toLocaleString()} warn={analysis.diff.onlyLeftRows.length > 0} />
+                <Metric label="Extra in candidate" value={analysis.diff.onlyRightRows.length.toLocaleString()} warn={analysis.diff.onlyRightRows.length > 0} />
+                <Metric
+                  label="Median time"
+                  value={analysis.timeDelta === undefined ? '—' : `${analysis.timeDelta > 0 ? '+' : ''}${analysis.timeDelta.toFixed(0)}%`}
+                  warn={analysis.timeDelta !== undefined && analysis.timeDelta > 0}
+                />
+              </div>
+              {(analysis.diff.onlyLeftColumns.length > 0 || analysis.diff.onlyRightColumns.length > 0) && (
+                <p className="text-xs text-amber-400">
+                  Columns only in baseline: {analysis.diff.onlyLeftColumns.join(', ') || 'none'} • only in candidate: {analysis.diff.onlyRightColumns.join(', ') || 'none'}. Rows are compared on the shared columns.
+                </p>
+              )}
+              {analysis.diff.onlyLeftRows.length > 0 && (
+                <DiffRows title={`Only in ${outcome.left.label}`} rows={analysis.diff.onlyLeftRows} columns={analysis.diff.sharedColumns} tone="missing" />
+              )}
+              {analysis.diff.onlyRightRows.length > 0 && (
+                <DiffRows title={`Only in ${outcome.right.label}`} rows={analysis.diff.onlyRightRows} columns={analysis.diff.sharedColumns} tone="extra" />
+              )}
+            </>
+          )}
+          {outcome.runs.some(run => run.result.error) && (
+            <p className="text-xs text-slate-500">Results are only diffed when the query succeeds on both sides.</p>
+          )}
+        </div>
+      )}
+
+      {statuses && statusDeltas && (
+        <div className="glass-panel rounded-2xl border border-slate-700/50 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-800/60">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest">HTAP status</h4>
+          </div>
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-[10px] text-slate-500 uppercase">
+                <th className="px-6 py-2 font-bold">Metric</th>
+                <th className="px-6 py-2 font-bold text-right">{statuses.left.label}</th>
+                <th className="px-6 py-2 font-bold text-right">{statuses.right.label}</th>
+                <th className="px-6 py-2 font-bold text-right">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statusDeltas.map(row => (
+                <tr key={row.field} className="border-t border-slate-800/40">
+                  <td className="px-6 py-2 text-slate-300">{row.label}</td>
+                  <td className="px-6 py-2 text-right font-mono text-slate-300">{formatNumber(row.left)}</td>
+                  <td className="px-6 py-2 text-right font-mono text-slate-300">{formatNumber(row.right)}</td>
+                  <td className={`px-6 py-2 text-right font-mono ${!row.delta ? 'text-slate-500' : row.delta > 0 ? 'text-amber-400' : 'text-sky-400'}`}>
+                    {row.delta === undefined ? '—' : `${row.delta > 0 ? '+' : ''}${formatNumber(row.delta)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Metric: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+  <div className="glass-panel rounded-2xl p-4 border border-slate-700/50">
+    <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</p>
+    <p className={`text-xl font-bold font-mono mt-1 ${warn ? 'text-rose-400' : 'text-slate-100'}`}>{value}</p>
+  </div>
+);
+
+export default ClusterCompare;
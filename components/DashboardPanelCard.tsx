@@ -0,0 +1,116 @@
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GripVertical, RefreshCcw, Pencil, Trash2, AlertCircle, Maximize2 } from 'lucide-react';
+import { ClusterDataSource, DashboardPanel, DashboardVariable, MetricRange, QueryResult } from '../types';
+import { applyVariables, checkPanelSql } from '../services/dashboards';
+import { reconcileChartConfig, suggestChartConfig } from '../services/chartData';
+import ChartView from './ChartView';
+
+const DashboardPanelCard: React.FC<{
+  panel: DashboardPanel;
+  sql: string;
+  variables: DashboardVariable[];
+  range: MetricRange;
+  dataSource: ClusterDataSource;
+  refreshToken: number;
+  editing: boolean;
+  onEdit: () => void;
+  onRemove: () => void;
+  onDragStart: (e: React.PointerEvent) => void;
+  onResizeStart: (e: React.PointerEvent) => void;
+}> = ({ panel, sql, variables, range, dataSource, refreshToken, editing, onEdit, onRemove, onDragStart, onResizeStart }) => {
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [lastRun, setLastRun] = useState<Date | null>(null);
+  // Only the latest run may update the panel; slower earlier runs are dropped
+  const runSeq = useRef(0);
+
+  const run = useCallback(async () => {
+    const seq = ++runSeq.current;
+    setLoading(true);
+    // Expanded per run so $__timeFrom/$__timeTo follow the clock on auto-refresh
+    const resolved = applyVariables(sql, variables, range);
+    let next: QueryResult;
+    try {
+      // Checked again on every run: stored panels and variable values may have changed since they were saved
+      checkPanelSql(resolved);
+      next = await dataSource.executeQuery(resolved);
+    } catch (e: any) {
+      next = { columns: [], rows: [], executionTimeMs: 0, engine: 'Unknown', isMPP: false, sql: resolved, error: e.message };
+    }
+    if (seq !== runSeq.current) return;
+    setResult(next);
+    setLastRun(new Date());
+    setLoading(false);
+  }, [dataSource, sql, variables, range]);
+
+  useEffect(() => {
+    run();
+  }, [run, refreshToken]);
+
+  useEffect(() => {
+    if (!panel.refreshSec) return;
+    const interval = setInterval(run, panel.refreshSec * 1000);
+    return () => clearInterval(interval);
+  }, [run, panel.refreshSec]);
+
+  const chart = result && !result.error
+    ? (panel.chart ? reconcileChartConfig(result, panel.chart) : suggestChartConfig(result))
+    : null;
+
+  return (
+    <div className={`glass-panel rounded-2xl border flex flex-col h-full overflow-hidden relative ${editing ? 'border-indigo-500/40' : 'border-slate-700/50'}`}>
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-800/60">
+        {editing && (
+          <div onPointerDown={onDragStart} className="cursor-grab active:cursor-grabbing text-slate-500 hover:text-indigo-400 touch-none" title="Drag to move">
+            <GripVertical className="w-4 h-4" />
+          </div>
+        )}
+        <h4 className="text-sm font-bold text-slate-200 truncate flex-1" title={sql}>{panel.title}</h4>
+        {result && !result.error && result.engine !== 'Unknown' && (
+          <span className="text-[9px] font-bold uppercase text-slate-600">{result.engine}{result.isMPP ? ' MPP' : ''}</span>
+        )}
+        {lastRun && (
+          <span className="text-[10px] font-mono text-slate-600" title={panel.refreshSec ? `Refreshes every ${panel.refreshSec}s` : 'Manual refresh'}>
+            {lastRun.toLocaleTimeString()}
+          </span>
+        )}
+        <button onClick={run} className="text-slate-500 hover:text-indigo-400" title="Refresh">
+          <RefreshCcw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+        {editing && (
+          <>
+            <button onClick={onEdit} className="text-slate-500 hover:text-indigo-400" title="Edit panel"><Pencil className="w-3.5 h-3.5" /></button>
+            <button onClick={onRemove} className="text-slate-500 hover:text-rose-400" title="Remove panel"><Trash2 className="w-3.5 h-3.5" /></button>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 p-4">
+        {result?.error ? (
+          <div className="h-full flex items-center justify-center gap-2 text-xs text-rose-300 font-mono text-center px-4">
+            <AlertCircle className="w-4 h-4 shrink-0" /> {result.error}
+          </div>
+        ) : result && chart ? (
+          <ChartView result={result} config={chart} />
+        ) : (
+          <div className="h-full flex items-center justify-center">
+            <RefreshCcw className="w-5 h-5 animate-spin text-slate-700" />
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <div
+          onPointerDown={onResizeStart}
+          className="absolute bottom-1 right-1 p-1 cursor-nwse-resize text-slate-600 hover:text-indigo-400 touch-none"
+          title="Drag to resize"
+        >
+          <Maximize2 className="w-3 h-3 rotate-90" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DashboardPanelCard;
@@ -0,0 +1,317 @@
+
+import React, { useMemo, useRef, useState } from 'react';
+import { LayoutDashboard, Plus, Pencil, Check, Download, Upload, RefreshCcw, Trash2, X, Variable } from 'lucide-react';
+import { ClusterDataSource, Dashboard, DashboardPanel, MetricRange, PanelLayout, SavedQuery } from '../types';
+import {
+  GRID_COLUMNS, RANGE_OPTIONS, loadDashboards, saveDashboards, createDashboard, createPanel,
+  parseDashboard, exportDashboard, panelSql, applyVariables, compactLayout, clampLayout
+} from '../services/dashboards';
+import DashboardPanelCard from './DashboardPanelCard';
+import PanelEditor from './PanelEditor';
+
+const ROW_HEIGHT = 80;
+const GAP = 16;
+
+interface DragState {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: PanelLayout;
+  panels: DashboardPanel[];
+}
+
+const Dashboards: React.FC<{
+  dataSource: ClusterDataSource;
+  savedQueries: SavedQuery[];
+  onLog: (msg: string, type?: 'info' | 'error' | 'success') => void;
+}> = ({ dataSource, savedQueries, onLog }) => {
+  const [state, setState] = useState(loadDashboards);
+  const [editing, setEditing] = useState(false);
+  const [editorPanel, setEditorPanel] = useState<DashboardPanel | 'new' | null>(null);
+  const [refreshToken, setRefreshToken] = useState(0);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const dashboard = state.dashboards.find(d => d.id === state.activeId) || state.dashboards[0];
+
+  const commit = (dashboards: Dashboard[], activeId = state.activeId) => {
+    setState({ dashboards, activeId });
+    saveDashboards(dashboards, activeId);
+  };
+
+  const updateDashboard = (patch: Partial<Dashboard>, persist = true) => {
+    const dashboards = state.dashboards.map(d => d.id === dashboard.id ? { ...d, ...patch, updatedAt: new Date().toISOString() } : d);
+    if (persist) commit(dashboards);
+    else setState({ ...state, dashboards });
+  };
+
+  const resolveSql = (sql: string) => applyVariables(sql, dashboard.variables, dashboard.range);
+
+  // Variables are expanded by each panel when it runs, so auto-refresh moves the time range forward
+  const panelQueries = useMemo(
+    () => Object.fromEntries(dashboard.panels.map(p => [p.id, panelSql(p, savedQueries)])),
+    [dashboard.panels, savedQueries]
+  );
+
+  const savePanel = (draft: Omit<DashboardPanel, 'id' | 'layout'>) => {
+    const panels = editorPanel === 'new'
+      ? [...dashboard.panels, createPanel(dashboard.panels, draft)]
+      : dashboard.panels.map(p => p.id === (editorPanel as DashboardPanel).id ? { ...p, ...draft } : p);
+    updateDashboard({ panels: compactLayout(panels) });
+    setEditorPanel(null);
+  };
+
+  const removePanel = (id: string) => {
+    updateDashboard({ panels: compactLayout(dashboard.panels.filter(p => p.id !== id)) });
+  };
+
+  const startDrag = (e: React.PointerEvent, panel: DashboardPanel, mode: DragState['mode']) => {
+    e.preventDefault();
+    const drag: DragState = { id: panel.id, mode, startX: e.clientX, startY: e.clientY, origin: panel.layout, panels: dashboard.panels };
+    const cellWidth = ((gridRef.current?.clientWidth || 1200) + GAP) / GRID_COLUMNS;
+    let latest = drag.panels;
+
+    const move = (ev: PointerEvent) => {
+      const dx = Math.round((ev.clientX - drag.startX) / cellWidth);
+      const dy = Math.round((ev.clientY - drag.startY) / (ROW_HEIGHT + GAP));
+      const layout = clampLayout(drag.mode === 'move'
+        ? { ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy }
+        : { ...drag.origin, w: drag.origin.w + dx, h: drag.origin.h + dy });
+      latest = compactLayout(drag.panels.map(p => p.id === drag.id ? { ...p, layout } : p), drag.id);
+      setState(s => ({ ...s, dashboards: s.dashboards.map(d => d.id === dashboard.id ? { ...d, panels: latest } : d) }));
+    };
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+      setState(s => {
+        // Settle the dragged panel too, now that it no longer has to stay under the pointer
+        const dashboards = s.dashboards.map(d => d.id === dashboard.id ? { ...d, panels: compactLayout(latest), updatedAt: new Date().toISOString() } : d);
+        saveDashboards(dashboards, s.activeId);
+        return { ...s, dashboards };
+      });
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+  };
+
+  const handleNew = () => {
+    const created = createDashboard(`Dashboard ${state.dashboards.length + 1}`);
+    commit([...state.dashboards, created], created.id);
+    setEditing(true);
+  };
+
+  const handleDelete = () => {
+    if (state.dashboards.length < 2 || !confirm(`Delete dashboard "${dashboard.name}"?`)) return;
+    const dashboards = state.dashboards.filter(d => d.id !== dashboard.id);
+    commit(dashboards, dashboards[0].id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportDashboard(dashboard, savedQueries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${dashboard.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'dashboard'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseDashboard(await file.text());
+      commit([...state.dashboards, imported], imported.id);
+      onLog(`Imported dashboard "${imported.name}" with ${imported.panels.length} panels`, 'success');
+    } catch (e: any) {
+      onLog(`Dashboard Import Failed: ${e.message}`, 'error');
+    }
+  };
+
+  const updateVariable = (index: number, patch: Partial<{ name: string; value: string }>) => {
+    updateDashboard({ variables: dashboard.variables.map((v, i) => i === index ? { ...v, ...patch } : v) });
+  };
+
+  const rows = dashboard.panels.reduce((bottom, p) => Math.max(bottom, p.layout.y + p.layout.h), 0);
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="glass-panel rounded-2xl p-5 border border-slate-700/50 flex flex-wrap items-center gap-4">
+        <LayoutDashboard className="w-5 h-5 text-purple-400" />
+        {editing ? (
+          <input
+            value={dashboard.name}
+            onChange={(e) => updateDashboard({ name: e.target.value })}
+            className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-sm font-bold text-slate-100 focus:border-indigo-500 outline-none"
+          />
+        ) : (
+          <select
+            value={dashboard.id}
+            onChange={(e) => commit(state.dashboards, e.target.value)}
+            className="bg-transparent text-sm font-bold text-slate-100 outline-none cursor-pointer"
+          >
+            {state.dashboards.map(d => <option key={d.id} value={d.id} className="bg-slate-900">{d.name}</option>)}
+          </select>
+        )}
+
+        <div className="flex bg-slate-900/80 p-0.5 rounded-lg border border-slate-800">
+          {RANGE_OPTIONS.map(range => (
+            <button
+              key={range}
+              onClick={() => updateDashboard({ range: range as MetricRange })}
+              className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase transition-all ${dashboard.range === range ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'}`}
+            >
+              {range}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 ml-auto text-[10px] font-bold uppercase">
+          <button onClick={() => setRefreshToken(t => t + 1)} className="flex items-center gap-1.5 text-slate-400 hover:text-indigo-300">
+            <RefreshCcw className="w-3 h-3" /> Refresh all
+          </button>
+          <button onClick={handleExport} className="flex items-center gap-1.5 text-slate-400 hover:text-indigo-300">
+            <Download className="w-3 h-3" /> Export
+          </button>
+          <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1.5 text-slate-400 hover:text-indigo-300">
+            <Upload className="w-3 h-3" /> Import
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={handleNew} className="flex items-center gap-1.5 text-slate-400 hover:text-indigo-300">
+            <Plus className="w-3 h-3" /> New
+          </button>
+          {editing && state.dashboards.length > 1 && (
+            <button onClick={handleDelete} className="flex items-center gap-1.5 text-slate-400 hover:text-rose-400">
+              <Trash2 className="w-3 h-3" /> Delete
+            </button>
+          )}
+          <button
+            onClick={() => setEditing(!editing)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg ${editing ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+          >
+            {editing ? <><Check className="w-3 h-3" /> Done</> : <><Pencil className="w-3 h-3" /> Edit</>}
+          </button>
+        </div>
+      </div>
+
+      {(dashboard.variables.length > 0 || editing) && (
+        <div className="flex flex-wrap items-center gap-3">
+          <Variable className="w-4 h-4 text-slate-500" />
+          {/* Edits apply on blur or Enter so panels re-run once per change, not per keystroke */}
+          {dashboard.variables.map((variable, i) => (
+            <div key={i} className="flex items-center rounded-lg border border-slate-800 bg-slate-900/60 text-xs font-mono overflow-hidden">
+              {editing ? (
+                <input
+                  key={`${dashboard.id}-${i}-${variable.name}`}
+                  defaultValue={variable.name}
+                  onChange={(e) => { e.target.value = e.target.value.replace(/\W/g, ''); }}
+                  onBlur={(e) => e.target.value !== variable.name && updateVariable(i, { name: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="w-24 bg-slate-950 px-2 py-1.5 text-indigo-300 outline-none border-r border-slate-800"
+                />
+              ) : (
+                <span className="px-2 py-1.5 text-indigo-300 border-r border-slate-800">${variable.name}</span>
+              )}
+              <input
+                key={`${dashboard.id}-${i}-${variable.value}`}
+                defaultValue={variable.value}
+                onBlur={(e) => e.target.value !== variable.value && updateVariable(i, { value: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-32 bg-transparent px-2 py-1.5 text-slate-200 outline-none"
+              />
+              {editing && (
+                <button
+                  onClick={() => updateDashboard({ variables: dashboard.variables.filter((_, j) => j !== i) })}
+                  className="px-1.5 text-slate-600 hover:text-rose-400"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+          {editing && (
+            <button
+              onClick={() => updateDashboard({ variables: [...dashboard.variables, { name: `var${dashboard.variables.length + 1}`, value: '' }] })}
+              className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> Variable
+            </button>
+          )}
+        </div>
+      )}
+
+      {dashboard.panels.length === 0 ? (
+        <div className="glass-panel rounded-2xl border border-dashed border-slate-700 p-16 flex flex-col items-center text-center text-slate-500">
+          <LayoutDashboard className="w-12 h-12 mb-4 opacity-20" />
+          <p className="text-sm">This dashboard has no panels yet.</p>
+          <p className="text-xs opacity-60 mt-1">Panels chart a saved query from SQL Lab and refresh on their own.</p>
+          <button
+            onClick={() => { setEditing(true); setEditorPanel('new'); }}
+            className="mt-6 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold py-2 px-5 rounded-xl flex items-center gap-2"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add panel
+          </button>
+        </div>
+      ) : (
+        <div
+          ref={gridRef}
+          className="grid"
+          style={{ gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${rows + (editing ? 2 : 0)}, ${ROW_HEIGHT}px)`, gap: GAP }}
+        >
+          {dashboard.panels.map(panel => (
+            <div
+              key={panel.id}
+              style={{ gridColumn: `${panel.layout.x + 1} / span ${panel.layout.w}`, gridRow: `${panel.layout.y + 1} / span ${panel.layout.h}` }}
+              className="min-w-0 min-h-0"
+            >
+              <DashboardPanelCard
+                panel={panel}
+                sql={panelQueries[panel.id]}
+                variables={dashboard.variables}
+                range={dashboard.range}
+                dataSource={dataSource}
+                refreshToken={refreshToken}
+                editing={editing}
+                onEdit={() => setEditorPanel(panel)}
+                onRemove={() => removePanel(panel.id)}
+                onDragStart={(e) => startDrag(e, panel, 'move')}
+                onResizeStart={(e) => startDrag(e, panel, 'resize')}
+              />
+            </div>
+          ))}
+          {editing && (
+            <button
+              onClick={() => setEditorPanel('new')}
+              style={{ gridColumn: `1 / span ${GRID_COLUMNS}`, gridRow: `${rows + 1} / span 2` }}
+              className="rounded-2xl border border-dashed border-slate-700 text-slate-500 hover:text-indigo-400 hover:border-indigo-500/50 flex items-center justify-center gap-2 text-xs font-bold"
+            >
+              <Plus className="w-4 h-4" /> Add panel
+            </button>
+          )}
+        </div>
+      )}
+
+      {editorPanel && (
+        <PanelEditor
+          panel={editorPanel === 'new' ? null : editorPanel}
+          savedQueries={savedQueries}
+          dataSource={dataSource}
+          resolveSql={resolveSql}
+          onSave={savePanel}
+          onCancel={() => setEditorPanel(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Dashboards;
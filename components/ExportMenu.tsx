@@ -0,0 +1,159 @@
+
+import React, { useRef, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { ExportOptions, QueryResult } from '../types';
+import { EXPORT_FORMATS, DEFAULT_EXPORT_OPTIONS, buildExportMetadata, exportFileName, exportResult } from '../services/resultExport';
+
+const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+const NULL_PRESETS = ['', 'NULL', '\\N'];
+
+const ExportMenu: React.FC<{
+  result: QueryResult;
+  sourceId: string;
+  onLog: (msg: string, type?: 'info' | 'error' | 'success') => void;
+}> = ({ result, sourceId, onLog }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions(o => ({ ...o, ...patch }));
+  const isText = options.format === 'csv' || options.format === 'ndjson';
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    const meta = buildExportMetadata(result, sourceId);
+    try {
+      const blob = await exportResult(result, options, meta, { onProgress: setProgress, signal: controller.signal });
+      const name = exportFileName(options.format, meta);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+      onLog(`Exported ${meta.rowCount} rows to ${name} (${meta.engine}${meta.isMPP ? ' MPP' : ''})`, 'success');
+      setOpen(false);
+    } catch (e: any) {
+      if (e.name === 'AbortError') onLog('Export cancelled');
+      else onLog(`Export Failed: ${e.message}`, 'error');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 hover:text-indigo-300 uppercase"
+        title="Download the result set"
+      >
+        <Download className="w-3 h-3" /> Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-72 glass-panel bg-slate-900/95 rounded-2xl border border-slate-700/50 shadow-2xl p-4 space-y-4 normal-case">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-200">Export {result.rows.length.toLocaleString()} rows</span>
+            <button onClick={() => setOpen(false)} className="text-slate-500 hover:text-slate-200"><X className="w-3.5 h-3.5" /></button>
+          </div>
+
+          <div className="grid grid-cols-4 gap-1 bg-slate-950 rounded-xl p-1 border border-slate-800">
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f.format}
+                onClick={() => update({ format: f.format })}
+                className={`py-1.5 rounded-lg text-[10px] font-bold transition-all ${options.format === f.format ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          {options.format === 'csv' && (
+            <label className="block space-y-1">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Delimiter</span>
+              <select
+                value={options.delimiter}
+                onChange={(e) => update({ delimiter: e.target.value })}
+                className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500"
+              >
+                {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            </label>
+          )}
+
+          {(options.format === 'csv' || options.format === 'xlsx') && (
+            <>
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input type="checkbox" checked={options.header} onChange={(e) => update({ header: e.target.checked })} className="accent-indigo-500" />
+                Header row
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">NULL as</span>
+                <div className="flex gap-1">
+                  {NULL_PRESETS.map(preset => (
+                    <button
+                      key={preset}
+                      onClick={() => update({ nullValue: preset })}
+                      className={`px-2 py-1 rounded-md text-[10px] font-mono border ${options.nullValue === preset ? 'border-indigo-500 text-indigo-300' : 'border-slate-800 text-slate-500'}`}
+                    >
+                      {preset || 'empty'}
+                    </button>
+                  ))}
+                  <input
+                    value={options.nullValue}
+                    onChange={(e) => update({ nullValue: e.target.value })}
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-md px-2 text-[10px] font-mono text-slate-200 outline-none focus:border-indigo-500"
+                  />
+                </div>
+              </label>
+            </>
+          )}
+
+          {isText ? (
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input type="checkbox" checked={options.includeMetadata} onChange={(e) => update({ includeMetadata: e.target.checked })} className="accent-indigo-500" />
+              {options.format === 'csv' ? 'Prepend SQL and engine as # comments' : 'Prepend an __export metadata record'}
+            </label>
+          ) : (
+            <p className="text-[10px] text-slate-500 leading-relaxed">
+              SQL, engine and column types are stored in the {options.format === 'xlsx' ? 'document properties and a "Query" sheet' : 'file key/value metadata'}.
+            </p>
+          )}
+
+          {progress !== null ? (
+            <div className="space-y-2">
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <div className="flex items-center justify-between text-[10px] font-bold text-slate-500">
+                <span>{Math.round(progress * 100)}%</span>
+                <button onClick={() => abortRef.current?.abort()} className="text-rose-400 hover:text-rose-300 uppercase">Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={handleExport}
+              className="w-full bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold py-2 rounded-lg flex items-center justify-center gap-1.5 uppercase"
+            >
+              <Download className="w-3 h-3" /> Download
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
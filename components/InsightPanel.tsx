@@ -0,0 +1,143 @@
+
+import React, { useState } from 'react';
+import { Sparkles, RefreshCcw, History, AlertTriangle, Terminal, ChevronLeft } from 'lucide-react';
+import { InsightReport, AIInsight } from '../types';
+import { firstFlagged, highestSeverity } from '../services/insightService';
+
+const SEVERITY_STYLES: Record<AIInsight['severity'], string> = {
+  high: 'bg-rose-500 text-white',
+  medium: 'bg-amber-500 text-white',
+  low: 'bg-emerald-500 text-white',
+};
+
+const InsightPanel: React.FC<{
+  history: InsightReport[];
+  loading: boolean;
+  onRefresh: () => void;
+  onOpenSql: (sql: string) => void;
+}> = ({ history, loading, onRefresh, onOpenSql }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const report = history.find(r => r.id === selectedId) || history[history.length - 1];
+  const viewingPast = !!report && report !== history[history.length - 1];
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 border-l-4 border-indigo-500 bg-indigo-500/5 relative overflow-hidden">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Sparkles className="text-indigo-400" /> AI Insights
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`p-1.5 rounded-lg transition-colors ${showHistory ? 'bg-indigo-500/20' : 'hover:bg-indigo-500/20'}`}
+            title="Insight History"
+          >
+            <History className="w-4 h-4 text-indigo-400" />
+          </button>
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="p-1.5 hover:bg-indigo-500/20 rounded-lg transition-colors"
+            title="Refresh AI Analysis"
+          >
+            <RefreshCcw className={`w-4 h-4 text-indigo-400 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {showHistory ? (
+        <div className="space-y-1.5 max-h-96 overflow-y-auto custom-scrollbar">
+          {[...history].reverse().map(r => (
+            <button
+              key={r.id}
+              onClick={() => {
+                setSelectedId(r.id);
+                setShowHistory(false);
+              }}
+              className={`w-full flex items-center justify-between gap-2 p-2.5 rounded-xl text-left text-[11px] transition-colors ${r.id === report?.id ? 'bg-indigo-500/10 border border-indigo-500/30' : 'hover:bg-white/5 border border-transparent'}`}
+            >
+              <span className="font-mono text-slate-400">{new Date(r.generatedAt).toLocaleString()}</span>
+              <span className="flex items-center gap-1.5">
+                {r.fallbackReason && <span className="text-[9px] font-bold text-amber-400 uppercase">Fallback</span>}
+                <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded uppercase ${SEVERITY_STYLES[highestSeverity(r)]}`}>
+                  {r.findings.length}
+                </span>
+              </span>
+            </button>
+          ))}
+          {history.length === 0 && <p className="text-center text-xs text-slate-600 py-6">No analyses yet.</p>}
+        </div>
+      ) : report ? (
+        <div className="space-y-4">
+          {viewingPast && (
+            <button onClick={() => setSelectedId(null)} className="flex items-center gap-1 text-[10px] font-bold text-indigo-400 uppercase tracking-wider">
+              <ChevronLeft className="w-3 h-3" /> Past report • {new Date(report.generatedAt).toLocaleString()}
+            </button>
+          )}
+          {report.fallbackReason && (
+            <div className="flex items-start gap-2 p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-[11px] text-amber-300">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <div>
+                <p className="font-bold">Provider failed — showing rule-based findings instead.</p>
+                <p className="font-mono text-amber-400/70 mt-1 break-words">{report.fallbackReason}</p>
+              </div>
+            </div>
+          )}
+          <p className="text-[10px] font-mono text-slate-500">{report.provider}</p>
+          <div className="space-y-4 max-h-[480px] overflow-y-auto custom-scrollbar pr-1">
+            {report.findings.map((finding, i) => {
+              const since = report.fallbackReason ? undefined : firstFlagged(history, report, finding);
+              return (
+                <div key={i} className={`space-y-2 ${i > 0 ? 'pt-4 border-t border-slate-700/50' : ''}`}>
+                  <div className="flex items-center gap-2">
+                    <div className={`text-[10px] font-bold px-2 py-0.5 rounded w-fit uppercase tracking-tighter ${SEVERITY_STYLES[finding.severity]}`}>
+                      {finding.severity} Priority
+                    </div>
+                    {since && since !== report.generatedAt && (
+                      <span className="text-[10px] text-slate-500">first flagged {new Date(since).toLocaleString()}</span>
+                    )}
+                  </div>
+                  <h4 className="font-bold text-slate-100 text-sm">{finding.title}</h4>
+                  <p className="text-xs text-slate-400 leading-relaxed">{finding.content}</p>
+                  {finding.evidence.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {finding.evidence.map((e, j) => (
+                        <span key={j} className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-900/80 border border-slate-800 text-slate-300">
+                          {e.metric}: <span className="text-indigo-300">{e.value}</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="pt-2">
+                    <p className="text-[10px] uppercase font-bold text-indigo-400 mb-1">Architectural Advice</p>
+                    <p className="text-xs text-slate-200 italic">"{finding.recommendation}"</p>
+                  </div>
+                  {finding.suggestedSql && (
+                    <div className="bg-slate-950/80 rounded-xl p-3 border border-slate-800">
+                      <pre className="text-[10px] font-mono text-indigo-300 whitespace-pre-wrap break-all">{finding.suggestedSql}</pre>
+                      <button
+                        onClick={() => onOpenSql(finding.suggestedSql!)}
+                        className="mt-2 flex items-center gap-1.5 text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase"
+                      >
+                        <Terminal className="w-3 h-3" /> Open in SQL Lab
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="h-32 flex flex-col items-center justify-center text-slate-500 text-xs gap-3">
+          <div className="w-8 h-8 border-2 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin" />
+          Analyzing cluster telemetry...
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightPanel;
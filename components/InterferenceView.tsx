@@ -0,0 +1,313 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend,
+  ReferenceArea, ReferenceLine, ScatterChart, Scatter, Rectangle
+} from 'recharts';
+import { Split, AlertTriangle, Terminal, RefreshCcw, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { ClusterDataSource, InterferenceInterval, MetricPoint, MetricRange, StatementDigest } from '../types';
+import { queryRange } from '../services/metricStore';
+import { analyzeInterference, describeCorrelation, loadTolerance, saveTolerance } from '../services/interferenceAnalysis';
+import { listStatementsDuring } from '../services/statementService';
+
+const RANGES: MetricRange[] = ['5m', '1h', '24h', '7d'];
+const TOP_STATEMENTS = 10;
+
+const TOOLTIP_STYLE = { backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '12px', fontSize: 11 };
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+
+const formatTime = (ts: number, range: MetricRange) => {
+  const date = new Date(ts);
+  if (range === '7d') return date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: range === '5m' ? '2-digit' : undefined });
+};
+
+const formatDuration = (ms: number) => ms >= 3600_000 ? `${(ms / 3600_000).toFixed(1)}h` : ms >= 60_000 ? `${Math.round(ms / 60_000)}m` : `${Math.round(ms / 1000)}s`;
+
+const StatCard: React.FC<{ label: string; value: string; sub: string; tone?: 'warn' | 'ok' }> = ({ label, value, sub, tone }) => (
+  <div className="glass-panel rounded-2xl p-5 border border-slate-700/50">
+    <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</p>
+    <p className={`text-2xl font-bold mt-2 font-mono ${tone === 'warn' ? 'text-rose-400' : tone === 'ok' ? 'text-emerald-400' : 'text-slate-100'}`}>{value}</p>
+    <p className="text-[10px] text-slate-500 mt-1">{sub}</p>
+  </div>
+);
+
+const InterferenceView: React.FC<{
+  dataSource: ClusterDataSource;
+  // Bumped by the app whenever a new sample has been stored
+  historyTick: number;
+  onOpenInSqlLab: (sql: string) => void;
+}> = ({ dataSource, historyTick, onOpenInSqlLab }) => {
+  const [range, setRange] = useState<MetricRange>('1h');
+  const [tolerance, setTolerance] = useState(loadTolerance);
+  const [points, setPoints] = useState<MetricPoint[]>([]);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<InterferenceInterval | null>(null);
+  const [statements, setStatements] = useState<StatementDigest[]>([]);
+  const [statementsLoading, setStatementsLoading] = useState(false);
+  const [statementsError, setStatementsError] = useState<string | null>(null);
+  // Only the latest interval lookup may fill the statement list
+  const statementsRequest = useRef(0);
+
+  useEffect(() => {
+    queryRange(dataSource.id, range)
+      .then(next => { setPoints(next); setStoreError(null); })
+      .catch((e: any) => setStoreError(e.message));
+  }, [dataSource, range, historyTick]);
+
+  useEffect(() => {
+    statementsRequest.current++;
+    setSelected(null);
+    setStatementsLoading(false);
+  }, [dataSource, range]);
+
+  const report = useMemo(() => analyzeInterference(points, tolerance), [points, tolerance]);
+  const series = useMemo(() => points.filter(p => typeof p.oltpP99Ms === 'number'), [points]);
+
+  const updateTolerance = (pct: number) => {
+    setTolerance(pct);
+    saveTolerance(pct);
+  };
+
+  const selectInterval = async (interval: InterferenceInterval) => {
+    const request = ++statementsRequest.current;
+    setSelected(interval);
+    setStatementsLoading(true);
+    setStatementsError(null);
+    let next: StatementDigest[] = [];
+    let error: string | null = null;
+    try {
+      next = (await listStatementsDuring(dataSource, interval.start, interval.end)).slice(0, TOP_STATEMENTS);
+    } catch (e: any) {
+      error = e.message;
+    }
+    if (request !== statementsRequest.current) return;
+    setStatements(next);
+    setStatementsError(error);
+    setStatementsLoading(false);
+  };
+
+  const tone = (r: number | null) => r !== null && r >= 0.4 ? 'warn' : r !== null ? 'ok' : undefined;
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-3"><Split className="text-rose-400" /> HTAP Interference</h3>
+          <p className="text-xs text-slate-500 mt-1">Does analytical load on TiFlash slow down transactions? Correlated over the stored metric window.</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-[10px] font-bold uppercase text-slate-500">
+            Tolerance
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={tolerance}
+              onChange={(e) => Number(e.target.value) > 0 && updateTolerance(Number(e.target.value))}
+              className="w-16 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-100 font-mono outline-none focus:border-indigo-500"
+            />
+            % over baseline
+          </label>
+          <div className="flex bg-slate-900/80 p-0.5 rounded-lg border border-slate-800">
+            {RANGES.map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-2.5 py-1 rounded-md text-[10px] font-bold uppercase transition-all ${range === r ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'}`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {storeError && (
+        <div className="glass-panel rounded-2xl p-4 border border-rose-500/20 text-xs text-rose-300 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" /> Metric history unavailable: {storeError}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          label="OLAP QPS ↔ OLTP p99"
+          value={report.olapCorrelation === null ? '—' : report.olapCorrelation.toFixed(2)}
+          sub={describeCorrelation(report.olapCorrelation)}
+          tone={tone(report.olapCorrelation)}
+        />
+        <StatCard
+          label="TiFlash CPU ↔ OLTP p99"
+          value={report.cpuCorrelation === null ? '—' : report.cpuCorrelation.toFixed(2)}
+          sub={describeCorrelation(report.cpuCorrelation)}
+          tone={tone(report.cpuCorrelation)}
+        />
+        <StatCard
+          label="Quiet-period p99"
+          value={report.samples ? formatMs(report.baselineP99Ms) : '—'}
+          sub={report.samples ? `Flag above ${formatMs(report.thresholdP99Ms)}` : 'No p99 samples in range'}
+        />
+        <StatCard
+          label="Degraded intervals"
+          value={String(report.intervals.length)}
+          sub={`${report.samples} samples analysed`}
+          tone={report.intervals.length ? 'warn' : report.samples ? 'ok' : undefined}
+        />
+      </div>
+      {dataSource.kind === 'dataService' && (
+        <p className="text-[10px] text-slate-500 -mt-2">
+          Live OLAP QPS is averaged over the current statement summary window (up to 30 minutes by default), while p99 covers the last minute,
+          so short analytical bursts are smoothed out and correlations understate them.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="glass-panel rounded-2xl p-6 border border-slate-700/50 xl:col-span-2">
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">OLTP p99 vs analytical load</h4>
+          <div className="h-[320px]">
+            {series.length > 1 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(ts) => formatTime(ts, range)}
+                    stroke="#94a3b8"
+                    fontSize={10}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <YAxis yAxisId="latency" stroke="#f43f5e" fontSize={10} axisLine={false} tickLine={false} unit="ms" />
+                  <YAxis yAxisId="load" orientation="right" stroke="#a855f7" fontSize={10} axisLine={false} tickLine={false} />
+                  <Tooltip
+                    contentStyle={TOOLTIP_STYLE}
+                    labelFormatter={(ts) => formatTime(Number(ts), range)}
+                    formatter={(value: any, name: any) => [typeof value === 'number' ? value.toFixed(1) : value, name]}
+                  />
+                  <Legend iconType="circle" wrapperStyle={{ fontSize: 11 }} />
+                  {report.intervals.map(interval => (
+                    <React.Fragment key={interval.start}>
+                      <ReferenceArea
+                        yAxisId="latency"
+                        x1={interval.start}
+                        x2={interval.end}
+                        shape={(props: any) => <Rectangle {...props} fill="#f43f5e" fillOpacity={selected?.start === interval.start ? 0.25 : 0.1} />}
+                      />
+                    </React.Fragment>
+                  ))}
+                  <ReferenceLine yAxisId="latency" y={report.thresholdP99Ms} stroke="#f43f5e" strokeDasharray="4 4" />
+                  <Line yAxisId="latency" type="monotone" dataKey="oltpP99Ms" name="OLTP p99 (ms)" stroke="#f43f5e" dot={false} strokeWidth={2} isAnimationActive={false} />
+                  <Line yAxisId="load" type="monotone" dataKey="olap" name="OLAP QPS" stroke="#a855f7" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                  <Line yAxisId="load" type="monotone" dataKey="tiflashCpuPercent" name="TiFlash CPU %" stroke="#f59e0b" dot={false} strokeDasharray="4 2" isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-xs text-slate-600 text-center px-8">
+                No OLTP p99 samples stored for this range yet. Samples are recorded every 2 seconds while the app is open.
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="glass-panel rounded-2xl p-6 border border-slate-700/50">
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">OLAP QPS vs p99</h4>
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="olap" type="number" name="OLAP QPS" stroke="#94a3b8" fontSize={10} tickFormatter={(v) => Number(v).toFixed(0)} />
+                <YAxis dataKey="oltpP99Ms" type="number" name="p99" unit="ms" stroke="#94a3b8" fontSize={10} tickFormatter={(v) => Number(v).toFixed(0)} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: any) => Number(value).toFixed(1)} />
+                <ReferenceLine y={report.thresholdP99Ms} stroke="#f43f5e" strokeDasharray="4 4" />
+                <Scatter data={series} fill="#a855f7" fillOpacity={0.5} isAnimationActive={false} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="glass-panel rounded-2xl border border-slate-700/50 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-800/60 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-rose-400" />
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Degraded intervals</h4>
+          </div>
+          {report.intervals.length === 0 ? (
+            <div className="p-10 text-center text-xs text-slate-500 flex flex-col items-center gap-2">
+              <CheckCircle2 className="w-6 h-6 text-emerald-500/60" />
+              No interval exceeded the {tolerance}% tolerance while analytical load was elevated.
+            </div>
+          ) : (
+            <div className="max-h-[360px] overflow-y-auto custom-scrollbar divide-y divide-slate-800/50">
+              {report.intervals.map(interval => (
+                <button
+                  key={interval.start}
+                  onClick={() => selectInterval(interval)}
+                  className={`w-full text-left px-6 py-3 flex items-center gap-4 transition-colors ${selected?.start === interval.start ? 'bg-rose-500/10' : 'hover:bg-white/5'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-slate-200 font-mono">
+                      {formatTime(interval.start, range)} – {formatTime(interval.end, range)}
+                    </p>
+                    <p className="text-[10px] text-slate-500">
+                      {formatDuration(interval.end - interval.start)} • OLAP {interval.avgOlapQps.toFixed(1)} QPS
+                      {interval.peakTiflashCpu !== undefined && ` • TiFlash CPU peak ${interval.peakTiflashCpu.toFixed(0)}%`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-bold text-rose-400 font-mono">+{interval.degradationPct.toFixed(0)}%</p>
+                    <p className="text-[10px] text-slate-500 font-mono">p99 {formatMs(interval.peakP99Ms)}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="glass-panel rounded-2xl border border-slate-700/50 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-800/60 flex items-center justify-between">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Statements running at the time</h4>
+            {statementsLoading && <RefreshCcw className="w-3.5 h-3.5 animate-spin text-slate-500" />}
+          </div>
+          {!selected ? (
+            <p className="p-10 text-center text-xs text-slate-500">Select an interval to see the statements in its summary window.</p>
+          ) : statementsError ? (
+            <div className="p-6 text-xs text-rose-300 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {statementsError}</div>
+          ) : (
+            <div className="max-h-[360px] overflow-y-auto custom-scrollbar divide-y divide-slate-800/50">
+              {statements.map(stmt => {
+                const analytical = stmt.tiflashAvgMs !== undefined;
+                return (
+                  <div key={stmt.digest} className="px-6 py-3 flex items-center gap-3 group">
+                    <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded border shrink-0 ${analytical ? 'text-purple-400 border-purple-500/20 bg-purple-500/10' : 'text-blue-400 border-blue-500/20 bg-blue-500/10'}`}>
+                      {analytical ? 'TIFLASH' : 'TIKV'}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-mono text-slate-300 truncate" title={stmt.sampleSql}>{stmt.digestText}</p>
+                      <p className="text-[10px] text-slate-500">{stmt.execCount.toLocaleString()} execs • avg {formatMs(stmt.avgLatencyMs)} • total {formatMs(stmt.sumLatencyMs)}</p>
+                    </div>
+                    <button
+                      onClick={() => onOpenInSqlLab(stmt.sampleSql)}
+                      className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-indigo-400 transition-opacity"
+                      title="Open in SQL Lab"
+                    >
+                      <Terminal className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+              {!statementsLoading && statements.length === 0 && (
+                <p className="p-10 text-center text-xs text-slate-500">No statement summary covers this interval.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InterferenceView;
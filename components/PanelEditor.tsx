@@ -0,0 +1,160 @@
+
+import React, { useEffect, useState } from 'react';
+import { X, Play, RefreshCcw, AlertCircle } from 'lucide-react';
+import { ChartConfig, ClusterDataSource, DashboardPanel, QueryResult, SavedQuery } from '../types';
+import { reconcileChartConfig, suggestChartConfig } from '../services/chartData';
+import { REFRESH_OPTIONS, checkPanelSql } from '../services/dashboards';
+import ChartBuilder from './ChartBuilder';
+
+type PanelDraft = Omit<DashboardPanel, 'id' | 'layout'>;
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-100 focus:border-indigo-500 outline-none";
+
+const PanelEditor: React.FC<{
+  panel: DashboardPanel | null;
+  savedQueries: SavedQuery[];
+  dataSource: ClusterDataSource;
+  resolveSql: (sql: string) => string;
+  onSave: (draft: PanelDraft) => void;
+  onCancel: () => void;
+}> = ({ panel, savedQueries, dataSource, resolveSql, onSave, onCancel }) => {
+  const [title, setTitle] = useState(panel?.title || '');
+  const [queryId, setQueryId] = useState(panel?.queryId && savedQueries.some(q => q.id === panel.queryId) ? panel.queryId : savedQueries[0]?.id || '');
+  const [customSql, setCustomSql] = useState(panel?.sql || '');
+  const [refreshSec, setRefreshSec] = useState(panel?.refreshSec ?? 60);
+  const [chart, setChart] = useState<ChartConfig | null>(panel?.chart || null);
+  const [preview, setPreview] = useState<QueryResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Panels created from scratch default to the first saved query; existing custom panels keep their SQL
+  const [mode, setMode] = useState<'saved' | 'custom'>(panel && !panel.queryId ? 'custom' : savedQueries.length ? 'saved' : 'custom');
+  const saved = savedQueries.find(q => q.id === queryId);
+  const sql = mode === 'saved' ? saved?.sql || '' : customSql;
+
+  const runPreview = async () => {
+    if (!sql.trim()) return;
+    setRunning(true);
+    try {
+      const resolved = resolveSql(sql);
+      checkPanelSql(resolved);
+      setPreview(await dataSource.executeQuery(resolved));
+    } catch (e: any) {
+      setPreview({ columns: [], rows: [], executionTimeMs: 0, engine: 'Unknown', isMPP: false, sql, error: e.message });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  useEffect(() => {
+    runPreview();
+  }, [queryId, mode]);
+
+  const chartConfig = preview && !preview.error
+    ? (chart ? reconcileChartConfig(preview, chart) : suggestChartConfig(preview))
+    : null;
+
+  let sqlError: string | null = null;
+  try {
+    if (sql.trim()) checkPanelSql(sql);
+  } catch (e: any) {
+    sqlError = e.message;
+  }
+
+  const handleSave = () => {
+    if (sqlError) return;
+    onSave({
+      title: title.trim() || saved?.name || 'Untitled panel',
+      queryId: mode === 'saved' ? queryId || undefined : undefined,
+      sql,
+      chart: chartConfig || chart,
+      refreshSec,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+      <div
+        className="glass-panel bg-slate-900/95 rounded-2xl border border-slate-700/50 shadow-2xl w-full max-w-4xl max-h-full overflow-y-auto custom-scrollbar p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-sm">{panel ? 'Edit Panel' : 'Add Panel'}</h3>
+          <button onClick={onCancel} className="text-slate-500 hover:text-slate-200"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="space-y-1 md:col-span-2">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Title</span>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={saved?.name || 'Panel title'} className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Auto-refresh</span>
+            <select value={refreshSec} onChange={(e) => setRefreshSec(Number(e.target.value))} className={inputClass}>
+              {REFRESH_OPTIONS.map(s => <option key={s} value={s}>{s === 0 ? 'Off' : s < 60 ? `${s}s` : `${s / 60}m`}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-1 bg-slate-950 rounded-xl p-1 border border-slate-800 w-fit">
+            {(['saved', 'custom'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                disabled={m === 'saved' && savedQueries.length === 0}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider disabled:opacity-40 ${mode === m ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {m === 'saved' ? 'Saved query' : 'Custom SQL'}
+              </button>
+            ))}
+          </div>
+          {mode === 'saved' ? (
+            <select value={queryId} onChange={(e) => setQueryId(e.target.value)} className={inputClass}>
+              {savedQueries.map(q => <option key={q.id} value={q.id}>{q.folder ? `${q.folder} / ` : ''}{q.name}</option>)}
+            </select>
+          ) : (
+            <textarea
+              value={customSql}
+              onChange={(e) => setCustomSql(e.target.value)}
+              spellCheck={false}
+              rows={4}
+              placeholder="SELECT ... WHERE created_at >= $__timeFrom"
+              className={`${inputClass} font-mono resize-y`}
+            />
+          )}
+          <div className="flex items-center justify-between">
+            <p className={`text-[10px] ${sqlError ? 'text-rose-400' : 'text-slate-600'}`}>
+              {sqlError || 'Use $name for dashboard variables (substituted as quoted values) and $__timeFrom / $__timeTo for the time range.'}
+            </p>
+            <button onClick={runPreview} disabled={running || !sql.trim()} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase flex items-center gap-1 disabled:opacity-50">
+              {running ? <RefreshCcw className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />} Preview
+            </button>
+          </div>
+        </div>
+
+        <div className="border-t border-slate-800 pt-5">
+          {preview?.error ? (
+            <div className="flex items-center gap-2 text-xs text-rose-300 font-mono"><AlertCircle className="w-4 h-4" /> {preview.error}</div>
+          ) : preview && chartConfig ? (
+            <ChartBuilder result={preview} config={chartConfig} onChange={setChart} height={280} />
+          ) : (
+            <p className="text-xs text-slate-600 text-center py-10">{running ? 'Running preview…' : 'Preview the query to configure the chart.'}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onCancel} className="text-xs font-bold text-slate-400 hover:text-slate-200 px-4 py-2">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={!sql.trim() || !!sqlError}
+            className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold py-2 px-5 rounded-xl"
+          >
+            {panel ? 'Save panel' : 'Add panel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PanelEditor;
@@ -0,0 +1,115 @@
+
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, AlertTriangle, Timer } from 'lucide-react';
+import { ExecutionPlan, PlanTreeNode } from '../types';
+import { buildPlanTree, engineForTask } from '../services/planParser';
+
+// An operator is "slow" when its own time is at least this share of the whole plan
+const SLOW_SHARE = 0.25;
+// estRows vs actRows ratio above which the estimate is flagged
+const ESTIMATE_GAP = 10;
+
+const formatMs = (ms?: number) => ms === undefined ? '-' : ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+
+const PlanTree: React.FC<{ plan: ExecutionPlan }> = ({ plan }) => {
+  const roots = useMemo(() => buildPlanTree(plan.operators), [plan]);
+  const totalMs = Math.max(0, ...roots.map(r => r.timeMs ?? 0));
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const toggle = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderNode = (node: PlanTreeNode, path: string, depth: number): React.ReactNode => {
+    const { operator } = node;
+    const isCollapsed = collapsed.has(path);
+    const isSlow = totalMs > 0 && (node.selfTimeMs ?? 0) / totalMs >= SLOW_SHARE;
+    const hasGap = (node.estimateRatio ?? 1) >= ESTIMATE_GAP;
+    const engine = engineForTask(operator.task);
+
+    return (
+      <React.Fragment key={path}>
+        <tr
+          onClick={() => setSelected(selected === path ? null : path)}
+          className={`cursor-pointer transition-colors ${selected === path ? 'bg-indigo-500/10' : 'hover:bg-white/5'} ${isSlow ? 'bg-rose-500/5' : ''}`}
+        >
+          <td className="px-4 py-2 font-mono whitespace-nowrap">
+            <div className="flex items-center gap-1" style={{ paddingLeft: depth * 16 }}>
+              {node.children.length > 0 ? (
+                <button
+                  onClick={(e) => { e.stopPropagation(); toggle(path); }}
+                  className="p-0.5 text-slate-500 hover:text-indigo-400"
+                >
+                  {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                </button>
+              ) : <span className="w-4" />}
+              <span className={isSlow ? 'text-rose-300 font-bold' : 'text-slate-200'}>{operator.id}</span>
+              {isSlow && <span title="Slow operator"><Timer className="w-3 h-3 text-rose-400" /></span>}
+              {hasGap && <span title={`Estimate off by ${node.estimateRatio!.toFixed(0)}x`}><AlertTriangle className="w-3 h-3 text-amber-400" /></span>}
+            </div>
+          </td>
+          <td className="px-4 py-2">
+            <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${
+              engine === 'TiFlash' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' :
+              engine === 'TiKV' ? 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20' :
+              'bg-slate-800 text-slate-400 border-slate-700'
+            }`}>
+              {operator.task}
+            </span>
+          </td>
+          <td className="px-4 py-2 font-mono text-slate-400 text-right">{operator.estRows}</td>
+          {plan.analyzed && (
+            <>
+              <td className={`px-4 py-2 font-mono text-right ${hasGap ? 'text-amber-400 font-bold' : 'text-slate-400'}`}>{operator.actRows}</td>
+              <td className={`px-4 py-2 font-mono text-right ${isSlow ? 'text-rose-400 font-bold' : 'text-slate-400'}`}>{formatMs(node.timeMs)}</td>
+              <td className="px-4 py-2 font-mono text-slate-500 text-right">{operator.memory}</td>
+              <td className="px-4 py-2 font-mono text-slate-500 text-right">{operator.disk}</td>
+            </>
+          )}
+          <td className="px-4 py-2 font-mono text-slate-500">{operator.accessObject}</td>
+        </tr>
+        {selected === path && (
+          <tr className="bg-slate-900/60">
+            <td colSpan={plan.analyzed ? 8 : 4} className="px-6 py-3 font-mono text-[10px] text-slate-400 space-y-1">
+              {operator.operatorInfo && <p><span className="text-indigo-400 font-bold">operator info:</span> {operator.operatorInfo}</p>}
+              {operator.executionInfo && <p><span className="text-indigo-400 font-bold">execution info:</span> {operator.executionInfo}</p>}
+            </td>
+          </tr>
+        )}
+        {!isCollapsed && node.children.map((child, i) => renderNode(child, `${path}.${i}`, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <table className="w-full text-left text-xs">
+      <thead className="bg-slate-800/40 sticky top-0 backdrop-blur-md">
+        <tr className="text-slate-300 uppercase tracking-wider">
+          <th className="px-4 py-3 font-bold border-b border-slate-700/50">Operator</th>
+          <th className="px-4 py-3 font-bold border-b border-slate-700/50">Task</th>
+          <th className="px-4 py-3 font-bold border-b border-slate-700/50 text-right">Est Rows</th>
+          {plan.analyzed && (
+            <>
+              <th className="px-4 py-3 font-bold border-b border-slate-700/50 text-right">Act Rows</th>
+              <th className="px-4 py-3 font-bold border-b border-slate-700/50 text-right">Time</th>
+              <th className="px-4 py-3 font-bold border-b border-slate-700/50 text-right">Memory</th>
+              <th className="px-4 py-3 font-bold border-b border-slate-700/50 text-right">Disk</th>
+            </>
+          )}
+          <th className="px-4 py-3 font-bold border-b border-slate-700/50">Access Object</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-800/50">
+        {roots.map((root, i) => renderNode(root, String(i), 0))}
+      </tbody>
+    </table>
+  );
+};
+
+export default PlanTree;
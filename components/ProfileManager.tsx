@@ -0,0 +1,229 @@
+
+import React, { useEffect, useState } from 'react';
+import { Layers, Lock, Unlock, KeyRound, Plus, Save, Trash2, Plug, AlertCircle, ShieldCheck } from 'lucide-react';
+import { ConnectionProfile, ProfileEnvironment } from '../types';
+import { ENVIRONMENTS, PROFILE_COLORS, needsCredentials } from '../services/connectionProfiles';
+import { EnvironmentTag } from './ProfileSwitcher';
+
+export type VaultState = 'none' | 'locked' | 'unlocked';
+
+export interface ProfileMeta {
+  name: string;
+  environment: ProfileEnvironment;
+  color: string;
+}
+
+const inputClass = "bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-sm text-slate-100 focus:border-indigo-500 outline-none transition-all";
+
+const ProfileManager: React.FC<{
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile | null;
+  isLive: boolean;
+  vaultState: VaultState;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onResetVault: () => void;
+  // Saves the connection form as a new profile, or into `profileId`
+  onSave: (meta: ProfileMeta, profileId?: string) => Promise<void>;
+  onDelete: (profile: ConnectionProfile) => void;
+  onActivate: (profile: ConnectionProfile) => void;
+}> = ({ profiles, activeProfile, isLive, vaultState, onUnlock, onLock, onResetVault, onSave, onDelete, onActivate }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [meta, setMeta] = useState<ProfileMeta>({ name: '', environment: 'staging', color: PROFILE_COLORS[0] });
+
+  // Editing starts from the active profile so "Update" keeps its name and tag
+  useEffect(() => {
+    if (activeProfile) setMeta({ name: activeProfile.name, environment: activeProfile.environment, color: activeProfile.color });
+  }, [activeProfile?.id]);
+
+  const creating = vaultState === 'none';
+  const passphraseInvalid = !passphrase || (creating && passphrase !== confirmPassphrase);
+
+  const unlock = async () => {
+    if (passphraseInvalid) return;
+    setUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const save = async (profileId?: string) => {
+    setError(null);
+    try {
+      await onSave({ ...meta, name: meta.name.trim() }, profileId);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="glass-panel rounded-3xl p-10 border border-slate-700/50 shadow-2xl space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Layers className="text-indigo-400" /> Connection Profiles
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">Named clusters with environment tags. API keys are encrypted in this browser with your passphrase.</p>
+        </div>
+        <div className={`flex items-center gap-2 px-4 py-1.5 rounded-full border font-bold text-[10px] uppercase ${vaultState === 'unlocked' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' : 'bg-slate-800/60 text-slate-400 border-slate-700'}`}>
+          {vaultState === 'unlocked' ? <Unlock className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+          {vaultState === 'unlocked' ? 'Credentials unlocked' : vaultState === 'locked' ? 'Credentials locked' : 'No vault yet'}
+        </div>
+      </div>
+
+      <div className="p-5 rounded-2xl bg-slate-900/50 border border-slate-800 flex flex-wrap items-center gap-3">
+        <KeyRound className="w-5 h-5 text-slate-500" />
+        {vaultState === 'unlocked' ? (
+          <>
+            <p className="text-xs text-slate-400 flex-1">Keys are decrypted in memory for this session. Saving a profile re-encrypts them.</p>
+            <button onClick={onLock} className="text-xs font-bold text-slate-300 bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-xl flex items-center gap-2">
+              <Lock className="w-3.5 h-3.5" /> Lock
+            </button>
+          </>
+        ) : (
+          <>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && unlock()}
+              placeholder={creating ? 'New passphrase' : 'Passphrase'}
+              className={`${inputClass} flex-1 min-w-[160px]`}
+            />
+            {creating && (
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && unlock()}
+                placeholder="Repeat passphrase"
+                className={`${inputClass} flex-1 min-w-[160px]`}
+              />
+            )}
+            <button
+              onClick={unlock}
+              disabled={unlocking || passphraseInvalid}
+              className="text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-4 py-2.5 rounded-xl flex items-center gap-2"
+            >
+              {creating ? <ShieldCheck className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+              {unlocking ? 'Deriving key…' : creating ? 'Create vault' : 'Unlock'}
+            </button>
+            {vaultState === 'locked' && (
+              <button
+                onClick={() => confirm('Forget every stored API key? Profiles are kept, but their keys must be entered again.') && onResetVault()}
+                className="text-[10px] font-bold text-slate-500 hover:text-rose-400 uppercase"
+              >
+                Forgot passphrase
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {error && <div className="flex items-center gap-2 text-xs text-rose-300"><AlertCircle className="w-4 h-4" /> {error}</div>}
+
+      <div className="space-y-2">
+        {profiles.map(profile => {
+          const active = activeProfile?.id === profile.id;
+          // Its keys live in the ciphertext, so deleting it has to re-seal the vault
+          const keysLocked = vaultState === 'locked' && needsCredentials(profile);
+          return (
+            <div
+              key={profile.id}
+              className={`flex items-center gap-4 px-5 py-3 rounded-2xl border transition-all ${active ? 'bg-slate-900 border-slate-700' : 'border-slate-800/60 hover:bg-slate-900/50'}`}
+            >
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: profile.color }} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-bold text-slate-100 truncate">{profile.name}</span>
+                  <EnvironmentTag profile={profile} />
+                  {active && isLive && <span className="text-[9px] font-bold uppercase text-emerald-400">Connected</span>}
+                </div>
+                <p className="text-[10px] text-slate-500 font-mono truncate">
+                  {profile.backend === 'standIn' ? `Stand-in • ${profile.standInUrl}` : `Data Service • ${profile.endpoint}`}
+                </p>
+              </div>
+              <button
+                onClick={() => onActivate(profile)}
+                className="text-[10px] font-bold uppercase text-indigo-400 hover:text-indigo-300 flex items-center gap-1.5"
+              >
+                <Plug className="w-3.5 h-3.5" /> Connect
+              </button>
+              <button
+                onClick={() => confirm(`Delete profile "${profile.name}"?`) && onDelete(profile)}
+                disabled={keysLocked}
+                className="text-slate-600 hover:text-rose-400 disabled:opacity-40 disabled:hover:text-slate-600"
+                title={keysLocked ? 'Unlock the vault to delete this profile and its keys' : 'Delete profile'}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+        {profiles.length === 0 && (
+          <p className="text-xs text-slate-600 text-center py-4">No profiles yet. Fill in a connection below and save it here.</p>
+        )}
+      </div>
+
+      <div className="pt-6 border-t border-slate-800/50 space-y-4">
+        <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Save the connection below as a profile</p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            value={meta.name}
+            onChange={(e) => setMeta({ ...meta, name: e.target.value })}
+            placeholder="Profile name, e.g. prod-us-east"
+            className={`${inputClass} flex-1 min-w-[200px]`}
+          />
+          <select
+            value={meta.environment}
+            onChange={(e) => setMeta({ ...meta, environment: e.target.value as ProfileEnvironment })}
+            className={inputClass}
+          >
+            {ENVIRONMENTS.map(env => <option key={env.value} value={env.value}>{env.label}</option>)}
+          </select>
+          <div className="flex items-center gap-1.5">
+            {PROFILE_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => setMeta({ ...meta, color })}
+                className={`w-6 h-6 rounded-full border-2 transition-all ${meta.color === color ? 'border-white scale-110' : 'border-transparent'}`}
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => save()}
+            disabled={!meta.name.trim()}
+            className="text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-5 py-2.5 rounded-xl flex items-center gap-2"
+          >
+            <Plus className="w-3.5 h-3.5" /> Save as new profile
+          </button>
+          {activeProfile && (
+            <button
+              onClick={() => save(activeProfile.id)}
+              disabled={!meta.name.trim()}
+              className="text-xs font-bold text-slate-200 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-5 py-2.5 rounded-xl flex items-center gap-2"
+            >
+              <Save className="w-3.5 h-3.5" /> Update "{activeProfile.name}"
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileManager;
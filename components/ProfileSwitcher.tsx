@@ -0,0 +1,102 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Wifi, WifiOff, ChevronDown, Lock, Cpu, Settings } from 'lucide-react';
+import { ConnectionProfile } from '../types';
+import { ENVIRONMENTS, needsCredentials } from '../services/connectionProfiles';
+
+export const EnvironmentTag: React.FC<{ profile: ConnectionProfile }> = ({ profile }) => (
+  <span
+    className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded border"
+    style={{ color: profile.color, borderColor: `${profile.color}55`, backgroundColor: `${profile.color}1a` }}
+  >
+    {ENVIRONMENTS.find(e => e.value === profile.environment)?.label || profile.environment}
+  </span>
+);
+
+/**
+ * Header badge showing the active connection; opens a menu to switch profiles
+ */
+const ProfileSwitcher: React.FC<{
+  isLive: boolean;
+  activeProfile: ConnectionProfile | null;
+  profiles: ConnectionProfile[];
+  vaultUnlocked: boolean;
+  onSelect: (profile: ConnectionProfile) => void;
+  onSimulator: () => void;
+  onManage: () => void;
+}> = ({ isLive, activeProfile, profiles, vaultUnlocked, onSelect, onSimulator, onManage }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const liveProfile = isLive ? activeProfile : null;
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`h-11 px-5 bg-slate-900 rounded-2xl border border-slate-800 flex items-center justify-center gap-3 transition-all duration-700 ${isLive ? 'border-emerald-500/50 shadow-[0_0_20px_rgba(16,185,129,0.1)]' : ''}`}
+        style={liveProfile ? { borderColor: `${liveProfile.color}80`, boxShadow: `0 0 20px ${liveProfile.color}1a` } : undefined}
+      >
+        {isLive ? <Wifi className="w-4 h-4" style={{ color: liveProfile?.color || '#34d399' }} /> : <WifiOff className="w-4 h-4 text-slate-600" />}
+        {liveProfile ? (
+          <>
+            <span className="text-[10px] font-black uppercase tracking-[0.15em] text-slate-100 max-w-[140px] truncate">{liveProfile.name}</span>
+            <EnvironmentTag profile={liveProfile} />
+          </>
+        ) : (
+          <span className={`text-[10px] font-black uppercase tracking-[0.15em] ${isLive ? 'text-emerald-400' : 'text-slate-600'}`}>
+            {isLive ? 'Online Cluster' : 'Internal Node'}
+          </span>
+        )}
+        <ChevronDown className="w-3 h-3 text-slate-500" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-slate-900 border border-slate-700/60 rounded-2xl shadow-2xl p-2 z-50">
+          {profiles.map(profile => {
+            const locked = needsCredentials(profile) && !vaultUnlocked;
+            const active = liveProfile?.id === profile.id;
+            return (
+              <button
+                key={profile.id}
+                onClick={() => { setOpen(false); onSelect(profile); }}
+                className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left transition-colors ${active ? 'bg-slate-800' : 'hover:bg-slate-800/60'}`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: profile.color }} />
+                <span className="text-xs font-bold text-slate-200 flex-1 truncate">{profile.name}</span>
+                <EnvironmentTag profile={profile} />
+                {locked && <Lock className="w-3 h-3 text-slate-500" />}
+              </button>
+            );
+          })}
+          {profiles.length === 0 && <p className="px-3 py-3 text-[11px] text-slate-500">No saved profiles yet.</p>}
+          <div className="border-t border-slate-800 mt-2 pt-2 space-y-1">
+            <button
+              onClick={() => { setOpen(false); onSimulator(); }}
+              className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left text-xs font-bold transition-colors ${!isLive ? 'bg-slate-800 text-slate-200' : 'text-slate-400 hover:bg-slate-800/60'}`}
+            >
+              <Cpu className="w-3.5 h-3.5" /> Internal Simulator
+            </button>
+            <button
+              onClick={() => { setOpen(false); onManage(); }}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left text-xs font-bold text-slate-400 hover:bg-slate-800/60"
+            >
+              <Settings className="w-3.5 h-3.5" /> Manage profiles…
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
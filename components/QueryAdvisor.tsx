@@ -0,0 +1,119 @@
+
+import React, { useMemo } from 'react';
+import { Wand2, X, Hash, Zap, CornerDownLeft, RefreshCcw, AlertCircle } from 'lucide-react';
+import { QueryAdvice, AdviceMode } from '../types';
+import { diffLines, DiffRow } from '../services/textDiff';
+
+const ROW_STYLES: Record<DiffRow['kind'], [string, string]> = {
+  same: ['text-slate-400', 'text-slate-400'],
+  removed: ['bg-rose-500/10 text-rose-300', ''],
+  added: ['', 'bg-emerald-500/10 text-emerald-300'],
+  changed: ['bg-rose-500/10 text-rose-300', 'bg-emerald-500/10 text-emerald-300'],
+};
+
+const TITLES: Record<AdviceMode, string> = {
+  explainError: 'Error Explanation',
+  optimize: 'Optimization Suggestion',
+};
+
+const QueryAdvisor: React.FC<{
+  mode: AdviceMode;
+  advice: QueryAdvice | null;
+  loading: boolean;
+  error: string | null;
+  onUseSql: (sql: string) => void;
+  onClose: () => void;
+}> = ({ mode, advice, loading, error, onUseSql, onClose }) => {
+  const rows = useMemo(() => advice ? diffLines(advice.originalSql, advice.rewrittenSql) : [], [advice]);
+  const unchanged = rows.every(r => r.kind === 'same');
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 border border-indigo-500/30 space-y-5 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm flex items-center gap-2">
+          <Wand2 className="w-4 h-4 text-indigo-400" /> {TITLES[mode]}
+          {advice && (
+            <span className="text-[10px] font-medium text-slate-500">
+              by {advice.provider}
+            </span>
+          )}
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-200" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center gap-3 text-xs text-slate-400">
+          <RefreshCcw className="w-4 h-4 animate-spin text-indigo-400" /> Sending statement, {mode === 'optimize' ? 'plan' : 'error'} and table schemas for analysis...
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-3 p-3 rounded-xl bg-rose-500/10 border border-rose-500/20 text-rose-300 text-xs font-mono">
+          <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      {advice && !loading && (
+        <>
+          <p className="text-xs text-slate-300 leading-relaxed">{advice.reasoning}</p>
+
+          {unchanged ? (
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">No rewrite suggested</p>
+          ) : (
+            <div>
+              <div className="grid grid-cols-2 gap-px text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">
+                <span>Original</span>
+                <span>Rewritten</span>
+              </div>
+              <div className="rounded-xl border border-slate-800 bg-slate-950/80 overflow-hidden font-mono text-[11px]">
+                {rows.map((row, i) => (
+                  <div key={i} className="grid grid-cols-2 divide-x divide-slate-800">
+                    <pre className={`px-3 py-0.5 whitespace-pre-wrap break-all ${ROW_STYLES[row.kind][0]}`}>{row.left ?? ' '}</pre>
+                    <pre className={`px-3 py-0.5 whitespace-pre-wrap break-all ${ROW_STYLES[row.kind][1]}`}>{row.right ?? ' '}</pre>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => onUseSql(advice.rewrittenSql)}
+                className="mt-3 bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold py-1.5 px-3 rounded-lg flex items-center gap-1.5 uppercase"
+              >
+                <CornerDownLeft className="w-3 h-3" /> Use rewritten SQL
+              </button>
+            </div>
+          )}
+
+          {advice.changes.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Proposed Schema Changes</h4>
+              <div className="space-y-2">
+                {advice.changes.map((change, i) => (
+                  <div key={i} className="p-3 rounded-xl bg-slate-900/60 border border-slate-800">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className={`flex items-center gap-1 text-[10px] font-bold uppercase ${change.kind === 'index' ? 'text-purple-400' : 'text-emerald-400'}`}>
+                        {change.kind === 'index' ? <Hash className="w-3 h-3" /> : <Zap className="w-3 h-3" />}
+                        {change.kind === 'index' ? 'Index' : 'TiFlash Replica'}
+                      </span>
+                      <button
+                        onClick={() => onUseSql(change.ddl)}
+                        className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase"
+                        title="Load the DDL into the editor for review"
+                      >
+                        Open in editor
+                      </button>
+                    </div>
+                    <pre className="text-[11px] font-mono text-slate-200 mt-2 whitespace-pre-wrap break-all">{change.ddl}</pre>
+                    <p className="text-[11px] text-slate-500 mt-1">{change.reason}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QueryAdvisor;
@@ -0,0 +1,141 @@
+
+import React, { useMemo, useState } from 'react';
+import { Search, Play, CornerDownLeft, GitCompare, X, AlertCircle, ArrowRight } from 'lucide-react';
+import { QueryHistoryEntry } from '../types';
+import { laterRuns } from '../services/queryLibrary';
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+
+const STOP_LABELS = { cancelled: 'cancelled', timeout: 'timed out' };
+
+// Stopped runs have partial rows and timings, so they are not compared
+const isComplete = (entry: QueryHistoryEntry) => !entry.error && !entry.stopReason;
+
+const RunColumn: React.FC<{ label: string; entry: QueryHistoryEntry }> = ({ label, entry }) => (
+  <div className="flex-1 min-w-0 space-y-1 text-[10px] font-mono">
+    <p className="font-bold text-slate-500 uppercase tracking-widest font-sans">{label}</p>
+    <p className="text-slate-400">{new Date(entry.executedAt).toLocaleString()}</p>
+    {entry.error ? (
+      <p className="text-rose-300 break-words">{entry.error}</p>
+    ) : (
+      <>
+        <p className="text-slate-200">{entry.stopReason ? <span className="text-amber-400">{STOP_LABELS[entry.stopReason]} after {formatMs(entry.durationMs)}</span> : formatMs(entry.durationMs)}</p>
+        <p className="text-slate-400">{entry.rowCount} rows • {entry.engine}</p>
+      </>
+    )}
+  </div>
+);
+
+const Comparison: React.FC<{ base: QueryHistoryEntry; later?: QueryHistoryEntry; onRunNow: () => void; onClose: () => void }> = ({ base, later, onRunNow, onClose }) => {
+  const delta = later && isComplete(later) && isComplete(base) && base.durationMs > 0
+    ? ((later.durationMs - base.durationMs) / base.durationMs) * 100
+    : undefined;
+  return (
+    <div className="p-3 rounded-xl bg-indigo-500/5 border border-indigo-500/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-1.5"><GitCompare className="w-3 h-3" /> Compare runs</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-200"><X className="w-3 h-3" /></button>
+      </div>
+      <pre className="text-[10px] font-mono text-slate-400 whitespace-pre-wrap break-all line-clamp-3">{base.sql}</pre>
+      {later ? (
+        <>
+          <div className="flex items-start gap-2">
+            <RunColumn label="Earlier" entry={base} />
+            <ArrowRight className="w-3 h-3 text-slate-600 mt-4 shrink-0" />
+            <RunColumn label="Next run" entry={later} />
+          </div>
+          <div className="flex flex-wrap gap-2 text-[10px] font-bold">
+            {delta !== undefined && (
+              <span className={`px-1.5 py-0.5 rounded ${delta <= 0 ? 'bg-emerald-500/10 text-emerald-400' : 'bg-rose-500/10 text-rose-400'}`}>
+                {delta > 0 ? '+' : ''}{delta.toFixed(0)}% time
+              </span>
+            )}
+            {later.rowCount !== base.rowCount && isComplete(later) && isComplete(base) && (
+              <span className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400">rows {base.rowCount} → {later.rowCount}</span>
+            )}
+            {later.engine !== base.engine && (
+              <span className="px-1.5 py-0.5 rounded bg-purple-500/10 text-purple-400">engine {base.engine} → {later.engine}</span>
+            )}
+            {!!base.error !== !!later.error && (
+              <span className="px-1.5 py-0.5 rounded bg-rose-500/10 text-rose-400">{later.error ? 'now failing' : 'no longer failing'}</span>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[10px] text-slate-500">No later run of this statement yet.</p>
+          <button onClick={onRunNow} className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 uppercase flex items-center gap-1">
+            <Play className="w-3 h-3" /> Run now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const QueryHistory: React.FC<{
+  history: QueryHistoryEntry[];
+  onOpen: (sql: string) => void;
+  onRun: (sql: string) => void;
+  onClear: () => void;
+}> = ({ history, onOpen, onRun, onClear }) => {
+  const [search, setSearch] = useState('');
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return [...history].reverse().filter(h => !term || h.sql.toLowerCase().includes(term));
+  }, [history, search]);
+
+  const base = history.find(h => h.id === compareId);
+  const later = base ? laterRuns(history, base)[0] : undefined;
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Execution History</h4>
+        <button onClick={onClear} className="text-[10px] font-bold text-slate-600 hover:text-indigo-400 uppercase tracking-wider">Clear</button>
+      </div>
+      <div className="relative mb-4">
+        <Search className="w-3.5 h-3.5 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          placeholder="Filter by SQL"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-9 pr-3 py-2 text-xs text-slate-100 focus:border-indigo-500 outline-none"
+        />
+      </div>
+
+      {base && <div className="mb-4"><Comparison base={base} later={later} onRunNow={() => onRun(base.sql)} onClose={() => setCompareId(null)} /></div>}
+
+      <div className="space-y-2 flex-1 overflow-y-auto custom-scrollbar">
+        {visible.map(entry => (
+          <div key={entry.id} className={`group p-2.5 rounded-xl border transition-colors ${entry.id === compareId ? 'border-indigo-500/40 bg-indigo-500/5' : 'border-slate-800/60 bg-slate-900/40 hover:bg-slate-900/80'}`}>
+            <pre className="text-[10px] font-mono text-slate-300 whitespace-pre-wrap break-all line-clamp-2">{entry.sql}</pre>
+            <div className="flex items-center justify-between mt-1.5 text-[10px]">
+              <span className="font-mono text-slate-600 flex items-center gap-1.5">
+                {entry.error ? (
+                  <span className="text-rose-400 flex items-center gap-1" title={entry.error}><AlertCircle className="w-3 h-3" /> failed</span>
+                ) : entry.stopReason ? (
+                  <span className="text-amber-400">{STOP_LABELS[entry.stopReason]} • {entry.rowCount} rows</span>
+                ) : (
+                  <span>{formatMs(entry.durationMs)} • {entry.rowCount} rows • {entry.engine}</span>
+                )}
+              </span>
+              <span className="flex items-center gap-1.5 opacity-0 group-hover:opacity-100">
+                <button onClick={() => onOpen(entry.sql)} className="text-slate-500 hover:text-indigo-400" title="Open in editor"><CornerDownLeft className="w-3 h-3" /></button>
+                <button onClick={() => onRun(entry.sql)} className="text-slate-500 hover:text-emerald-400" title="Re-run"><Play className="w-3 h-3" /></button>
+                <button onClick={() => setCompareId(entry.id)} className="text-slate-500 hover:text-indigo-400" title="Compare with the next run"><GitCompare className="w-3 h-3" /></button>
+              </span>
+            </div>
+            <p className="text-[9px] text-slate-600 mt-0.5">{new Date(entry.executedAt).toLocaleString()}</p>
+          </div>
+        ))}
+        {visible.length === 0 && <p className="text-[10px] text-slate-600 text-center py-6">No executions recorded.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default QueryHistory;
@@ -0,0 +1,66 @@
+
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { QueryTab } from '../types';
+
+const QueryTabs: React.FC<{
+  tabs: QueryTab[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+}> = ({ tabs, activeId, onSelect, onClose, onNew, onRename }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+
+  return (
+    <div className="flex items-end gap-1 px-3 pt-2 bg-slate-900/60 border-b border-slate-700/50 overflow-x-auto custom-scrollbar">
+      {tabs.map(tab => (
+        <div
+          key={tab.id}
+          onClick={() => onSelect(tab.id)}
+          onDoubleClick={() => setEditing(tab.id)}
+          className={`group flex items-center gap-2 px-3 py-1.5 rounded-t-lg text-[11px] font-bold cursor-pointer border border-b-0 transition-colors ${
+            tab.id === activeId ? 'bg-slate-800/80 text-slate-100 border-slate-700/50' : 'text-slate-500 border-transparent hover:text-slate-300'
+          }`}
+          title="Double-click to rename"
+        >
+          {editing === tab.id ? (
+            <input
+              autoFocus
+              defaultValue={tab.title}
+              onBlur={(e) => {
+                onRename(tab.id, e.target.value.trim() || tab.title);
+                setEditing(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              className="bg-slate-950 border border-slate-700 rounded px-1 w-28 text-[11px] outline-none"
+            />
+          ) : (
+            <span className="max-w-[10rem] truncate">{tab.title}</span>
+          )}
+          {tabs.length > 1 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose(tab.id);
+              }}
+              className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-rose-400"
+              title="Close tab"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button onClick={onNew} className="p-1.5 mb-0.5 text-slate-500 hover:text-indigo-400" title="New tab">
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export default QueryTabs;
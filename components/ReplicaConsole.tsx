@@ -0,0 +1,246 @@
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import { HardDrive, RefreshCcw, CheckCircle2, AlertCircle, Search, X } from 'lucide-react';
+import { ClusterDataSource, SchemaTableInfo, TiFlashReplica, ReplicaProgressSample } from '../types';
+import { listReplicas, setReplicaCount, buildSetReplicaSql, replicaKey } from '../services/replicaService';
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_SAMPLES = 120;
+
+interface ReplicaRow {
+  database: string;
+  table: string;
+  replica?: TiFlashReplica;
+}
+
+interface PendingChange {
+  database: string;
+  table: string;
+  from: number;
+  to: number;
+}
+
+const ReplicaConsole: React.FC<{
+  dataSource: ClusterDataSource;
+  schema: SchemaTableInfo[];
+  onLog: (msg: string, type?: 'info' | 'error' | 'success') => void;
+}> = ({ dataSource, schema, onLog }) => {
+  const [replicas, setReplicas] = useState<TiFlashReplica[]>([]);
+  const [history, setHistory] = useState<Record<string, ReplicaProgressSample[]>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const loadReplicas = useCallback(async () => {
+    setLoading(true);
+    try {
+      const next = await listReplicas(dataSource);
+      const time = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+      setReplicas(next);
+      setHistory(prev => {
+        const updated = { ...prev };
+        next.forEach(r => {
+          const key = replicaKey(r.database, r.table);
+          updated[key] = [...(updated[key] || []), { time, progress: r.progress }].slice(-MAX_SAMPLES);
+        });
+        return updated;
+      });
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [dataSource]);
+
+  useEffect(() => {
+    loadReplicas();
+    const interval = setInterval(loadReplicas, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadReplicas]);
+
+  // Tables without a replica are not in TIFLASH_REPLICA, so merge with the schema to list them too
+  const rows = useMemo<ReplicaRow[]>(() => {
+    const byKey = new Map<string, ReplicaRow>();
+    schema.forEach(t => byKey.set(replicaKey(t.database, t.name), { database: t.database, table: t.name }));
+    replicas.forEach(r => byKey.set(replicaKey(r.database, r.table), { database: r.database, table: r.table, replica: r }));
+    const needle = filter.trim().toLowerCase();
+    return Array.from(byKey.values())
+      .filter(r => !needle || replicaKey(r.database, r.table).toLowerCase().includes(needle))
+      .sort((a, b) => replicaKey(a.database, a.table).localeCompare(replicaKey(b.database, b.table)));
+  }, [schema, replicas, filter]);
+
+  const requestChange = (row: ReplicaRow) => {
+    const key = replicaKey(row.database, row.table);
+    const to = Number(drafts[key]);
+    if (!Number.isInteger(to) || to < 0) {
+      onLog(`Invalid replica count for ${key}`, 'error');
+      return;
+    }
+    setPending({ database: row.database, table: row.table, from: row.replica?.replicaCount ?? 0, to });
+  };
+
+  const applyChange = async () => {
+    if (!pending) return;
+    const key = replicaKey(pending.database, pending.table);
+    setApplying(true);
+    try {
+      await setReplicaCount(dataSource, pending.database, pending.table, pending.to);
+      onLog(`TiFlash replica for ${key} set to ${pending.to}`, 'success');
+      setHistory(prev => ({ ...prev, [key]: [] }));
+      setDrafts(prev => ({ ...prev, [key]: '' }));
+      setPending(null);
+      loadReplicas();
+    } catch (e: any) {
+      onLog(`Replica change failed for ${key}: ${e.message}`, 'error');
+      setError(e.message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="glass-panel rounded-2xl p-8 border border-slate-700/50">
+        <div className="flex items-center justify-between mb-6 gap-4">
+          <div>
+            <h3 className="text-lg font-bold flex items-center gap-3">
+              <HardDrive className="text-emerald-400" /> TiFlash Replica Console
+            </h3>
+            <p className="text-slate-400 text-sm">Columnar replicas per table from information_schema.TIFLASH_REPLICA</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="relative">
+              <Search className="w-3.5 h-3.5 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                placeholder="Filter tables"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="bg-slate-950 border border-slate-800 rounded-xl pl-9 pr-4 py-2 text-xs text-slate-100 focus:border-indigo-500 outline-none"
+              />
+            </div>
+            <button onClick={loadReplicas} className="p-2 text-slate-400 hover:text-indigo-400 hover:bg-indigo-500/10 rounded-lg transition-all" title="Refresh Replicas">
+              <RefreshCcw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 flex items-center gap-3 p-4 rounded-xl bg-rose-500/10 border border-rose-500/20 text-rose-300 text-xs font-mono">
+            <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+          </div>
+        )}
+
+        {pending && (
+          <div className="mb-6 p-5 rounded-2xl bg-amber-500/5 border border-amber-500/30 flex items-center justify-between gap-6">
+            <div>
+              <p className="text-xs font-bold text-amber-400 uppercase tracking-wider mb-2">Confirm replica change</p>
+              <p className="text-xs text-slate-300 mb-2">
+                {pending.to === 0
+                  ? `This drops every TiFlash replica of ${pending.database}.${pending.table}; analytical queries will fall back to TiKV.`
+                  : `Replica count goes from ${pending.from} to ${pending.to}. TiFlash will resync the table in the background.`}
+              </p>
+              <code className="text-[11px] font-mono text-indigo-300">{buildSetReplicaSql(pending.database, pending.table, pending.to)}</code>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => setPending(null)} className="p-2 text-slate-400 hover:text-slate-200 rounded-lg" title="Cancel">
+                <X className="w-4 h-4" />
+              </button>
+              <button
+                onClick={applyChange}
+                disabled={applying}
+                className="bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white text-xs font-bold py-2 px-4 rounded-xl flex items-center gap-2"
+              >
+                {applying && <RefreshCcw className="w-3.5 h-3.5 animate-spin" />} Apply
+              </button>
+            </div>
+          </div>
+        )}
+
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-800/40">
+            <tr>
+              {['Table', 'Replicas', 'Available', 'Progress', 'Sync History', 'Set Replicas'].map(h => (
+                <th key={h} className="px-6 py-4 text-slate-400 font-bold uppercase tracking-widest text-[10px] border-b border-slate-700">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {rows.map(row => {
+              const key = replicaKey(row.database, row.table);
+              const samples = history[key] || [];
+              return (
+                <tr key={key} className="hover:bg-white/5 transition-colors">
+                  <td className="px-6 py-4 font-mono text-xs">
+                    <span className="text-slate-500">{row.database}.</span><span className="text-slate-100 font-bold">{row.table}</span>
+                  </td>
+                  <td className="px-6 py-4 font-mono text-slate-300">{row.replica?.replicaCount ?? 0}</td>
+                  <td className="px-6 py-4">
+                    {!row.replica ? (
+                      <span className="text-[10px] font-bold text-slate-600 uppercase">None</span>
+                    ) : row.replica.available ? (
+                      <span className="flex items-center gap-1.5 text-[10px] font-bold text-emerald-400 uppercase"><CheckCircle2 className="w-3 h-3" /> Available</span>
+                    ) : (
+                      <span className="flex items-center gap-1.5 text-[10px] font-bold text-amber-400 uppercase"><RefreshCcw className="w-3 h-3 animate-spin" /> Syncing</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    {row.replica && (
+                      <div className="flex items-center gap-3">
+                        <div className="w-24 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                          <div className={`h-full transition-all duration-700 ${row.replica.available ? 'bg-emerald-500' : 'bg-amber-500'}`} style={{ width: `${row.replica.progress * 100}%` }} />
+                        </div>
+                        <span className="text-xs font-mono text-slate-400">{(row.replica.progress * 100).toFixed(0)}%</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 w-40">
+                    {samples.length > 1 && (
+                      <div className="h-8 w-32">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={samples}>
+                            <YAxis hide domain={[0, 1]} />
+                            <Line type="monotone" dataKey="progress" stroke="#22c55e" strokeWidth={2} dot={false} isAnimationActive={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder={String(row.replica?.replicaCount ?? 0)}
+                        value={drafts[key] ?? ''}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                        className="w-16 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-100 focus:border-indigo-500 outline-none"
+                      />
+                      <button
+                        onClick={() => requestChange(row)}
+                        disabled={!drafts[key]}
+                        className="text-[10px] font-bold text-indigo-400 hover:text-indigo-300 disabled:opacity-30 bg-indigo-500/10 px-3 py-1.5 rounded-lg border border-indigo-500/20 uppercase"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && !loading && (
+          <p className="text-center text-xs text-slate-600 py-12">No tables found on this connection.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplicaConsole;
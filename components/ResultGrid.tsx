@@ -0,0 +1,334 @@
+
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ArrowUp, ArrowDown, ArrowUpDown, Pin, PinOff, Copy, CheckCircle2, FilterX, AlertCircle } from 'lucide-react';
+import { QueryResult } from '../types';
+import { GridSort, columnType, isNumericType, isNull, cellText, sortRows, filterRows, toTsv } from '../services/resultGrid';
+
+const ROW_HEIGHT = 30;
+const HEADER_HEIGHT = 74;
+const GUTTER_WIDTH = 56;
+const OVERSCAN = 10;
+const MIN_WIDTH = 60;
+
+interface Cell {
+  row: number;
+  col: number;
+}
+
+const defaultWidth = (name: string, type: string) =>
+  Math.min(320, Math.max(96, Math.max(name.length, type.length) * 8 + 48));
+
+const nextSort = (current: GridSort | null, column: string): GridSort | null => {
+  if (current?.column !== column) return { column, direction: 'asc' };
+  return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+};
+
+const ResultGrid: React.FC<{ result: QueryResult }> = ({ result }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(480);
+  const [sort, setSort] = useState<GridSort | null>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [anchor, setAnchor] = useState<Cell | null>(null);
+  const [focus, setFocus] = useState<Cell | null>(null);
+  const [copyStatus, setCopyStatus] = useState<{ ok: boolean; message?: string } | null>(null);
+  const copyTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const types = useMemo(
+    () => Object.fromEntries(result.columns.map(c => [c, columnType(result, c)])),
+    [result]
+  );
+
+  // Different columns start from a clean slate. Rows streaming into the same
+  // columns keep sort, filters and scroll; callers key the grid per run.
+  const columnsKey = result.columns.join('\n');
+  useEffect(() => {
+    setSort(null);
+    setFilters({});
+    setPinned([]);
+    setAnchor(null);
+    setFocus(null);
+    setWidths(Object.fromEntries(result.columns.map(c => [c, defaultWidth(c, types[c])])));
+    scrollRef.current?.scrollTo({ top: 0, left: 0 });
+  }, [columnsKey]);
+
+  // Selection indexes refer to the visible order, so they go stale when it changes
+  useEffect(() => {
+    setAnchor(null);
+    setFocus(null);
+  }, [filters, sort]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const stop = () => { dragging.current = false; };
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, []);
+
+  const columns = useMemo(
+    () => [...result.columns.filter(c => pinned.includes(c)), ...result.columns.filter(c => !pinned.includes(c))],
+    [result, pinned]
+  );
+  const rows = useMemo(() => sortRows(filterRows(result.rows, filters), sort), [result, filters, sort]);
+
+  const widthOf = (c: string) => widths[c] ?? defaultWidth(c, types[c]);
+  const pinnedOffsets = useMemo(() => {
+    const offsets: Record<string, number> = {};
+    let left = GUTTER_WIDTH;
+    columns.filter(c => pinned.includes(c)).forEach(c => {
+      offsets[c] = left;
+      left += widthOf(c);
+    });
+    return offsets;
+  }, [columns, pinned, widths]);
+  const totalWidth = GUTTER_WIDTH + columns.reduce((sum, c) => sum + widthOf(c), 0);
+
+  const bodyTop = Math.max(0, scrollTop - HEADER_HEIGHT);
+  const start = Math.max(0, Math.floor(bodyTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((bodyTop + viewport) / ROW_HEIGHT) + OVERSCAN);
+
+  const range = anchor && focus ? {
+    top: Math.min(anchor.row, focus.row),
+    bottom: Math.max(anchor.row, focus.row),
+    left: Math.min(anchor.col, focus.col),
+    right: Math.max(anchor.col, focus.col),
+  } : null;
+  const isSelected = (row: number, col: number) =>
+    !!range && row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+  const copySelection = (withHeader: boolean) => {
+    const selected = range
+      ? { cols: columns.slice(range.left, range.right + 1), rows: rows.slice(range.top, range.bottom + 1) }
+      : { cols: columns, rows };
+    // The clipboard API is missing outside secure contexts and rejects without permission or focus
+    Promise.resolve()
+      .then(() => navigator.clipboard.writeText(toTsv(selected.cols, selected.rows, withHeader)))
+      .then(() => setCopyStatus({ ok: true }), (e: any) => setCopyStatus({ ok: false, message: e?.message || 'Clipboard is not available' }));
+    if (copyTimer.current) clearTimeout(copyTimer.current);
+    copyTimer.current = setTimeout(() => setCopyStatus(null), 3000);
+  };
+
+  const selectCell = (cell: Cell, extend: boolean) => {
+    if (!extend || !anchor) setAnchor(cell);
+    setFocus(cell);
+  };
+
+  const scrollIntoView = (row: number) => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = HEADER_HEIGHT + row * ROW_HEIGHT;
+    if (top < el.scrollTop + HEADER_HEIGHT) el.scrollTop = top - HEADER_HEIGHT;
+    else if (top + ROW_HEIGHT > el.scrollTop + el.clientHeight) el.scrollTop = top + ROW_HEIGHT - el.clientHeight;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.target as HTMLElement).tagName === 'INPUT') return;
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 'c') {
+      e.preventDefault();
+      copySelection(e.shiftKey);
+    } else if (mod && e.key.toLowerCase() === 'a') {
+      e.preventDefault();
+      if (rows.length === 0) return;
+      setAnchor({ row: 0, col: 0 });
+      setFocus({ row: rows.length - 1, col: columns.length - 1 });
+    } else if (e.key === 'Escape') {
+      setAnchor(null);
+      setFocus(null);
+    } else if (focus && e.key.startsWith('Arrow')) {
+      e.preventDefault();
+      const next = {
+        row: Math.min(rows.length - 1, Math.max(0, focus.row + (e.key === 'ArrowDown' ? 1 : e.key === 'ArrowUp' ? -1 : 0))),
+        col: Math.min(columns.length - 1, Math.max(0, focus.col + (e.key === 'ArrowRight' ? 1 : e.key === 'ArrowLeft' ? -1 : 0))),
+      };
+      selectCell(next, e.shiftKey);
+      scrollIntoView(next.row);
+    }
+  };
+
+  const startResize = (e: React.MouseEvent, column: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(column);
+    const move = (ev: MouseEvent) => setWidths(w => ({ ...w, [column]: Math.max(MIN_WIDTH, startWidth + ev.clientX - startX) }));
+    const up = () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', up);
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  const togglePin = (column: string) => {
+    setPinned(p => p.includes(column) ? p.filter(c => c !== column) : [...p, column]);
+    setAnchor(null);
+    setFocus(null);
+  };
+
+  const stickyStyle = (column: string, width: number): React.CSSProperties => pinnedOffsets[column] !== undefined
+    ? { width, minWidth: width, position: 'sticky', left: pinnedOffsets[column], zIndex: 1 }
+    : { width, minWidth: width };
+
+  const hasFilters = Object.values(filters).some((f: string) => f.trim());
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-800 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+        <span>
+          {rows.length === result.rows.length
+            ? `${result.rows.length.toLocaleString()} rows`
+            : `${rows.length.toLocaleString()} of ${result.rows.length.toLocaleString()} rows`}
+          {range && <span className="ml-3 text-indigo-400">{(range.bottom - range.top + 1) * (range.right - range.left + 1)} cells selected</span>}
+        </span>
+        <div className="flex items-center gap-4">
+          {hasFilters && (
+            <button onClick={() => setFilters({})} className="flex items-center gap-1 hover:text-indigo-400">
+              <FilterX className="w-3 h-3" /> Clear filters
+            </button>
+          )}
+          {copyStatus?.ok === false && (
+            <span className="flex items-center gap-1 text-rose-400 normal-case" title={copyStatus.message}>
+              <AlertCircle className="w-3 h-3" /> Copy failed: {copyStatus.message}
+            </span>
+          )}
+          <button onClick={() => copySelection(false)} className="flex items-center gap-1 hover:text-indigo-400" title="Ctrl+C">
+            {copyStatus?.ok ? <CheckCircle2 className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+            {range ? 'Copy selection' : 'Copy all'} as TSV
+          </button>
+          <button onClick={() => copySelection(true)} className="hover:text-indigo-400" title="Ctrl+Shift+C">
+            + headers
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onKeyDown={handleKeyDown}
+        className="flex-1 min-h-[28rem] max-h-[36rem] overflow-auto custom-scrollbar outline-none text-xs"
+      >
+        <div style={{ width: totalWidth }} className="min-w-full">
+          <div className="sticky top-0 z-20 bg-slate-900/95 backdrop-blur-md border-b border-slate-700/50" style={{ height: HEADER_HEIGHT }}>
+            <div className="flex h-[42px]">
+              <div className="sticky left-0 z-10 bg-slate-900" style={{ width: GUTTER_WIDTH, minWidth: GUTTER_WIDTH }} />
+              {columns.map(column => {
+                const width = widthOf(column);
+                const isPinned = pinned.includes(column);
+                return (
+                  <div
+                    key={column}
+                    style={stickyStyle(column, width)}
+                    className={`relative group flex items-center gap-1 px-3 border-r border-slate-800/60 ${isPinned ? 'bg-slate-900' : ''}`}
+                  >
+                    <button
+                      onClick={() => setSort(nextSort(sort, column))}
+                      className="flex-1 min-w-0 text-left"
+                      title={`${column} (${types[column]}) — click to sort`}
+                    >
+                      <span className="block truncate font-bold text-slate-200 font-mono">{column}</span>
+                      <span className="block truncate text-[9px] text-slate-500 font-mono">{types[column]}</span>
+                    </button>
+                    {sort?.column === column
+                      ? (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3 text-indigo-400 shrink-0" /> : <ArrowDown className="w-3 h-3 text-indigo-400 shrink-0" />)
+                      : <ArrowUpDown className="w-3 h-3 text-slate-700 shrink-0 opacity-0 group-hover:opacity-100" />}
+                    <button
+                      onClick={() => togglePin(column)}
+                      className={`shrink-0 ${isPinned ? 'text-amber-400' : 'text-slate-600 opacity-0 group-hover:opacity-100 hover:text-amber-400'}`}
+                      title={isPinned ? 'Unpin column' : 'Pin column to the left'}
+                    >
+                      {isPinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                    </button>
+                    <div
+                      onMouseDown={(e) => startResize(e, column)}
+                      className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-indigo-500/60"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex h-[32px] border-t border-slate-800/60">
+              <div className="sticky left-0 z-10 bg-slate-900" style={{ width: GUTTER_WIDTH, minWidth: GUTTER_WIDTH }} />
+              {columns.map(column => (
+                <div key={column} style={stickyStyle(column, widthOf(column))} className={`px-1.5 py-1 border-r border-slate-800/60 ${pinned.includes(column) ? 'bg-slate-900' : ''}`}>
+                  <input
+                    value={filters[column] || ''}
+                    onChange={(e) => setFilters(f => ({ ...f, [column]: e.target.value }))}
+                    placeholder={isNumericType(types[column]) ? '> 100' : 'filter'}
+                    title='Substring match; NULL, NOT NULL, "" and >, >=, <, <=, =, != comparisons are supported'
+                    className="w-full h-full bg-slate-950/80 border border-slate-800 rounded px-1.5 text-[10px] font-mono text-slate-200 placeholder-slate-700 focus:border-indigo-500 outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+            {rows.slice(start, end).map((row, offset) => {
+              const index = start + offset;
+              return (
+                <div
+                  key={index}
+                  className="absolute left-0 flex hover:bg-white/5 border-b border-slate-800/40"
+                  style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT, width: totalWidth }}
+                >
+                  <div
+                    onMouseDown={(e) => {
+                      selectCell({ row: index, col: 0 }, e.shiftKey);
+                      setFocus({ row: index, col: columns.length - 1 });
+                    }}
+                    className="sticky left-0 z-10 bg-slate-900 text-[10px] font-mono text-slate-600 text-right pr-3 leading-[30px] cursor-pointer select-none border-r border-slate-800/60"
+                    style={{ width: GUTTER_WIDTH, minWidth: GUTTER_WIDTH }}
+                  >
+                    {index + 1}
+                  </div>
+                  {columns.map((column, col) => {
+                    const value = row[column];
+                    const selected = isSelected(index, col);
+                    return (
+                      <div
+                        key={column}
+                        onMouseDown={(e) => {
+                          dragging.current = true;
+                          selectCell({ row: index, col }, e.shiftKey);
+                        }}
+                        onMouseEnter={() => dragging.current && setFocus({ row: index, col })}
+                        style={stickyStyle(column, widthOf(column))}
+                        className={`px-3 leading-[30px] truncate font-mono select-none border-r border-slate-800/30 ${
+                          isNumericType(types[column]) ? 'text-right' : ''
+                        } ${selected ? 'bg-indigo-500/20 text-slate-100' : pinnedOffsets[column] !== undefined ? 'bg-slate-900 text-slate-300' : 'text-slate-400'}`}
+                        title={isNull(value) ? 'NULL' : cellText(value)}
+                      >
+                        {isNull(value)
+                          ? <span className="text-slate-600 italic">NULL</span>
+                          : value === ''
+                            ? <span className="text-slate-700" title="Empty string">''</span>
+                            : cellText(value)}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+          {rows.length === 0 && (
+            <p className="text-center text-[10px] text-slate-600 py-8">{result.rows.length ? 'No rows match the filters.' : 'Statement returned no rows.'}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResultGrid;
@@ -0,0 +1,99 @@
+
+import React, { useMemo, useState } from 'react';
+import { Folder, FileCode2, Save, Trash2, Tag } from 'lucide-react';
+import { SavedQuery } from '../types';
+import { groupByFolder, parseTags } from '../services/queryLibrary';
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-2.5 py-1.5 text-xs text-slate-100 focus:border-indigo-500 outline-none";
+
+const SavedQueries: React.FC<{
+  queries: SavedQuery[];
+  defaultName: string;
+  onSave: (draft: { name: string; folder: string; tags: string[] }) => void;
+  onOpen: (query: SavedQuery) => void;
+  onDelete: (id: string) => void;
+}> = ({ queries, defaultName, onSave, onOpen, onDelete }) => {
+  const [name, setName] = useState(defaultName);
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const allTags = useMemo(() => [...new Set(queries.flatMap(q => q.tags))].sort(), [queries]);
+  const folders = useMemo(
+    () => groupByFolder(tagFilter ? queries.filter(q => q.tags.includes(tagFilter)) : queries),
+    [queries, tagFilter]
+  );
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4">Saved Queries</h4>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!name.trim()) return;
+          onSave({ name, folder, tags: parseTags(tags) });
+        }}
+        className="space-y-2 p-3 rounded-xl bg-slate-900/50 border border-slate-800 mb-4"
+      >
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClass} />
+        <div className="grid grid-cols-2 gap-2">
+          <input value={folder} onChange={(e) => setFolder(e.target.value)} placeholder="Folder" list="saved-query-folders" className={inputClass} />
+          <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="tags, comma separated" className={inputClass} />
+        </div>
+        <datalist id="saved-query-folders">
+          {folders.map(([f]) => f && <option key={f} value={f} />)}
+        </datalist>
+        <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold py-1.5 rounded-lg flex items-center justify-center gap-1.5 uppercase">
+          <Save className="w-3 h-3" /> Save current tab
+        </button>
+      </form>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border ${tagFilter === tag ? 'bg-indigo-600 text-white border-indigo-500' : 'text-slate-400 border-slate-800 hover:border-indigo-500/50'}`}
+            >
+              <Tag className="w-2.5 h-2.5" /> {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4 flex-1 overflow-y-auto custom-scrollbar">
+        {folders.map(([folderName, items]) => (
+          <div key={folderName || '(root)'}>
+            <p className="flex items-center gap-2 text-xs font-bold text-slate-300 mb-2">
+              <Folder className="w-3.5 h-3.5 text-amber-400" /> {folderName || 'Unfiled'}
+              <span className="text-[10px] text-slate-600 font-medium ml-auto">{items.length}</span>
+            </p>
+            <div className="ml-2 pl-3 border-l border-slate-800/50 space-y-1">
+              {items.map(query => (
+                <div key={query.id} className="group flex items-center gap-2">
+                  <button
+                    onClick={() => onOpen(query)}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-xs text-slate-200 hover:text-indigo-400 text-left"
+                    title={query.sql}
+                  >
+                    <FileCode2 className="w-3 h-3 text-indigo-400 shrink-0" />
+                    <span className="truncate">{query.name}</span>
+                  </button>
+                  {query.tags.map(tag => <span key={tag} className="text-[9px] text-slate-600">#{tag}</span>)}
+                  <button onClick={() => onDelete(query.id)} className="opacity-0 group-hover:opacity-100 text-slate-600 hover:text-rose-400" title="Delete">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        {queries.length === 0 && <p className="text-[10px] text-slate-600 text-center py-6">Nothing saved yet.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SavedQueries;
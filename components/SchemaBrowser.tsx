@@ -0,0 +1,130 @@
+
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, Database, Table as TableIcon, Key, Hash, Zap, RefreshCcw, Search } from 'lucide-react';
+import { SchemaCatalog, SchemaTableInfo } from '../types';
+import { filterCatalog } from '../services/schemaService';
+
+const SchemaBrowser: React.FC<{
+  catalog: SchemaCatalog | null;
+  loading: boolean;
+  error?: string | null;
+  onRefresh: () => void;
+  onSelectTable: (table: SchemaTableInfo) => void;
+}> = ({ catalog, loading, error, onRefresh, onSelectTable }) => {
+  const [search, setSearch] = useState('');
+  const [collapsedDbs, setCollapsedDbs] = useState<Set<string>>(new Set());
+  const [expandedTables, setExpandedTables] = useState<Set<string>>(new Set());
+
+  const visible = useMemo(() => catalog ? filterCatalog(catalog, search) : null, [catalog, search]);
+
+  const toggle = (set: Set<string>, key: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    update(next);
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Database Schema</h4>
+        <button onClick={onRefresh} className="p-1.5 text-slate-400 hover:text-indigo-400 hover:bg-indigo-500/10 rounded-lg transition-all" title="Reload Schema">
+          <RefreshCcw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="relative mb-4">
+        <Search className="w-3.5 h-3.5 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          placeholder="Filter tables or columns"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-9 pr-3 py-2 text-xs text-slate-100 focus:border-indigo-500 outline-none"
+        />
+      </div>
+
+      {error && <p className="text-[10px] font-mono text-rose-400 mb-3 break-words">{error}</p>}
+
+      <div className="space-y-3 flex-1 overflow-y-auto custom-scrollbar">
+        {visible?.databases.map(db => {
+          const tables = visible.tables.filter(t => t.database === db);
+          const dbOpen = !collapsedDbs.has(db);
+          return (
+            <div key={db}>
+              <button
+                onClick={() => toggle(collapsedDbs, db, setCollapsedDbs)}
+                className="flex items-center gap-2 text-xs font-bold text-slate-300 hover:text-indigo-400 w-full"
+              >
+                {dbOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <Database className="w-3.5 h-3.5 text-indigo-400" />
+                {db}
+                <span className="text-[10px] text-slate-600 font-medium ml-auto">{tables.length}</span>
+              </button>
+              {dbOpen && (
+                <div className="ml-2 pl-3 mt-2 border-l border-slate-800/50 space-y-2">
+                  {tables.length === 0 && <p className="text-[10px] text-slate-600 italic pl-2">No tables</p>}
+                  {tables.map(table => {
+                    const key = `${table.database}.${table.name}`;
+                    const open = expandedTables.has(key) || search.trim() !== '';
+                    return (
+                      <div key={key}>
+                        <div className="flex items-center gap-1.5 group">
+                          <button onClick={() => toggle(expandedTables, key, setExpandedTables)} className="text-slate-600 hover:text-indigo-400">
+                            {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                          </button>
+                          <button
+                            onClick={() => onSelectTable(table)}
+                            className="flex items-center gap-2 text-xs font-bold text-slate-200 hover:text-indigo-400 transition-colors"
+                            title="Insert a SELECT for this table"
+                          >
+                            <div className="p-1 bg-indigo-500/10 rounded group-hover:bg-indigo-500 transition-colors">
+                              <TableIcon className="w-3 h-3 text-indigo-400 group-hover:text-white" />
+                            </div>
+                            {table.name}
+                          </button>
+                          {table.tiflashReplica && (
+                            <span
+                              className={`ml-auto flex items-center gap-0.5 text-[9px] font-bold px-1.5 py-0.5 rounded border ${
+                                table.tiflashReplica.available ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-amber-500/10 text-amber-400 border-amber-500/20'
+                              }`}
+                              title={`TiFlash replicas: ${table.tiflashReplica.replicaCount}, ${(table.tiflashReplica.progress * 100).toFixed(0)}% synced`}
+                            >
+                              <Zap className="w-2.5 h-2.5" /> {table.tiflashReplica.replicaCount}
+                            </span>
+                          )}
+                        </div>
+                        {open && (
+                          <div className="pl-6 space-y-0.5 border-l border-slate-800/50 ml-1.5 mt-1.5">
+                            {table.columns.map(col => (
+                              <div key={col.name} className="text-[10px] text-slate-500 font-mono hover:text-indigo-400 cursor-default transition-colors pl-3 py-0.5 flex items-center gap-2">
+                                {col.key === 'PRI' ? <Key className="w-2.5 h-2.5 text-amber-400" /> : <div className="w-1 h-1 rounded-full bg-slate-700" />}
+                                <span className="text-slate-300">{col.name}</span>
+                                <span className="text-slate-600 ml-auto">{col.type}{col.nullable ? '' : ' NOT NULL'}</span>
+                              </div>
+                            ))}
+                            {table.indexes.filter(i => i.name !== 'PRIMARY').map(index => (
+                              <div key={index.name} className="text-[10px] text-slate-600 font-mono pl-3 py-0.5 flex items-center gap-2">
+                                <Hash className="w-2.5 h-2.5 text-purple-400" />
+                                <span>{index.name}</span>
+                                <span className="ml-auto">{index.unique ? 'UNIQUE ' : ''}({index.columns.join(', ')})</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {!catalog && loading && <p className="text-[10px] text-slate-600 text-center py-6">Loading information_schema...</p>}
+        {visible && visible.tables.length === 0 && search && <p className="text-[10px] text-slate-600 text-center py-6">No match for "{search}"</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaBrowser;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { CheckCircle2, XCircle, Loader2, CircleSlash, Circle, PauseCircle } from 'lucide-react';
+import { ScriptRun, ScriptStatementStatus } from '../types';
+
+const STATUS_STYLES: Record<ScriptStatementStatus, { icon: React.ElementType; color: string }> = {
+  pending: { icon: Circle, color: 'text-slate-600' },
+  running: { icon: Loader2, color: 'text-indigo-400 animate-spin' },
+  done: { icon: CheckCircle2, color: 'text-emerald-400' },
+  failed: { icon: XCircle, color: 'text-rose-400' },
+  stopped: { icon: PauseCircle, color: 'text-amber-400' },
+  skipped: { icon: CircleSlash, color: 'text-slate-600' },
+};
+
+const summarize = (sql: string) => sql.replace(/\s+/g, ' ').slice(0, 40);
+
+// One tab per statement of a script run; statements that have not run yet cannot be selected
+const ScriptResultTabs: React.FC<{
+  run: ScriptRun;
+  onSelect: (index: number) => void;
+}> = ({ run, onSelect }) => {
+  const count = (status: ScriptStatementStatus) => run.runs.filter(r => r.status === status).length;
+  const failed = count('failed');
+  const skipped = count('skipped');
+
+  return (
+    <div className="flex items-center gap-3 px-6 py-2 border-b border-slate-800 bg-slate-900/40">
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest whitespace-nowrap">
+        Script • {count('done')}/{run.runs.length} ok{failed ? ` • ${failed} failed` : ''}{skipped ? ` • ${skipped} skipped` : ''}
+      </span>
+      <div className="flex items-center gap-1 overflow-x-auto custom-scrollbar">
+        {run.runs.map((statementRun, index) => {
+          const { icon: Icon, color } = STATUS_STYLES[statementRun.status];
+          return (
+            <button
+              key={index}
+              onClick={() => onSelect(index)}
+              disabled={!statementRun.result}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-mono whitespace-nowrap border transition-colors disabled:cursor-default ${
+                index === run.selected ? 'bg-slate-800 border-slate-600 text-slate-100' : 'border-transparent text-slate-500 hover:text-slate-300'
+              }`}
+              title={`Line ${statementRun.statement.line}: ${statementRun.statement.sql}`}
+            >
+              <Icon className={`w-3 h-3 shrink-0 ${color}`} />
+              <span className="font-bold">{index + 1}</span>
+              <span className="max-w-[12rem] truncate">{summarize(statementRun.statement.sql)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptResultTabs;
@@ -0,0 +1,222 @@
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { ListOrdered, RefreshCcw, AlertCircle, GitBranch, Terminal, Turtle, Shuffle } from 'lucide-react';
+import { ClusterDataSource, StatementDigest, SlowQueryEntry } from '../types';
+import { listStatements, listSlowQueries, sortStatements, hasPlanChange, StatementSortKey } from '../services/statementService';
+
+const TOP_N = 25;
+
+const SORT_OPTIONS: [StatementSortKey, string][] = [
+  ['sumLatencyMs', 'Total Latency'],
+  ['execCount', 'Exec Count'],
+  ['avgLatencyMs', 'Avg Latency'],
+];
+
+const formatMs = (ms?: number) => ms === undefined ? '-' : ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+
+const StatementExplorer: React.FC<{
+  dataSource: ClusterDataSource;
+  onOpenInSqlLab: (sql: string) => void;
+  onVisualizePlan: (sql: string) => void;
+}> = ({ dataSource, onOpenInSqlLab, onVisualizePlan }) => {
+  const [statements, setStatements] = useState<StatementDigest[]>([]);
+  const [slowQueries, setSlowQueries] = useState<SlowQueryEntry[]>([]);
+  const [sortKey, setSortKey] = useState<StatementSortKey>('sumLatencyMs');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const [stmtResult, slowResult] = await Promise.allSettled([listStatements(dataSource), listSlowQueries(dataSource)]);
+    if (stmtResult.status === 'fulfilled') setStatements(stmtResult.value);
+    if (slowResult.status === 'fulfilled') setSlowQueries(slowResult.value);
+    const failures = [stmtResult, slowResult]
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+      .map(r => r.reason?.message || String(r.reason));
+    setError(failures.length ? failures.join(' • ') : null);
+    setLoading(false);
+  }, [dataSource]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const top = useMemo(() => sortStatements(statements, sortKey).slice(0, TOP_N), [statements, sortKey]);
+  const detail = statements.find(s => s.digest === selected);
+  const detailSlow = slowQueries.filter(q => q.digest === selected);
+
+  const engineChart = top
+    .filter(s => s.tiflashAvgMs !== undefined || s.stmtType === 'Select')
+    .slice(0, 8)
+    .map(s => ({ digest: s.digest.slice(0, 8), TiKV: s.tikvAvgMs ?? 0, TiFlash: s.tiflashAvgMs ?? 0 }));
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 glass-panel rounded-2xl p-6 border border-slate-700/50">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-bold flex items-center gap-3">
+                <ListOrdered className="text-amber-400" /> Top Statements
+              </h3>
+              <p className="text-slate-400 text-sm">CLUSTER_STATEMENTS_SUMMARY grouped by digest</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="flex bg-slate-900/80 p-0.5 rounded-lg border border-slate-800">
+                {SORT_OPTIONS.map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => setSortKey(key)}
+                    className={`px-3 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${sortKey === key ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button onClick={load} className="p-2 text-slate-400 hover:text-indigo-400 hover:bg-indigo-500/10 rounded-lg transition-all" title="Reload">
+                <RefreshCcw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 flex items-center gap-3 p-3 rounded-xl bg-rose-500/10 border border-rose-500/20 text-rose-300 text-xs font-mono">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-800/40">
+                <tr className="text-slate-400 uppercase tracking-wider text-[10px]">
+                  <th className="px-4 py-3 font-bold">Statement</th>
+                  <th className="px-4 py-3 font-bold text-right">Total</th>
+                  <th className="px-4 py-3 font-bold text-right">Execs</th>
+                  <th className="px-4 py-3 font-bold text-right">TiKV Avg</th>
+                  <th className="px-4 py-3 font-bold text-right">TiFlash Avg</th>
+                  <th className="px-4 py-3 font-bold">Plans</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {top.map(stmt => (
+                  <tr
+                    key={stmt.digest}
+                    onClick={() => setSelected(stmt.digest)}
+                    className={`cursor-pointer transition-colors ${selected === stmt.digest ? 'bg-indigo-500/10' : 'hover:bg-white/5'}`}
+                  >
+                    <td className="px-4 py-3 font-mono text-slate-300 max-w-md truncate" title={stmt.digestText}>{stmt.digestText}</td>
+                    <td className="px-4 py-3 font-mono text-right text-slate-200">{formatMs(stmt.sumLatencyMs)}</td>
+                    <td className="px-4 py-3 font-mono text-right text-slate-400">{stmt.execCount.toLocaleString()}</td>
+                    <td className="px-4 py-3 font-mono text-right text-indigo-300">{formatMs(stmt.tikvAvgMs)}</td>
+                    <td className="px-4 py-3 font-mono text-right text-emerald-300">{formatMs(stmt.tiflashAvgMs)}</td>
+                    <td className="px-4 py-3">
+                      {hasPlanChange(stmt) ? (
+                        <span className="flex items-center gap-1 text-[10px] font-bold text-amber-400 uppercase" title="The optimizer picked more than one plan for this digest">
+                          <Shuffle className="w-3 h-3" /> {stmt.plans.length} plans
+                        </span>
+                      ) : (
+                        <span className="text-[10px] text-slate-600">stable</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {top.length === 0 && !loading && <p className="text-center text-xs text-slate-600 py-10">No statements recorded yet.</p>}
+          </div>
+        </div>
+
+        <div className="glass-panel rounded-2xl p-6 border border-slate-700/50">
+          <h3 className="text-sm font-bold text-slate-400 mb-6 uppercase tracking-widest">Avg Latency by Engine</h3>
+          <div className="h-[320px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={engineChart} layout="vertical" margin={{ left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+                <XAxis type="number" stroke="#94a3b8" fontSize={10} axisLine={false} tickLine={false} unit="ms" />
+                <YAxis type="category" dataKey="digest" stroke="#94a3b8" fontSize={10} axisLine={false} tickLine={false} width={70} />
+                <Tooltip
+                  cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                  contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '12px' }}
+                  formatter={(value: number) => formatMs(value)}
+                />
+                <Legend iconType="circle" />
+                <Bar dataKey="TiKV" fill="#6366f1" radius={[0, 4, 4, 0]} />
+                <Bar dataKey="TiFlash" fill="#22c55e" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      {detail && (
+        <div className="glass-panel rounded-2xl p-6 border border-indigo-500/30 space-y-6">
+          <div className="flex items-start justify-between gap-6">
+            <div className="min-w-0">
+              <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest mb-2">Digest {detail.digest}</p>
+              <pre className="text-xs font-mono text-slate-200 bg-slate-950/80 rounded-xl p-4 border border-slate-800 whitespace-pre-wrap break-all">{detail.sampleSql}</pre>
+            </div>
+            <div className="flex flex-col gap-2 shrink-0">
+              <button
+                onClick={() => onOpenInSqlLab(detail.sampleSql)}
+                className="bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold py-2 px-4 rounded-xl flex items-center gap-2"
+              >
+                <Terminal className="w-3.5 h-3.5" /> Open in SQL Lab
+              </button>
+              <button
+                onClick={() => onVisualizePlan(detail.sampleSql)}
+                className="bg-slate-700/60 hover:bg-slate-700 text-slate-200 text-xs font-bold py-2 px-4 rounded-xl flex items-center gap-2"
+              >
+                <GitBranch className="w-3.5 h-3.5" /> Visualize Plan
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Plan History</h4>
+              <div className="space-y-2">
+                {detail.plans.map((plan, i) => (
+                  <div key={plan.planDigest} className="flex items-center justify-between p-3 rounded-xl bg-slate-900/60 border border-slate-800 text-xs">
+                    <div className="flex items-center gap-3">
+                      <span className="text-slate-600 font-mono">#{i + 1}</span>
+                      <span className="font-mono text-slate-300">{plan.planDigest.slice(0, 16)}</span>
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${
+                        plan.engine === 'TiFlash' ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20'
+                      }`}>{plan.engine}</span>
+                    </div>
+                    <div className="text-right font-mono text-[10px] text-slate-500">
+                      <p className="text-slate-300">{formatMs(plan.avgLatencyMs)} avg • {plan.execCount.toLocaleString()} execs</p>
+                      <p>{plan.firstSeen} → {plan.lastSeen}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <Turtle className="w-3.5 h-3.5" /> Slow Log Entries (last 24h)
+              </h4>
+              {detailSlow.length === 0 ? (
+                <p className="text-xs text-slate-600">No slow log entries for this digest in the last 24 hours.</p>
+              ) : (
+                <div className="space-y-1 max-h-60 overflow-y-auto custom-scrollbar">
+                  {detailSlow.map((q, i) => (
+                    <div key={i} className="flex items-center justify-between p-2 rounded-lg hover:bg-white/5 text-[11px] font-mono">
+                      <span className="text-slate-500">{q.time}</span>
+                      <span className="text-slate-600">{q.planDigest.slice(0, 10)}</span>
+                      <span className="text-rose-300">{formatMs(q.queryTimeMs)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatementExplorer;
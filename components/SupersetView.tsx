@@ -0,0 +1,302 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { PieChart, Link as LinkIcon, RefreshCcw, ExternalLink, Upload, AlertCircle, CheckCircle2, Lock, LayoutGrid } from 'lucide-react';
+import { SavedQuery, SupersetConfig, SupersetDashboard, SupersetDatabase, SupersetDataset } from '../types';
+import {
+  loadSupersetConfig, saveSupersetConfig, loginSuperset, listSupersetDashboards, listSupersetDatabases,
+  getEmbeddedId, fetchGuestToken, createSupersetDataset, dashboardFrameUrl, connectEmbeddedFrame, GUEST_TOKEN_REFRESH_MS
+} from '../services/supersetService';
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-100 focus:border-indigo-500 outline-none";
+
+const Label: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{children}</span>
+);
+
+const datasetName = (title: string) => title.trim().toLowerCase().replace(/[^\w]+/g, '_').replace(/^_+|_+$/g, '') || 'htap_query';
+
+const SupersetView: React.FC<{
+  sqlLabSql: string;
+  sqlLabTitle: string;
+  savedQueries: SavedQuery[];
+  onLog: (msg: string, type?: 'info' | 'error' | 'success') => void;
+}> = ({ sqlLabSql, sqlLabTitle, savedQueries, onLog }) => {
+  const [config, setConfig] = useState<SupersetConfig>(loadSupersetConfig);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dashboards, setDashboards] = useState<SupersetDashboard[]>([]);
+  const [databases, setDatabases] = useState<SupersetDatabase[]>([]);
+  const [selected, setSelected] = useState<SupersetDashboard | null>(null);
+  const [embedError, setEmbedError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const refreshTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Push-to-dataset form; '' as the source means the active SQL Lab tab
+  const [sourceId, setSourceId] = useState('');
+  const [databaseId, setDatabaseId] = useState<number | null>(null);
+  const [schema, setSchema] = useState('');
+  const [name, setName] = useState(datasetName(sqlLabTitle));
+  const [pushing, setPushing] = useState(false);
+  const [pushed, setPushed] = useState<SupersetDataset | null>(null);
+
+  const source = savedQueries.find(q => q.id === sourceId);
+  const pushSql = source ? source.sql : sqlLabSql;
+
+  const updateConfig = (patch: Partial<SupersetConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    saveSupersetConfig(next);
+  };
+
+  const connect = async () => {
+    setConnecting(true);
+    setError(null);
+    try {
+      const token = await loginSuperset(config);
+      const [nextDashboards, nextDatabases] = await Promise.all([
+        listSupersetDashboards(config, token),
+        listSupersetDatabases(config, token),
+      ]);
+      setAccessToken(token);
+      setDashboards(nextDashboards);
+      setDatabases(nextDatabases);
+      setDatabaseId(prev => nextDatabases.some(d => d.id === prev) ? prev : nextDatabases[0]?.id ?? null);
+      onLog(`Connected to Superset at ${config.baseUrl}: ${nextDashboards.length} dashboards`, 'success');
+    } catch (e: any) {
+      setAccessToken(null);
+      setError(e.message);
+      onLog(`Superset Connection Failed: ${e.message}`, 'error');
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const openDashboard = async (dashboard: SupersetDashboard) => {
+    setEmbedError(null);
+    const embeddedId = accessToken ? await getEmbeddedId(config, accessToken, dashboard.id) : undefined;
+    setSelected({ ...dashboard, embeddedId });
+  };
+
+  const stopRefresh = () => {
+    if (refreshTimer.current) clearInterval(refreshTimer.current);
+    refreshTimer.current = null;
+  };
+
+  useEffect(() => stopRefresh, [selected]);
+
+  // Runs on every frame load: hand over a pasted guest token, or fetch one and keep it fresh
+  const handleFrameLoad = async () => {
+    stopRefresh();
+    if (!selected?.embeddedId || !frameRef.current) return;
+    const embeddedId = selected.embeddedId;
+    let sendToken: (guestToken: string) => void;
+    try {
+      sendToken = connectEmbeddedFrame(frameRef.current, config);
+    } catch (e: any) {
+      return setEmbedError(e.message);
+    }
+    if (config.guestToken.trim()) return sendToken(config.guestToken.trim());
+    if (!accessToken) return setEmbedError('Paste a guest token or connect with an API user to embed this dashboard.');
+    const provide = async () => {
+      try {
+        sendToken(await fetchGuestToken(config, accessToken, embeddedId));
+        setEmbedError(null);
+      } catch (e: any) {
+        setEmbedError(`Guest token request failed: ${e.message}`);
+      }
+    };
+    await provide();
+    refreshTimer.current = setInterval(provide, GUEST_TOKEN_REFRESH_MS);
+  };
+
+  const pushDataset = async () => {
+    if (!accessToken || databaseId === null || !pushSql.trim()) return;
+    setPushing(true);
+    try {
+      const dataset = await createSupersetDataset(config, accessToken, { databaseId, schema: schema.trim(), name: name.trim(), sql: pushSql });
+      setPushed(dataset);
+      onLog(`Saved Superset dataset "${dataset.name}" (id ${dataset.id})`, 'success');
+    } catch (e: any) {
+      setPushed(null);
+      onLog(`Superset Dataset Failed: ${e.message}`, 'error');
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="glass-panel rounded-2xl p-6 border border-slate-700/50 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold flex items-center gap-3">
+            <PieChart className="text-emerald-400" /> Apache Superset
+          </h3>
+          {accessToken && (
+            <span className="text-[10px] font-bold uppercase text-emerald-400 flex items-center gap-1.5">
+              <CheckCircle2 className="w-3.5 h-3.5" /> Connected
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="space-y-1 md:col-span-2">
+            <Label>Base URL</Label>
+            <input value={config.baseUrl} onChange={(e) => updateConfig({ baseUrl: e.target.value })} placeholder="http://localhost:8088" className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <Label>API user</Label>
+            <input value={config.username} onChange={(e) => updateConfig({ username: e.target.value })} className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <Label>Password</Label>
+            <input
+              type="password"
+              value={config.password}
+              onChange={(e) => setConfig({ ...config, password: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && connect()}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1 md:col-span-3">
+            <Label>Guest token (optional)</Label>
+            <input
+              type="password"
+              value={config.guestToken}
+              onChange={(e) => setConfig({ ...config, guestToken: e.target.value })}
+              placeholder="Requested automatically for embedded dashboards when empty"
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <div className="flex items-end">
+            <button
+              onClick={connect}
+              disabled={connecting || !config.baseUrl.trim()}
+              className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2"
+            >
+              {connecting ? <RefreshCcw className="w-3.5 h-3.5 animate-spin" /> : <LinkIcon className="w-3.5 h-3.5" />}
+              {accessToken ? 'Reconnect' : 'Connect'}
+            </button>
+          </div>
+        </div>
+        <p className="text-[10px] text-slate-600 flex items-center gap-1.5">
+          <Lock className="w-3 h-3" /> Password and guest token stay in memory. Superset must allow this origin (ENABLE_CORS) and be framable for embedding.
+        </p>
+        {error && <div className="flex items-center gap-2 text-xs text-rose-300"><AlertCircle className="w-4 h-4" /> {error}</div>}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+        <div className="glass-panel rounded-2xl border border-slate-700/50 p-4 space-y-2 xl:col-span-1">
+          <div className="flex items-center justify-between px-2 pb-2">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Dashboards</span>
+            {accessToken && (
+              <button onClick={connect} className="text-slate-500 hover:text-indigo-400" title="Reload">
+                <RefreshCcw className={`w-3.5 h-3.5 ${connecting ? 'animate-spin' : ''}`} />
+              </button>
+            )}
+          </div>
+          {dashboards.length === 0 && (
+            <p className="text-xs text-slate-600 px-2 py-6 text-center">{accessToken ? 'No dashboards visible to this user.' : 'Connect to list dashboards.'}</p>
+          )}
+          {dashboards.map(d => (
+            <button
+              key={d.id}
+              onClick={() => openDashboard(d)}
+              className={`w-full text-left px-3 py-2.5 rounded-xl border transition-all ${selected?.id === d.id ? 'border-indigo-500/50 bg-indigo-500/10' : 'border-transparent hover:bg-slate-800/50'}`}
+            >
+              <div className="text-sm font-bold text-slate-200 truncate">{d.title}</div>
+              <div className="text-[10px] text-slate-500 flex gap-2">
+                <span>{d.published ? 'Published' : 'Draft'}</span>
+                {d.changedOn && <span>• {d.changedOn}</span>}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="glass-panel rounded-2xl border border-slate-700/50 overflow-hidden flex flex-col xl:col-span-3 min-h-[560px]">
+          {selected ? (
+            <>
+              <div className="flex items-center gap-3 px-5 py-3 border-b border-slate-800/60">
+                <h4 className="text-sm font-bold text-slate-200 flex-1 truncate">{selected.title}</h4>
+                <span className={`text-[9px] font-bold uppercase px-2 py-0.5 rounded border ${selected.embeddedId ? 'text-emerald-400 border-emerald-500/20 bg-emerald-500/10' : 'text-amber-400 border-amber-500/20 bg-amber-500/10'}`}>
+                  {selected.embeddedId ? 'Embedded (guest token)' : 'Standalone (session)'}
+                </span>
+                <a href={`${config.baseUrl.replace(/\/+$/, '')}${selected.url}`} target="_blank" rel="noreferrer" className="text-slate-500 hover:text-indigo-400" title="Open in Superset">
+                  <ExternalLink className="w-3.5 h-3.5" />
+                </a>
+              </div>
+              {embedError && <div className="px-5 py-2 text-xs text-amber-300 bg-amber-500/5 border-b border-amber-500/10">{embedError}</div>}
+              <iframe
+                key={`${selected.id}-${selected.embeddedId || ''}`}
+                ref={frameRef}
+                src={dashboardFrameUrl(config, selected)}
+                onLoad={handleFrameLoad}
+                title={selected.title}
+                className="flex-1 w-full bg-white"
+              />
+            </>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center text-center text-slate-500 p-10">
+              <LayoutGrid className="w-12 h-12 mb-4 opacity-20" />
+              <p className="text-sm">Pick a dashboard to embed it here.</p>
+              <p className="text-xs opacity-60 mt-1">Dashboards with embedding enabled load with a guest token; others use your Superset session.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="glass-panel rounded-2xl p-6 border border-slate-700/50 space-y-4">
+        <h3 className="font-bold flex items-center gap-3 text-sm">
+          <Upload className="w-4 h-4 text-indigo-400" /> Push Query as Dataset
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="space-y-1">
+            <Label>Query</Label>
+            <select
+              value={sourceId}
+              onChange={(e) => {
+                setSourceId(e.target.value);
+                setName(datasetName(savedQueries.find(q => q.id === e.target.value)?.name || sqlLabTitle));
+              }}
+              className={inputClass}
+            >
+              <option value="">SQL Lab: {sqlLabTitle}</option>
+              {savedQueries.map(q => <option key={q.id} value={q.id}>Saved: {q.folder ? `${q.folder} / ` : ''}{q.name}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <Label>Database</Label>
+            <select value={databaseId ?? ''} onChange={(e) => setDatabaseId(Number(e.target.value))} disabled={!databases.length} className={inputClass}>
+              {!databases.length && <option value="">Connect first</option>}
+              {databases.map(d => <option key={d.id} value={d.id}>{d.name}{d.backend ? ` (${d.backend})` : ''}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <Label>Schema</Label>
+            <input value={schema} onChange={(e) => setSchema(e.target.value)} placeholder="default" className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <Label>Dataset name</Label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} font-mono`} />
+          </label>
+        </div>
+        <pre className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-[11px] font-mono text-slate-400 max-h-40 overflow-auto custom-scrollbar whitespace-pre-wrap">{pushSql || '-- empty query'}</pre>
+        <div className="flex items-center justify-between">
+          {pushed ? (
+            <a href={pushed.exploreUrl} target="_blank" rel="noreferrer" className="text-xs text-emerald-400 hover:text-emerald-300 flex items-center gap-1.5">
+              <CheckCircle2 className="w-3.5 h-3.5" /> Dataset "{pushed.name}" saved — open in Explore <ExternalLink className="w-3 h-3" />
+            </a>
+          ) : <span />}
+          <button
+            onClick={pushDataset}
+            disabled={!accessToken || databaseId === null || pushing || !pushSql.trim() || !name.trim()}
+            className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold py-2 px-5 rounded-xl flex items-center gap-2"
+          >
+            {pushing ? <RefreshCcw className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />} Save to Superset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SupersetView;
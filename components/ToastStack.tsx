@@ -0,0 +1,34 @@
+
+import React from 'react';
+import { X, Flame, CheckCircle2 } from 'lucide-react';
+import { AlertEvent } from '../types';
+
+const ToastStack: React.FC<{ toasts: AlertEvent[]; onDismiss: (id: string) => void }> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-6 right-6 z-[60] flex flex-col gap-3 w-80">
+    {toasts.map(toast => (
+      <div
+        key={toast.id}
+        className={`glass-panel rounded-2xl p-4 border shadow-2xl flex items-start gap-3 animate-in fade-in slide-in-from-right-4 duration-300 ${
+          toast.state === 'firing'
+            ? toast.severity === 'high' ? 'border-rose-500/50' : 'border-amber-500/50'
+            : 'border-emerald-500/40'
+        }`}
+      >
+        {toast.state === 'firing'
+          ? <Flame className={`w-5 h-5 shrink-0 ${toast.severity === 'high' ? 'text-rose-400' : 'text-amber-400'}`} />
+          : <CheckCircle2 className="w-5 h-5 shrink-0 text-emerald-400" />}
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-bold text-slate-100 truncate">{toast.ruleName}</p>
+          <p className="text-[10px] text-slate-400 mt-0.5">
+            {toast.state === 'firing' ? 'Firing' : 'Resolved'} • value {toast.value.toFixed(2)}
+          </p>
+        </div>
+        <button onClick={() => onDismiss(toast.id)} className="text-slate-500 hover:text-slate-200">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default ToastStack;
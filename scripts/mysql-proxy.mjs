@@ -0,0 +1,394 @@
+
+// Local proxy from the browser to a self-hosted TiDB (or any MySQL-compatible
+// server) over the MySQL wire protocol. The database credentials stay in this
+// process; the app authenticates with a local API key pair instead.
+//
+//   POST /sql    Data Service compatible: { sql } -> { result: { columns, rows } }
+//                With `Accept: application/x-ndjson` the rows stream as they arrive
+//   GET  /health Reachability and pool state, no key needed
+//   WS   /ws     One dedicated database session per socket, so USE, SET and
+//                transactions carry over between statements
+//
+//   TIDB_HOST=127.0.0.1 TIDB_PORT=4000 TIDB_USER=root TIDB_PASSWORD= node scripts/mysql-proxy.mjs [port]
+//
+// Point the app's Data Service endpoint at http://localhost:4200/sql and use
+// the key pair printed at startup (or set PROXY_PUBLIC_KEY / PROXY_PRIVATE_KEY).
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { connect } from './mysql-wire.mjs';
+
+const port = Number(process.argv[2] || process.env.PROXY_PORT || 4200);
+
+const target = {
+  host: process.env.TIDB_HOST || '127.0.0.1',
+  port: Number(process.env.TIDB_PORT || 4000),
+  user: process.env.TIDB_USER || 'root',
+  password: process.env.TIDB_PASSWORD || '',
+  database: process.env.TIDB_DATABASE || '',
+};
+
+const publicKey = process.env.PROXY_PUBLIC_KEY || `local-${crypto.randomBytes(4).toString('hex')}`;
+const privateKey = process.env.PROXY_PRIVATE_KEY || crypto.randomBytes(16).toString('hex');
+
+const MAX_POOL = Number(process.env.PROXY_POOL_SIZE || 8);
+
+// ---- Connection pool --------------------------------------------------------
+
+const idle = [];
+const waiters = [];
+let open = 0;
+
+const acquire = async () => {
+  while (idle.length) {
+    const connection = idle.pop();
+    if (!connection.closed) return connection;
+    open--;
+  }
+  if (open >= MAX_POOL) return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+  open++;
+  try {
+    return await connect(target);
+  } catch (err) {
+    open--;
+    throw err;
+  }
+};
+
+// Connections that failed at the socket level are dropped instead of reused
+const release = (connection, broken = false) => {
+  if (broken || connection.closed) {
+    open--;
+    connection.close();
+    const waiter = waiters.shift();
+    if (waiter) acquire().then(waiter.resolve, waiter.reject);
+    return;
+  }
+  const waiter = waiters.shift();
+  if (waiter) waiter.resolve(connection);
+  else idle.push(connection);
+};
+
+// Statements that leave state on the session which the next request must not inherit
+const SESSION_STATE_PATTERN = /^\s*(BEGIN|START|SET|LOCK|PREPARE|SAVEPOINT|XA|CREATE\s+(GLOBAL\s+)?TEMPORARY)\b/i;
+// COM_RESET_CONNECTION keeps the default database, so a USE costs the connection
+const USE_PATTERN = /^\s*USE\b/i;
+
+/**
+ * Returns a connection to the pool in the state a fresh one would have.
+ * REST requests are stateless: a transaction, lock or session variable one
+ * of them left behind is reset instead of leaking into unrelated requests.
+ */
+const releaseClean = async (connection, sql, broken) => {
+  if (!broken && !connection.closed && USE_PATTERN.test(sql)) broken = true;
+  if (!broken && !connection.closed && (connection.inTransaction || SESSION_STATE_PATTERN.test(sql))) {
+    try {
+      await connection.reset();
+    } catch {
+      broken = true;
+    }
+  }
+  release(connection, broken);
+};
+
+// KILL QUERY goes over a separate connection; the pool may be exhausted
+const killQuery = async (threadId) => {
+  const side = await connect(target);
+  try {
+    await side.query(`KILL QUERY ${threadId}`);
+  } finally {
+    side.close();
+  }
+};
+
+/**
+ * Runs `sql` on a pooled connection for one HTTP request. If the client
+ * disconnects first (cancel, timeout, closed tab), the statement is killed on
+ * the server, and the connection only returns to the pool once the kill has
+ * completed, so it can never hit the next request's query.
+ */
+const runForRequest = async (res, sql, handlers) => {
+  const connection = await acquire();
+  let settled = false;
+  let killing = null;
+  res.on('close', () => {
+    if (settled) return;
+    killing = killQuery(connection.threadId).catch(err => console.warn(`KILL QUERY ${connection.threadId} failed: ${err.message}`));
+  });
+  let result;
+  let failure;
+  try {
+    result = await connection.query(sql, handlers);
+  } catch (err) {
+    failure = err;
+  }
+  settled = true;
+  if (killing) await killing;
+  await releaseClean(connection, sql, failure && !failure.code);
+  if (failure) throw failure;
+  return result;
+};
+
+// ---- Auth -------------------------------------------------------------------
+
+const sameSecret = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const checkKeys = (pub, priv) => sameSecret(pub, publicKey) && sameSecret(priv, privateKey);
+
+const checkBasicAuth = (header) => {
+  const match = /^Basic\s+(.+)$/i.exec(header || '');
+  if (!match) return false;
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const split = decoded.indexOf(':');
+  return split > 0 && checkKeys(decoded.slice(0, split), decoded.slice(split + 1));
+};
+
+// ---- HTTP -------------------------------------------------------------------
+
+const send = (res, code, body) => {
+  res.writeHead(code, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, Accept',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch {
+      reject(Object.assign(new Error('Request body is not valid JSON'), { status: 400 }));
+    }
+  });
+});
+
+// Same shape the Data Service returns, which is what executeLiveQuery reads
+const toDataServiceResult = (result) => ({
+  result: {
+    columns: result.columns.map((col, i) => ({ col, data_type: result.columnTypes[i] })),
+    rows: result.rows,
+    row_count: result.rows.length,
+    affected_rows: result.affectedRows,
+    last_insert_id: result.insertId,
+  },
+});
+
+// Server errors carry a MySQL error code; anything else means the database was unreachable
+// Bad requests and statements the server rejected are the client's fault; anything else is upstream
+const errorStatus = (err) => err.status || (err.code ? 400 : 502);
+
+const STREAM_BATCH_ROWS = 500;
+const STREAM_FLUSH_MS = 100;
+
+/**
+ * Newline-delimited JSON: { columns, columnTypes }, then { rows } batches,
+ * then { done } or { error }. A batch goes out once it is full or 100ms old,
+ * so a slow query still shows its first rows quickly.
+ */
+const streamSql = async (res, sql) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson',
+    'Access-Control-Allow-Origin': '*',
+    'Cache-Control': 'no-store',
+  });
+  const write = (message) => res.writable && res.write(`${JSON.stringify(message)}\n`);
+  let batch = [];
+  let timer = null;
+  const flush = () => {
+    clearTimeout(timer);
+    timer = null;
+    if (batch.length) write({ rows: batch });
+    batch = [];
+  };
+  try {
+    const result = await runForRequest(res, sql, {
+      onColumns: (columns, columnTypes) => write({ columns, columnTypes }),
+      onRow: (row) => {
+        batch.push(row);
+        if (batch.length >= STREAM_BATCH_ROWS) flush();
+        else if (!timer) timer = setTimeout(flush, STREAM_FLUSH_MS);
+      },
+    });
+    flush();
+    write({ done: true, affectedRows: result.affectedRows, insertId: result.insertId });
+  } catch (err) {
+    flush();
+    write({ error: err.message, code: err.code });
+  }
+  res.end();
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  const { pathname } = new URL(req.url, `http://localhost:${port}`);
+  try {
+    if (pathname === '/health') {
+      const connection = await acquire();
+      const serverVersion = connection.serverVersion;
+      release(connection);
+      return send(res, 200, { status: 'ok', target: `${target.host}:${target.port}`, serverVersion, pool: { open, idle: idle.length } });
+    }
+    if (req.method === 'POST' && pathname === '/sql') {
+      if (!checkBasicAuth(req.headers.authorization)) return send(res, 401, { message: 'Invalid proxy API key' });
+      const { sql } = await readBody(req);
+      if (!sql) return send(res, 400, { message: 'Missing sql' });
+      if (/application\/x-ndjson/.test(req.headers.accept || '')) return await streamSql(res, sql);
+      return send(res, 200, toDataServiceResult(await runForRequest(res, sql)));
+    }
+    send(res, 404, { message: `No route for ${req.method} ${pathname}` });
+  } catch (err) {
+    send(res, errorStatus(err), { message: err.message, code: err.code });
+  }
+});
+
+// ---- WebSocket --------------------------------------------------------------
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const wsFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([0x80 | opcode, length])
+    : length < 0x10000 ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+    : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b; })()]);
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Reads client frames off the socket, unmasking and joining fragments, and
+ * hands each complete text message to `onMessage`
+ */
+const readFrames = (socket, onMessage) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === 0x8) {
+        socket.end(wsFrame(0x8, Buffer.alloc(0)));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(wsFrame(0xa, payload));
+        continue;
+      }
+      if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          onMessage(Buffer.concat(fragments).toString('utf8'));
+          fragments = [];
+        }
+      }
+    }
+  });
+};
+
+/**
+ * Socket protocol, one JSON object per message:
+ *   -> { type: 'auth', publicKey, privateKey }   <- { type: 'ready', connectionId, serverVersion }
+ *   -> { type: 'query', id, sql }                <- { type: 'result', id, columns, columnTypes, rows, affectedRows, insertId, inTransaction }
+ *                                                <- { type: 'error', id, message, code, inTransaction }
+ *   -> { type: 'cancel' }                        kills the statement the session is running
+ * `inTransaction` is the server's view of the session after the statement.
+ */
+server.on('upgrade', (req, socket) => {
+  const { pathname } = new URL(req.url, `http://localhost:${port}`);
+  const key = req.headers['sec-websocket-key'];
+  if (pathname !== '/ws' || !key) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+  const reply = (message) => socket.writable && socket.write(wsFrame(0x1, Buffer.from(JSON.stringify(message))));
+  let session = null;
+
+  socket.on('error', () => {});
+  socket.on('close', () => session?.then(connection => connection.close(), () => {}));
+
+  readFrames(socket, async (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return reply({ type: 'error', message: 'Messages must be JSON' });
+    }
+    if (message.type === 'auth') {
+      if (session) return reply({ type: 'error', message: 'Already authenticated' });
+      if (!checkKeys(message.publicKey, message.privateKey)) {
+        reply({ type: 'error', message: 'Invalid proxy API key' });
+        return socket.end(wsFrame(0x8, Buffer.alloc(0)));
+      }
+      session = connect(target);
+      try {
+        const connection = await session;
+        reply({ type: 'ready', connectionId: connection.threadId, serverVersion: connection.serverVersion });
+      } catch (err) {
+        reply({ type: 'error', message: err.message });
+        socket.end(wsFrame(0x8, Buffer.alloc(0)));
+      }
+      return;
+    }
+    if (message.type === 'cancel') {
+      const connection = await session?.catch(() => null);
+      if (!connection) return;
+      killQuery(connection.threadId).catch(err => reply({ type: 'error', message: err.message }));
+      return;
+    }
+    if (message.type === 'query') {
+      if (!session) return reply({ type: 'error', id: message.id, message: 'Authenticate first' });
+      const connection = await session.catch(() => null);
+      if (!connection) return reply({ type: 'error', id: message.id, message: 'Session failed to connect' });
+      try {
+        const result = await connection.query(message.sql);
+        reply({ type: 'result', id: message.id, ...result, inTransaction: connection.inTransaction });
+      } catch (err) {
+        // A failed statement may or may not have ended the transaction (TiDB rolls back on a failed COMMIT)
+        await connection.ping().catch(() => {});
+        reply({ type: 'error', id: message.id, message: err.message, code: err.code, inTransaction: connection.inTransaction });
+      }
+      return;
+    }
+    reply({ type: 'error', id: message.id, message: `Unknown message type ${message.type}` });
+  });
+});
+
+// Loopback only: the proxy holds database credentials
+server.listen(port, '127.0.0.1', () => {
+  console.log(`MySQL proxy listening on http://localhost:${port} -> ${target.user}@${target.host}:${target.port}`);
+  console.log(`  Data Service endpoint: http://localhost:${port}/sql`);
+  console.log(`  Public key:  ${publicKey}`);
+  if (!process.env.PROXY_PRIVATE_KEY) console.log(`  Private key: ${privateKey}`);
+});
@@ -0,0 +1,554 @@
+
+// Minimal MySQL wire protocol, shared by the MySQL proxy (client side) and the
+// stand-in's MySQL listener (server side). Text protocol only: COM_QUERY,
+// COM_PING, COM_INIT_DB and COM_QUIT, with mysql_native_password and
+// caching_sha2_password authentication. Enough for TiDB and MySQL 8.
+
+import net from 'node:net';
+import crypto from 'node:crypto';
+
+const MAX_PAYLOAD = 0xffffff;
+
+const CLIENT = {
+  LONG_PASSWORD: 0x1,
+  FOUND_ROWS: 0x2,
+  LONG_FLAG: 0x4,
+  CONNECT_WITH_DB: 0x8,
+  PROTOCOL_41: 0x200,
+  TRANSACTIONS: 0x2000,
+  SECURE_CONNECTION: 0x8000,
+  MULTI_RESULTS: 0x20000,
+  PLUGIN_AUTH: 0x80000,
+};
+
+const COM = { QUIT: 0x01, INIT_DB: 0x02, QUERY: 0x03, PING: 0x0e, RESET_CONNECTION: 0x1f };
+
+const SERVER_STATUS_IN_TRANS = 0x0001;
+const SERVER_STATUS_AUTOCOMMIT = 0x0002;
+const SERVER_MORE_RESULTS_EXISTS = 0x0008;
+
+const UTF8MB4_GENERAL_CI = 45;
+
+export const TYPES = {
+  DECIMAL: 0x00, TINY: 0x01, SHORT: 0x02, LONG: 0x03, FLOAT: 0x04, DOUBLE: 0x05, NULL: 0x06, TIMESTAMP: 0x07,
+  LONGLONG: 0x08, INT24: 0x09, DATE: 0x0a, TIME: 0x0b, DATETIME: 0x0c, YEAR: 0x0d, VARCHAR: 0x0f, BIT: 0x10,
+  JSON: 0xf5, NEWDECIMAL: 0xf6, ENUM: 0xf7, SET: 0xf8, TINY_BLOB: 0xf9, MEDIUM_BLOB: 0xfa, LONG_BLOB: 0xfb,
+  BLOB: 0xfc, VAR_STRING: 0xfd, STRING: 0xfe, GEOMETRY: 0xff,
+};
+
+const TYPE_NAMES = Object.fromEntries(Object.entries(TYPES).map(([name, code]) => [code, name]));
+
+const typeName = (code) => TYPE_NAMES[code] || String(code);
+
+const INTEGER_TYPES = new Set([TYPES.TINY, TYPES.SHORT, TYPES.LONG, TYPES.INT24, TYPES.YEAR, TYPES.LONGLONG]);
+const FLOAT_TYPES = new Set([TYPES.FLOAT, TYPES.DOUBLE]);
+
+// ---- Encoding ---------------------------------------------------------------
+
+class Reader {
+  constructor(buffer) {
+    this.buffer = buffer;
+    this.offset = 0;
+  }
+  get remaining() { return this.buffer.length - this.offset; }
+  u8() { return this.buffer[this.offset++]; }
+  u16() { const v = this.buffer.readUInt16LE(this.offset); this.offset += 2; return v; }
+  u32() { const v = this.buffer.readUInt32LE(this.offset); this.offset += 4; return v; }
+  bytes(n) { const v = this.buffer.subarray(this.offset, this.offset + n); this.offset += n; return v; }
+  skip(n) { this.offset += n; }
+  lenencInt() {
+    const first = this.u8();
+    if (first < 0xfb) return first;
+    if (first === 0xfb) return null;
+    if (first === 0xfc) return this.u16();
+    if (first === 0xfd) { const v = this.buffer.readUIntLE(this.offset, 3); this.offset += 3; return v; }
+    const v = this.buffer.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return Number(v);
+  }
+  lenencString() {
+    const length = this.lenencInt();
+    return length === null ? null : this.bytes(length).toString('utf8');
+  }
+  nulString() {
+    const end = this.buffer.indexOf(0, this.offset);
+    const stop = end === -1 ? this.buffer.length : end;
+    const v = this.buffer.subarray(this.offset, stop).toString('utf8');
+    this.offset = stop + 1;
+    return v;
+  }
+  rest() { return this.bytes(this.remaining); }
+}
+
+const u16 = (v) => { const b = Buffer.alloc(2); b.writeUInt16LE(v); return b; };
+const u32 = (v) => { const b = Buffer.alloc(4); b.writeUInt32LE(v >>> 0); return b; };
+
+const lenencInt = (v) => {
+  if (v < 0xfb) return Buffer.from([v]);
+  if (v < 0x10000) return Buffer.concat([Buffer.from([0xfc]), u16(v)]);
+  if (v < 0x1000000) { const b = Buffer.alloc(4); b[0] = 0xfd; b.writeUIntLE(v, 1, 3); return b; }
+  const b = Buffer.alloc(9);
+  b[0] = 0xfe;
+  b.writeBigUInt64LE(BigInt(v), 1);
+  return b;
+};
+
+const lenencString = (text) => {
+  const bytes = Buffer.from(text, 'utf8');
+  return Buffer.concat([lenencInt(bytes.length), bytes]);
+};
+
+const nulString = (text) => Buffer.concat([Buffer.from(text, 'utf8'), Buffer.from([0])]);
+
+// ---- Packets ----------------------------------------------------------------
+
+/**
+ * Splits a socket's byte stream into MySQL packets. Payloads of 16MB or more
+ * arrive as several packets and are joined back together here.
+ */
+class PacketStream {
+  constructor(socket) {
+    this.buffer = Buffer.alloc(0);
+    this.packets = [];
+    this.waiting = [];
+    this.error = null;
+    this.partial = [];
+    socket.on('data', (chunk) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('Connection closed')));
+  }
+
+  drain() {
+    while (this.buffer.length >= 4) {
+      const length = this.buffer.readUIntLE(0, 3);
+      if (this.buffer.length < 4 + length) return;
+      const seq = this.buffer[3];
+      this.partial.push(this.buffer.subarray(4, 4 + length));
+      this.buffer = this.buffer.subarray(4 + length);
+      if (length === MAX_PAYLOAD) continue;
+      const packet = { seq, payload: Buffer.concat(this.partial) };
+      this.partial = [];
+      const next = this.waiting.shift();
+      if (next) next.resolve(packet);
+      else this.packets.push(packet);
+    }
+  }
+
+  fail(err) {
+    if (!this.error) this.error = err;
+    this.waiting.splice(0).forEach(w => w.reject(this.error));
+  }
+
+  next() {
+    if (this.packets.length) return Promise.resolve(this.packets.shift());
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+}
+
+const writePacket = (socket, seq, payload) => {
+  let offset = 0;
+  let id = seq;
+  // A payload that is an exact multiple of 16MB ends with an empty packet
+  for (;;) {
+    const chunk = payload.subarray(offset, offset + MAX_PAYLOAD);
+    const header = Buffer.alloc(4);
+    header.writeUIntLE(chunk.length, 0, 3);
+    header[3] = id & 0xff;
+    socket.write(Buffer.concat([header, chunk]));
+    offset += chunk.length;
+    id++;
+    if (chunk.length < MAX_PAYLOAD) return id;
+  }
+};
+
+const isEof = (payload) => payload[0] === 0xfe && payload.length < 9;
+
+export class MySqlError extends Error {
+  constructor(message, code, sqlState) {
+    super(message);
+    this.name = 'MySqlError';
+    this.code = code;
+    this.sqlState = sqlState;
+  }
+}
+
+const parseError = (payload) => {
+  const r = new Reader(payload);
+  r.skip(1);
+  const code = r.u16();
+  let sqlState = '';
+  if (payload[r.offset] === 0x23) {
+    r.skip(1);
+    sqlState = r.bytes(5).toString();
+  }
+  return new MySqlError(r.rest().toString('utf8'), code, sqlState);
+};
+
+const parseOk = (payload) => {
+  const r = new Reader(payload);
+  r.skip(1);
+  const affectedRows = r.lenencInt();
+  const insertId = r.lenencInt();
+  const status = r.remaining >= 2 ? r.u16() : 0;
+  return { affectedRows, insertId, status };
+};
+
+// ---- Authentication ---------------------------------------------------------
+
+const sha1 = (...parts) => crypto.createHash('sha1').update(Buffer.concat(parts)).digest();
+const sha256 = (...parts) => crypto.createHash('sha256').update(Buffer.concat(parts)).digest();
+
+const xor = (a, b) => Buffer.from(a.map((byte, i) => byte ^ b[i % b.length]));
+
+const scramblePassword = (plugin, password, scramble) => {
+  if (!password) return Buffer.alloc(0);
+  const pw = Buffer.from(password, 'utf8');
+  if (plugin === 'caching_sha2_password') {
+    const hashed = sha256(pw);
+    return xor(hashed, sha256(sha256(hashed), scramble));
+  }
+  if (plugin === 'mysql_native_password') {
+    const hashed = sha1(pw);
+    return xor(hashed, sha1(scramble, sha1(hashed)));
+  }
+  throw new Error(`Unsupported authentication plugin ${plugin}`);
+};
+
+// ---- Client -----------------------------------------------------------------
+
+const convertValue = (text, type) => {
+  if (text === null) return null;
+  if (INTEGER_TYPES.has(type)) {
+    const n = Number(text);
+    return Number.isSafeInteger(n) ? n : text;
+  }
+  if (FLOAT_TYPES.has(type)) return Number(text);
+  return text;
+};
+
+/**
+ * One client connection. Commands are queued so callers can share it without
+ * interleaving packets.
+ */
+export class MySqlConnection {
+  constructor(socket, stream, handshake) {
+    this.socket = socket;
+    this.stream = stream;
+    this.threadId = handshake.threadId;
+    this.serverVersion = handshake.serverVersion;
+    this.closed = false;
+    // From the status flags of the last OK or EOF packet the server sent
+    this.inTransaction = false;
+    this.queue = Promise.resolve();
+    socket.on('close', () => { this.closed = true; });
+  }
+
+  command(run) {
+    const result = this.queue.then(run);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  // With `handlers.onRow`, rows are handed over one by one instead of collected
+  async readResultSet(first, handlers) {
+    const columnCount = new Reader(first.payload).lenencInt();
+    const columns = [];
+    for (let i = 0; i < columnCount; i++) {
+      const r = new Reader((await this.stream.next()).payload);
+      r.lenencString(); // catalog
+      r.lenencString(); // schema
+      r.lenencString(); // table
+      r.lenencString(); // org_table
+      const name = r.lenencString();
+      r.lenencString(); // org_name
+      r.lenencInt();
+      r.u16(); // charset
+      r.u32(); // length
+      const type = r.u8();
+      columns.push({ name, type });
+    }
+    await this.stream.next(); // EOF after the column definitions
+    handlers?.onColumns?.(columns.map(c => c.name), columns.map(c => typeName(c.type)));
+
+    const rows = [];
+    for (;;) {
+      const { payload } = await this.stream.next();
+      if (payload[0] === 0xff) throw parseError(payload);
+      if (isEof(payload)) {
+        const status = payload.length >= 5 ? payload.readUInt16LE(3) : 0;
+        this.inTransaction = (status & SERVER_STATUS_IN_TRANS) !== 0;
+        return { columns, rows, more: (status & SERVER_MORE_RESULTS_EXISTS) !== 0 };
+      }
+      const r = new Reader(payload);
+      const row = {};
+      columns.forEach(c => { row[c.name] = convertValue(r.lenencString(), c.type); });
+      if (handlers?.onRow) handlers.onRow(row);
+      else rows.push(row);
+    }
+  }
+
+  /**
+   * Runs one COM_QUERY. Statements without a result set report their
+   * affected rows and insert id. Only the first result set is returned;
+   * any further ones (e.g. from CALL) are read and dropped. `handlers`
+   * ({ onColumns, onRow }) stream the first result set instead of buffering it.
+   */
+  query(sql, handlers) {
+    return this.command(async () => {
+      if (this.closed) throw new Error('Connection closed');
+      writePacket(this.socket, 0, Buffer.concat([Buffer.from([COM.QUERY]), Buffer.from(sql, 'utf8')]));
+      let result = null;
+      let failure = null;
+      for (;;) {
+        const packet = await this.stream.next();
+        const { payload } = packet;
+        let more = false;
+        if (payload[0] === 0xff) {
+          failure = failure || parseError(payload);
+        } else if (payload[0] === 0x00) {
+          const ok = parseOk(payload);
+          this.inTransaction = (ok.status & SERVER_STATUS_IN_TRANS) !== 0;
+          result = result || { columns: [], columnTypes: [], rows: [], affectedRows: ok.affectedRows, insertId: ok.insertId };
+          more = (ok.status & SERVER_MORE_RESULTS_EXISTS) !== 0;
+        } else if (payload[0] === 0xfb) {
+          // Answer the file request with an empty file; the server then sends its OK or ERR
+          failure = new Error('LOAD DATA LOCAL INFILE is not supported');
+          writePacket(this.socket, packet.seq + 1, Buffer.alloc(0));
+          continue;
+        } else {
+          try {
+            const set = await this.readResultSet(packet, result ? undefined : handlers);
+            more = set.more;
+            result = result || {
+              columns: set.columns.map(c => c.name),
+              columnTypes: set.columns.map(c => typeName(c.type)),
+              rows: set.rows,
+            };
+          } catch (err) {
+            failure = failure || err;
+          }
+        }
+        if (!more) break;
+      }
+      if (failure) throw failure;
+      return result;
+    });
+  }
+
+  // Error packets carry no status flags; a ping refreshes `inTransaction` after one
+  ping() {
+    return this.command(async () => {
+      writePacket(this.socket, 0, Buffer.from([COM.PING]));
+      const { payload } = await this.stream.next();
+      if (payload[0] === 0xff) throw parseError(payload);
+      this.inTransaction = (parseOk(payload).status & SERVER_STATUS_IN_TRANS) !== 0;
+    });
+  }
+
+  /**
+   * COM_RESET_CONNECTION: rolls back an open transaction, releases table
+   * locks, drops temporary tables and resets session variables. The default
+   * database stays as it is.
+   */
+  reset() {
+    return this.command(async () => {
+      writePacket(this.socket, 0, Buffer.from([COM.RESET_CONNECTION]));
+      const { payload } = await this.stream.next();
+      if (payload[0] === 0xff) throw parseError(payload);
+      this.inTransaction = (parseOk(payload).status & SERVER_STATUS_IN_TRANS) !== 0;
+    });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    writePacket(this.socket, 0, Buffer.from([COM.QUIT]));
+    this.socket.end();
+  }
+}
+
+const parseHandshake = (payload) => {
+  const r = new Reader(payload);
+  if (payload[0] === 0xff) throw parseError(payload);
+  const protocol = r.u8();
+  if (protocol !== 10) throw new Error(`Unsupported handshake protocol ${protocol}`);
+  const serverVersion = r.nulString();
+  const threadId = r.u32();
+  const part1 = r.bytes(8);
+  r.skip(1);
+  let capabilities = r.u16();
+  r.skip(1 + 2); // charset, status
+  capabilities |= r.u16() << 16;
+  const authDataLength = r.u8();
+  r.skip(10);
+  const part2 = r.bytes(Math.max(13, authDataLength - 8) - 1);
+  r.skip(1);
+  const plugin = (capabilities & CLIENT.PLUGIN_AUTH) && r.remaining ? r.nulString() : 'mysql_native_password';
+  return { serverVersion, threadId, capabilities, scramble: Buffer.concat([part1, part2]), plugin };
+};
+
+/**
+ * Sends the password for caching_sha2_password's full authentication. Over a
+ * plain socket it must be RSA-encrypted with the server's public key.
+ */
+const sendRsaPassword = async (socket, stream, seq, password, scramble) => {
+  writePacket(socket, seq, Buffer.from([0x02]));
+  const { payload, seq: keySeq } = await stream.next();
+  if (payload[0] === 0xff) throw parseError(payload);
+  const key = payload.subarray(1).toString('utf8');
+  const encrypted = crypto.publicEncrypt(
+    { key, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING },
+    xor(Buffer.from(`${password}\0`, 'utf8'), scramble)
+  );
+  writePacket(socket, keySeq + 1, encrypted);
+};
+
+const authenticate = async (socket, stream, options, handshake) => {
+  let plugin = handshake.plugin;
+  let scramble = handshake.scramble;
+  const capabilities = CLIENT.LONG_PASSWORD | CLIENT.FOUND_ROWS | CLIENT.LONG_FLAG | CLIENT.PROTOCOL_41 |
+    CLIENT.TRANSACTIONS | CLIENT.SECURE_CONNECTION | CLIENT.MULTI_RESULTS | CLIENT.PLUGIN_AUTH |
+    (options.database ? CLIENT.CONNECT_WITH_DB : 0);
+  const authResponse = scramblePassword(plugin, options.password, scramble);
+  writePacket(socket, 1, Buffer.concat([
+    u32(capabilities),
+    u32(MAX_PAYLOAD),
+    Buffer.from([UTF8MB4_GENERAL_CI]),
+    Buffer.alloc(23),
+    nulString(options.user),
+    Buffer.from([authResponse.length]),
+    authResponse,
+    options.database ? nulString(options.database) : Buffer.alloc(0),
+    nulString(plugin),
+  ]));
+
+  for (;;) {
+    const { payload, seq } = await stream.next();
+    if (payload[0] === 0x00) return;
+    if (payload[0] === 0xff) throw parseError(payload);
+    if (payload[0] === 0xfe) {
+      // Auth switch: the server wants a different plugin with a fresh scramble
+      const r = new Reader(payload);
+      r.skip(1);
+      plugin = r.nulString();
+      scramble = r.rest().subarray(0, 20);
+      writePacket(socket, seq + 1, scramblePassword(plugin, options.password, scramble));
+    } else if (payload[0] === 0x01 && plugin === 'caching_sha2_password') {
+      // 0x03: the server had the password cached and an OK follows; 0x04: full authentication
+      if (payload[1] === 0x04) await sendRsaPassword(socket, stream, seq + 1, options.password || '', scramble);
+    } else {
+      throw new Error(`Unexpected packet 0x${payload[0].toString(16)} during authentication`);
+    }
+  }
+};
+
+export const connect = (options) => new Promise((resolve, reject) => {
+  const socket = net.connect({ host: options.host, port: options.port });
+  const stream = new PacketStream(socket);
+  socket.setNoDelay(true);
+  const timer = setTimeout(() => socket.destroy(new Error(`Timed out connecting to ${options.host}:${options.port}`)), options.timeoutMs || 10_000);
+  (async () => {
+    const handshake = parseHandshake((await stream.next()).payload);
+    await authenticate(socket, stream, options, handshake);
+    return new MySqlConnection(socket, stream, handshake);
+  })().then(
+    (connection) => { clearTimeout(timer); resolve(connection); },
+    (err) => { clearTimeout(timer); socket.destroy(); reject(err); }
+  );
+});
+
+// ---- Server -----------------------------------------------------------------
+
+const okPacket = (affectedRows = 0, insertId = 0, status = SERVER_STATUS_AUTOCOMMIT) =>
+  Buffer.concat([Buffer.from([0x00]), lenencInt(affectedRows), lenencInt(insertId), u16(status), u16(0)]);
+
+const eofPacket = (status = SERVER_STATUS_AUTOCOMMIT) => Buffer.concat([Buffer.from([0xfe]), u16(0), u16(status)]);
+
+const errorPacket = (message, code = 1105, sqlState = 'HY000') =>
+  Buffer.concat([Buffer.from([0xff]), u16(code), Buffer.from(`#${sqlState}`), Buffer.from(message, 'utf8')]);
+
+// Wire type for a column, guessed from its first non-null value
+const inferType = (rows, column) => {
+  const sample = rows.find(row => row[column] !== null && row[column] !== undefined)?.[column];
+  if (typeof sample === 'number') return Number.isInteger(sample) ? TYPES.LONGLONG : TYPES.DOUBLE;
+  return TYPES.VAR_STRING;
+};
+
+const columnDefinition = (name, type) => Buffer.concat([
+  lenencString('def'), lenencString(''), lenencString(''), lenencString(''),
+  lenencString(name), lenencString(name),
+  lenencInt(0x0c), u16(UTF8MB4_GENERAL_CI), u32(1024), Buffer.from([type]), u16(0),
+  Buffer.from([type === TYPES.DOUBLE ? 0x1f : 0]), u16(0),
+]);
+
+const textValue = (value) => {
+  if (value === null || value === undefined) return Buffer.from([0xfb]);
+  return lenencString(typeof value === 'object' ? JSON.stringify(value) : String(value));
+};
+
+const writeResultSet = (socket, { columns, rows }, status) => {
+  let seq = writePacket(socket, 1, lenencInt(columns.length));
+  columns.forEach(name => { seq = writePacket(socket, seq, columnDefinition(name, inferType(rows, name))); });
+  seq = writePacket(socket, seq, eofPacket(status));
+  rows.forEach(row => { seq = writePacket(socket, seq, Buffer.concat(columns.map(name => textValue(row[name])))); });
+  writePacket(socket, seq, eofPacket(status));
+};
+
+/**
+ * Serves one client socket. Any user and password are accepted; `query`
+ * returns `{ columns, rows }`, `{ affectedRows }` or throws. `inTransaction`
+ * tells clients whether the session has an open transaction; `reset` answers
+ * COM_RESET_CONNECTION.
+ */
+export const serveConnection = (socket, { serverVersion, connectionId, query, inTransaction = () => false, reset = () => {} }) => {
+  const status = () => SERVER_STATUS_AUTOCOMMIT | (inTransaction() ? SERVER_STATUS_IN_TRANS : 0);
+  const stream = new PacketStream(socket);
+  const scramble = crypto.randomBytes(20);
+  socket.on('error', () => {});
+  writePacket(socket, 0, Buffer.concat([
+    Buffer.from([10]),
+    nulString(serverVersion),
+    u32(connectionId),
+    scramble.subarray(0, 8),
+    Buffer.from([0]),
+    u16(0xffff & (CLIENT.LONG_PASSWORD | CLIENT.FOUND_ROWS | CLIENT.LONG_FLAG | CLIENT.CONNECT_WITH_DB | CLIENT.PROTOCOL_41 | CLIENT.TRANSACTIONS | CLIENT.SECURE_CONNECTION)),
+    Buffer.from([UTF8MB4_GENERAL_CI]),
+    u16(SERVER_STATUS_AUTOCOMMIT),
+    u16((CLIENT.MULTI_RESULTS | CLIENT.PLUGIN_AUTH) >>> 16),
+    Buffer.from([21]),
+    Buffer.alloc(10),
+    scramble.subarray(8),
+    Buffer.from([0]),
+    nulString('mysql_native_password'),
+  ]));
+
+  (async () => {
+    const response = await stream.next();
+    writePacket(socket, response.seq + 1, okPacket());
+    for (;;) {
+      const { payload } = await stream.next();
+      const command = payload[0];
+      if (command === COM.QUIT) return socket.end();
+      if (command === COM.RESET_CONNECTION) reset();
+      if (command === COM.PING || command === COM.INIT_DB || command === COM.RESET_CONNECTION) {
+        writePacket(socket, 1, okPacket(0, 0, status()));
+        continue;
+      }
+      if (command !== COM.QUERY) {
+        writePacket(socket, 1, errorPacket(`Unsupported command 0x${command.toString(16)}`, 1047, '08S01'));
+        continue;
+      }
+      try {
+        const result = await query(payload.subarray(1).toString('utf8'));
+        if (result.columns?.length) writeResultSet(socket, result, status());
+        else writePacket(socket, 1, okPacket(result.affectedRows || 0, 0, status()));
+      } catch (err) {
+        writePacket(socket, 1, errorPacket(err.message, typeof err.code === 'number' ? err.code : undefined));
+      }
+    }
+  })().catch(() => socket.destroy());
+};
@@ -0,0 +1,269 @@
+
+// Local HTTP stand-in for a TiDB cluster. Serves the endpoints the app's
+// stand-in data source expects so every view can run against "live" data
+// without a real cluster.
+//
+//   node scripts/standin-server.mjs [port]
+//
+// It also answers the MySQL wire protocol on STANDIN_MYSQL_PORT (4001) with
+// the same canned data, as a target for scripts/mysql-proxy.mjs.
+
+import http from 'node:http';
+import net from 'node:net';
+import { serveConnection } from './mysql-wire.mjs';
+
+const port = Number(process.argv[2] || process.env.STANDIN_PORT || 4100);
+const mysqlPort = Number(process.env.STANDIN_MYSQL_PORT || 4001);
+
+const tables = {
+  orders: [
+    { name: 'id', type: 'bigint(20)' },
+    { name: 'user_id', type: 'bigint(20)' },
+    { name: 'amount', type: 'decimal(12,2)' },
+    { name: 'category', type: 'varchar(64)' },
+    { name: 'created_at', type: 'datetime' },
+  ],
+  users: [
+    { name: 'id', type: 'bigint(20)' },
+    { name: 'email', type: 'varchar(255)' },
+    { name: 'country', type: 'char(2)' },
+  ],
+};
+
+const categories = ['Electronics', 'Clothing', 'Home & Kitchen', 'Automotive', 'Beauty'];
+
+const orders = Array.from({ length: 200 }, (_, i) => ({
+  id: i + 1,
+  user_id: 1 + (i % 40),
+  amount: Number((Math.random() * 500).toFixed(2)),
+  category: categories[i % categories.length],
+  created_at: new Date(Date.now() - i * 3600_000).toISOString(),
+}));
+
+const replicas = new Map([['orders', { count: 1, progress: 1 }]]);
+
+const planFor = (sql) => {
+  const analytical = /GROUP BY|JOIN|SUM\(|COUNT\(/i.test(sql);
+  const rows = analytical
+    ? [
+        { id: 'TableReader', estRows: '5.00', task: 'root', 'access object': '', 'operator info': 'data:ExchangeSender' },
+        { id: '└─ExchangeSender', estRows: '5.00', task: 'mpp[tiflash]', 'access object': '', 'operator info': 'ExchangeType: PassThrough' },
+        { id: '  └─HashAgg', estRows: '5.00', task: 'mpp[tiflash]', 'access object': '', 'operator info': 'group by:orders.category' },
+        { id: '    └─TableFullScan', estRows: '200.00', task: 'mpp[tiflash]', 'access object': 'table:orders', 'operator info': 'keep order:false' },
+      ]
+    : [
+        { id: 'TableReader', estRows: '10.00', task: 'root', 'access object': '', 'operator info': 'data:TableFullScan' },
+        { id: '└─TableFullScan', estRows: '10.00', task: 'cop[tikv]', 'access object': 'table:orders', 'operator info': 'keep order:false' },
+      ];
+  return { columns: ['id', 'estRows', 'task', 'access object', 'operator info'], rows };
+};
+
+const runSql = (sql) => {
+  if (/^\s*EXPLAIN\b/i.test(sql)) return planFor(sql);
+  if (/^\s*SELECT\s+1\b/i.test(sql)) return { columns: ['ping'], rows: [{ ping: 1 }] };
+  if (/information_schema\.TIFLASH_REPLICA/i.test(sql)) {
+    const rows = [...replicas.entries()].map(([table, r]) => {
+      r.progress = Math.min(1, r.progress + 0.1);
+      return { TABLE_SCHEMA: 'standin', TABLE_NAME: table, REPLICA_COUNT: r.count, AVAILABLE: r.progress >= 1 ? 1 : 0, PROGRESS: r.progress };
+    });
+    return { columns: ['TABLE_SCHEMA', 'TABLE_NAME', 'REPLICA_COUNT', 'AVAILABLE', 'PROGRESS'], rows };
+  }
+  const alter = sql.match(/ALTER\s+TABLE\s+(?:`?\w+`?\.)?`?(\w+)`?\s+SET\s+TIFLASH\s+REPLICA\s+(\d+)/i);
+  if (alter) {
+    const [, table, count] = alter;
+    if (!tables[table]) throw new Error(`Table 'standin.${table}' doesn't exist`);
+    if (Number(count) === 0) replicas.delete(table);
+    else replicas.set(table, { count: Number(count), progress: 0 });
+    return { columns: [], rows: [] };
+  }
+  if (/GROUP BY/i.test(sql)) {
+    const rows = categories.map(category => {
+      const matching = orders.filter(o => o.category === category);
+      return {
+        category,
+        total_sales: Number(matching.reduce((sum, o) => sum + o.amount, 0).toFixed(2)),
+        order_count: matching.length,
+      };
+    });
+    return { columns: ['category', 'total_sales', 'order_count'], columnTypes: ['varchar(64)', 'decimal(34,2)', 'bigint(21)'], rows };
+  }
+  return { columns: tables.orders.map(c => c.name), columnTypes: tables.orders.map(c => c.type), rows: orders.slice(0, 10) };
+};
+
+// Sleeping statements by connection id, so KILL QUERY and the process list can see them
+const running = new Map();
+// Connections with an open transaction; the data is read-only, so only the status flag changes
+const transactions = new Set();
+let nextConnectionId = 1;
+
+const interrupted = () => Object.assign(new Error('Query execution was interrupted'), { code: 1317 });
+
+const processList = (sql) => {
+  const like = sql.match(/INFO\s+LIKE\s+'%([^%']*)%'/i)?.[1];
+  const rows = [...running.entries()]
+    .map(([id, r]) => ({ ID: id, USER: 'root', DB: 'standin', COMMAND: 'Query', TIME: Math.round((Date.now() - r.startedAt) / 1000), INFO: r.sql }))
+    .filter(row => !like || row.INFO.includes(like))
+    .filter(row => !/PROCESSLIST/i.test(row.INFO));
+  return { columns: ['ID', 'USER', 'DB', 'COMMAND', 'TIME', 'INFO'], rows };
+};
+
+/**
+ * runSql plus the statements that depend on time or on other connections:
+ * SLEEP(n) holds the connection, so a runaway query can be simulated and
+ * then cancelled with KILL QUERY <id> from another connection. BEGIN,
+ * COMMIT and ROLLBACK only track whether the connection is in a transaction.
+ */
+const execute = async (sql, connectionId) => {
+  const kill = sql.match(/^\s*KILL\s+(?:TIDB\s+)?QUERY\s+(\d+)/i);
+  if (kill) {
+    running.get(Number(kill[1]))?.cancel();
+    return { columns: [], rows: [] };
+  }
+  if (/PROCESSLIST/i.test(sql)) return processList(sql);
+  if (/^\s*(BEGIN|START\s+TRANSACTION)\b/i.test(sql)) {
+    transactions.add(connectionId);
+    return { columns: [], rows: [] };
+  }
+  if (/^\s*(COMMIT|ROLLBACK)\b/i.test(sql)) {
+    transactions.delete(connectionId);
+    return { columns: [], rows: [] };
+  }
+  const sleep = sql.match(/\bSLEEP\(\s*(\d+(?:\.\d+)?)\s*\)/i);
+  if (sleep) {
+    await new Promise((resolve, reject) => {
+      const timer = setTimeout(() => { running.delete(connectionId); resolve(); }, Number(sleep[1]) * 1000);
+      running.set(connectionId, {
+        sql,
+        startedAt: Date.now(),
+        cancel: () => { clearTimeout(timer); running.delete(connectionId); reject(interrupted()); },
+      });
+    });
+    return { columns: ['sleep'], rows: [{ sleep: 0 }] };
+  }
+  return runSql(sql);
+};
+
+// 0-1 intensity of a 30 second analytical burst every 2 minutes; it slows OLTP down while it runs
+const burst = () => {
+  const phase = (Date.now() % 120_000) / 30_000;
+  return phase < 1 ? Math.sin(Math.PI * phase) : 0;
+};
+
+const status = () => {
+  const b = burst();
+  return {
+    tikvRegionCount: 64,
+    tiflashReplicaCount: 1,
+    syncLagMs: 5 + Math.random() * 20,
+    qpsOltp: 300 + Math.random() * 100 - b * 60,
+    qpsOlap: 4 + Math.random() * 3 + b * 30,
+    oltpP99Ms: 6 + Math.random() * 2 + b * 18,
+    tiflashCpuPercent: 15 + Math.random() * 10 + b * 70,
+  };
+};
+
+const send = (res, code, body) => {
+  res.writeHead(code, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, Accept',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const STREAM_BATCH_ROWS = 50;
+
+// Same newline-delimited format as scripts/mysql-proxy.mjs
+const streamQuery = async (res, sql, connectionId) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Access-Control-Allow-Origin': '*' });
+  const write = (message) => res.writable && res.write(`${JSON.stringify(message)}\n`);
+  try {
+    const result = await execute(sql, connectionId);
+    write({ columns: result.columns, columnTypes: result.columnTypes });
+    for (let i = 0; i < result.rows.length; i += STREAM_BATCH_ROWS) write({ rows: result.rows.slice(i, i + STREAM_BATCH_ROWS) });
+    write({ done: true });
+  } catch (err) {
+    write({ error: err.message, code: err.code });
+  }
+  res.end();
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch {
+      reject(Object.assign(new Error('Request body is not valid JSON'), { status: 400 }));
+    }
+  });
+});
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  const { pathname } = new URL(req.url, `http://localhost:${port}`);
+  try {
+    if (req.method === 'POST' && pathname === '/query') {
+      const { sql } = await readBody(req);
+      if (!sql) return send(res, 400, { message: 'Missing sql' });
+      // Each request acts as its own connection; dropping it kills the statement
+      const connectionId = nextConnectionId++;
+      res.on('close', () => {
+        running.get(connectionId)?.cancel();
+        transactions.delete(connectionId);
+      });
+      if (/application\/x-ndjson/.test(req.headers.accept || '')) return await streamQuery(res, sql, connectionId);
+      return send(res, 200, await execute(sql, connectionId));
+    }
+    if (pathname === '/metrics') {
+      const s = status();
+      return send(res, 200, {
+        time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+        oltp: s.qpsOltp,
+        olap: s.qpsOlap,
+      });
+    }
+    if (pathname === '/status') return send(res, 200, status());
+    if (pathname === '/schema') {
+      return send(res, 200, {
+        databases: ['standin'],
+        tables: Object.entries(tables).map(([name, columns]) => {
+          const replica = replicas.get(name);
+          return {
+            database: 'standin',
+            name,
+            columns,
+            indexes: [{ name: 'PRIMARY', columns: ['id'], unique: true }],
+            tiflashReplica: replica && {
+              database: 'standin',
+              table: name,
+              replicaCount: replica.count,
+              available: replica.progress >= 1,
+              progress: replica.progress,
+            },
+          };
+        }),
+        loadedAt: new Date().toISOString(),
+      });
+    }
+    send(res, 404, { message: `No route for ${req.method} ${pathname}` });
+  } catch (err) {
+    send(res, err.status || 500, { message: err.message });
+  }
+});
+
+server.listen(port, () => console.log(`TiDB stand-in listening on http://localhost:${port}`));
+
+net.createServer(socket => {
+  const connectionId = nextConnectionId++;
+  socket.on('close', () => transactions.delete(connectionId));
+  serveConnection(socket, {
+    serverVersion: '8.0.11-TiDB-standin',
+    connectionId,
+    query: (sql) => execute(sql, connectionId),
+    inTransaction: () => transactions.has(connectionId),
+    reset: () => transactions.delete(connectionId),
+  });
+}).listen(mysqlPort, () => console.log(`TiDB stand-in MySQL protocol on localhost:${mysqlPort}`));
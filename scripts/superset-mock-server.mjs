@@ -0,0 +1,210 @@
+
+// Local HTTP mock of the Apache Superset endpoints the Superset view uses:
+// database login, dashboard and database listing, embedded dashboards with
+// guest tokens, and virtual dataset creation. Log in as admin / admin.
+// POSTs behind the login need the CSRF token issued for the session cookie,
+// as in Superset with ENABLE_CORS and WTF_CSRF_ENABLED.
+//
+//   node scripts/superset-mock-server.mjs [port]
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const port = Number(process.argv[2] || process.env.SUPERSET_MOCK_PORT || 8088);
+
+const USERS = { admin: 'admin' };
+
+const dashboards = [
+  { id: 1, dashboard_title: 'Sales Overview', slug: 'sales', published: true, embedded: randomUUID() },
+  { id: 2, dashboard_title: 'Cluster Health', slug: null, published: true, embedded: randomUUID() },
+  { id: 3, dashboard_title: 'Draft: Inventory', slug: null, published: false, embedded: null },
+];
+
+const databases = [
+  { id: 1, database_name: 'TiDB (standin)', backend: 'mysql' },
+  { id: 2, database_name: 'examples', backend: 'sqlite' },
+];
+
+const datasets = [];
+const accessTokens = new Set();
+const guestTokens = new Map();
+// Session cookie -> CSRF token
+const csrfTokens = new Map();
+
+// Credentialed requests need the caller's origin echoed back; '*' is refused by browsers
+const corsHeaders = (req) => ({
+  'Access-Control-Allow-Origin': req.headers.origin || '*',
+  'Access-Control-Allow-Credentials': 'true',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-CSRFToken',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Vary': 'Origin',
+});
+
+const send = (res, code, body, extra = {}) => {
+  res.writeHead(code, { ...corsHeaders(res.req), 'Content-Type': 'application/json', ...extra });
+  res.end(JSON.stringify(body));
+};
+
+const sendHtml = (res, code, title, body) => {
+  res.writeHead(code, { ...corsHeaders(res.req), 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!DOCTYPE html><html><head><title>${title}</title><style>
+    body { font-family: system-ui, sans-serif; background: #f7f7f7; color: #333; margin: 24px; }
+    .card { background: #fff; border-radius: 8px; padding: 16px 20px; box-shadow: 0 1px 3px rgba(0,0,0,.1); margin-bottom: 16px; }
+    .bar { background: #20a7c9; height: 18px; margin: 6px 0; border-radius: 3px; color: #fff; font-size: 11px; padding-left: 6px; }
+    code, pre { background: #eee; padding: 2px 4px; border-radius: 3px; white-space: pre-wrap; }
+  </style></head><body>${body}</body></html>`);
+};
+
+const escapeHtml = (s) => String(s).replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const fakeCharts = () => ['Electronics', 'Clothing', 'Home & Kitchen', 'Automotive', 'Beauty']
+  .map((label, i) => `<div class="bar" style="width:${80 - i * 12}%">${label}</div>`)
+  .join('');
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch (err) {
+      reject(Object.assign(err, { status: 400 }));
+    }
+  });
+});
+
+const authorized = (req) => {
+  const match = (req.headers.authorization || '').match(/^Bearer (.+)$/);
+  return !!match && accessTokens.has(match[1]);
+};
+
+const sessionId = (req) => (req.headers.cookie || '').match(/(?:^|;\s*)session=([\w-]+)/)?.[1];
+
+const csrfValid = (req) => {
+  const session = sessionId(req);
+  return !!session && !!req.headers['x-csrftoken'] && csrfTokens.get(session) === req.headers['x-csrftoken'];
+};
+
+const dashboardJson = (d) => ({
+  id: d.id,
+  dashboard_title: d.dashboard_title,
+  url: d.slug ? `/superset/dashboard/${d.slug}/` : `/superset/dashboard/${d.id}/`,
+  published: d.published,
+  changed_on_delta_humanized: `${d.id * 3} days ago`,
+});
+
+// Embedded page: waits for the SDK's port handshake, then for a guest token on the port
+const embeddedPage = (d) => `
+  <div class="card"><h2>${escapeHtml(d.dashboard_title)}</h2><p id="state">Waiting for guest token…</p></div>
+  <div class="card" id="charts" style="display:none">${fakeCharts()}</div>
+  <script>
+    window.addEventListener('message', (event) => {
+      if (event.data?.type !== '__embedded_comms__' || !event.ports[0]) return;
+      const port = event.ports[0];
+      port.onmessage = async ({ data }) => {
+        if (data?.switchboardAction !== 'emit' || data.method !== 'guestToken') return;
+        const res = await fetch('/api/v1/security/guest_token/check?token=' + encodeURIComponent(data.args.guestToken) + '&uuid=${d.embedded}');
+        const ok = res.ok;
+        document.getElementById('state').textContent = ok ? 'Authenticated with guest token at ' + new Date().toLocaleTimeString() : 'Guest token rejected';
+        document.getElementById('charts').style.display = ok ? 'block' : 'none';
+      };
+    });
+  </script>`;
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const { pathname } = url;
+  try {
+    if (req.method === 'POST' && pathname === '/api/v1/security/login') {
+      const { username, password, provider } = await readBody(req);
+      if (provider !== 'db' || !USERS[username] || USERS[username] !== password) {
+        return send(res, 401, { message: 'Not authorized' });
+      }
+      const token = randomUUID();
+      accessTokens.add(token);
+      return send(res, 200, { access_token: token });
+    }
+
+    if (pathname === '/api/v1/security/guest_token/check') {
+      const uuid = guestTokens.get(url.searchParams.get('token'));
+      return uuid && uuid === url.searchParams.get('uuid') ? send(res, 200, { ok: true }) : send(res, 401, { message: 'Invalid guest token' });
+    }
+
+    const embeddedPath = pathname.match(/^\/embedded\/([\w-]+)\/?$/);
+    if (embeddedPath) {
+      const d = dashboards.find(x => x.embedded === embeddedPath[1]);
+      return d ? sendHtml(res, 200, d.dashboard_title, embeddedPage(d)) : sendHtml(res, 404, 'Not found', '<p>No such embedded dashboard</p>');
+    }
+
+    const standalonePath = pathname.match(/^\/superset\/dashboard\/([\w-]+)\/?$/);
+    if (standalonePath) {
+      const d = dashboards.find(x => String(x.id) === standalonePath[1] || x.slug === standalonePath[1]);
+      if (!d) return sendHtml(res, 404, 'Not found', '<p>No such dashboard</p>');
+      return sendHtml(res, 200, d.dashboard_title, `<div class="card"><h2>${escapeHtml(d.dashboard_title)}</h2><p>Standalone view (session login)</p></div><div class="card">${fakeCharts()}</div>`);
+    }
+
+    if (pathname === '/explore/') {
+      const ds = datasets.find(x => String(x.id) === url.searchParams.get('datasource_id'));
+      if (!ds) return sendHtml(res, 404, 'Not found', '<p>No such dataset</p>');
+      return sendHtml(res, 200, ds.table_name, `<div class="card"><h2>Explore: ${escapeHtml(ds.table_name)}</h2><pre>${escapeHtml(ds.sql)}</pre></div>`);
+    }
+
+    if (pathname.startsWith('/api/')) {
+      if (!authorized(req)) return send(res, 401, { msg: 'Missing Authorization Header' });
+
+      if (req.method === 'GET' && pathname === '/api/v1/security/csrf_token/') {
+        const session = sessionId(req) || randomUUID();
+        const token = randomUUID();
+        csrfTokens.set(session, token);
+        return send(res, 200, { result: token }, { 'Set-Cookie': `session=${session}; Path=/; HttpOnly; SameSite=Lax` });
+      }
+      if (req.method === 'POST' && !csrfValid(req)) {
+        return send(res, 400, { message: '400 Bad Request: The CSRF token is missing.' });
+      }
+
+      if (req.method === 'GET' && pathname === '/api/v1/dashboard/') {
+        return send(res, 200, { count: dashboards.length, result: dashboards.map(dashboardJson) });
+      }
+      const embeddedApi = pathname.match(/^\/api\/v1\/dashboard\/(\d+)\/embedded$/);
+      if (req.method === 'GET' && embeddedApi) {
+        const d = dashboards.find(x => x.id === Number(embeddedApi[1]));
+        if (!d?.embedded) return send(res, 404, { message: 'Not found' });
+        return send(res, 200, { result: { uuid: d.embedded, dashboard_id: String(d.id), allowed_domains: [] } });
+      }
+      if (req.method === 'POST' && pathname === '/api/v1/security/guest_token/') {
+        const { resources } = await readBody(req);
+        const resource = Array.isArray(resources) ? resources.find(r => r.type === 'dashboard') : null;
+        if (!resource || !dashboards.some(d => d.embedded === resource.id)) {
+          return send(res, 400, { message: { resources: ['Unknown embedded dashboard'] } });
+        }
+        const token = randomUUID();
+        guestTokens.set(token, resource.id);
+        return send(res, 200, { token });
+      }
+      if (req.method === 'GET' && pathname === '/api/v1/database/') {
+        return send(res, 200, { count: databases.length, result: databases });
+      }
+      if (req.method === 'GET' && pathname === '/api/v1/dataset/') {
+        return send(res, 200, { count: datasets.length, result: datasets });
+      }
+      if (req.method === 'POST' && pathname === '/api/v1/dataset/') {
+        const body = await readBody(req);
+        if (!databases.some(d => d.id === body.database)) return send(res, 422, { message: { database: ['Database does not exist'] } });
+        if (!body.table_name) return send(res, 400, { message: { table_name: ['Missing data for required field.'] } });
+        if (datasets.some(d => d.database === body.database && d.schema === (body.schema ?? null) && d.table_name === body.table_name)) {
+          return send(res, 422, { message: { table_name: [`Dataset ${body.table_name} already exists`] } });
+        }
+        const dataset = { id: datasets.length + 1, database: body.database, schema: body.schema ?? null, table_name: body.table_name, sql: body.sql || null };
+        datasets.push(dataset);
+        return send(res, 201, { id: dataset.id, result: dataset });
+      }
+    }
+
+    send(res, 404, { message: `No route for ${req.method} ${pathname}` });
+  } catch (err) {
+    send(res, err.status || 500, { message: err.message });
+  }
+});
+
+server.listen(port, () => console.log(`Superset mock listening on http://localhost:${port} (admin / admin)`));
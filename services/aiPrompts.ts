@@ -0,0 +1,140 @@
+import { AIInsight, InsightContext, SchemaCatalog, SchemaTableInfo, AdviceRequest, AdviceDraft, SqlDraft } from "../types";
+import { formatPlanText } from "./planParser";
+
+/**
+ * Prompts and response normalization shared by the LLM-backed providers.
+ */
+
+const MAX_SCHEMA_TABLES = 40;
+
+const formatMetrics = (context: InsightContext): string => context.recentMetrics
+  .map(m => `${m.time}: oltp=${m.oltp.toFixed(0)} olap=${m.olap.toFixed(1)}${m.syncLagMs !== undefined ? ` lag=${Number(m.syncLagMs).toFixed(1)}ms` : ''}`)
+  .join('\n');
+
+const formatStatements = (context: InsightContext): string => context.topStatements
+  .map(s => `- [${s.digest.slice(0, 12)}] ${s.digestText.slice(0, 160)} | execs=${s.execCount} avg=${s.avgLatencyMs.toFixed(1)}ms` +
+    `${s.tikvAvgMs !== undefined ? ` tikv=${s.tikvAvgMs.toFixed(1)}ms` : ''}${s.tiflashAvgMs !== undefined ? ` tiflash=${s.tiflashAvgMs.toFixed(1)}ms` : ''}` +
+    `${s.plans.length > 1 ? ` plans=${s.plans.length}` : ''}`)
+  .join('\n');
+
+const formatReplicas = (context: InsightContext): string => context.replicas
+  .map(r => `- ${r.database}.${r.table}: count=${r.replicaCount} progress=${(r.progress * 100).toFixed(0)}% available=${r.available}`)
+  .join('\n');
+
+export const describeSchema = (catalog: SchemaCatalog | null): string => {
+  if (!catalog || catalog.tables.length === 0) return '(schema not loaded)';
+  return catalog.tables.slice(0, MAX_SCHEMA_TABLES)
+    .map(t => `${t.database}.${t.name}(${t.columns.map(c => `${c.name} ${c.type}`).join(', ')})${t.tiflashReplica ? ' -- has TiFlash replica' : ''}`)
+    .join('\n');
+};
+
+// Full detail for the few tables a statement touches, including indexes and replicas
+export const describeTables = (tables: SchemaTableInfo[]): string => {
+  if (tables.length === 0) return '(no known tables referenced)';
+  return tables.map(t => [
+    `${t.database}.${t.name}:`,
+    ...t.columns.map(c => `  ${c.name} ${c.type}${c.nullable === false ? ' NOT NULL' : ''}${c.key ? ` ${c.key}` : ''}`),
+    ...t.indexes.map(i => `  ${i.unique ? 'UNIQUE ' : ''}INDEX ${i.name}(${i.columns.join(', ')})`),
+    `  TiFlash replicas: ${t.tiflashReplica ? `${t.tiflashReplica.replicaCount} (${(t.tiflashReplica.progress * 100).toFixed(0)}% synced)` : 'none'}`,
+  ].join('\n')).join('\n');
+};
+
+export const buildInsightPrompt = (context: InsightContext): string => {
+  const { status } = context;
+  return `
+      Act as a senior TiDB Database Administrator. Analyze the following HTAP cluster telemetry.
+
+      Current snapshot:
+      - OLTP QPS: ${status.qpsOltp}
+      - OLAP QPS: ${status.qpsOlap}
+      - TiFlash Sync Lag: ${status.syncLagMs}ms
+      - TiKV Regions: ${status.tikvRegionCount}
+      - TiFlash Replicas: ${status.tiflashReplicaCount}${status.tiflashReplicaProgress !== undefined ? `
+      - TiFlash Replica Progress: ${(status.tiflashReplicaProgress * 100).toFixed(0)}%` : ''}${status.unavailable?.length ? `
+
+      These fields could not be read from the cluster and must be ignored: ${status.unavailable.map(u => u.field).join(', ')}.` : ''}
+
+      Recent metrics (oldest first):
+${formatMetrics(context) || '      (none recorded)'}
+
+      Top statements by total latency:
+${formatStatements(context) || '      (none available)'}
+
+      TiFlash replicas:
+${formatReplicas(context) || '      (none configured)'}${context.missing.length ? `
+
+      This context could not be collected: ${context.missing.join('; ')}.` : ''}
+
+      Report every distinct problem or notable trend as a separate finding.
+      Identify if TiFlash is keeping up with TiKV, whether analytical queries are impacting transactional throughput,
+      and which statements would benefit from a different engine or index.
+      Cite the exact metric values each finding is based on as evidence, and include a SQL statement the DBA can run
+      when one would help confirm or fix the problem.
+    `;
+};
+
+export const buildSqlPrompt = (question: string, catalog: SchemaCatalog | null): string => `
+      You write SQL for TiDB (MySQL-compatible). Translate the question into one SQL statement.
+      Only use the tables and columns listed below and qualify tables with their database.
+      Do not add optimizer hints; the user decides on those separately.
+
+      Schema:
+${describeSchema(catalog)}
+
+      Question: ${question}
+    `;
+
+export const buildAdvicePrompt = (request: AdviceRequest): string => {
+  const task = request.mode === 'explainError'
+    ? `The statement failed with this error:\n${request.error}\n\nExplain the cause in plain terms and rewrite the statement so it succeeds.`
+    : `Suggest how to make this statement faster. Consider rewriting it, adding indexes, adding TiFlash replicas and
+      optimizer hints such as READ_FROM_STORAGE. Keep the rewritten statement semantically equivalent.`;
+
+  return `
+      Act as a senior TiDB performance engineer.
+
+      Statement:
+${request.sql}
+
+      ${task}${request.plan ? `
+
+      Execution plan:
+${formatPlanText(request.plan)}` : ''}
+
+      Table schemas:
+${describeTables(request.tables)}
+
+      Only propose indexes or TiFlash replicas that do not already exist. Give each proposal as a complete DDL statement.
+      If the statement should stay as it is, return it unchanged as rewrittenSql.
+    `;
+};
+
+// Plain-text JSON shapes for providers without structured output support
+export const INSIGHT_JSON_SHAPE = `{"findings": [{"title": string, "content": string, "recommendation": string, "severity": "low" | "medium" | "high", "evidence": [{"metric": string, "value": string}], "suggestedSql"?: string}]}`;
+export const SQL_JSON_SHAPE = `{"sql": string, "explanation": string, "analytical": boolean}`;
+export const ADVICE_JSON_SHAPE = `{"rewrittenSql": string, "reasoning": string, "changes": [{"kind": "index" | "tiflashReplica", "ddl": string, "reason": string}]}`;
+
+export const normalizeFindings = (result: any): AIInsight[] => {
+  if (!Array.isArray(result?.findings)) throw new Error("Model response did not include a findings array");
+  return result.findings.map((f: any) => ({
+    ...f,
+    severity: ['low', 'medium', 'high'].includes(f.severity) ? f.severity : 'low',
+    evidence: Array.isArray(f.evidence) ? f.evidence : [],
+    suggestedSql: f.suggestedSql || undefined,
+  }));
+};
+
+export const normalizeSqlDraft = (result: any): SqlDraft => {
+  if (!result?.sql) throw new Error("Model did not return a SQL statement");
+  return { sql: result.sql, explanation: result.explanation || '', analytical: result.analytical };
+};
+
+export const normalizeAdvice = (result: any): AdviceDraft => {
+  if (!result?.rewrittenSql) throw new Error("Model did not return a rewritten statement");
+  return {
+    rewrittenSql: result.rewrittenSql,
+    reasoning: result.reasoning || '',
+    changes: (Array.isArray(result.changes) ? result.changes : [])
+      .filter((c: any) => c.kind === 'index' || c.kind === 'tiflashReplica'),
+  };
+};
@@ -0,0 +1,175 @@
+
+import { AlertRule, AlertSample, AlertEvent, AlertField, AlertComparator, MetricPoint, HTAPStatus } from "../types";
+
+/**
+ * Evaluates user-defined alert rules against polled samples and keeps rules
+ * and the alert timeline in localStorage.
+ */
+
+const RULES_KEY = 'htap-vision.alertRules';
+const EVENTS_KEY = 'htap-vision.alertEvents';
+const MAX_EVENTS = 200;
+
+export const ALERT_FIELDS: AlertField[] = ['syncLagMs', 'oltp', 'olap', 'qpsOltp', 'qpsOlap', 'tikvRegionCount', 'tiflashReplicaCount', 'tiflashReplicaProgress', 'oltpP99Ms', 'tiflashCpuPercent'];
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'default-lag', name: 'TiFlash replication lag', field: 'syncLagMs', kind: 'threshold', comparator: '>', value: 50, severity: 'medium', enabled: true },
+  { id: 'default-lag-sustained', name: 'Lag sustained above 100ms', field: 'syncLagMs', kind: 'sustained', comparator: '>', value: 100, samples: 5, severity: 'high', enabled: true },
+];
+
+export const toAlertSample = (point: MetricPoint, status: HTAPStatus): AlertSample => {
+  const values: AlertSample['values'] = {
+    oltp: point.oltp,
+    olap: point.olap,
+    syncLagMs: status.syncLagMs,
+    tikvRegionCount: status.tikvRegionCount,
+    tiflashReplicaCount: status.tiflashReplicaCount,
+    tiflashReplicaProgress: status.tiflashReplicaProgress,
+    qpsOltp: status.qpsOltp,
+    qpsOlap: status.qpsOlap,
+    oltpP99Ms: status.oltpP99Ms,
+    tiflashCpuPercent: status.tiflashCpuPercent,
+  };
+  // Unreadable fields carry placeholder values and must not trip rules
+  status.unavailable?.forEach(u => { delete values[u.field]; });
+  return { ts: point.timestamp ?? Date.now(), values };
+};
+
+const compare = (actual: number, comparator: AlertComparator, expected: number): boolean => {
+  switch (comparator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+};
+
+/**
+ * Returns the value that breached the rule, or undefined when it holds.
+ * Samples are ordered oldest first.
+ */
+export const checkRule = (rule: AlertRule, samples: AlertSample[]): number | undefined => {
+  const series = samples
+    .map(s => ({ ts: s.ts, value: s.values[rule.field] }))
+    .filter((s): s is { ts: number; value: number } => s.value !== undefined);
+  const latest = series[series.length - 1];
+  if (!latest) return undefined;
+
+  if (rule.kind === 'threshold') {
+    return compare(latest.value, rule.comparator, rule.value) ? latest.value : undefined;
+  }
+  if (rule.kind === 'rateOfChange') {
+    const previous = series[series.length - 2];
+    if (!previous || latest.ts === previous.ts) return undefined;
+    const rate = (latest.value - previous.value) / ((latest.ts - previous.ts) / 1000);
+    return compare(rate, rule.comparator, rule.value) ? rate : undefined;
+  }
+  const window = series.slice(-(rule.samples || 1));
+  if (window.length < (rule.samples || 1)) return undefined;
+  return window.every(s => compare(s.value, rule.comparator, rule.value)) ? latest.value : undefined;
+};
+
+/**
+ * Compares every enabled rule with its previous state and emits an event on
+ * each transition. Disabling a firing rule resolves it.
+ */
+export const evaluateRules = (
+  rules: AlertRule[],
+  samples: AlertSample[],
+  firing: Set<string>
+): { events: AlertEvent[]; firing: Set<string> } => {
+  const nextFiring = new Set<string>();
+  const events: AlertEvent[] = [];
+  const at = new Date().toISOString();
+
+  rules.forEach(rule => {
+    const wasFiring = firing.has(rule.id);
+    const breach = rule.enabled ? checkRule(rule, samples) : undefined;
+    if (breach !== undefined) nextFiring.add(rule.id);
+    if (breach !== undefined && !wasFiring) {
+      events.push({ id: `${rule.id}-${at}`, ruleId: rule.id, ruleName: rule.name, severity: rule.severity, state: 'firing', value: breach, at });
+    } else if (breach === undefined && wasFiring) {
+      const latest = samples[samples.length - 1]?.values[rule.field] ?? 0;
+      events.push({ id: `${rule.id}-${at}`, ruleId: rule.id, ruleName: rule.name, severity: rule.severity, state: 'resolved', value: latest, at });
+    }
+  });
+
+  return { events, firing: nextFiring };
+};
+
+export const describeRule = (rule: AlertRule): string => {
+  if (rule.kind === 'rateOfChange') return `Δ${rule.field}/s ${rule.comparator} ${rule.value}`;
+  if (rule.kind === 'sustained') return `${rule.field} ${rule.comparator} ${rule.value} for ${rule.samples} samples`;
+  return `${rule.field} ${rule.comparator} ${rule.value}`;
+};
+
+const isAlertRule = (value: any): value is AlertRule =>
+  value && typeof value.id === 'string' && typeof value.name === 'string' &&
+  ALERT_FIELDS.includes(value.field) &&
+  ['threshold', 'rateOfChange', 'sustained'].includes(value.kind) &&
+  ['>', '>=', '<', '<='].includes(value.comparator) &&
+  Number.isFinite(value.value) &&
+  (value.samples === undefined || (Number.isInteger(value.samples) && value.samples >= 1)) &&
+  ['low', 'medium', 'high'].includes(value.severity) &&
+  (value.enabled === undefined || typeof value.enabled === 'boolean');
+
+export const parseRules = (json: string): AlertRule[] => {
+  const parsed = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : parsed?.rules;
+  if (!Array.isArray(list)) throw new Error("Expected an array of rules");
+  const invalid = list.findIndex(r => !isAlertRule(r));
+  if (invalid >= 0) throw new Error(`Rule #${invalid + 1} is not a valid alert rule`);
+  const duplicate = list.findIndex((r, i) => list.findIndex(other => other.id === r.id) !== i);
+  if (duplicate >= 0) throw new Error(`Rule #${duplicate + 1} reuses the id "${list[duplicate].id}"`);
+  return list.map(r => ({
+    id: r.id,
+    name: r.name,
+    field: r.field,
+    kind: r.kind,
+    comparator: r.comparator,
+    value: r.value,
+    ...(r.kind === 'sustained' ? { samples: r.samples ?? 1 } : {}),
+    severity: r.severity,
+    enabled: r.enabled !== false,
+  }));
+};
+
+export const exportRules = (rules: AlertRule[]): string => JSON.stringify({ version: 1, rules }, null, 2);
+
+export const loadRules = (): AlertRule[] => {
+  try {
+    const stored = localStorage.getItem(RULES_KEY);
+    return stored ? parseRules(stored) : DEFAULT_ALERT_RULES;
+  } catch (error) {
+    console.error("Alert Rules Load Error:", error);
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+export const saveRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const loadEvents = (): AlertEvent[] => {
+  try {
+    return JSON.parse(localStorage.getItem(EVENTS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveEvents = (events: AlertEvent[]) => {
+  localStorage.setItem(EVENTS_KEY, JSON.stringify(events.slice(-MAX_EVENTS)));
+};
+
+// The timeline keeps the most recent events only
+export const appendEvents = (events: AlertEvent[], added: AlertEvent[]): AlertEvent[] =>
+  [...events, ...added].slice(-MAX_EVENTS);
+
+export const notifyBrowser = (event: AlertEvent) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(`${event.state === 'firing' ? '🔥' : '✅'} ${event.ruleName}`, {
+    body: `${event.state === 'firing' ? 'Firing' : 'Resolved'} • ${event.severity} severity • value ${event.value.toFixed(2)}`,
+    tag: event.ruleId,
+  });
+};
@@ -0,0 +1,271 @@
+import { ChartAggregation, ChartConfig, ChartType, QueryResult } from "../types";
+import { columnType, isNumericType, isNull, cellText } from "./resultGrid";
+
+/**
+ * Shapes a QueryResult into the row layout Recharts expects for a ChartConfig:
+ * grouping by the x column, optionally pivoting a series column into one key
+ * per value, and aggregating the y columns.
+ */
+
+export const COLORS = ['#6366f1', '#a855f7', '#ec4899', '#f97316', '#22c55e'];
+
+export const CHART_TYPES: { type: ChartType; label: string }[] = [
+  { type: 'line', label: 'Line' },
+  { type: 'bar', label: 'Bar' },
+  { type: 'stackedBar', label: 'Stacked' },
+  { type: 'area', label: 'Area' },
+  { type: 'pie', label: 'Pie' },
+  { type: 'scatter', label: 'Scatter' },
+  { type: 'heatmap', label: 'Heatmap' },
+];
+
+export const AGGREGATIONS: ChartAggregation[] = ['none', 'sum', 'avg', 'count', 'min', 'max'];
+
+// More series than this turns a chart into noise; the smallest ones are folded into "Other"
+export const MAX_SERIES = 10;
+// Per heatmap axis; past this the cells are too narrow to read
+export const MAX_HEATMAP_CATEGORIES = 40;
+const OTHER = 'Other';
+export const COUNT_KEY = 'count';
+
+const DATE_TEXT = /^\d{4}-\d{2}-\d{2}/;
+
+export interface ChartData {
+  rows: Record<string, any>[];
+  // Value keys plotted per row (y columns, series values, or "count")
+  keys: string[];
+}
+
+export interface HeatmapData {
+  xs: string[];
+  ys: string[];
+  cells: Map<string, number>;
+  min: number;
+  max: number;
+  // Categories left out on each axis by MAX_HEATMAP_CATEGORIES
+  hiddenXs: number;
+  hiddenYs: number;
+}
+
+export const toNumber = (value: unknown): number | null => {
+  if (isNull(value) || value === '' || typeof value === 'boolean') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const aggregate = (values: number[], aggregation: ChartAggregation): number | null => {
+  if (aggregation === 'count') return values.length;
+  if (values.length === 0) return null;
+  switch (aggregation) {
+    case 'sum': return values.reduce((a, b) => a + b, 0);
+    case 'avg': return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min': return values.reduce((a, b) => Math.min(a, b));
+    case 'max': return values.reduce((a, b) => Math.max(a, b));
+    default: return values[0];
+  }
+};
+
+// A series pivots several rows into one point per x value, so they always have to be aggregated
+export const seriesAggregation = (config: ChartConfig): ChartAggregation =>
+  config.series && config.aggregation === 'none' ? 'sum' : config.aggregation;
+
+export const numericColumns = (result: QueryResult): string[] =>
+  result.columns.filter(c => isNumericType(columnType(result, c)));
+
+/**
+ * Picks a sensible first chart: the first text or date column as x, the
+ * first other numeric column as y, a line for dates and bars otherwise.
+ */
+export const suggestChartConfig = (result: QueryResult): ChartConfig => {
+  const numeric = numericColumns(result);
+  const x = result.columns.find(c => !numeric.includes(c)) || result.columns[0] || '';
+  const y = numeric.find(c => c !== x);
+  const dated = result.rows.slice(0, 20).some(r => DATE_TEXT.test(cellText(r[x])));
+  return {
+    type: dated ? 'line' : 'bar',
+    x,
+    y: y ? [y] : [],
+    aggregation: y ? 'sum' : 'count',
+  };
+};
+
+/**
+ * Drops column references that no longer exist in the result, e.g. after the
+ * SQL changed. With a series column only one y column is plotted and rows are
+ * always aggregated, so configs saved otherwise are brought in line.
+ */
+export const reconcileChartConfig = (result: QueryResult, config: ChartConfig): ChartConfig => {
+  const has = (c?: string) => !!c && result.columns.includes(c);
+  if (!has(config.x)) return { ...suggestChartConfig(result), type: config.type };
+  const series = has(config.series) ? config.series : undefined;
+  const y = config.y.filter(has);
+  return {
+    ...config,
+    y: series ? y.slice(0, 1) : y,
+    series,
+    aggregation: seriesAggregation({ ...config, series }),
+  };
+};
+
+const xKey = (value: unknown) => isNull(value) ? 'NULL' : cellText(value);
+
+const sortX = (result: QueryResult, x: string, keys: string[]): string[] => {
+  const numeric = isNumericType(columnType(result, x));
+  const dated = !numeric && keys.every(k => DATE_TEXT.test(k));
+  if (numeric) return [...keys].sort((a, b) => (toNumber(a) ?? 0) - (toNumber(b) ?? 0));
+  if (dated) return [...keys].sort();
+  // Categorical axes keep the order the query returned them in
+  return keys;
+};
+
+// Keeps the largest series by magnitude; the rest are folded into "Other"
+const limitSeries = (totals: Map<string, number>, max: number): { kept: Set<string>; folded: boolean } => {
+  const ranked = [...totals.entries()].sort((a, b) => Math.abs(b[1]) - Math.abs(a[1])).map(([k]) => k);
+  return { kept: new Set(ranked.slice(0, max)), folded: ranked.length > max };
+};
+
+/**
+ * Builds rows for line, bar, stacked bar and area charts. Each row carries the
+ * x label under `config.x` plus one numeric key per plotted series. With a
+ * series column only the first y column is plotted.
+ */
+export const buildSeriesData = (result: QueryResult, config: ChartConfig): ChartData => {
+  const { x } = config;
+  const aggregation = seriesAggregation(config);
+  const ys = aggregation === 'count' ? [] : config.series ? config.y.slice(0, 1) : config.y;
+  if (!x || (ys.length === 0 && aggregation !== 'count')) return { rows: [], keys: [] };
+
+  // Without aggregation or a series column every result row is plotted as is
+  if (aggregation === 'none' && !config.series) {
+    return {
+      rows: result.rows.map(row => ({
+        [x]: xKey(row[x]),
+        ...Object.fromEntries(ys.map(y => [y, toNumber(row[y])])),
+      })),
+      keys: ys,
+    };
+  }
+
+  // group -> key -> values
+  const groups = new Map<string, Map<string, number[]>>();
+  const totals = new Map<string, number>();
+  const push = (group: string, key: string, value: number) => {
+    if (!groups.has(group)) groups.set(group, new Map());
+    const bucket = groups.get(group)!;
+    if (!bucket.has(key)) bucket.set(key, []);
+    bucket.get(key)!.push(value);
+    totals.set(key, (totals.get(key) || 0) + value);
+  };
+
+  result.rows.forEach(row => {
+    const group = xKey(row[x]);
+    if (config.series) {
+      const key = xKey(row[config.series]);
+      if (aggregation === 'count') push(group, key, 1);
+      else {
+        const value = toNumber(row[ys[0]]);
+        if (value !== null) push(group, key, value);
+        else if (!groups.has(group)) groups.set(group, new Map());
+      }
+    } else if (aggregation === 'count') {
+      push(group, COUNT_KEY, 1);
+    } else {
+      ys.forEach(y => {
+        const value = toNumber(row[y]);
+        if (value !== null) push(group, y, value);
+      });
+      if (!groups.has(group)) groups.set(group, new Map());
+    }
+  });
+
+  let keys = config.series ? [...totals.keys()] : aggregation === 'count' ? [COUNT_KEY] : ys;
+  let fold = (key: string) => key;
+  if (config.series) {
+    const { kept, folded } = limitSeries(totals, MAX_SERIES);
+    keys = keys.filter(k => kept.has(k));
+    if (folded) {
+      keys.push(OTHER);
+      fold = key => kept.has(key) ? key : OTHER;
+    }
+  }
+
+  const rows = sortX(result, x, [...groups.keys()]).map(group => {
+    const merged = new Map<string, number[]>();
+    groups.get(group)!.forEach((values, key) => {
+      const target = fold(key);
+      merged.set(target, (merged.get(target) || []).concat(values));
+    });
+    return {
+      [x]: group,
+      ...Object.fromEntries(keys.map(k => [k, merged.has(k) ? aggregate(merged.get(k)!, aggregation) : null])),
+    };
+  });
+  return { rows, keys };
+};
+
+// One slice per x value, sized by the first y column (or the row count)
+export const buildPieData = (result: QueryResult, config: ChartConfig): { name: string; value: number }[] => {
+  const aggregation = config.aggregation === 'none' ? 'sum' : config.aggregation;
+  const { rows } = buildSeriesData(result, { ...config, series: undefined, aggregation, y: config.y.slice(0, 1) });
+  const key = aggregation === 'count' ? COUNT_KEY : config.y[0];
+  return rows
+    .map(row => ({ name: row[config.x], value: row[key] as number }))
+    .filter(slice => slice.value !== null && slice.value > 0);
+};
+
+// Raw numeric points grouped by series; aggregation does not apply to scatter plots
+export const buildScatterData = (result: QueryResult, config: ChartConfig): { name: string; points: { x: number; y: number }[] }[] => {
+  const y = config.y[0];
+  if (!config.x || !y) return [];
+  const series = new Map<string, { x: number; y: number }[]>();
+  result.rows.forEach(row => {
+    const px = toNumber(row[config.x]);
+    const py = toNumber(row[y]);
+    if (px === null || py === null) return;
+    const name = config.series ? xKey(row[config.series]) : y;
+    if (!series.has(name)) series.set(name, []);
+    series.get(name)!.push({ x: px, y: py });
+  });
+  return [...series.entries()].slice(0, MAX_SERIES).map(([name, points]) => ({ name, points }));
+};
+
+/**
+ * Cells keyed by `${x}\u0000${y}`, where y comes from the series column. Each
+ * axis keeps the MAX_HEATMAP_CATEGORIES categories with the largest totals.
+ */
+export const buildHeatmapData = (result: QueryResult, config: ChartConfig): HeatmapData => {
+  const empty: HeatmapData = { xs: [], ys: [], cells: new Map(), min: 0, max: 0, hiddenXs: 0, hiddenYs: 0 };
+  if (!config.x || !config.series) return empty;
+  const aggregation = seriesAggregation(config);
+  const buckets = new Map<string, number[]>();
+  const xTotals = new Map<string, number>();
+  const yTotals = new Map<string, number>();
+  result.rows.forEach(row => {
+    const cx = xKey(row[config.x]);
+    const cy = xKey(row[config.series!]);
+    const value = aggregation === 'count' ? 1 : toNumber(row[config.y[0]]);
+    xTotals.set(cx, (xTotals.get(cx) || 0) + (value ?? 0));
+    yTotals.set(cy, (yTotals.get(cy) || 0) + (value ?? 0));
+    if (value === null) return;
+    const key = `${cx}\u0000${cy}`;
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(value);
+  });
+  const keptXs = limitSeries(xTotals, MAX_HEATMAP_CATEGORIES).kept;
+  const keptYs = limitSeries(yTotals, MAX_HEATMAP_CATEGORIES).kept;
+  const cells = new Map<string, number>();
+  buckets.forEach((values, key) => {
+    const [cx, cy] = key.split('\u0000');
+    if (keptXs.has(cx) && keptYs.has(cy)) cells.set(key, aggregate(values, aggregation)!);
+  });
+  const values = [...cells.values()];
+  return {
+    xs: sortX(result, config.x, [...xTotals.keys()].filter(k => keptXs.has(k))),
+    ys: sortX(result, config.series, [...yTotals.keys()].filter(k => keptYs.has(k))),
+    cells,
+    min: values.length ? values.reduce((a, b) => Math.min(a, b)) : 0,
+    max: values.length ? values.reduce((a, b) => Math.max(a, b)) : 0,
+    hiddenXs: xTotals.size - keptXs.size,
+    hiddenYs: yTotals.size - keptYs.size,
+  };
+};
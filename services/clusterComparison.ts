@@ -0,0 +1,217 @@
+import { ClusterDataSource, ComparisonRun, ComparisonTarget, ConnectionProfile, HTAPStatus, HTAPStatusField, QueryResult, ResultDiff, StatusDelta, TiDBConfig } from "../types";
+import { createDataSource } from "./dataSource";
+import { isFieldUnavailable } from "./liveStatusCollector";
+import { needsCredentials, UnlockedVault } from "./connectionProfiles";
+import { isReadOnlyStatement } from "./planParser";
+import { splitStatements } from "./sqlScript";
+
+/**
+ * Runs the same SQL or status snapshot against two clusters and compares the
+ * outcome: row-level result diffs, execution time, the engine the optimizer
+ * picked and HTAPStatus deltas. The left side is the baseline, the right side
+ * the candidate, e.g. a freshly upgraded cluster.
+ */
+
+export const SIMULATOR_TARGET_ID = 'simulator';
+export const CURRENT_TARGET_ID = 'current';
+
+// Rows listed per side in a diff; the counts are always exact
+export const MAX_DIFF_ROWS = 100;
+
+// Candidate runs slower than the baseline by more than this are flagged
+export const SLOWDOWN_TOLERANCE_PCT = 20;
+
+/**
+ * Every connection the comparison can use: the simulator, the current
+ * connection when it is not a saved profile, and each profile. Profiles
+ * that need API keys stay listed with a null config while the vault is locked.
+ */
+export const buildComparisonTargets = (config: TiDBConfig, profiles: ConnectionProfile[], vault: UnlockedVault | null): ComparisonTarget[] => {
+  const targets: ComparisonTarget[] = [
+    { id: SIMULATOR_TARGET_ID, label: 'Internal Simulator', color: '#64748b', config: { ...config, isLive: false } },
+  ];
+  if (config.isLive && !config.profileId) {
+    targets.push({ id: CURRENT_TARGET_ID, label: 'Current connection', color: '#34d399', config });
+  }
+  profiles.forEach(profile => {
+    const credentials = vault?.credentials[profile.id];
+    const locked = needsCredentials(profile) && !credentials;
+    targets.push({
+      id: profile.id,
+      label: profile.name,
+      color: profile.color,
+      config: locked ? null : {
+        ...config,
+        backend: profile.backend,
+        endpoint: profile.endpoint,
+        standInUrl: profile.standInUrl,
+        publicKey: credentials?.publicKey || '',
+        privateKey: credentials?.privateKey || '',
+        isLive: true,
+        profileId: profile.id,
+      },
+    });
+  });
+  return targets;
+};
+
+export const targetDataSource = (target: ComparisonTarget): ClusterDataSource => {
+  if (!target.config) throw new Error(`Unlock the credential vault to use "${target.label}".`);
+  return createDataSource(target.config);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Executes `sql` `runs` times in a row and keeps the last result. Stops at
+ * the first error, since repeating a failing query tells us nothing new.
+ */
+export const runTimed = async (dataSource: ClusterDataSource, sql: string, runs: number): Promise<ComparisonRun> => {
+  const timesMs: number[] = [];
+  let result: QueryResult;
+  const total = Math.max(1, runs);
+  for (let i = 0; i < total; i++) {
+    // The plan is only read for the run whose result is kept
+    result = await dataSource.executeQuery(sql, { withPlan: i === total - 1 });
+    if (result.error) break;
+    timesMs.push(result.executionTimeMs);
+  }
+  return { result, timesMs, medianTimeMs: timesMs.length ? median(timesMs) : result.executionTimeMs };
+};
+
+/**
+ * Both sides run concurrently so neither benefits from a warmer network path.
+ * The query runs several times on clusters that may be production, so only
+ * single read-only statements are accepted.
+ */
+export const runComparison = async (left: ComparisonTarget, right: ComparisonTarget, sql: string, runs: number): Promise<[ComparisonRun, ComparisonRun]> => {
+  if (splitStatements(sql).length > 1) throw new Error("Compare runs one statement at a time");
+  if (!isReadOnlyStatement(sql)) throw new Error("Compare only runs read-only statements (SELECT, WITH, SHOW, EXPLAIN)");
+  return Promise.all([runTimed(targetDataSource(left), sql, runs), runTimed(targetDataSource(right), sql, runs)]);
+};
+
+export const snapshotComparison = (left: ComparisonTarget, right: ComparisonTarget): Promise<[HTAPStatus, HTAPStatus]> =>
+  Promise.all([targetDataSource(left).getStatus(), targetDataSource(right).getStatus()]);
+
+// ---- Result diff ------------------------------------------------------------
+
+// Drivers disagree on whether DECIMAL and BIGINT come back as numbers or strings
+const normalizeCell = (value: any): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const rowKey = (row: any, columns: string[]): string => JSON.stringify(columns.map(c => normalizeCell(row[c])));
+
+/**
+ * Multiset diff of two results over the columns they share. Duplicate rows
+ * are counted, so a row returned twice on one side and once on the other
+ * shows up once as extra.
+ */
+export const diffResults = (left: QueryResult, right: QueryResult): ResultDiff => {
+  const rightColumns = new Set(right.columns);
+  const leftColumns = new Set(left.columns);
+  const sharedColumns = left.columns.filter(c => rightColumns.has(c));
+
+  const leftKeys = left.rows.map(row => rowKey(row, sharedColumns));
+  const rightKeys = right.rows.map(row => rowKey(row, sharedColumns));
+
+  const remaining = new Map<string, number>();
+  leftKeys.forEach(key => remaining.set(key, (remaining.get(key) || 0) + 1));
+
+  const onlyRightRows: any[] = [];
+  let matchedRows = 0;
+  rightKeys.forEach((key, i) => {
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      matchedRows++;
+    } else {
+      onlyRightRows.push(right.rows[i]);
+    }
+  });
+
+  const onlyLeftRows: any[] = [];
+  leftKeys.forEach((key, i) => {
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      onlyLeftRows.push(left.rows[i]);
+    }
+  });
+
+  const sameRows = !onlyLeftRows.length && !onlyRightRows.length;
+  return {
+    sharedColumns,
+    onlyLeftColumns: left.columns.filter(c => !rightColumns.has(c)),
+    onlyRightColumns: right.columns.filter(c => !leftColumns.has(c)),
+    matchedRows,
+    onlyLeftRows,
+    onlyRightRows,
+    orderDiffers: sameRows && leftKeys.some((key, i) => key !== rightKeys[i]),
+  };
+};
+
+// ---- Timing and routing -----------------------------------------------------
+
+// Relative change from left to right in percent; undefined when the baseline is zero
+export const deltaPct = (left: number, right: number): number | undefined =>
+  left > 0 ? ((right - left) / left) * 100 : undefined;
+
+const describeEngine = (result: QueryResult): string => {
+  const engines = result.plan?.engines.length ? result.plan.engines.join(' + ') : result.engine;
+  return result.isMPP ? `${engines} (MPP)` : engines;
+};
+
+/**
+ * Plain-language regressions of the candidate against the baseline. Routing
+ * changes come first: losing TiFlash MPP after an upgrade is the case this
+ * view exists to catch.
+ */
+export const findRegressions = (left: ComparisonRun, right: ComparisonRun, diff: ResultDiff): string[] => {
+  const findings: string[] = [];
+  const a = left.result;
+  const b = right.result;
+  if (a.isMPP && !b.isMPP) findings.push(`No longer runs as a TiFlash MPP query (${describeEngine(a)} → ${describeEngine(b)}).`);
+  else if (a.engine !== b.engine) findings.push(`Engine changed from ${describeEngine(a)} to ${describeEngine(b)}.`);
+
+  const slowdown = deltaPct(left.medianTimeMs, right.medianTimeMs);
+  if (slowdown !== undefined && slowdown > SLOWDOWN_TOLERANCE_PCT) {
+    findings.push(`${slowdown.toFixed(0)}% slower (${left.medianTimeMs.toFixed(1)}ms → ${right.medianTimeMs.toFixed(1)}ms median).`);
+  }
+
+  if (diff.onlyLeftColumns.length || diff.onlyRightColumns.length) findings.push("Result columns differ.");
+  if (diff.onlyLeftRows.length || diff.onlyRightRows.length) {
+    findings.push(`Row sets differ: ${diff.onlyLeftRows.length} missing, ${diff.onlyRightRows.length} extra.`);
+  }
+  return findings;
+};
+
+// ---- Status deltas ----------------------------------------------------------
+
+export const STATUS_FIELDS: { field: HTAPStatusField; label: string }[] = [
+  { field: 'qpsOltp', label: 'OLTP QPS' },
+  { field: 'qpsOlap', label: 'OLAP QPS' },
+  { field: 'syncLagMs', label: 'Sync lag (ms)' },
+  { field: 'oltpP99Ms', label: 'OLTP p99 (ms)' },
+  { field: 'tiflashCpuPercent', label: 'TiFlash CPU (%)' },
+  { field: 'tikvRegionCount', label: 'TiKV regions' },
+  { field: 'tiflashReplicaCount', label: 'TiFlash replicas' },
+  { field: 'tiflashReplicaProgress', label: 'Replica progress' },
+];
+
+// Unreadable fields are left blank instead of comparing placeholder values
+const readField = (status: HTAPStatus, field: HTAPStatusField): number | undefined =>
+  isFieldUnavailable(status, field) ? undefined : status[field];
+
+export const diffStatus = (left: HTAPStatus, right: HTAPStatus): StatusDelta[] =>
+  STATUS_FIELDS.map(({ field, label }) => {
+    const l = readField(left, field);
+    const r = readField(right, field);
+    return { field, label, left: l, right: r, delta: l !== undefined && r !== undefined ? r - l : undefined };
+  });
@@ -0,0 +1,142 @@
+import { ConnectionProfile, CredentialVault, ProfileCredentials, ProfileEnvironment, TiDBConfig } from "../types";
+
+/**
+ * Named connection profiles. Profile metadata is kept in localStorage as is;
+ * API keys go into a single vault encrypted with AES-GCM under a key derived
+ * from the user's passphrase (PBKDF2-SHA256), so they are never at rest in
+ * plain text. The passphrase and derived key only live in memory.
+ */
+
+const STORAGE_KEY = 'htap-vision.profiles';
+
+const PBKDF2_ITERATIONS = 310_000;
+
+export const ENVIRONMENTS: { value: ProfileEnvironment; label: string }[] = [
+  { value: 'production', label: 'Prod' },
+  { value: 'staging', label: 'Staging' },
+  { value: 'dr', label: 'DR' },
+  { value: 'development', label: 'Dev' },
+];
+
+export const PROFILE_COLORS = ['#6366f1', '#10b981', '#f43f5e', '#f59e0b', '#06b6d4', '#a855f7'];
+
+export interface ProfileStore {
+  profiles: ConnectionProfile[];
+  activeId: string | null;
+  vault: CredentialVault | null;
+}
+
+// An unlocked vault: the derived key is kept so edits can be re-encrypted without asking again
+export interface UnlockedVault {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+  credentials: Record<string, ProfileCredentials>;
+}
+
+const newId = () => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createProfile = (draft: Omit<ConnectionProfile, 'id'>): ConnectionProfile => ({ ...draft, id: newId() });
+
+export const profileFromConfig = (config: TiDBConfig, meta: Pick<ConnectionProfile, 'name' | 'environment' | 'color'>): Omit<ConnectionProfile, 'id'> => ({
+  ...meta,
+  backend: config.backend,
+  endpoint: config.endpoint,
+  standInUrl: config.standInUrl,
+});
+
+// Stand-in profiles carry no secrets and can connect while the vault is locked
+export const needsCredentials = (profile: ConnectionProfile) => profile.backend === 'dataService';
+
+// ---- Persistence ----------------------------------------------------------
+
+const isProfile = (p: any): p is ConnectionProfile =>
+  !!p && typeof p.id === 'string' && typeof p.name === 'string' && (p.backend === 'dataService' || p.backend === 'standIn');
+
+const isVault = (v: any): v is CredentialVault =>
+  !!v && typeof v.salt === 'string' && typeof v.iv === 'string' && typeof v.data === 'string' && Number.isInteger(v.iterations);
+
+export const loadProfileStore = (): ProfileStore => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    const profiles: ConnectionProfile[] = Array.isArray(stored?.profiles) ? stored.profiles.filter(isProfile) : [];
+    return {
+      profiles,
+      activeId: profiles.some(p => p.id === stored?.activeId) ? stored.activeId : null,
+      vault: isVault(stored?.vault) ? stored.vault : null,
+    };
+  } catch (error) {
+    console.error("Profile Load Error:", error);
+    return { profiles: [], activeId: null, vault: null };
+  }
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+// ---- Vault ------------------------------------------------------------------
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const createVault = async (passphrase: string): Promise<UnlockedVault> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    credentials: {},
+  };
+};
+
+/**
+ * Decrypts the vault. AES-GCM authenticates the ciphertext, so a wrong
+ * passphrase fails here rather than yielding garbage.
+ */
+export const unlockVault = async (vault: CredentialVault, passphrase: string): Promise<UnlockedVault> => {
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+  return { key, salt: vault.salt, iterations: vault.iterations, credentials: JSON.parse(new TextDecoder().decode(plain)) };
+};
+
+// Keys of profiles that no longer exist, e.g. ones deleted while the vault was locked by an older build
+export const dropOrphanedCredentials = (unlocked: UnlockedVault, profiles: ConnectionProfile[]): UnlockedVault | null => {
+  const orphaned = Object.keys(unlocked.credentials).filter(id => !profiles.some(p => p.id === id));
+  if (orphaned.length === 0) return null;
+  const credentials = { ...unlocked.credentials };
+  orphaned.forEach(id => delete credentials[id]);
+  return { ...unlocked, credentials };
+};
+
+// Every seal uses a fresh IV; AES-GCM must never reuse one under the same key
+export const sealVault = async (unlocked: UnlockedVault): Promise<CredentialVault> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    unlocked.key,
+    new TextEncoder().encode(JSON.stringify(unlocked.credentials))
+  );
+  return { salt: unlocked.salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)), iterations: unlocked.iterations };
+};
@@ -0,0 +1,207 @@
+import { Dashboard, DashboardPanel, DashboardVariable, MetricRange, PanelLayout, SavedQuery } from "../types";
+import { RANGE_MS } from "./metricStore";
+import { isReadOnlyStatement } from "./planParser";
+import { splitStatements } from "./sqlScript";
+
+/**
+ * User-defined dashboards: persistence, JSON import/export, grid layout and
+ * the variable substitution applied to panel SQL before it runs.
+ */
+
+const STORAGE_KEY = 'htap-vision.dashboards';
+
+export const GRID_COLUMNS = 12;
+export const REFRESH_OPTIONS = [0, 10, 30, 60, 300];
+export const RANGE_OPTIONS: MetricRange[] = ['5m', '1h', '24h', '7d'];
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const SALES_SQL = "SELECT category, SUM(amount) AS total_sales\nFROM orders\nGROUP BY category\nORDER BY total_sales DESC;";
+
+// Stands in for the old fixed Insights charts until the user builds their own
+export const createDefaultDashboard = (): Dashboard => ({
+  id: newId('dash'),
+  name: 'Business Overview',
+  range: '24h',
+  variables: [],
+  panels: [
+    {
+      id: newId('panel'),
+      title: 'Revenue Segment Analysis',
+      sql: SALES_SQL,
+      chart: { type: 'bar', x: 'category', y: ['total_sales'], aggregation: 'sum' },
+      refreshSec: 60,
+      layout: { x: 0, y: 0, w: 7, h: 4 },
+    },
+    {
+      id: newId('panel'),
+      title: 'Revenue Share',
+      sql: SALES_SQL,
+      chart: { type: 'pie', x: 'category', y: ['total_sales'], aggregation: 'sum' },
+      refreshSec: 60,
+      layout: { x: 7, y: 0, w: 5, h: 4 },
+    },
+  ],
+  updatedAt: new Date().toISOString(),
+});
+
+export const createDashboard = (name: string): Dashboard => ({
+  id: newId('dash'),
+  name,
+  range: '1h',
+  variables: [],
+  panels: [],
+  updatedAt: new Date().toISOString(),
+});
+
+export const createPanel = (panels: DashboardPanel[], draft: Omit<DashboardPanel, 'id' | 'layout'>): DashboardPanel => ({
+  ...draft,
+  id: newId('panel'),
+  layout: { x: 0, y: panels.reduce((bottom, p) => Math.max(bottom, p.layout.y + p.layout.h), 0), w: 6, h: 4 },
+});
+
+// ---- Persistence ----------------------------------------------------------
+
+const isLayout = (l: any): l is PanelLayout =>
+  !!l && ['x', 'y', 'w', 'h'].every(k => Number.isInteger(l[k]) && l[k] >= 0) && l.w > 0 && l.h > 0;
+
+const isPanel = (p: any): p is DashboardPanel =>
+  !!p && typeof p.title === 'string' && typeof p.sql === 'string' && isLayout(p.layout) &&
+  (p.chart === null || (typeof p.chart === 'object' && typeof p.chart.type === 'string'));
+
+const isDashboard = (d: any): d is Dashboard =>
+  !!d && typeof d.name === 'string' && Array.isArray(d.panels) && d.panels.every(isPanel) &&
+  (d.variables === undefined || (Array.isArray(d.variables) && d.variables.every((v: any) => typeof v?.name === 'string')));
+
+/**
+ * Accepts the output of `exportDashboard`. Imported dashboards and panels get
+ * fresh ids so they never clash with existing ones.
+ */
+export const parseDashboard = (json: string): Dashboard => {
+  const parsed = JSON.parse(json);
+  const dashboard = parsed?.dashboard ?? parsed;
+  if (!isDashboard(dashboard)) throw new Error("Not a valid dashboard export");
+  dashboard.panels.forEach(p => {
+    try {
+      checkPanelSql(p.sql);
+    } catch (e: any) {
+      throw new Error(`Panel "${p.title}": ${e.message}`);
+    }
+  });
+  return {
+    id: newId('dash'),
+    name: dashboard.name,
+    range: RANGE_OPTIONS.includes(dashboard.range) ? dashboard.range : '1h',
+    variables: (dashboard.variables || []).map(v => ({ name: v.name, value: String(v.value ?? '') })),
+    panels: compactLayout(dashboard.panels.map(p => ({
+      id: newId('panel'),
+      title: p.title,
+      queryId: undefined,
+      sql: p.sql,
+      chart: p.chart,
+      refreshSec: REFRESH_OPTIONS.includes(p.refreshSec) ? p.refreshSec : 0,
+      layout: clampLayout(p.layout),
+    }))),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+// Saved-query panels export their current SQL so the file works without the local query library
+export const exportDashboard = (dashboard: Dashboard, queries: SavedQuery[]): string => JSON.stringify({
+  version: 1,
+  dashboard: {
+    ...dashboard,
+    panels: dashboard.panels.map(p => ({ ...p, sql: panelSql(p, queries) })),
+  },
+}, null, 2);
+
+export const loadDashboards = (): { dashboards: Dashboard[]; activeId: string } => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    const dashboards = Array.isArray(stored?.dashboards) ? stored.dashboards.filter(isDashboard) : [];
+    if (dashboards.length) {
+      const activeId = dashboards.some((d: Dashboard) => d.id === stored.activeId) ? stored.activeId : dashboards[0].id;
+      return { dashboards, activeId };
+    }
+  } catch (error) {
+    console.error("Dashboard Load Error:", error);
+  }
+  const fallback = createDefaultDashboard();
+  return { dashboards: [fallback], activeId: fallback.id };
+};
+
+export const saveDashboards = (dashboards: Dashboard[], activeId: string) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ dashboards, activeId }));
+};
+
+// ---- SQL --------------------------------------------------------------------
+
+export const panelSql = (panel: DashboardPanel, queries: SavedQuery[]): string =>
+  queries.find(q => q.id === panel.queryId)?.sql ?? panel.sql;
+
+/**
+ * Panels run on their own, on mount and on every refresh, against clusters
+ * that may be production, so only single read-only statements are accepted.
+ */
+export const checkPanelSql = (sql: string) => {
+  if (splitStatements(sql).length > 1) throw new Error("Panels run one statement at a time");
+  if (!isReadOnlyStatement(sql)) throw new Error("Panels only run read-only statements (SELECT, WITH, SHOW, EXPLAIN)");
+};
+
+const sqlString = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+
+const sqlLiteral = (value: string) => /^-?\d+(\.\d+)?$/.test(value.trim()) ? value.trim() : sqlString(value);
+
+const sqlDateTime = (ms: number) => sqlString(new Date(ms).toISOString().slice(0, 19).replace('T', ' '));
+
+/**
+ * Expands dashboard variables in panel SQL. `$name` and `${name}` become a
+ * SQL literal of the variable's value: numbers as they are, anything else
+ * quoted and escaped (`WHERE region = $region`). The built-ins `$__timeFrom`
+ * and `$__timeTo` become UTC datetime literals for the dashboard time range.
+ */
+export const applyVariables = (sql: string, variables: DashboardVariable[], range: MetricRange, now = Date.now()): string => {
+  const values = new Map<string, string>([
+    ['__timeFrom', sqlDateTime(now - RANGE_MS[range])],
+    ['__timeTo', sqlDateTime(now)],
+  ]);
+  variables.forEach(v => values.set(v.name, sqlLiteral(v.value)));
+  return sql.replace(/\$\{(\w+)\}|\$(\w+)/g, (match, braced, bare) => values.get(braced ?? bare) ?? match);
+};
+
+// ---- Layout -----------------------------------------------------------------
+
+export const clampLayout = (layout: PanelLayout): PanelLayout => {
+  const w = Math.min(GRID_COLUMNS, Math.max(2, layout.w));
+  return {
+    w,
+    h: Math.max(2, layout.h),
+    x: Math.min(GRID_COLUMNS - w, Math.max(0, layout.x)),
+    y: Math.max(0, layout.y),
+  };
+};
+
+const collides = (a: PanelLayout, b: PanelLayout) =>
+  a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+/**
+ * Floats every panel up as far as it goes without overlapping another,
+ * keeping `fixedId` (the panel being dragged or resized) where it was put.
+ */
+export const compactLayout = (panels: DashboardPanel[], fixedId?: string): DashboardPanel[] => {
+  const fixed = panels.find(p => p.id === fixedId);
+  const placed: PanelLayout[] = fixed ? [clampLayout(fixed.layout)] : [];
+  const others = panels
+    .filter(p => p !== fixed)
+    .sort((a, b) => a.layout.y - b.layout.y || a.layout.x - b.layout.x);
+
+  const positions = new Map<string, PanelLayout>();
+  if (fixed) positions.set(fixed.id, placed[0]);
+  others.forEach(panel => {
+    const layout = { ...clampLayout(panel.layout), y: 0 };
+    while (placed.some(p => collides(p, layout))) layout.y++;
+    placed.push(layout);
+    positions.set(panel.id, layout);
+  });
+  return panels.map(p => ({ ...p, layout: positions.get(p.id)! }));
+};
@@ -0,0 +1,29 @@
+
+import { TiDBConfig, ClusterDataSource } from "../types";
+import { simulatorDataSource } from "./tidbSimulator";
+import { createDataServiceSource, testConnection } from "./tidbApiService";
+import { createStandInSource } from "./standInService";
+
+export const DEFAULT_STAND_IN_URL = 'http://localhost:4100';
+
+// scripts/mysql-proxy.mjs speaks the Data Service protocol, so it is used through that backend
+export const DEFAULT_PROXY_ENDPOINT = 'http://localhost:4200/sql';
+
+export const createDataSource = (config: TiDBConfig): ClusterDataSource => {
+  if (!config.isLive) return simulatorDataSource;
+  return config.backend === 'standIn'
+    ? createStandInSource(config.standInUrl || DEFAULT_STAND_IN_URL)
+    : createDataServiceSource(config);
+};
+
+/**
+ * Connectivity check for whichever live backend the config points at
+ */
+export const verifyConnection = async (config: TiDBConfig): Promise<{ success: boolean; message: string }> => {
+  if (config.backend === 'dataService') return testConnection(config);
+  const result = await createDataSource({ ...config, isLive: true }).executeQuery("SELECT 1 as ping");
+  if (result.error) {
+    return { success: false, message: result.error };
+  }
+  return { success: true, message: "Stand-in responded successfully!" };
+};
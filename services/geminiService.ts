@@ -1,65 +1,131 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { AIProviderConfig, InsightProvider } from "../types";
+import { buildInsightPrompt, buildSqlPrompt, buildAdvicePrompt, normalizeFindings, normalizeSqlDraft, normalizeAdvice } from "./aiPrompts";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { HTAPStatus, AIInsight } from "../types";
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-preview';
 
-// Always use a named parameter for apiKey and direct environment variable access
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const INSIGHT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: {
+            type: Type.STRING,
+            description: "A short, descriptive title for the finding."
+          },
+          content: {
+            type: Type.STRING,
+            description: "Detailed analysis of the problem or trend."
+          },
+          recommendation: {
+            type: Type.STRING,
+            description: "Actionable advice for the DBA."
+          },
+          severity: {
+            type: Type.STRING,
+            description: "One of: 'low', 'medium', 'high'"
+          },
+          evidence: {
+            type: Type.ARRAY,
+            description: "Metric values the finding is based on.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                metric: { type: Type.STRING },
+                value: { type: Type.STRING }
+              },
+              required: ["metric", "value"]
+            }
+          },
+          suggestedSql: {
+            type: Type.STRING,
+            description: "Optional SQL statement to investigate or fix the problem."
+          }
+        },
+        required: ["title", "content", "recommendation", "severity", "evidence"]
+      }
+    }
+  },
+  required: ["findings"]
+};
 
-export const getAIInsights = async (status: HTAPStatus): Promise<AIInsight> => {
-  try {
-    const prompt = `
-      Act as a senior TiDB Database Administrator. Analyze the following HTAP cluster metrics:
-      - OLTP QPS: ${status.qpsOltp}
-      - OLAP QPS: ${status.qpsOlap}
-      - TiFlash Sync Lag: ${status.syncLagMs}ms
-      - TiKV Regions: ${status.tikvRegionCount}
-      - TiFlash Replicas: ${status.tiflashReplicaCount}
+const SQL_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    sql: {
+      type: Type.STRING,
+      description: "A single TiDB SQL statement."
+    },
+    explanation: {
+      type: Type.STRING,
+      description: "One sentence describing what the statement returns."
+    },
+    analytical: {
+      type: Type.BOOLEAN,
+      description: "True when the statement aggregates or scans large ranges, i.e. would benefit from TiFlash."
+    }
+  },
+  required: ["sql", "explanation", "analytical"]
+};
 
-      Provide a brief architectural insight about this hybrid workload. 
-      Identify if TiFlash is keeping up with TiKV and if the analytical queries are impacting transactional throughput.
-    `;
+const ADVICE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    rewrittenSql: {
+      type: Type.STRING,
+      description: "The corrected or optimized statement."
+    },
+    reasoning: {
+      type: Type.STRING,
+      description: "Why the statement failed or was slow, and why the changes help."
+    },
+    changes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: {
+            type: Type.STRING,
+            description: "One of: 'index', 'tiflashReplica'"
+          },
+          ddl: { type: Type.STRING },
+          reason: { type: Type.STRING }
+        },
+        required: ["kind", "ddl", "reason"]
+      }
+    }
+  },
+  required: ["rewrittenSql", "reasoning", "changes"]
+};
+
+export const createGeminiProvider = (config: AIProviderConfig): InsightProvider => {
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+  // A key entered in Settings wins over the build-time one
+  const apiKey = config.apiKey || process.env.API_KEY;
+  let ai: GoogleGenAI | null = null;
 
-    // Use gemini-3-pro-preview for complex reasoning and architectural analysis
+  // The client is created on first use: in a browser it throws without a key, and callers fall back on errors
+  const generate = async (prompt: string, responseSchema: Schema): Promise<any> => {
+    if (!apiKey) throw new Error("No Gemini API key; add one under Profile or set GEMINI_API_KEY");
+    // Always use a named parameter for apiKey
+    ai = ai || new GoogleGenAI({ apiKey });
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
+      model,
       contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { 
-              type: Type.STRING,
-              description: "A short, descriptive title for the insight."
-            },
-            content: { 
-              type: Type.STRING,
-              description: "Detailed analysis of the cluster performance."
-            },
-            recommendation: { 
-              type: Type.STRING,
-              description: "Actionable advice for the DBA."
-            },
-            severity: { 
-              type: Type.STRING,
-              description: "One of: 'low', 'medium', 'high'"
-            }
-          },
-          required: ["title", "content", "recommendation", "severity"]
-        }
-      }
+      config: { responseMimeType: "application/json", responseSchema }
     });
-
     // Access text as a property, not a method
-    const result = JSON.parse(response.text || '{}');
-    return result as AIInsight;
-  } catch (error) {
-    console.error("Gemini Insight Error:", error);
-    return {
-      title: "Monitoring Active",
-      content: "System metrics are within normal operating parameters. HTAP isolation is maintained.",
-      recommendation: "Continue standard monitoring.",
-      severity: 'low'
-    };
-  }
-};
\ No newline at end of file
+    return JSON.parse(response.text || '{}');
+  };
+
+  return {
+    kind: 'gemini',
+    label: `gemini · ${model}`,
+    analyzeCluster: async (context) => normalizeFindings(await generate(buildInsightPrompt(context), INSIGHT_SCHEMA)),
+    generateSql: async (question, catalog) => normalizeSqlDraft(await generate(buildSqlPrompt(question, catalog), SQL_SCHEMA)),
+    adviseQuery: async (request) => normalizeAdvice(await generate(buildAdvicePrompt(request), ADVICE_SCHEMA)),
+  };
+};
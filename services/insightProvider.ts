@@ -0,0 +1,48 @@
+import { AIProviderConfig, InsightProvider, InsightProviderKind } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createOpenAiProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAiProvider";
+import { ruleBasedProvider } from "./ruleBasedProvider";
+
+/**
+ * Picks the AI provider from the Settings configuration. API keys are kept in
+ * memory only; everything else is remembered in localStorage.
+ */
+
+const CONFIG_KEY = 'htap-vision.aiProvider';
+
+export const PROVIDER_OPTIONS: { kind: InsightProviderKind; label: string; defaultModel: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini', defaultModel: DEFAULT_GEMINI_MODEL },
+  { kind: 'openai', label: 'OpenAI-compatible', defaultModel: DEFAULT_OPENAI_MODEL },
+  { kind: 'rules', label: 'Rule-based (offline)', defaultModel: '' },
+];
+
+export const defaultProviderConfig = (): AIProviderConfig => ({
+  kind: process.env.API_KEY ? 'gemini' : 'rules',
+  model: process.env.API_KEY ? DEFAULT_GEMINI_MODEL : '',
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: '',
+});
+
+export const createInsightProvider = (config: AIProviderConfig): InsightProvider => {
+  switch (config.kind) {
+    case 'gemini': return createGeminiProvider(config);
+    case 'openai': return createOpenAiProvider(config);
+    case 'rules': return ruleBasedProvider;
+  }
+};
+
+export const loadProviderConfig = (): AIProviderConfig => {
+  const defaults = defaultProviderConfig();
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    if (!stored || !PROVIDER_OPTIONS.some(o => o.kind === stored.kind)) return defaults;
+    return { ...defaults, kind: stored.kind, model: stored.model ?? '', baseUrl: stored.baseUrl || defaults.baseUrl };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveProviderConfig = (config: AIProviderConfig) => {
+  const { apiKey: _apiKey, ...persisted } = config;
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(persisted));
+};
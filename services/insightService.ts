@@ -0,0 +1,106 @@
+import { ClusterDataSource, HTAPStatus, InsightContext, InsightReport, AIInsight, MetricPoint, InsightProvider } from "../types";
+import { queryRange } from "./metricStore";
+import { listStatements, sortStatements } from "./statementService";
+import { listReplicas } from "./replicaService";
+import { ruleBasedProvider } from "./ruleBasedProvider";
+
+/**
+ * Gathers the context handed to an AI analysis run, runs it through the
+ * configured provider and keeps the history of past reports in localStorage.
+ */
+
+const HISTORY_KEY = 'htap-vision.insightHistory';
+const MAX_REPORTS = 50;
+const MAX_METRIC_POINTS = 30;
+const TOP_STATEMENTS = 5;
+
+// Evenly thins a series so long windows stay within the prompt budget
+const downsample = (points: MetricPoint[], max: number): MetricPoint[] => {
+  if (points.length <= max) return points;
+  const step = points.length / max;
+  return Array.from({ length: max }, (_, i) => points[Math.floor(i * step)]).concat(points[points.length - 1]);
+};
+
+export const collectInsightContext = async (
+  dataSource: ClusterDataSource,
+  status: HTAPStatus,
+  fallbackMetrics: MetricPoint[] = []
+): Promise<InsightContext> => {
+  const [metrics, statements, replicas] = await Promise.allSettled([
+    queryRange(dataSource.id, '1h'),
+    listStatements(dataSource),
+    listReplicas(dataSource),
+  ]);
+  const missing: string[] = [];
+  const reason = (r: PromiseRejectedResult) => r.reason?.message || String(r.reason);
+
+  let recentMetrics = fallbackMetrics;
+  if (metrics.status === 'fulfilled' && metrics.value.length) recentMetrics = metrics.value;
+  else if (metrics.status === 'rejected') missing.push(`metric history: ${reason(metrics)}`);
+
+  if (statements.status === 'rejected') missing.push(`statement summary: ${reason(statements)}`);
+  if (replicas.status === 'rejected') missing.push(`TiFlash replicas: ${reason(replicas)}`);
+
+  return {
+    status,
+    recentMetrics: downsample(recentMetrics, MAX_METRIC_POINTS),
+    topStatements: statements.status === 'fulfilled' ? sortStatements(statements.value, 'sumLatencyMs').slice(0, TOP_STATEMENTS) : [],
+    replicas: replicas.status === 'fulfilled' ? replicas.value : [],
+    missing,
+  };
+};
+
+/**
+ * Runs the analysis; when the provider fails the rule-based findings are
+ * returned instead, with the failure recorded on the report.
+ */
+export const runInsightAnalysis = async (provider: InsightProvider, context: InsightContext, sourceId: string): Promise<InsightReport> => {
+  const generatedAt = new Date().toISOString();
+  const id = `insight-${Date.now().toString(36)}`;
+  try {
+    return { id, sourceId, generatedAt, provider: provider.label, findings: await provider.analyzeCluster(context) };
+  } catch (error: any) {
+    console.error("AI Insight Error:", error);
+    return {
+      id,
+      sourceId,
+      generatedAt,
+      provider: ruleBasedProvider.label,
+      findings: await ruleBasedProvider.analyzeCluster(context),
+      fallbackReason: `${provider.label}: ${error?.message || String(error)}`,
+    };
+  }
+};
+
+export const loadInsightHistory = (): InsightReport[] => {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveInsightHistory = (reports: InsightReport[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(reports.slice(-MAX_REPORTS)));
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Timestamp of the earliest model-generated report for the same cluster
+ * that carried a finding with this title.
+ */
+export const firstFlagged = (history: InsightReport[], report: InsightReport, finding: AIInsight): string | undefined => {
+  const title = normalizeTitle(finding.title);
+  return history.find(r =>
+    r.sourceId === report.sourceId &&
+    !r.fallbackReason &&
+    r.findings.some(f => normalizeTitle(f.title) === title)
+  )?.generatedAt;
+};
+
+export const highestSeverity = (report: InsightReport): AIInsight['severity'] => {
+  if (report.findings.some(f => f.severity === 'high')) return 'high';
+  if (report.findings.some(f => f.severity === 'medium')) return 'medium';
+  return 'low';
+};
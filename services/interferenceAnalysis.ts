@@ -0,0 +1,115 @@
+import { InterferenceInterval, InterferenceReport, MetricPoint } from "../types";
+
+/**
+ * Measures how much analytical load leaks into transactional latency: the
+ * correlation of OLAP QPS and TiFlash CPU with OLTP p99 over the stored
+ * samples, and the intervals where p99 rose past a tolerance over its
+ * quiet-period baseline while analytical load was above its median.
+ */
+
+const TOLERANCE_KEY = 'htap-vision.interferenceTolerance';
+
+export const DEFAULT_TOLERANCE_PCT = 25;
+
+// Fewer paired samples than this make a correlation coefficient meaningless
+const MIN_SAMPLES = 5;
+
+export const loadTolerance = (): number => {
+  const stored = Number(localStorage.getItem(TOLERANCE_KEY));
+  return stored > 0 ? stored : DEFAULT_TOLERANCE_PCT;
+};
+
+export const saveTolerance = (pct: number) => {
+  localStorage.setItem(TOLERANCE_KEY, String(pct));
+};
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const isNum = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const pearson = (xs: number[], ys: number[]): number | null => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < MIN_SAMPLES) return null;
+  let sx = 0, sy = 0;
+  for (let i = 0; i < n; i++) { sx += xs[i]; sy += ys[i]; }
+  const mx = sx / n, my = sy / n;
+  let cov = 0, vx = 0, vy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - mx, dy = ys[i] - my;
+    cov += dx * dy;
+    vx += dx * dx;
+    vy += dy * dy;
+  }
+  return vx && vy ? cov / Math.sqrt(vx * vy) : null;
+};
+
+const correlateWithP99 = (points: MetricPoint[], field: string): number | null => {
+  const paired = points.filter(p => isNum(p[field]));
+  return pearson(paired.map(p => p[field]), paired.map(p => p.oltpP99Ms));
+};
+
+export const describeCorrelation = (r: number | null): string => {
+  if (r === null) return 'Not enough data';
+  const strength = Math.abs(r) >= 0.7 ? 'Strong' : Math.abs(r) >= 0.4 ? 'Moderate' : Math.abs(r) >= 0.2 ? 'Weak' : 'No';
+  return strength === 'No' ? 'No correlation' : `${strength} ${r > 0 ? 'positive' : 'negative'}`;
+};
+
+export const analyzeInterference = (points: MetricPoint[], tolerancePct: number): InterferenceReport => {
+  const samples = points
+    .filter(p => isNum(p.oltpP99Ms) && isNum(p.olap) && isNum(p.timestamp))
+    .sort((a, b) => a.timestamp! - b.timestamp!);
+
+  const olapMedian = median(samples.map(p => p.olap));
+  const cpuValues = samples.map(p => p.tiflashCpuPercent).filter(isNum);
+  const cpuMedian = median(cpuValues);
+
+  // Baseline p99 from the samples where analytical load was at or below its median
+  const quiet = samples.filter(p => p.olap <= olapMedian);
+  const baselineP99Ms = median((quiet.length ? quiet : samples).map(p => p.oltpP99Ms));
+  const thresholdP99Ms = baselineP99Ms * (1 + tolerancePct / 100);
+
+  const elevated = (p: MetricPoint) => p.olap > olapMedian || (isNum(p.tiflashCpuPercent) && cpuValues.length > 0 && p.tiflashCpuPercent > cpuMedian);
+  const flagged = samples.map(p => p.oltpP99Ms > thresholdP99Ms && elevated(p));
+
+  // Samples further apart than twice the usual spacing start a new interval
+  const spacing = median(samples.slice(1).map((p, i) => p.timestamp! - samples[i].timestamp!)) || 2000;
+  const intervals: InterferenceInterval[] = [];
+  let run: MetricPoint[] = [];
+  const closeRun = () => {
+    if (!run.length) return;
+    const p99s = run.map(p => p.oltpP99Ms);
+    const cpus = run.map(p => p.tiflashCpuPercent).filter(isNum);
+    const peakP99Ms = p99s.reduce((a, b) => Math.max(a, b), 0);
+    intervals.push({
+      start: run[0].timestamp!,
+      end: run[run.length - 1].timestamp! + spacing,
+      samples: run.length,
+      peakP99Ms,
+      avgP99Ms: p99s.reduce((a, b) => a + b, 0) / run.length,
+      degradationPct: baselineP99Ms ? (peakP99Ms / baselineP99Ms - 1) * 100 : 0,
+      avgOlapQps: run.reduce((sum, p) => sum + p.olap, 0) / run.length,
+      peakTiflashCpu: cpus.length ? cpus.reduce((a, b) => Math.max(a, b), 0) : undefined,
+    });
+    run = [];
+  };
+  samples.forEach((p, i) => {
+    if (!flagged[i]) return closeRun();
+    if (run.length && p.timestamp! - run[run.length - 1].timestamp! > spacing * 2) closeRun();
+    run.push(p);
+  });
+  closeRun();
+
+  return {
+    samples: samples.length,
+    olapCorrelation: correlateWithP99(samples, 'olap'),
+    cpuCorrelation: correlateWithP99(samples, 'tiflashCpuPercent'),
+    baselineP99Ms,
+    thresholdP99Ms,
+    intervals: intervals.reverse(),
+  };
+};
@@ -0,0 +1,103 @@
+
+import { HTAPStatus, HTAPStatusField, StatusFieldError } from "../types";
+import { SqlTransport } from "./tidbApiService";
+
+/**
+ * Fills HTAPStatus from TiDB system tables. Each source is read on its own so
+ * one missing privilege or table only blanks the fields that depend on it.
+ * https://docs.pingcap.com/tidb/stable/information-schema
+ */
+
+interface StatusSource {
+  name: string;
+  sql: string;
+  fields: HTAPStatusField[];
+  read: (rows: any[]) => Partial<HTAPStatus>;
+}
+
+const num = (value: any): number => {
+  const parsed = Number(value);
+  if (value === null || value === undefined || isNaN(parsed)) {
+    throw new Error("No value returned");
+  }
+  return parsed;
+};
+
+const STATUS_SOURCES: StatusSource[] = [
+  {
+    name: 'information_schema.TIKV_REGION_STATUS',
+    sql: "SELECT COUNT(DISTINCT REGION_ID) AS regions FROM information_schema.TIKV_REGION_STATUS",
+    fields: ['tikvRegionCount'],
+    read: rows => ({ tikvRegionCount: num(rows[0]?.regions) }),
+  },
+  {
+    // Without any replicated table there is no progress to report, rather than 100%
+    name: 'information_schema.TIFLASH_REPLICA',
+    sql: "SELECT COUNT(*) AS tables, COALESCE(MAX(REPLICA_COUNT), 0) AS replicas, AVG(PROGRESS) AS progress FROM information_schema.TIFLASH_REPLICA",
+    fields: ['tiflashReplicaCount', 'tiflashReplicaProgress'],
+    read: rows => num(rows[0]?.tables) > 0
+      ? { tiflashReplicaCount: num(rows[0]?.replicas), tiflashReplicaProgress: num(rows[0]?.progress) }
+      : { tiflashReplicaCount: 0 },
+  },
+  {
+    // p99 wait for a TiFlash learner read to catch up with the Raft leader, reported in seconds
+    name: 'metrics_schema.tiflash_raft_wait_index_duration',
+    sql: `SELECT MAX(value) AS lag_seconds FROM metrics_schema.tiflash_raft_wait_index_duration
+      WHERE quantile = 0.99 AND time > NOW() - INTERVAL 1 MINUTE`,
+    fields: ['syncLagMs'],
+    read: rows => ({ syncLagMs: num(rows[0]?.lag_seconds) * 1000 }),
+  },
+  {
+    // Statements whose plan touched TiFlash count as OLAP, everything else as OLTP
+    name: 'information_schema.STATEMENTS_SUMMARY',
+    sql: `SELECT
+      SUM(CASE WHEN PLAN LIKE '%tiflash%' THEN 0 ELSE EXEC_COUNT END) / GREATEST(TIMESTAMPDIFF(SECOND, MIN(SUMMARY_BEGIN_TIME), NOW()), 1) AS oltp,
+      SUM(CASE WHEN PLAN LIKE '%tiflash%' THEN EXEC_COUNT ELSE 0 END) / GREATEST(TIMESTAMPDIFF(SECOND, MIN(SUMMARY_BEGIN_TIME), NOW()), 1) AS olap
+    FROM information_schema.STATEMENTS_SUMMARY`,
+    fields: ['qpsOltp', 'qpsOlap'],
+    read: rows => ({ qpsOltp: num(rows[0]?.oltp), qpsOlap: num(rows[0]?.olap) }),
+  },
+  {
+    // p99 commit-to-finish time of transactions, reported in seconds
+    name: 'metrics_schema.tidb_transaction_duration',
+    sql: `SELECT MAX(value) AS p99_seconds FROM metrics_schema.tidb_transaction_duration
+      WHERE quantile = 0.99 AND time > NOW() - INTERVAL 1 MINUTE`,
+    fields: ['oltpP99Ms'],
+    read: rows => ({ oltpP99Ms: num(rows[0]?.p99_seconds) * 1000 }),
+  },
+  {
+    name: 'information_schema.CLUSTER_LOAD',
+    sql: `SELECT AVG(1 - VALUE) * 100 AS busy FROM information_schema.CLUSTER_LOAD
+      WHERE TYPE = 'tiflash' AND DEVICE_TYPE = 'cpu' AND DEVICE_NAME = 'usage' AND NAME = 'idle'`,
+    fields: ['tiflashCpuPercent'],
+    read: rows => ({ tiflashCpuPercent: num(rows[0]?.busy) }),
+  },
+];
+
+export const collectLiveStatus = async (transport: SqlTransport): Promise<HTAPStatus> => {
+  const status: HTAPStatus = { tikvRegionCount: 0, tiflashReplicaCount: 0, syncLagMs: 0, qpsOltp: 0, qpsOlap: 0 };
+  const unavailable: StatusFieldError[] = [];
+
+  const results = await Promise.allSettled(
+    STATUS_SOURCES.map(async source => source.read((await transport(source.sql)).rows))
+  );
+
+  results.forEach((result, i) => {
+    const source = STATUS_SOURCES[i];
+    if (result.status === 'fulfilled') {
+      Object.assign(status, result.value);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      source.fields.forEach(field => unavailable.push({ field, source: source.name, reason }));
+    }
+  });
+
+  if (unavailable.length === STATUS_SOURCES.flatMap(s => s.fields).length) {
+    throw new Error(`No status source could be read: ${unavailable[0].reason}`);
+  }
+
+  return unavailable.length ? { ...status, unavailable } : status;
+};
+
+export const isFieldUnavailable = (status: HTAPStatus, field: HTAPStatusField): StatusFieldError | undefined =>
+  status.unavailable?.find(u => u.field === field);
@@ -0,0 +1,202 @@
+
+import { MetricPoint, HTAPStatus, HTAPStatusField, MetricAveragedField, MetricSample, MetricTier, MetricRange } from "../types";
+
+/**
+ * Client-side time-series store for sampled metrics, backed by IndexedDB.
+ * Every raw sample is also folded into 1-minute and 10-minute rollups so
+ * long ranges stay cheap to read.
+ */
+
+const DB_NAME = 'tidb-htap-vision';
+const DB_VERSION = 1;
+
+const TIER_BUCKET_MS: Record<MetricTier, number> = { raw: 0, '1m': 60_000, '10m': 600_000 };
+
+const TIER_RETENTION_MS: Record<MetricTier, number> = {
+  raw: 6 * 3600_000,
+  '1m': 2 * 86400_000,
+  '10m': 30 * 86400_000,
+};
+
+export const RANGE_MS: Record<MetricRange, number> = {
+  '5m': 5 * 60_000,
+  '1h': 3600_000,
+  '24h': 86400_000,
+  '7d': 7 * 86400_000,
+};
+
+// Coarsest tier that still gives a few hundred points for the range
+const RANGE_TIER: Record<MetricRange, MetricTier> = { '5m': 'raw', '1h': '1m', '24h': '10m', '7d': '10m' };
+
+const TIER_ORDER: MetricTier[] = ['raw', '1m', '10m'];
+
+const PRUNE_EVERY = 100;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let writesSincePrune = 0;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(TIER_BUCKET_MS) as MetricTier[]).forEach(tier => {
+          if (!db.objectStoreNames.contains(tier)) {
+            db.createObjectStore(tier, { keyPath: ['sourceId', 'ts'] });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const maxOptional = (prev: number | undefined, next: number | undefined): number | undefined =>
+  prev === undefined ? next : next === undefined ? prev : Math.max(prev, next);
+
+const AVERAGED_FIELDS: MetricAveragedField[] = ['oltp', 'olap', 'syncLagMs', 'oltpP99Ms', 'tiflashCpuPercent'];
+
+// Each field is averaged over the samples that reported it, which may be fewer than the bucket holds
+const mergeInto = (bucket: MetricSample | undefined, sample: MetricSample, ts: number): MetricSample => {
+  if (!bucket) {
+    const fieldCounts = Object.fromEntries(AVERAGED_FIELDS.filter(f => sample[f] !== undefined).map(f => [f, 1]));
+    return { ...sample, ts, fieldCounts };
+  }
+  const merged: MetricSample = {
+    ...bucket,
+    count: bucket.count + 1,
+    maxSyncLagMs: maxOptional(bucket.maxSyncLagMs, sample.syncLagMs),
+    tikvRegionCount: sample.tikvRegionCount ?? bucket.tikvRegionCount,
+    tiflashReplicaCount: sample.tiflashReplicaCount ?? bucket.tiflashReplicaCount,
+    fieldCounts: { ...bucket.fieldCounts },
+  };
+  AVERAGED_FIELDS.forEach(field => {
+    const next = sample[field];
+    if (next === undefined) return;
+    const prev = bucket[field];
+    // Buckets written before fieldCounts existed counted every sample
+    const count = (merged.fieldCounts[field] ?? (prev === undefined ? 0 : bucket.count)) + 1;
+    merged.fieldCounts[field] = count;
+    merged[field] = prev === undefined ? next : prev + (next - prev) / count;
+  });
+  return merged;
+};
+
+const prune = async (db: IDBDatabase, now: number) => {
+  const tx = db.transaction(Object.keys(TIER_BUCKET_MS), 'readwrite');
+  (Object.keys(TIER_BUCKET_MS) as MetricTier[]).forEach(tier => {
+    const store = tx.objectStore(tier);
+    const cursorRequest = store.openCursor();
+    const cutoff = now - TIER_RETENTION_MS[tier];
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if ((cursor.value as MetricSample).ts < cutoff) cursor.delete();
+      cursor.continue();
+    };
+  });
+};
+
+// Fields the collector could not read hold placeholders; they are left out rather than stored as real readings
+export const recordSample = async (sourceId: string, point: MetricPoint, status: HTAPStatus): Promise<void> => {
+  const db = await openDb();
+  const ts = point.timestamp ?? Date.now();
+  const unavailable = new Set(status.unavailable?.map(e => e.field));
+  const known = (field: HTAPStatusField, value: number | undefined) => unavailable.has(field) ? undefined : value;
+  const sample: MetricSample = {
+    sourceId,
+    ts,
+    oltp: known('qpsOltp', point.oltp),
+    olap: known('qpsOlap', point.olap),
+    syncLagMs: known('syncLagMs', status.syncLagMs),
+    maxSyncLagMs: known('syncLagMs', status.syncLagMs),
+    tikvRegionCount: known('tikvRegionCount', status.tikvRegionCount),
+    tiflashReplicaCount: known('tiflashReplicaCount', status.tiflashReplicaCount),
+    oltpP99Ms: known('oltpP99Ms', status.oltpP99Ms),
+    tiflashCpuPercent: known('tiflashCpuPercent', status.tiflashCpuPercent),
+    count: 1,
+  };
+
+  const tx = db.transaction(Object.keys(TIER_BUCKET_MS), 'readwrite');
+  tx.objectStore('raw').put(sample);
+  (['1m', '10m'] as MetricTier[]).forEach(tier => {
+    const store = tx.objectStore(tier);
+    const bucketTs = Math.floor(ts / TIER_BUCKET_MS[tier]) * TIER_BUCKET_MS[tier];
+    // Read-modify-write inside the request callback so the transaction stays active
+    const existing = store.get([sourceId, bucketTs]);
+    existing.onsuccess = () => store.put(mergeInto(existing.result as MetricSample | undefined, sample, bucketTs));
+  });
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+  if (++writesSincePrune >= PRUNE_EVERY) {
+    writesSincePrune = 0;
+    prune(db, ts);
+  }
+};
+
+const formatLabel = (ts: number, range: MetricRange): string => {
+  const date = new Date(ts);
+  if (range === '5m') return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  if (range === '7d') return date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Reads the samples for a range ending at `end`, as chartable points that
+ * also carry the HTAPStatus fields captured alongside them.
+ */
+export const queryRange = async (sourceId: string, range: MetricRange, end: number = Date.now(), tier: MetricTier = RANGE_TIER[range]): Promise<MetricPoint[]> => {
+  const db = await openDb();
+  const store = db.transaction(tier, 'readonly').objectStore(tier);
+  const samples = await promisify(store.getAll(IDBKeyRange.bound([sourceId, end - RANGE_MS[range]], [sourceId, end]))) as MetricSample[];
+  return samples.map(s => ({
+    time: formatLabel(s.ts, range),
+    timestamp: s.ts,
+    oltp: s.oltp,
+    olap: s.olap,
+    syncLagMs: s.syncLagMs,
+    maxSyncLagMs: s.maxSyncLagMs,
+    tikvRegionCount: s.tikvRegionCount,
+    tiflashReplicaCount: s.tiflashReplicaCount,
+    oltpP99Ms: s.oltpP99Ms,
+    tiflashCpuPercent: s.tiflashCpuPercent,
+  }));
+};
+
+/**
+ * Lines a range up against the same window one day earlier, matching points
+ * by their offset into the window. Yesterday's window is read from the
+ * finest tier that still retains it, which may be coarser than today's.
+ */
+export const queryWithYesterday = async (sourceId: string, range: MetricRange, end: number = Date.now()): Promise<MetricPoint[]> => {
+  const age = 86400_000 + RANGE_MS[range];
+  const previousTier = TIER_ORDER.find(tier => TIER_ORDER.indexOf(tier) >= TIER_ORDER.indexOf(RANGE_TIER[range]) && TIER_RETENTION_MS[tier] >= age) || '10m';
+  const [current, previous] = await Promise.all([
+    queryRange(sourceId, range, end),
+    queryRange(sourceId, range, end - 86400_000, previousTier),
+  ]);
+  const bucket = TIER_BUCKET_MS[previousTier] || 2000;
+  const byOffset = new Map(previous.map(p => [Math.floor((p.timestamp! + 86400_000) / bucket), p]));
+  return current.map(p => ({
+    ...p,
+    yesterdaySyncLagMs: byOffset.get(Math.floor(p.timestamp! / bucket))?.syncLagMs,
+  }));
+};
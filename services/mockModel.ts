@@ -0,0 +1,183 @@
+import { SchemaCatalog, SchemaTableInfo, AdviceMode, AdviceChange, ExecutionPlan } from "../types";
+import { SIMULATED_TABLES } from "./tidbSimulator";
+import { addTiFlashHint, hasTiFlashHint, isAnalyticalSql } from "./sqlAssistant";
+
+/**
+ * Offline stand-in for the language model. It matches table and column names
+ * from the question against the schema and fills a few fixed SQL shapes, and
+ * applies simple heuristics for error explanations and tuning advice, so the
+ * assistant can be exercised without network access or an API key.
+ */
+
+const AGGREGATES: [RegExp, string][] = [
+  [/\b(average|avg|mean)\b/i, 'AVG'],
+  [/\b(total|sum|revenue|sales)\b/i, 'SUM'],
+  [/\b(max|maximum|highest|largest)\b/i, 'MAX'],
+  [/\b(min|minimum|lowest|smallest)\b/i, 'MIN'],
+];
+
+const COUNT_PATTERN = /\b(how many|count|number of)\b/i;
+const TOP_PATTERN = /\btop\s+(\d+)\b/i;
+
+const isNumeric = (type: string) => /int|decimal|float|double|numeric/i.test(type);
+
+const singular = (word: string) => word.toLowerCase().replace(/s$/, '');
+
+const mentions = (question: string, name: string): boolean => {
+  const words = question.toLowerCase().split(/[^a-z0-9_]+/);
+  const target = singular(name);
+  return words.some(w => singular(w) === target || w === name.toLowerCase().replace(/_/g, ' '));
+};
+
+const pickTable = (question: string, tables: SchemaTableInfo[]): SchemaTableInfo =>
+  tables.find(t => mentions(question, t.name)) ||
+  tables.find(t => t.columns.some(c => mentions(question, c.name))) ||
+  tables[0];
+
+export const generateMockSql = (
+  question: string,
+  catalog: SchemaCatalog | null
+): { sql: string; explanation: string; analytical: boolean } => {
+  const tables = catalog?.tables.length ? catalog.tables : SIMULATED_TABLES;
+  const table = pickTable(question, tables);
+  const ref = `${table.database}.${table.name}`;
+
+  const groupBy = question.match(/\b(?:by|per|for each)\s+(\w+)/i)?.[1];
+  const groupColumn = groupBy && table.columns.find(c => singular(c.name) === singular(groupBy) || c.name.toLowerCase().includes(groupBy.toLowerCase()));
+  const measure = table.columns.find(c => isNumeric(c.type) && c.key !== 'PRI' && !c.name.endsWith('_id') && mentions(question, c.name))
+    || table.columns.find(c => isNumeric(c.type) && c.key !== 'PRI' && !c.name.endsWith('_id'));
+  const aggregate = AGGREGATES.find(([pattern]) => pattern.test(question))?.[1];
+  const limit = Number(question.match(TOP_PATTERN)?.[1] || 0);
+
+  if (COUNT_PATTERN.test(question) || ((aggregate || groupColumn) && !measure)) {
+    const sql = groupColumn
+      ? `SELECT ${groupColumn.name}, COUNT(*) AS cnt\nFROM ${ref}\nGROUP BY ${groupColumn.name}\nORDER BY cnt DESC${limit ? `\nLIMIT ${limit}` : ''};`
+      : `SELECT COUNT(*) AS cnt\nFROM ${ref};`;
+    return { sql, explanation: `Counts rows in ${ref}${groupColumn ? ` per ${groupColumn.name}` : ''}.`, analytical: true };
+  }
+
+  if ((aggregate || groupColumn) && measure) {
+    const fn = aggregate || 'SUM';
+    const alias = `${fn.toLowerCase()}_${measure.name}`;
+    const sql = groupColumn
+      ? `SELECT ${groupColumn.name}, ${fn}(${measure.name}) AS ${alias}\nFROM ${ref}\nGROUP BY ${groupColumn.name}\nORDER BY ${alias} DESC${limit ? `\nLIMIT ${limit}` : ''};`
+      : `SELECT ${fn}(${measure.name}) AS ${alias}\nFROM ${ref};`;
+    return { sql, explanation: `Aggregates ${measure.name} with ${fn}${groupColumn ? ` grouped by ${groupColumn.name}` : ''}.`, analytical: true };
+  }
+
+  const orderColumn = limit && measure ? `\nORDER BY ${measure.name} DESC` : '';
+  return {
+    sql: `SELECT *\nFROM ${ref}${orderColumn}\nLIMIT ${limit || 10};`,
+    explanation: `Returns ${limit ? `the top ${limit}` : 'a sample of'} rows from ${ref}.`,
+    analytical: false,
+  };
+};
+
+// Edit distance, for suggesting the identifier the user probably meant
+const distance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+};
+
+const closest = (name: string, candidates: string[]): string | undefined => candidates
+  .map(c => ({ c, d: distance(name.toLowerCase(), c.toLowerCase()) }))
+  .filter(({ d }) => d <= Math.max(2, Math.floor(name.length / 3)))
+  .sort((x, y) => x.d - y.d)[0]?.c;
+
+const replaceIdentifier = (sql: string, from: string, to: string) =>
+  sql.replace(new RegExp(`\\b${from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g'), to);
+
+const explainMockError = (sql: string, error: string, tables: SchemaTableInfo[], catalog: SchemaCatalog | null) => {
+  const missingTable = error.match(/Table '(?:\w+\.)?(\w+)' doesn't exist/i)?.[1];
+  if (missingTable) {
+    const guess = closest(missingTable, (catalog?.tables.length ? catalog.tables : SIMULATED_TABLES).map(t => t.name));
+    return {
+      rewrittenSql: guess ? replaceIdentifier(sql, missingTable, guess) : sql,
+      reasoning: `Table '${missingTable}' is not in the schema.${guess ? ` The closest existing table is '${guess}'.` : ' Check the database name or create the table first.'}`,
+    };
+  }
+  const missingColumn = error.match(/Unknown column '(?:\w+\.)?(\w+)'/i)?.[1];
+  if (missingColumn) {
+    const guess = closest(missingColumn, tables.flatMap(t => t.columns.map(c => c.name)));
+    return {
+      rewrittenSql: guess ? replaceIdentifier(sql, missingColumn, guess) : sql,
+      reasoning: `Column '${missingColumn}' does not exist in the referenced tables.${guess ? ` Did you mean '${guess}'?` : ''}`,
+    };
+  }
+  if (/syntax/i.test(error)) {
+    const near = error.match(/near "([^"]*)"/)?.[1];
+    return {
+      rewrittenSql: sql.replace(/;+\s*$/, '').replace(/,\s*(FROM|WHERE|GROUP|ORDER)\b/gi, ' $1') + ';',
+      reasoning: `The parser rejected the statement${near ? ` near "${near}"` : ''}. Trailing commas before a clause and unbalanced quotes are the usual cause.`,
+    };
+  }
+  return { rewrittenSql: sql, reasoning: `The cluster reported: ${error}. The mock model has no specific rewrite for this error.` };
+};
+
+const FILTER_PATTERN = /\b(?:\w+\.)?(\w+)\s*(?:=|<|>|<=|>=|IN\b|BETWEEN\b|LIKE\b)/gi;
+
+const optimizeMock = (sql: string, tables: SchemaTableInfo[], plan?: ExecutionPlan) => {
+  const changes: AdviceChange[] = [];
+  const reasons: string[] = [];
+  let rewrittenSql = sql;
+
+  if (isAnalyticalSql(sql)) {
+    tables.filter(t => !t.tiflashReplica).forEach(t => {
+      changes.push({
+        kind: 'tiflashReplica',
+        ddl: `ALTER TABLE \`${t.database}\`.\`${t.name}\` SET TIFLASH REPLICA 1;`,
+        reason: `Aggregations over ${t.name} scan many rows; a columnar replica lets TiFlash answer them without touching TiKV.`,
+      });
+    });
+    if (!hasTiFlashHint(sql)) {
+      rewrittenSql = addTiFlashHint(sql);
+      reasons.push('The statement aggregates, so it is routed to TiFlash with a READ_FROM_STORAGE hint.');
+    }
+  }
+
+  const where = sql.split(/\bWHERE\b/i)[1]?.split(/\b(GROUP|ORDER|LIMIT)\b/i)[0] || '';
+  const filtered = new Set([...where.matchAll(FILTER_PATTERN)].map(m => m[1].toLowerCase()));
+  tables.forEach(t => {
+    t.columns.filter(c => filtered.has(c.name.toLowerCase())).forEach(c => {
+      if (t.indexes.some(i => i.columns[0]?.toLowerCase() === c.name.toLowerCase())) return;
+      changes.push({
+        kind: 'index',
+        ddl: `CREATE INDEX idx_${c.name} ON \`${t.database}\`.\`${t.name}\` (${c.name});`,
+        reason: `${t.name}.${c.name} is filtered on but no index starts with it.`,
+      });
+    });
+  });
+
+  const fullScans = plan?.operators.filter(op => /TableFullScan/.test(op.id) && op.task.includes('tikv')) || [];
+  if (fullScans.length) reasons.push(`The plan reads ${fullScans.map(op => op.accessObject || op.id).join(', ')} with a full TiKV table scan.`);
+  if (/SELECT\s+(\/\*.*?\*\/\s*)?\*/is.test(sql)) reasons.push('Selecting only the needed columns instead of * reduces the data read from storage.');
+
+  return {
+    rewrittenSql,
+    reasoning: reasons.length || changes.length
+      ? reasons.join(' ') || 'Schema changes below should help this statement.'
+      : 'No obvious improvement found; the statement already uses indexed filters or a suitable engine.',
+    changes,
+  };
+};
+
+export const generateMockAdvice = (
+  mode: AdviceMode,
+  sql: string,
+  error: string | undefined,
+  tables: SchemaTableInfo[],
+  catalog: SchemaCatalog | null,
+  plan?: ExecutionPlan
+): { rewrittenSql: string; reasoning: string; changes: AdviceChange[] } => {
+  if (mode === 'explainError') return { ...explainMockError(sql, error || 'Unknown error', tables, catalog), changes: [] };
+  return optimizeMock(sql, tables, plan);
+};
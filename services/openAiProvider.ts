@@ -0,0 +1,59 @@
+import { AIProviderConfig, InsightProvider } from "../types";
+import {
+  buildInsightPrompt, buildSqlPrompt, buildAdvicePrompt,
+  INSIGHT_JSON_SHAPE, SQL_JSON_SHAPE, ADVICE_JSON_SHAPE,
+  normalizeFindings, normalizeSqlDraft, normalizeAdvice,
+} from "./aiPrompts";
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API, which
+ * includes local model servers such as Ollama, llama.cpp and vLLM.
+ */
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+// Some local models wrap JSON in a fenced block despite response_format
+const extractJson = (text: string): any => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(fenced ? fenced[1] : text);
+};
+
+export const createOpenAiProvider = (config: AIProviderConfig): InsightProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const model = config.model || DEFAULT_OPENAI_MODEL;
+
+  const complete = async (prompt: string, shape: string): Promise<any> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: `Reply with a single JSON object of this shape and nothing else: ${shape}` },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error?.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) throw new Error("Completion response had no message content");
+    return extractJson(content);
+  };
+
+  return {
+    kind: 'openai',
+    label: `openai · ${model}`,
+    analyzeCluster: async (context) => normalizeFindings(await complete(buildInsightPrompt(context), INSIGHT_JSON_SHAPE)),
+    generateSql: async (question, catalog) => normalizeSqlDraft(await complete(buildSqlPrompt(question, catalog), SQL_JSON_SHAPE)),
+    adviseQuery: async (request) => normalizeAdvice(await complete(buildAdvicePrompt(request), ADVICE_JSON_SHAPE)),
+  };
+};
@@ -0,0 +1,294 @@
+import { ExportMetadata, QueryResult } from "../types";
+import { isNull, cellText } from "./resultGrid";
+
+/**
+ * Minimal Parquet writer: one row group, one uncompressed PLAIN-encoded data
+ * page per column, every column OPTIONAL so NULLs survive. Integer columns
+ * become INT64, floating point columns DOUBLE, and everything else
+ * (including DECIMAL, which would lose precision as a double) UTF8 strings.
+ *
+ * Written as a generator that yields progress between row batches so the
+ * caller can hand control back to the UI.
+ *
+ * Format reference: https://parquet.apache.org/docs/file-format/
+ */
+
+const MAGIC = [0x50, 0x41, 0x52, 0x31]; // "PAR1"
+const BATCH_ROWS = 5000;
+
+// parquet.thrift enums
+const PhysicalType = { INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const ConvertedType = { UTF8: 0 } as const;
+const Repetition = { REQUIRED: 0, OPTIONAL: 1 } as const;
+const Encoding = { PLAIN: 0, RLE: 3 } as const;
+const PageType = { DATA_PAGE: 0 } as const;
+const CODEC_UNCOMPRESSED = 0;
+
+// Thrift compact protocol type ids
+const T_I32 = 5;
+const T_I64 = 6;
+const T_BINARY = 8;
+const T_LIST = 9;
+const T_STRUCT = 12;
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+const INTEGER_TEXT = /^-?\d+$/;
+
+const encoder = new TextEncoder();
+
+type PhysicalKind = keyof typeof PhysicalType;
+
+// ---- Thrift compact encoding -------------------------------------------
+
+interface ThriftValue {
+  type: number;
+  write: (out: number[]) => void;
+}
+
+type ThriftField = [number, ThriftValue] | undefined;
+
+const writeVarint = (out: number[], value: number) => {
+  let n = value >>> 0;
+  while (n > 0x7f) {
+    out.push((n & 0x7f) | 0x80);
+    n >>>= 7;
+  }
+  out.push(n);
+};
+
+const writeBigVarint = (out: number[], value: bigint) => {
+  let n = value;
+  while (n > 0x7fn) {
+    out.push(Number(n & 0x7fn) | 0x80);
+    n >>= 7n;
+  }
+  out.push(Number(n));
+};
+
+const writeBytes = (out: number[], bytes: Uint8Array) => {
+  for (let i = 0; i < bytes.length; i++) out.push(bytes[i]);
+};
+
+const i32 = (value: number): ThriftValue => ({
+  type: T_I32,
+  write: out => writeVarint(out, (value << 1) ^ (value >> 31)),
+});
+
+const i64 = (value: number | bigint): ThriftValue => ({
+  type: T_I64,
+  write: out => {
+    const n = BigInt(value);
+    writeBigVarint(out, BigInt.asUintN(64, (n << 1n) ^ (n >> 63n)));
+  },
+});
+
+const binary = (value: string): ThriftValue => ({
+  type: T_BINARY,
+  write: out => {
+    const bytes = encoder.encode(value);
+    writeVarint(out, bytes.length);
+    writeBytes(out, bytes);
+  },
+});
+
+const struct = (fields: ThriftField[]): ThriftValue => ({
+  type: T_STRUCT,
+  write: out => {
+    let last = 0;
+    fields.forEach(field => {
+      if (!field) return;
+      const [id, value] = field;
+      const delta = id - last;
+      if (delta > 0 && delta <= 15) {
+        out.push((delta << 4) | value.type);
+      } else {
+        out.push(value.type);
+        writeVarint(out, (id << 1) ^ (id >> 15));
+      }
+      value.write(out);
+      last = id;
+    });
+    out.push(0);
+  },
+});
+
+const list = (elementType: number, items: ThriftValue[]): ThriftValue => ({
+  type: T_LIST,
+  write: out => {
+    if (items.length < 15) {
+      out.push((items.length << 4) | elementType);
+    } else {
+      out.push(0xf0 | elementType);
+      writeVarint(out, items.length);
+    }
+    items.forEach(item => item.write(out));
+  },
+});
+
+const encodeStruct = (fields: ThriftField[]): Uint8Array => {
+  const out: number[] = [];
+  struct(fields).write(out);
+  return Uint8Array.from(out);
+};
+
+// ---- Column typing ------------------------------------------------------
+
+const toInt64 = (value: unknown): bigint | undefined => {
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && INTEGER_TEXT.test(value)) {
+    const n = BigInt(value);
+    return n >= INT64_MIN && n <= INT64_MAX ? n : undefined;
+  }
+  return undefined;
+};
+
+const toDouble = (value: unknown): number | undefined => {
+  if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+  if (typeof value === 'string' && value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// Declared types pick the target; values that do not fit fall back to strings
+const physicalKind = (type: string, values: unknown[]): PhysicalKind => {
+  const present = values.filter(v => !isNull(v));
+  if (/int|year/i.test(type) && present.every(v => toInt64(v) !== undefined)) return 'INT64';
+  if (/float|double|real|^number$/i.test(type) && present.every(v => toDouble(v) !== undefined)) return 'DOUBLE';
+  return 'BYTE_ARRAY';
+};
+
+// ---- Page encoding ------------------------------------------------------
+
+const le32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+};
+
+// Definition levels (bit width 1) as a single bit-packed run of the RLE/bit-packing hybrid
+const encodeDefinitionLevels = (present: boolean[]): Uint8Array => {
+  const groups = Math.ceil(present.length / 8);
+  const header: number[] = [];
+  writeVarint(header, (groups << 1) | 1);
+  const body = new Uint8Array(header.length + groups);
+  body.set(header);
+  present.forEach((p, i) => {
+    if (p) body[header.length + (i >> 3)] |= 1 << (i & 7);
+  });
+  return concat([le32(body.length), body]);
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach(p => {
+    bytes.set(p, offset);
+    offset += p.length;
+  });
+  return bytes;
+};
+
+const encodeValues = (kind: PhysicalKind, values: unknown[]): Uint8Array => {
+  if (kind === 'BYTE_ARRAY') {
+    const encoded = values.map(v => encoder.encode(cellText(v)));
+    return concat(encoded.flatMap(bytes => [le32(bytes.length), bytes]));
+  }
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach((v, i) => {
+    if (kind === 'INT64') view.setBigInt64(i * 8, toInt64(v)!, true);
+    else view.setFloat64(i * 8, toDouble(v)!, true);
+  });
+  return bytes;
+};
+
+interface ColumnChunk {
+  name: string;
+  kind: PhysicalKind;
+  offset: number;
+  size: number;
+}
+
+/**
+ * Yields progress in [0, 1] while encoding and returns the file as blob parts.
+ */
+export function* writeParquet(result: QueryResult, meta: ExportMetadata): Generator<number, BlobPart[]> {
+  const { columns, rows } = result;
+  const parts: Uint8Array[] = [Uint8Array.from(MAGIC)];
+  const chunks: ColumnChunk[] = [];
+  let offset = MAGIC.length;
+
+  for (let c = 0; c < columns.length; c++) {
+    const name = columns[c];
+    const type = meta.columns[c]?.type || '';
+    const present: boolean[] = [];
+    const values: unknown[] = [];
+    for (let start = 0; start < rows.length; start += BATCH_ROWS) {
+      rows.slice(start, start + BATCH_ROWS).forEach(row => {
+        const value = row[name];
+        present.push(!isNull(value));
+        if (!isNull(value)) values.push(value);
+      });
+      yield (c + Math.min(1, (start + BATCH_ROWS) / Math.max(rows.length, 1))) / columns.length;
+    }
+
+    const kind = physicalKind(type, values);
+    const page = concat([encodeDefinitionLevels(present), encodeValues(kind, values)]);
+    const header = encodeStruct([
+      [1, i32(PageType.DATA_PAGE)],
+      [2, i32(page.length)],
+      [3, i32(page.length)],
+      [5, struct([
+        [1, i32(rows.length)],
+        [2, i32(Encoding.PLAIN)],
+        [3, i32(Encoding.RLE)],
+        [4, i32(Encoding.RLE)],
+      ])],
+    ]);
+    parts.push(header, page);
+    chunks.push({ name, kind, offset, size: header.length + page.length });
+    offset += header.length + page.length;
+  }
+
+  const keyValue = (key: string, value: string) => struct([[1, binary(key)], [2, binary(value)]]);
+  const footer = encodeStruct([
+    [1, i32(1)],
+    [2, list(T_STRUCT, [
+      struct([[4, binary('schema')], [5, i32(columns.length)]]),
+      ...chunks.map(chunk => struct([
+        [1, i32(PhysicalType[chunk.kind])],
+        [3, i32(Repetition.OPTIONAL)],
+        [4, binary(chunk.name)],
+        chunk.kind === 'BYTE_ARRAY' ? [6, i32(ConvertedType.UTF8)] : undefined,
+      ])),
+    ])],
+    [3, i64(rows.length)],
+    [4, list(T_STRUCT, [struct([
+      [1, list(T_STRUCT, chunks.map(chunk => struct([
+        [2, i64(chunk.offset)],
+        [3, struct([
+          [1, i32(PhysicalType[chunk.kind])],
+          [2, list(T_I32, [i32(Encoding.PLAIN), i32(Encoding.RLE)])],
+          [3, list(T_BINARY, [binary(chunk.name)])],
+          [4, i32(CODEC_UNCOMPRESSED)],
+          [5, i64(rows.length)],
+          [6, i64(chunk.size)],
+          [7, i64(chunk.size)],
+          [9, i64(chunk.offset)],
+        ])],
+      ])))],
+      [2, i64(chunks.reduce((sum, chunk) => sum + chunk.size, 0))],
+      [3, i64(rows.length)],
+    ])])],
+    [5, list(T_STRUCT, [
+      keyValue('htap-vision.sql', meta.sql),
+      keyValue('htap-vision.engine', meta.isMPP ? `${meta.engine} (MPP)` : meta.engine),
+      keyValue('htap-vision.export', JSON.stringify(meta)),
+    ])],
+    [6, binary('htap-vision')],
+  ]);
+  parts.push(footer, le32(footer.length), Uint8Array.from(MAGIC));
+  return parts;
+}
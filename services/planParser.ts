@@ -0,0 +1,184 @@
+
+import { PlanOperator, PlanTreeNode, ExecutionPlan, StorageEngine } from "../types";
+
+/**
+ * Parses TiDB EXPLAIN output and derives which storage engines the optimizer picked.
+ * https://docs.pingcap.com/tidb/stable/explain-overview
+ */
+
+const EXPLAINABLE_PATTERN = /^\s*(SELECT|WITH|UPDATE|DELETE)\b/i;
+const EXPLAIN_PATTERN = /^\s*EXPLAIN\b/i;
+const EXPLAIN_PREFIX_PATTERN = /^\s*EXPLAIN\s+(ANALYZE\s+|FORMAT\s*=\s*'?\w+'?\s+)*/i;
+
+export type ExplainMode = 'explain' | 'analyze';
+
+export const isExplainable = (sql: string): boolean => EXPLAINABLE_PATTERN.test(sql);
+
+const READ_ONLY_PATTERN = /^\s*(SELECT|WITH|SHOW|DESC|DESCRIBE|TABLE)\b/i;
+// A CTE can front a write: WITH ... DELETE FROM ...
+const WRITE_PATTERN = /\b(INSERT|UPDATE|DELETE|REPLACE)\b/i;
+
+/**
+ * Whether running the statement (or the statement an EXPLAIN wraps) leaves
+ * the data as it was. Unknown statements count as writes.
+ */
+export const isReadOnlyStatement = (sql: string): boolean => {
+  const statement = stripExplain(sql);
+  if (!READ_ONLY_PATTERN.test(statement)) return false;
+  return !/^\s*WITH\b/i.test(statement) || !WRITE_PATTERN.test(statement);
+};
+
+export const isExplainStatement = (sql: string): boolean => EXPLAIN_PATTERN.test(sql);
+
+export const stripExplain = (sql: string): string => sql.replace(EXPLAIN_PREFIX_PATTERN, '');
+
+export const toExplainSql = (sql: string, mode: ExplainMode = 'explain'): string => {
+  const statement = stripExplain(sql).trim().replace(/;+\s*$/, '');
+  return mode === 'analyze' ? `EXPLAIN ANALYZE ${statement}` : `EXPLAIN FORMAT='brief' ${statement}`;
+};
+
+// Rows may come back keyed by column name or as positional arrays
+const readCell = (row: any, columns: string[], name: string): string => {
+  if (Array.isArray(row)) {
+    const idx = columns.findIndex(c => c.toLowerCase() === name.toLowerCase());
+    return idx >= 0 ? String(row[idx] ?? '') : '';
+  }
+  const key = Object.keys(row).find(k => k.toLowerCase() === name.toLowerCase());
+  return key ? String(row[key] ?? '') : '';
+};
+
+const readOptionalCell = (row: any, columns: string[], name: string): string | undefined => {
+  const hasColumn = columns.some(c => c.toLowerCase() === name.toLowerCase());
+  return hasColumn ? readCell(row, columns, name) : undefined;
+};
+
+// Operator ids are prefixed with tree drawing characters, two per level ("└─", "├─", "│ ", "  ")
+const splitTreePrefix = (rawId: string): { id: string; depth: number } => {
+  const match = rawId.match(/^[\s│├└─]*/);
+  const prefix = match ? match[0] : '';
+  return { id: rawId.slice(prefix.length).trim(), depth: Math.round(prefix.length / 2) };
+};
+
+export const parsePlanRows = (columns: string[], rows: any[]): PlanOperator[] =>
+  rows.map(row => {
+    const { id, depth } = splitTreePrefix(readCell(row, columns, 'id'));
+    return {
+      id,
+      depth,
+      estRows: readCell(row, columns, 'estRows'),
+      task: readCell(row, columns, 'task'),
+      accessObject: readCell(row, columns, 'access object'),
+      operatorInfo: readCell(row, columns, 'operator info'),
+      actRows: readOptionalCell(row, columns, 'actRows'),
+      executionInfo: readOptionalCell(row, columns, 'execution info'),
+      memory: readOptionalCell(row, columns, 'memory'),
+      disk: readOptionalCell(row, columns, 'disk'),
+    };
+  });
+
+export const engineForTask = (task: string): StorageEngine | null => {
+  const lower = task.toLowerCase();
+  if (lower.includes('[tiflash]')) return 'TiFlash';
+  if (lower.includes('[tikv]')) return 'TiKV';
+  return null;
+};
+
+export const summarizePlan = (operators: PlanOperator[]): ExecutionPlan => {
+  const engines = new Set<StorageEngine>();
+  operators.forEach(op => {
+    const engine = engineForTask(op.task);
+    if (engine) engines.add(engine);
+  });
+
+  return {
+    operators,
+    engines: (['TiKV', 'TiFlash'] as StorageEngine[]).filter(e => engines.has(e)),
+    isMPP: operators.some(op => op.task.toLowerCase().startsWith('mpp[')),
+    mppExchanges: operators.filter(op => /^Exchange(Sender|Receiver)/.test(op.id)).map(op => op.id),
+    analyzed: operators.some(op => op.actRows !== undefined),
+  };
+};
+
+// TiFlash wins whenever it participates, since that is the engine doing the heavy lifting
+export const primaryEngine = (plan: ExecutionPlan): StorageEngine =>
+  plan.engines.includes('TiFlash') ? 'TiFlash' : 'TiKV';
+
+const DURATION_UNITS_MS: Record<string, number> = { ns: 1e-6, 'µs': 1e-3, us: 1e-3, ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+// Go-style durations as printed in execution info, e.g. "812.5µs", "1.2s" or "1m3.4s"
+export const parseDurationMs = (text: string): number | undefined => {
+  const parts = text.match(/[\d.]+(ns|µs|us|ms|s|m|h)/g);
+  if (!parts) return undefined;
+  return parts.reduce((total, part) => {
+    const [, value, unit] = part.match(/([\d.]+)(ns|µs|us|ms|s|m|h)/)!;
+    return total + parseFloat(value) * DURATION_UNITS_MS[unit];
+  }, 0);
+};
+
+// Root operators report "time:", coprocessor operators nest it under "tikv_task:{...}" or "tiflash_task:{...}";
+// keys that merely end in "time", such as total_time or wait_time, are not it
+export const extractOperatorTimeMs = (executionInfo?: string): number | undefined => {
+  if (!executionInfo) return undefined;
+  const match = executionInfo.match(/(?:^|[\s{,])time:\s*((?:[\d.]+(?:ns|µs|us|ms|s|m|h))+)/);
+  return match ? parseDurationMs(match[1]) : undefined;
+};
+
+const parseRowCount = (value?: string): number | undefined => {
+  if (value === undefined || value === '' || value === 'N/A') return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Ratio between the larger and the smaller of estRows / actRows, so both
+ * under- and over-estimation show up as a value above 1.
+ */
+export const estimateRatio = (op: PlanOperator): number | undefined => {
+  const est = parseRowCount(op.estRows);
+  const act = parseRowCount(op.actRows);
+  if (est === undefined || act === undefined) return undefined;
+  return Math.max(est, act, 1) / Math.max(Math.min(est, act), 1);
+};
+
+export const buildPlanTree = (operators: PlanOperator[]): PlanTreeNode[] => {
+  const roots: PlanTreeNode[] = [];
+  const stack: PlanTreeNode[] = [];
+
+  operators.forEach(operator => {
+    const node: PlanTreeNode = {
+      operator,
+      children: [],
+      timeMs: extractOperatorTimeMs(operator.executionInfo),
+      estimateRatio: estimateRatio(operator),
+    };
+    while (stack.length > operator.depth) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  });
+
+  // Operator time is cumulative, so self time is what remains after the slowest child
+  const assignSelfTime = (node: PlanTreeNode) => {
+    node.children.forEach(assignSelfTime);
+    if (node.timeMs === undefined) return;
+    const childTime = Math.max(0, ...node.children.map(c => c.timeMs ?? 0));
+    node.selfTimeMs = Math.max(0, node.timeMs - childTime);
+  };
+  roots.forEach(assignSelfTime);
+
+  return roots;
+};
+
+// Indented text form of a plan, for prompts and logs
+export const formatPlanText = (plan: ExecutionPlan): string => plan.operators
+  .map(op => [
+    `${'  '.repeat(op.depth)}${op.id}`,
+    op.task,
+    `estRows=${op.estRows}`,
+    op.actRows !== undefined ? `actRows=${op.actRows}` : '',
+    op.accessObject,
+    op.operatorInfo,
+    op.executionInfo ? `{${op.executionInfo}}` : '',
+  ].filter(Boolean).join(' | '))
+  .join('\n');
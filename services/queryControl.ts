@@ -0,0 +1,114 @@
+import { QueryOptions, QueryProgress, QueryResult, QueryStopReason } from "../types";
+
+/**
+ * Cancellation, timeouts and row limits for statement runs. Every data
+ * source honours the same QueryOptions; this module holds the pieces they
+ * share and the SQL Lab timeout setting.
+ */
+
+const TIMEOUT_KEY = 'htap-vision.queryTimeout';
+const MAX_ROWS_KEY = 'htap-vision.maxRows';
+
+// SQL Lab stops reading after this many rows; the virtualized grid handles this
+// many, the limit only keeps a runaway SELECT from filling the tab's memory
+export const DEFAULT_MAX_ROWS = 100_000;
+
+export const MAX_ROWS_OPTIONS: { label: string; rows: number }[] = [
+  { label: '10k', rows: 10_000 },
+  { label: '100k', rows: 100_000 },
+  { label: '500k', rows: 500_000 },
+  { label: '1M', rows: 1_000_000 },
+];
+
+export const DEFAULT_TIMEOUT_MS = 300_000;
+
+export const TIMEOUT_OPTIONS: { label: string; ms: number }[] = [
+  { label: '30s', ms: 30_000 },
+  { label: '1m', ms: 60_000 },
+  { label: '5m', ms: 300_000 },
+  { label: '15m', ms: 900_000 },
+  { label: 'None', ms: 0 },
+];
+
+export const loadQueryTimeout = (): number => {
+  const stored = localStorage.getItem(TIMEOUT_KEY);
+  return stored === null || !Number.isFinite(Number(stored)) ? DEFAULT_TIMEOUT_MS : Number(stored);
+};
+
+export const saveQueryTimeout = (ms: number) => {
+  localStorage.setItem(TIMEOUT_KEY, String(ms));
+};
+
+export const loadMaxRows = (): number => {
+  const stored = Number(localStorage.getItem(MAX_ROWS_KEY));
+  return MAX_ROWS_OPTIONS.some(option => option.rows === stored) ? stored : DEFAULT_MAX_ROWS;
+};
+
+export const saveMaxRows = (rows: number) => {
+  localStorage.setItem(MAX_ROWS_KEY, String(rows));
+};
+
+export interface RunControl {
+  // Aborts on the caller's cancel or on the timeout, whichever comes first
+  signal: AbortSignal;
+  stopReason: () => QueryStopReason | undefined;
+  dispose: () => void;
+}
+
+export const controlRun = (options: QueryOptions): RunControl => {
+  const controller = new AbortController();
+  let reason: QueryStopReason | undefined;
+  const stop = (next: QueryStopReason) => {
+    if (reason) return;
+    reason = next;
+    controller.abort();
+  };
+  const onCancel = () => stop('cancelled');
+  if (options.signal?.aborted) onCancel();
+  else options.signal?.addEventListener('abort', onCancel);
+  const timer = options.timeoutMs ? setTimeout(() => stop('timeout'), options.timeoutMs) : undefined;
+  return {
+    signal: controller.signal,
+    stopReason: () => reason,
+    dispose: () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCancel);
+    },
+  };
+};
+
+export const abortableDelay = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// A run that was stopped keeps whatever rows had arrived
+export const stoppedResult = (sql: string, reason: QueryStopReason, progress: QueryProgress | null, elapsedMs: number): QueryResult => ({
+  columns: progress?.columns || [],
+  columnTypes: progress?.columnTypes,
+  rows: progress?.rows || [],
+  executionTimeMs: elapsedMs,
+  engine: 'Unknown',
+  isMPP: false,
+  sql,
+  stopReason: reason,
+});
+
+export const capRows = <T extends { rows: any[]; truncated?: boolean }>(result: T, maxRows?: number): T =>
+  maxRows && result.rows.length > maxRows ? { ...result, rows: result.rows.slice(0, maxRows), truncated: true } : result;
+
+export const describeStop = (result: QueryResult): string | null => {
+  const rows = `${result.rows.length.toLocaleString()} rows`;
+  if (result.stopReason === 'cancelled') return `Cancelled after ${rows}`;
+  if (result.stopReason === 'timeout') return `Timed out after ${(result.executionTimeMs / 1000).toFixed(0)}s with ${rows}`;
+  if (result.truncated) return `Row limit reached: showing the first ${rows}`;
+  return null;
+};
@@ -0,0 +1,132 @@
+import { QueryTab, QueryHistoryEntry, SavedQuery, QueryResult } from "../types";
+
+/**
+ * Persists SQL Lab editor tabs, the execution history and the saved-query
+ * library in localStorage.
+ */
+
+const TABS_KEY = 'htap-vision.queryTabs';
+const HISTORY_KEY = 'htap-vision.queryHistory';
+const SAVED_KEY = 'htap-vision.savedQueries';
+const MAX_HISTORY = 500;
+
+export const DEFAULT_SQL = "SELECT category, SUM(amount) as total_sales \nFROM orders \nGROUP BY category \nORDER BY total_sales DESC;";
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const createTab = (tabs: QueryTab[], sql = '', title?: string): QueryTab => {
+  const used = new Set(tabs.map(t => t.title));
+  let n = tabs.length + 1;
+  while (used.has(`Query ${n}`)) n++;
+  return { id: newId('tab'), title: title || `Query ${n}`, sql };
+};
+
+export const loadTabs = (): QueryTab[] => {
+  const tabs = readJson<QueryTab[]>(TABS_KEY, []);
+  return tabs.length ? tabs : [createTab([], DEFAULT_SQL)];
+};
+
+export const saveTabs = (tabs: QueryTab[]) => {
+  localStorage.setItem(TABS_KEY, JSON.stringify(tabs));
+};
+
+export const loadHistory = (): QueryHistoryEntry[] => readJson<QueryHistoryEntry[]>(HISTORY_KEY, []);
+
+export const toHistoryEntry = (sourceId: string, result: QueryResult): QueryHistoryEntry => ({
+  id: newId('run'),
+  sourceId,
+  sql: result.sql,
+  executedAt: new Date().toISOString(),
+  engine: result.engine,
+  durationMs: result.executionTimeMs,
+  rowCount: result.rows.length,
+  error: result.error,
+  stopReason: result.stopReason,
+});
+
+export const appendHistory = (history: QueryHistoryEntry[], entry: QueryHistoryEntry): QueryHistoryEntry[] => {
+  const next = [...history, entry].slice(-MAX_HISTORY);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const clearHistory = (): QueryHistoryEntry[] => {
+  localStorage.removeItem(HISTORY_KEY);
+  return [];
+};
+
+// Quoted strings and identifiers; the odd entries of a split on this are the quoted parts
+const QUOTED_PATTERN = /('(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*"|`(?:[^`]|``)*`)/;
+
+// Whitespace, case of keywords and a trailing semicolon do not make two statements different; quoted text does
+export const normalizeSql = (sql: string): string => sql.trim().replace(/;+\s*$/, '')
+  .split(QUOTED_PATTERN)
+  .map((part, i) => i % 2 ? part : part.replace(/\s+/g, ' ').toLowerCase())
+  .join('');
+
+// Runs of the same statement against the same source after the given one, oldest first
+export const laterRuns = (history: QueryHistoryEntry[], entry: QueryHistoryEntry): QueryHistoryEntry[] => {
+  const key = normalizeSql(entry.sql);
+  return history
+    .filter(h =>
+      h.id !== entry.id &&
+      h.sourceId === entry.sourceId &&
+      h.executedAt > entry.executedAt &&
+      normalizeSql(h.sql) === key
+    )
+    .sort((a, b) => a.executedAt.localeCompare(b.executedAt));
+};
+
+export const loadSavedQueries = (): SavedQuery[] => readJson<SavedQuery[]>(SAVED_KEY, []);
+
+const writeSaved = (queries: SavedQuery[]): SavedQuery[] => {
+  localStorage.setItem(SAVED_KEY, JSON.stringify(queries));
+  return queries;
+};
+
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
+
+/**
+ * Saves under the given name and folder, replacing an existing entry with
+ * the same name in the same folder.
+ */
+export const upsertSavedQuery = (
+  queries: SavedQuery[],
+  draft: { name: string; sql: string; folder: string; tags: string[] }
+): SavedQuery[] => {
+  const folder = draft.folder.trim();
+  const name = draft.name.trim();
+  const existing = queries.find(q => q.name === name && q.folder === folder);
+  const saved: SavedQuery = {
+    id: existing?.id || newId('saved'),
+    name,
+    folder,
+    sql: draft.sql,
+    tags: draft.tags,
+    updatedAt: new Date().toISOString(),
+  };
+  return writeSaved(existing ? queries.map(q => q.id === existing.id ? saved : q) : [...queries, saved]);
+};
+
+export const deleteSavedQuery = (queries: SavedQuery[], id: string): SavedQuery[] =>
+  writeSaved(queries.filter(q => q.id !== id));
+
+export const groupByFolder = (queries: SavedQuery[]): [string, SavedQuery[]][] => {
+  const folders = new Map<string, SavedQuery[]>();
+  [...queries].sort((a, b) => a.name.localeCompare(b.name)).forEach(q => {
+    const list = folders.get(q.folder) || [];
+    list.push(q);
+    folders.set(q.folder, list);
+  });
+  return [...folders.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
@@ -0,0 +1,39 @@
+
+import { ClusterDataSource, TiFlashReplica } from "../types";
+import { quoteIdentifier } from "./schemaService";
+
+/**
+ * Reads and changes TiFlash replicas through the active data source
+ * https://docs.pingcap.com/tidb/stable/create-tiflash-replicas
+ */
+
+export const REPLICA_LIST_SQL = `SELECT TABLE_SCHEMA, TABLE_NAME, REPLICA_COUNT, AVAILABLE, PROGRESS
+FROM information_schema.TIFLASH_REPLICA
+ORDER BY TABLE_SCHEMA, TABLE_NAME`;
+
+export const replicaKey = (database: string, table: string): string => `${database}.${table}`;
+
+export const buildSetReplicaSql = (database: string, table: string, count: number): string => {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error("Replica count must be a non-negative integer");
+  }
+  return `ALTER TABLE ${quoteIdentifier(database)}.${quoteIdentifier(table)} SET TIFLASH REPLICA ${count}`;
+};
+
+// Polled by the replica console; without `withPlan` this is one round trip, with no EXPLAIN alongside
+export const listReplicas = async (dataSource: ClusterDataSource): Promise<TiFlashReplica[]> => {
+  const result = await dataSource.executeQuery(REPLICA_LIST_SQL, { withPlan: false });
+  if (result.error) throw new Error(result.error);
+  return result.rows.map(row => ({
+    database: row.TABLE_SCHEMA,
+    table: row.TABLE_NAME,
+    replicaCount: Number(row.REPLICA_COUNT),
+    available: Number(row.AVAILABLE) === 1,
+    progress: Number(row.PROGRESS),
+  }));
+};
+
+export const setReplicaCount = async (dataSource: ClusterDataSource, database: string, table: string, count: number): Promise<void> => {
+  const result = await dataSource.executeQuery(buildSetReplicaSql(database, table, count));
+  if (result.error) throw new Error(result.error);
+};
@@ -0,0 +1,124 @@
+import { ExportFormat, ExportMetadata, ExportOptions, QueryResult } from "../types";
+import { columnType, isNull, cellText } from "./resultGrid";
+import { writeParquet } from "./parquetWriter";
+import { writeXlsx } from "./xlsxWriter";
+
+/**
+ * Turns a QueryResult into a downloadable file. Every format is produced by a
+ * generator that yields progress between row batches; `exportResult` drives
+ * it and gives the event loop a turn after each batch, so large exports keep
+ * the UI responsive and can be cancelled.
+ */
+
+const BATCH_ROWS = 5000;
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { format: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv;charset=utf-8' },
+  { format: 'ndjson', label: 'NDJSON', extension: 'ndjson', mime: 'application/x-ndjson' },
+  { format: 'xlsx', label: 'Excel', extension: 'xlsx', mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { format: 'parquet', label: 'Parquet', extension: 'parquet', mime: 'application/vnd.apache.parquet' },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  delimiter: ',',
+  header: true,
+  nullValue: '',
+  includeMetadata: false,
+};
+
+export interface ExportHooks {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export const buildExportMetadata = (result: QueryResult, sourceId: string): ExportMetadata => ({
+  sql: result.sql,
+  engine: result.engine,
+  isMPP: result.isMPP,
+  sourceId,
+  exportedAt: new Date().toISOString(),
+  rowCount: result.rows.length,
+  columns: result.columns.map(name => ({ name, type: columnType(result, name) })),
+});
+
+export const exportFileName = (format: ExportFormat, meta: ExportMetadata): string => {
+  const stamp = meta.exportedAt.replace(/\.\d+Z$/, '').replace(/[:T]/g, '-');
+  return `query-${stamp}.${EXPORT_FORMATS.find(f => f.format === format)!.extension}`;
+};
+
+/**
+ * Quotes fields that contain the delimiter, quotes or line breaks. A real
+ * empty string is always quoted so it stays distinguishable from a NULL
+ * written as an empty field.
+ */
+const csvField = (value: unknown, options: ExportOptions): string => {
+  if (isNull(value)) return options.nullValue;
+  const text = cellText(value);
+  if (text === '' || text.includes(options.delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+function* writeCsv(result: QueryResult, meta: ExportMetadata, options: ExportOptions): Generator<number, BlobPart[]> {
+  const parts: string[] = [];
+  const line = (fields: string[]) => fields.join(options.delimiter);
+  if (options.includeMetadata) {
+    parts.push([
+      `# sql: ${meta.sql.replace(/\s+/g, ' ').trim()}`,
+      `# engine: ${meta.isMPP ? `${meta.engine} (MPP)` : meta.engine}`,
+      `# source: ${meta.sourceId}`,
+      `# exported_at: ${meta.exportedAt}`,
+      `# rows: ${meta.rowCount}`,
+      '',
+    ].join('\n'));
+  }
+  if (options.header) parts.push(line(result.columns.map(c => csvField(c, options))) + '\n');
+
+  for (let start = 0; start < result.rows.length; start += BATCH_ROWS) {
+    const batch = result.rows.slice(start, start + BATCH_ROWS)
+      .map(row => line(result.columns.map(c => csvField(row[c], options))));
+    parts.push(batch.join('\n') + '\n');
+    yield Math.min(1, (start + BATCH_ROWS) / result.rows.length);
+  }
+  return parts;
+}
+
+function* writeNdjson(result: QueryResult, meta: ExportMetadata, options: ExportOptions): Generator<number, BlobPart[]> {
+  const parts: string[] = [];
+  if (options.includeMetadata) parts.push(JSON.stringify({ __export: meta }) + '\n');
+
+  for (let start = 0; start < result.rows.length; start += BATCH_ROWS) {
+    const batch = result.rows.slice(start, start + BATCH_ROWS)
+      .map(row => JSON.stringify(Object.fromEntries(result.columns.map(c => [c, isNull(row[c]) ? null : row[c]]))));
+    parts.push(batch.join('\n') + '\n');
+    yield Math.min(1, (start + BATCH_ROWS) / result.rows.length);
+  }
+  return parts;
+}
+
+const nextTurn = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const exportResult = async (
+  result: QueryResult,
+  options: ExportOptions,
+  meta: ExportMetadata,
+  hooks: ExportHooks = {}
+): Promise<Blob> => {
+  const steps = options.format === 'csv' ? writeCsv(result, meta, options)
+    : options.format === 'ndjson' ? writeNdjson(result, meta, options)
+    : options.format === 'xlsx' ? writeXlsx(result, meta, options)
+    : writeParquet(result, meta);
+
+  for (;;) {
+    const step = steps.next();
+    if (step.done) {
+      hooks.onProgress?.(1);
+      return new Blob(step.value, { type: EXPORT_FORMATS.find(f => f.format === options.format)!.mime });
+    }
+    hooks.onProgress?.(step.value as number);
+    await nextTurn();
+    if (hooks.signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+  }
+};
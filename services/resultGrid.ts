@@ -0,0 +1,129 @@
+import { QueryResult } from "../types";
+
+/**
+ * Pure helpers behind the SQL Lab result grid: column typing, sorting,
+ * filtering and TSV serialization. Kept free of React so they stay cheap to
+ * run over 100k+ rows.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface GridSort {
+  column: string;
+  direction: SortDirection;
+}
+
+const NUMERIC_TYPE = /int|decimal|numeric|float|double|real|bit|year/i;
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+const DATE_TEXT = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const isNull = (value: unknown): boolean => value === null || value === undefined;
+
+// Type reported by the source when available, otherwise a guess from the first non-null values
+export const columnType = (result: QueryResult, column: string): string => {
+  const index = result.columns.indexOf(column);
+  const reported = result.columnTypes?.[index];
+  if (reported) return reported.toLowerCase();
+
+  const sample = result.rows.slice(0, 50).map(r => r[column]).filter(v => !isNull(v));
+  if (sample.length === 0) return 'null';
+  if (sample.every(v => typeof v === 'boolean')) return 'boolean';
+  if (sample.every(v => typeof v === 'number' || (typeof v === 'string' && NUMERIC_TEXT.test(v)))) return 'number';
+  if (sample.every(v => typeof v === 'string' && DATE_TEXT.test(v))) return 'datetime';
+  if (sample.every(v => typeof v === 'object')) return 'json';
+  return 'string';
+};
+
+export const isNumericType = (type: string): boolean => type === 'number' || NUMERIC_TYPE.test(type);
+
+// Text shown in a cell; NULL is rendered separately so an empty string stays distinguishable
+export const cellText = (value: unknown): string => {
+  if (isNull(value)) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const numericValue = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMERIC_TEXT.test(value.trim())) return Number(value);
+  return undefined;
+};
+
+/**
+ * Orders rows by one column. Values are grouped by kind first, so mixed
+ * columns sort consistently: numbers (including DECIMAL values serialized as
+ * strings) compare numerically and come first, text follows, and NULLs
+ * always sort last. The direction only flips the order within a kind.
+ */
+export const sortRows = (rows: any[], sort: GridSort | null): any[] => {
+  if (!sort) return rows;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const keyed = rows.map(row => {
+    const value = row[sort.column];
+    return { row, value, num: numericValue(value), text: cellText(value) };
+  });
+  const kind = (k: typeof keyed[number]) => isNull(k.value) ? 2 : k.num !== undefined ? 0 : 1;
+  keyed.sort((a, b) => {
+    const aKind = kind(a);
+    const bKind = kind(b);
+    if (aKind !== bKind) return aKind - bKind;
+    if (aKind === 2) return 0;
+    if (aKind === 0) return (a.num! - b.num!) * factor;
+    return a.text.localeCompare(b.text, undefined, { numeric: true }) * factor;
+  });
+  return keyed.map(k => k.row);
+};
+
+const COMPARISON = /^(>=|<=|!=|>|<|=)\s*(.*)$/;
+
+/**
+ * Builds a predicate for one column filter. Plain text matches as a
+ * case-insensitive substring; `NULL` matches NULL cells, `""` matches empty
+ * strings, and `>`, `>=`, `<`, `<=`, `=`, `!=` compare numerically when the
+ * operand is a number.
+ */
+export const cellMatcher = (filter: string): ((value: unknown) => boolean) => {
+  const term = filter.trim();
+  if (term.toUpperCase() === 'NULL') return isNull;
+  if (term.toUpperCase() === 'NOT NULL') return v => !isNull(v);
+  if (term === '""') return v => v === '';
+
+  const comparison = term.match(COMPARISON);
+  const operand = comparison ? numericValue(comparison[2]) : undefined;
+  if (comparison && operand !== undefined) {
+    return v => {
+      const n = numericValue(v);
+      if (n === undefined) return false;
+      switch (comparison[1]) {
+        case '>': return n > operand;
+        case '>=': return n >= operand;
+        case '<': return n < operand;
+        case '<=': return n <= operand;
+        case '!=': return n !== operand;
+        default: return n === operand;
+      }
+    };
+  }
+
+  const needle = term.toLowerCase();
+  return v => !isNull(v) && cellText(v).toLowerCase().includes(needle);
+};
+
+export const filterRows = (rows: any[], filters: Record<string, string>): any[] => {
+  const active = Object.entries(filters).filter(([, f]) => f.trim());
+  if (active.length === 0) return rows;
+  const matchers = active.map(([column, f]) => [column, cellMatcher(f)] as const);
+  return rows.filter(row => matchers.every(([column, matches]) => matches(row[column])));
+};
+
+// Quotes a field the way spreadsheets expect when it would otherwise break the TSV layout
+const tsvField = (value: unknown): string => {
+  if (isNull(value)) return 'NULL';
+  const text = cellText(value);
+  return /[\t\n\r"]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toTsv = (columns: string[], rows: any[], withHeader = false): string => {
+  const lines = rows.map(row => columns.map(c => tsvField(row[c])).join('\t'));
+  return (withHeader ? [columns.join('\t'), ...lines] : lines).join('\n');
+};
@@ -0,0 +1,148 @@
+import { AIInsight, InsightContext, InsightProvider, MetricPoint } from "../types";
+import { generateMockSql, generateMockAdvice } from "./mockModel";
+import { isFieldUnavailable } from "./liveStatusCollector";
+import { isAnalyticalSql, addTiFlashHint } from "./sqlAssistant";
+import { hasPlanChange } from "./statementService";
+
+/**
+ * Deterministic provider that needs neither a key nor network access.
+ * Cluster findings come from fixed thresholds; SQL drafting and advice use
+ * the heuristics in mockModel.
+ */
+
+const LAG_WARN_MS = 50;
+const LAG_CRITICAL_MS = 100;
+const SLOW_TIKV_ANALYTICAL_MS = 500;
+const OLTP_DROP_RATIO = 0.7;
+const OLAP_SHARE_NOTICE = 0.1;
+
+const REPLICA_PROGRESS_SQL = `SELECT TABLE_SCHEMA, TABLE_NAME, REPLICA_COUNT, PROGRESS
+FROM information_schema.TIFLASH_REPLICA
+WHERE PROGRESS < 1;`;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+
+// Compares the first and last third of the window
+const trend = (points: MetricPoint[], key: string): { before: number; after: number } | undefined => {
+  const values = points.map(p => p[key]).filter((v): v is number => typeof v === 'number');
+  if (values.length < 6) return undefined;
+  const third = Math.floor(values.length / 3);
+  return { before: average(values.slice(0, third)), after: average(values.slice(-third)) };
+};
+
+export const analyzeWithRules = (context: InsightContext): AIInsight[] => {
+  const { status, recentMetrics, topStatements, replicas } = context;
+  const findings: AIInsight[] = [];
+
+  if (!isFieldUnavailable(status, 'syncLagMs') && status.syncLagMs > LAG_WARN_MS) {
+    findings.push({
+      title: "TiFlash replication lag elevated",
+      content: `TiFlash is ${status.syncLagMs.toFixed(1)}ms behind TiKV, above the ${LAG_WARN_MS}ms threshold. Analytical reads may wait for the learner to catch up.`,
+      recommendation: "Check replica progress and TiFlash node load; reduce heavy analytical scans until lag recovers.",
+      severity: status.syncLagMs > LAG_CRITICAL_MS ? 'high' : 'medium',
+      evidence: [{ metric: 'syncLagMs', value: `${status.syncLagMs.toFixed(1)}ms` }],
+      suggestedSql: REPLICA_PROGRESS_SQL,
+    });
+  }
+
+  const lag = trend(recentMetrics, 'syncLagMs');
+  if (lag && lag.after > lag.before * 2 && lag.after > LAG_WARN_MS / 2) {
+    findings.push({
+      title: "Replication lag trending up",
+      content: `Average lag rose from ${lag.before.toFixed(1)}ms to ${lag.after.toFixed(1)}ms over the recent window.`,
+      recommendation: "Look for a recent bulk write or a new analytical workload that correlates with the increase.",
+      severity: 'medium',
+      evidence: [
+        { metric: 'syncLagMs (earlier)', value: `${lag.before.toFixed(1)}ms` },
+        { metric: 'syncLagMs (recent)', value: `${lag.after.toFixed(1)}ms` },
+      ],
+    });
+  }
+
+  const oltp = trend(recentMetrics, 'oltp');
+  const olap = trend(recentMetrics, 'olap');
+  if (oltp && olap && oltp.after < oltp.before * OLTP_DROP_RATIO && olap.after > olap.before) {
+    findings.push({
+      title: "Transactional throughput falling as analytics rise",
+      content: `OLTP QPS dropped from ${oltp.before.toFixed(0)} to ${oltp.after.toFixed(0)} while OLAP QPS rose from ${olap.before.toFixed(1)} to ${olap.after.toFixed(1)}.`,
+      recommendation: "Make sure analytical statements read from TiFlash rather than TiKV so they do not compete with transactions.",
+      severity: 'high',
+      evidence: [
+        { metric: 'oltp', value: `${oltp.before.toFixed(0)} → ${oltp.after.toFixed(0)}` },
+        { metric: 'olap', value: `${olap.before.toFixed(1)} → ${olap.after.toFixed(1)}` },
+      ],
+    });
+  } else if (status.qpsOltp > 0 && status.qpsOlap / status.qpsOltp > OLAP_SHARE_NOTICE) {
+    findings.push({
+      title: "Significant analytical share",
+      content: `Analytical queries make up ${((status.qpsOlap / (status.qpsOlap + status.qpsOltp)) * 100).toFixed(1)}% of traffic.`,
+      recommendation: "Keep analytical tables replicated to TiFlash so this load stays isolated from TiKV.",
+      severity: 'low',
+      evidence: [
+        { metric: 'qpsOltp', value: status.qpsOltp.toFixed(0) },
+        { metric: 'qpsOlap', value: status.qpsOlap.toFixed(1) },
+      ],
+    });
+  }
+
+  const syncing = replicas.filter(r => r.progress < 1);
+  if (syncing.length) {
+    findings.push({
+      title: "TiFlash replicas still syncing",
+      content: `${syncing.length} replica(s) are not fully available: ${syncing.map(r => `${r.database}.${r.table} ${(r.progress * 100).toFixed(0)}%`).join(', ')}.`,
+      recommendation: "Queries on these tables fall back to TiKV until replication completes.",
+      severity: 'medium',
+      evidence: syncing.map(r => ({ metric: `${r.database}.${r.table} progress`, value: `${(r.progress * 100).toFixed(0)}%` })),
+      suggestedSql: REPLICA_PROGRESS_SQL,
+    });
+  }
+
+  topStatements
+    .filter(s => isAnalyticalSql(s.digestText) && (s.tikvAvgMs ?? 0) > SLOW_TIKV_ANALYTICAL_MS && s.tiflashAvgMs === undefined)
+    .forEach(s => {
+      findings.push({
+        title: "Slow analytical statement served by TiKV",
+        content: `Digest ${s.digest.slice(0, 12)} averages ${s.tikvAvgMs!.toFixed(0)}ms on TiKV and never ran on TiFlash.`,
+        recommendation: "Add a TiFlash replica for its tables or hint it to read from TiFlash.",
+        severity: 'medium',
+        evidence: [
+          { metric: 'tikvAvgMs', value: `${s.tikvAvgMs!.toFixed(0)}ms` },
+          { metric: 'execCount', value: String(s.execCount) },
+        ],
+        suggestedSql: `EXPLAIN ${addTiFlashHint(s.sampleSql)}`,
+      });
+    });
+
+  topStatements.filter(hasPlanChange).forEach(s => {
+    findings.push({
+      title: "Plan change detected",
+      content: `Digest ${s.digest.slice(0, 12)} ran with ${s.plans.length} different plans.`,
+      recommendation: "Compare the plans in the Statements view and consider a plan binding if one is clearly better.",
+      severity: 'low',
+      evidence: s.plans.map(p => ({ metric: `${p.planDigest.slice(0, 8)} (${p.engine})`, value: `${p.avgLatencyMs.toFixed(1)}ms` })),
+    });
+  });
+
+  if (findings.length === 0) {
+    findings.push({
+      title: "No threshold breached",
+      content: "Replication lag, throughput balance and replica progress are within the rule-based thresholds.",
+      recommendation: "Continue standard monitoring.",
+      severity: 'low',
+      evidence: [
+        { metric: 'syncLagMs', value: `${status.syncLagMs.toFixed(1)}ms` },
+        { metric: 'qpsOltp', value: status.qpsOltp.toFixed(0) },
+      ],
+    });
+  }
+
+  return findings;
+};
+
+export const ruleBasedProvider: InsightProvider = {
+  kind: 'rules',
+  label: 'rule-based',
+  analyzeCluster: async (context) => analyzeWithRules(context),
+  generateSql: async (question, catalog) => generateMockSql(question, catalog),
+  adviseQuery: async ({ mode, sql, error, tables, catalog, plan }) => generateMockAdvice(mode, sql, error, tables, catalog, plan),
+};
@@ -0,0 +1,114 @@
+
+import { ClusterDataSource, SchemaCatalog, SchemaTableInfo, SchemaIndex } from "../types";
+import { SqlTransport } from "./tidbApiService";
+
+/**
+ * Builds the SQL Lab schema catalog from information_schema and caches it per connection
+ * https://docs.pingcap.com/tidb/stable/information-schema
+ */
+
+const SYSTEM_SCHEMAS = "'INFORMATION_SCHEMA', 'METRICS_SCHEMA', 'PERFORMANCE_SCHEMA', 'MYSQL', 'SYS', 'LIGHTNING_TASK_INFO'";
+
+const SCHEMATA_SQL = `SELECT SCHEMA_NAME FROM information_schema.SCHEMATA
+  WHERE UPPER(SCHEMA_NAME) NOT IN (${SYSTEM_SCHEMAS})
+  ORDER BY SCHEMA_NAME`;
+
+const COLUMNS_SQL = `SELECT TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME, COLUMN_TYPE, IS_NULLABLE, COLUMN_KEY
+  FROM information_schema.COLUMNS
+  WHERE UPPER(TABLE_SCHEMA) NOT IN (${SYSTEM_SCHEMAS})
+  ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION`;
+
+const INDEXES_SQL = `SELECT TABLE_SCHEMA, TABLE_NAME, INDEX_NAME, NON_UNIQUE, COLUMN_NAME
+  FROM information_schema.STATISTICS
+  WHERE UPPER(TABLE_SCHEMA) NOT IN (${SYSTEM_SCHEMAS})
+  ORDER BY TABLE_SCHEMA, TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`;
+
+const REPLICAS_SQL = `SELECT TABLE_SCHEMA, TABLE_NAME, REPLICA_COUNT, AVAILABLE, PROGRESS
+  FROM information_schema.TIFLASH_REPLICA`;
+
+const tableKey = (database: string, table: string) => `${database}.${table}`;
+
+export const loadCatalog = async (transport: SqlTransport): Promise<SchemaCatalog> => {
+  const [schemata, columns, indexes, replicas] = await Promise.all([
+    transport(SCHEMATA_SQL),
+    transport(COLUMNS_SQL),
+    transport(INDEXES_SQL),
+    // Clusters without TiFlash nodes may reject this table; the catalog is still useful without it
+    transport(REPLICAS_SQL).catch(() => ({ columns: [], rows: [] })),
+  ]);
+
+  const tables = new Map<string, SchemaTableInfo>();
+  columns.rows.forEach(row => {
+    const key = tableKey(row.TABLE_SCHEMA, row.TABLE_NAME);
+    if (!tables.has(key)) tables.set(key, { database: row.TABLE_SCHEMA, name: row.TABLE_NAME, columns: [], indexes: [] });
+    tables.get(key)!.columns.push({
+      name: row.COLUMN_NAME,
+      type: row.COLUMN_TYPE,
+      nullable: row.IS_NULLABLE === 'YES',
+      key: row.COLUMN_KEY || undefined,
+    });
+  });
+
+  indexes.rows.forEach(row => {
+    const table = tables.get(tableKey(row.TABLE_SCHEMA, row.TABLE_NAME));
+    if (!table) return;
+    let index: SchemaIndex | undefined = table.indexes.find(i => i.name === row.INDEX_NAME);
+    if (!index) {
+      index = { name: row.INDEX_NAME, columns: [], unique: Number(row.NON_UNIQUE) === 0 };
+      table.indexes.push(index);
+    }
+    index.columns.push(row.COLUMN_NAME);
+  });
+
+  replicas.rows.forEach(row => {
+    const table = tables.get(tableKey(row.TABLE_SCHEMA, row.TABLE_NAME));
+    if (!table) return;
+    table.tiflashReplica = {
+      database: row.TABLE_SCHEMA,
+      table: row.TABLE_NAME,
+      replicaCount: Number(row.REPLICA_COUNT),
+      available: Number(row.AVAILABLE) === 1,
+      progress: Number(row.PROGRESS),
+    };
+  });
+
+  return {
+    databases: schemata.rows.map(row => row.SCHEMA_NAME),
+    tables: Array.from(tables.values()),
+    loadedAt: new Date().toISOString(),
+  };
+};
+
+const catalogCache = new Map<string, SchemaCatalog>();
+
+const SCHEMA_CHANGE_PATTERN = /^\s*(CREATE|ALTER|DROP|RENAME)\b/i;
+
+// DDL leaves the cached catalog stale
+export const changesSchema = (sql: string): boolean => SCHEMA_CHANGE_PATTERN.test(sql);
+
+export const getCatalog = async (dataSource: ClusterDataSource, force = false): Promise<SchemaCatalog> => {
+  const cached = catalogCache.get(dataSource.id);
+  if (cached && !force) return cached;
+  const catalog = await dataSource.listSchema();
+  catalogCache.set(dataSource.id, catalog);
+  return catalog;
+};
+
+export const filterCatalog = (catalog: SchemaCatalog, search: string): SchemaCatalog => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return catalog;
+  const tables = catalog.tables.filter(t =>
+    tableKey(t.database, t.name).toLowerCase().includes(needle) ||
+    t.columns.some(c => c.name.toLowerCase().includes(needle))
+  );
+  return {
+    ...catalog,
+    databases: catalog.databases.filter(db => db.toLowerCase().includes(needle) || tables.some(t => t.database === db)),
+    tables,
+  };
+};
+
+export const quoteIdentifier = (name: string): string => `\`${name.replace(/`/g, '``')}\``;
+
+export const buildSelectTemplate = (table: SchemaTableInfo): string =>
+  `SELECT ${table.columns.map(c => quoteIdentifier(c.name)).join(', ') || '*'}\nFROM ${quoteIdentifier(table.database)}.${quoteIdentifier(table.name)}\nLIMIT 100;`;
@@ -0,0 +1,111 @@
+import { GeneratedSql, SchemaCatalog, SchemaTableInfo, AdviceMode, QueryAdvice, QueryResult, ClusterDataSource, ExecutionPlan, InsightProvider } from "../types";
+import { isExplainStatement, stripExplain, toExplainSql } from "./planParser";
+
+/**
+ * Turns plain-English questions into TiDB SQL and explains or optimizes
+ * statements, using the loaded schema as context, through the configured
+ * AI provider.
+ */
+
+const TABLE_REF_PATTERN = /\b(?:FROM|JOIN)\s+((?:`?\w+`?\.)?`?\w+`?)(?:\s+(?:AS\s+)?(?!(?:WHERE|JOIN|INNER|LEFT|RIGHT|CROSS|ON|GROUP|ORDER|LIMIT|HAVING|UNION)\b)(`?\w+`?))?/gi;
+
+const ANALYTICAL_PATTERN = /\b(GROUP\s+BY|SUM|AVG|COUNT|MIN|MAX)\b/i;
+
+export const isAnalyticalSql = (sql: string): boolean => ANALYTICAL_PATTERN.test(sql);
+
+/**
+ * Names the hint should use for each table in the statement: the alias when
+ * one is given, otherwise the bare table name.
+ */
+export const hintTargets = (sql: string): string[] => {
+  const targets = new Set<string>();
+  for (const match of sql.matchAll(TABLE_REF_PATTERN)) {
+    const [, table, alias] = match;
+    const name = (alias || table.split('.').pop() || '').replace(/`/g, '');
+    if (name) targets.add(name);
+  }
+  return [...targets];
+};
+
+export const hasTiFlashHint = (sql: string): boolean => /\/\*\+[^*]*READ_FROM_STORAGE/i.test(sql);
+
+export const addTiFlashHint = (sql: string): string => {
+  if (hasTiFlashHint(sql)) return sql;
+  const targets = hintTargets(sql);
+  if (targets.length === 0) return sql;
+  return sql.replace(/^(\s*SELECT)\b/i, `$1 /*+ READ_FROM_STORAGE(TIFLASH[${targets.join(', ')}]) */`);
+};
+
+export const removeTiFlashHint = (sql: string): string =>
+  sql.replace(/\s*\/\*\+\s*READ_FROM_STORAGE\([^)]*\)\s*\*\//i, '');
+
+// Catalog entries for the tables the statement reads
+export const resolveTables = (sql: string, tables: SchemaTableInfo[]): SchemaTableInfo[] => {
+  const found: SchemaTableInfo[] = [];
+  for (const match of sql.matchAll(TABLE_REF_PATTERN)) {
+    const parts = match[1].replace(/`/g, '').split('.');
+    const name = parts.pop()!.toLowerCase();
+    const database = parts.pop()?.toLowerCase();
+    const table = tables.find(t => t.name.toLowerCase() === name && (!database || t.database.toLowerCase() === database));
+    if (table && !found.includes(table)) found.push(table);
+  }
+  return found;
+};
+
+// Qualified names of the tables the statement reads, whether or not the catalog knows them
+export const referencedTables = (sql: string, tables: SchemaTableInfo[]): string[] => {
+  const names = new Set<string>();
+  for (const match of sql.matchAll(TABLE_REF_PATTERN)) {
+    const bare = match[1].replace(/`/g, '').split('.').pop()!.toLowerCase();
+    const table = tables.find(t => t.name.toLowerCase() === bare);
+    names.add(table ? `${table.database}.${table.name}` : match[1].replace(/`/g, ''));
+  }
+  return [...names];
+};
+
+export const askForSql = async (question: string, catalog: SchemaCatalog | null, provider: InsightProvider): Promise<GeneratedSql> => {
+  const draft = await provider.generateSql(question, catalog);
+  const sql = draft.sql.trim();
+  return {
+    sql,
+    explanation: draft.explanation,
+    analytical: draft.analytical ?? isAnalyticalSql(sql),
+    tables: referencedTables(sql, catalog?.tables || []),
+    provider: provider.label,
+  };
+};
+
+// Plans are optional context: a statement that cannot be explained is still worth optimizing
+const planFor = async (dataSource: ClusterDataSource, sql: string, result: QueryResult | null): Promise<ExecutionPlan | undefined> => {
+  if (result?.plan) return result.plan;
+  try {
+    return (await dataSource.executeQuery(toExplainSql(sql))).plan;
+  } catch (error) {
+    console.error("Advice Plan Error:", error);
+    return undefined;
+  }
+};
+
+/**
+ * Builds the context for "Explain this error" / "Optimize this query" and
+ * returns the provider's structured suggestion.
+ */
+export const adviseQuery = async (
+  mode: AdviceMode,
+  result: QueryResult,
+  catalog: SchemaCatalog | null,
+  dataSource: ClusterDataSource,
+  provider: InsightProvider
+): Promise<QueryAdvice> => {
+  const sql = (isExplainStatement(result.sql) ? stripExplain(result.sql) : result.sql).trim();
+  const plan = mode === 'optimize' ? await planFor(dataSource, sql, result) : undefined;
+  const advice = await provider.adviseQuery({
+    mode,
+    sql,
+    error: result.error,
+    plan,
+    tables: resolveTables(sql, catalog?.tables || []),
+    catalog,
+  });
+  return { ...advice, mode, originalSql: sql, rewrittenSql: advice.rewrittenSql.trim(), provider: provider.label };
+};
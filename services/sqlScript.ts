@@ -0,0 +1,165 @@
+import { QueryOptions, QueryResult, ScriptStatement, ScriptStatementRun } from "../types";
+
+/**
+ * Splits SQL Lab scripts into statements the way the mysql client does and
+ * runs them one after another.
+ */
+
+const DELIMITER_PATTERN = /[ \t]*DELIMITER[ \t]+(\S+)[ \t]*(\r?\n|$)/iy;
+const BEGIN_PATTERN = /^\s*(BEGIN|START\s+TRANSACTION)\b/i;
+// ROLLBACK TO SAVEPOINT keeps the transaction open
+const END_PATTERN = /^\s*(COMMIT|ROLLBACK)\b(?!\s+(WORK\s+)?TO\b)/i;
+// DDL and table locks commit an open transaction implicitly
+const IMPLICIT_COMMIT_PATTERN = /^\s*(CREATE|ALTER|DROP|TRUNCATE|RENAME|LOCK\s+TABLES?|UNLOCK\s+TABLES?)\b/i;
+const SESSION_PATTERN = /^\s*(BEGIN|START\s+TRANSACTION|COMMIT|ROLLBACK|SAVEPOINT|RELEASE\s+SAVEPOINT|USE|SET|LOCK\s+TABLES?|UNLOCK\s+TABLES?|CREATE\s+TEMPORARY|PREPARE|EXECUTE|DEALLOCATE)\b/i;
+// Statements that do nothing but change the state of their own connection
+const SESSION_STATE_PATTERN = /^\s*(USE|SET(?!\s+GLOBAL\b)|LOCK\s+TABLES?|CREATE\s+TEMPORARY|PREPARE|SAVEPOINT)\b/i;
+
+// Index just past the closing quote; backslash escapes and doubled quotes stay inside
+const skipQuoted = (script: string, start: number): number => {
+  const quote = script[start];
+  let i = start + 1;
+  while (i < script.length) {
+    if (script[i] === '\\' && quote !== '`') i += 2;
+    else if (script[i] === quote && script[i + 1] === quote) i += 2;
+    else if (script[i] === quote) return i + 1;
+    else i++;
+  }
+  return i;
+};
+
+const skipLine = (script: string, start: number): number => {
+  const end = script.indexOf('\n', start);
+  return end < 0 ? script.length : end;
+};
+
+const isLineComment = (script: string, i: number): boolean =>
+  script[i] === '#' || (script.startsWith('--', i) && (i + 2 >= script.length || /\s/.test(script[i + 2])));
+
+/**
+ * Statements in order, without their delimiters. Quotes and comments may
+ * contain the delimiter. A `DELIMITER xx` line between statements changes it,
+ * as needed for procedure and trigger bodies. Comments around a statement
+ * are dropped; comments inside it are kept.
+ */
+export const splitStatements = (script: string): ScriptStatement[] => {
+  const statements: ScriptStatement[] = [];
+  let delimiter = ';';
+  let codeStart = -1;
+  let codeEnd = -1;
+  let line = 1;
+  let counted = 0;
+
+  const lineAt = (index: number) => {
+    for (; counted < index; counted++) if (script[counted] === '\n') line++;
+    return line;
+  };
+  const markCode = (start: number, end: number) => {
+    if (codeStart < 0) codeStart = start;
+    codeEnd = end;
+  };
+  const finish = () => {
+    if (codeStart >= 0) statements.push({ sql: script.slice(codeStart, codeEnd), line: lineAt(codeStart) });
+    codeStart = -1;
+  };
+
+  let i = 0;
+  while (i < script.length) {
+    if (codeStart < 0 && (i === 0 || script[i - 1] === '\n')) {
+      DELIMITER_PATTERN.lastIndex = i;
+      const match = DELIMITER_PATTERN.exec(script);
+      if (match) {
+        delimiter = match[1];
+        i += match[0].length;
+        continue;
+      }
+    }
+    const ch = script[i];
+    if (script.startsWith(delimiter, i)) {
+      finish();
+      i += delimiter.length;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      const end = skipQuoted(script, i);
+      markCode(i, end);
+      i = end;
+    } else if (isLineComment(script, i)) {
+      i = skipLine(script, i);
+    } else if (script.startsWith('/*', i)) {
+      // Executable comments and optimizer hints are part of the statement
+      const close = script.indexOf('*/', i + 2);
+      const end = close < 0 ? script.length : close + 2;
+      if (script[i + 2] === '!' || script[i + 2] === '+') markCode(i, end);
+      i = end;
+    } else {
+      if (!/\s/.test(ch)) markCode(i, i + 1);
+      i++;
+    }
+  }
+  finish();
+  return statements;
+};
+
+/**
+ * How a statement changes the session's transaction state: 'begin' opens
+ * one, 'end' closes any that is open, null leaves it as it was.
+ */
+export const transactionEffect = (sql: string): 'begin' | 'end' | null => {
+  if (BEGIN_PATTERN.test(sql)) return 'begin';
+  if (END_PATTERN.test(sql) || IMPLICIT_COMMIT_PATTERN.test(sql)) return 'end';
+  return null;
+};
+
+// Statements whose effect is lost when the next one runs on another connection
+export const dependsOnSession = (sql: string): boolean => SESSION_PATTERN.test(sql);
+
+// Pointless on their own: the connection they changed is released as soon as they finish
+export const onlyChangesSession = (sql: string): boolean => SESSION_STATE_PATTERN.test(sql);
+
+export interface ScriptOptions extends QueryOptions {
+  stopOnError: boolean;
+}
+
+/**
+ * Runs statements in order and reports every status change. A cancelled or
+ * timed-out statement ends the script; a failed one ends it with
+ * `stopOnError`. Statements that never ran are marked skipped.
+ */
+export const runScript = async (
+  execute: (sql: string, options?: QueryOptions) => Promise<QueryResult>,
+  statements: ScriptStatement[],
+  { stopOnError, ...options }: ScriptOptions,
+  onUpdate: (runs: ScriptStatementRun[]) => void
+): Promise<ScriptStatementRun[]> => {
+  let runs: ScriptStatementRun[] = statements.map(statement => ({ statement, status: 'pending' }));
+  const update = (index: number, patch: Partial<ScriptStatementRun>) => {
+    runs = runs.map((run, i) => i === index ? { ...run, ...patch } : run);
+    onUpdate(runs);
+  };
+
+  for (let i = 0; i < runs.length; i++) {
+    // A cancel that lands between statements still stops the script
+    if (options.signal?.aborted) break;
+    update(i, { status: 'running' });
+    const result = await execute(statements[i].sql, options);
+    const status = result.error ? 'failed' : result.stopReason ? 'stopped' : 'done';
+    update(i, { status, result });
+    if (status === 'stopped' || (status === 'failed' && stopOnError)) break;
+  }
+
+  if (runs.some(run => run.status === 'pending')) {
+    runs = runs.map(run => run.status === 'pending' ? { ...run, status: 'skipped' } : run);
+    onUpdate(runs);
+  }
+  return runs;
+};
+
+// The statement to show: the running one, else the first that failed or stopped, else the last with rows
+export const defaultSelection = (runs: ScriptStatementRun[]): number => {
+  const running = runs.findIndex(run => run.status === 'running');
+  if (running >= 0) return running;
+  const problem = runs.findIndex(run => run.status === 'failed' || run.status === 'stopped');
+  if (problem >= 0) return problem;
+  const withRows = runs.map(run => !!run.result?.columns.length).lastIndexOf(true);
+  if (withRows >= 0) return withRows;
+  return Math.max(0, runs.map(run => !!run.result).lastIndexOf(true));
+};
@@ -0,0 +1,39 @@
+
+import { ClusterDataSource, HTAPStatus, MetricPoint, SchemaCatalog } from "../types";
+import { executeWithPlan, readSqlResponse, SQL_ACCEPT } from "./tidbApiService";
+
+/**
+ * Client for the local HTTP stand-in (scripts/standin-server.mjs), which
+ * mimics a cluster without needing TiDB or Data Service credentials.
+ */
+
+const request = async <T>(baseUrl: string, path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, init);
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.message || `Stand-in request failed: ${response.status}`);
+  }
+  return response.json();
+};
+
+export const createStandInSource = (baseUrl: string): ClusterDataSource => ({
+  kind: 'standIn',
+  id: `standIn:${baseUrl}`,
+  executeQuery: (sql, options) => executeWithPlan(
+    async (s, o = {}) => readSqlResponse(
+      await fetch(`${baseUrl.replace(/\/+$/, '')}/query`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': SQL_ACCEPT },
+        body: JSON.stringify({ sql: s }),
+        signal: o.signal
+      }),
+      o,
+      data => data
+    ),
+    sql,
+    options
+  ),
+  sampleMetrics: () => request<MetricPoint>(baseUrl, '/metrics'),
+  getStatus: () => request<HTAPStatus>(baseUrl, '/status'),
+  listSchema: () => request<SchemaCatalog>(baseUrl, '/schema'),
+});
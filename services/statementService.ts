@@ -0,0 +1,138 @@
+
+import { ClusterDataSource, StatementDigest, StatementPlan, SlowQueryEntry, StorageEngine } from "../types";
+
+/**
+ * Reads the statement summary and slow query log through the active data source
+ * https://docs.pingcap.com/tidb/stable/statement-summary-tables
+ */
+
+export const STATEMENT_SUMMARY_SQL = `SELECT DIGEST, DIGEST_TEXT, QUERY_SAMPLE_TEXT, SCHEMA_NAME, STMT_TYPE, PLAN_DIGEST, PLAN,
+  EXEC_COUNT, SUM_LATENCY, MAX_LATENCY, FIRST_SEEN, LAST_SEEN
+FROM information_schema.CLUSTER_STATEMENTS_SUMMARY
+WHERE DIGEST IS NOT NULL
+ORDER BY SUM_LATENCY DESC
+LIMIT 500`;
+
+// Without a Time bound TiDB parses every rotated slow log file on every instance
+export const SLOW_QUERY_SQL = `SELECT Time, Query_time, Digest, Plan_digest, DB, Query
+FROM information_schema.SLOW_QUERY
+WHERE Time > NOW() - INTERVAL 1 DAY
+ORDER BY Time DESC
+LIMIT 200`;
+
+export type StatementSortKey = 'sumLatencyMs' | 'execCount' | 'avgLatencyMs';
+
+// Statement summary latencies are reported in nanoseconds
+const nsToMs = (value: any): number => Number(value || 0) / 1e6;
+
+const planEngine = (plan: string): StorageEngine => /tiflash/i.test(plan || '') ? 'TiFlash' : 'TiKV';
+
+const weightedAverage = (plans: StatementPlan[]): number | undefined => {
+  const count = plans.reduce((sum, p) => sum + p.execCount, 0);
+  if (!count) return undefined;
+  return plans.reduce((sum, p) => sum + p.avgLatencyMs * p.execCount, 0) / count;
+};
+
+/**
+ * Folds per-instance, per-plan summary rows into one entry per digest
+ */
+export const aggregateStatements = (rows: any[]): StatementDigest[] => {
+  const digests = new Map<string, StatementDigest>();
+
+  rows.forEach(row => {
+    const execCount = Number(row.EXEC_COUNT || 0);
+    const sumLatencyMs = nsToMs(row.SUM_LATENCY);
+    let entry = digests.get(row.DIGEST);
+    if (!entry) {
+      entry = {
+        digest: row.DIGEST,
+        digestText: row.DIGEST_TEXT,
+        sampleSql: row.QUERY_SAMPLE_TEXT || row.DIGEST_TEXT,
+        schemaName: row.SCHEMA_NAME || '',
+        stmtType: row.STMT_TYPE || '',
+        execCount: 0,
+        sumLatencyMs: 0,
+        avgLatencyMs: 0,
+        maxLatencyMs: 0,
+        plans: [],
+      };
+      digests.set(row.DIGEST, entry);
+    }
+    entry.execCount += execCount;
+    entry.sumLatencyMs += sumLatencyMs;
+    entry.maxLatencyMs = Math.max(entry.maxLatencyMs, nsToMs(row.MAX_LATENCY));
+
+    // Statements that were never planned, such as BEGIN or SET, have no plan digest
+    const planDigest = row.PLAN_DIGEST || '';
+    const existing = entry.plans.find(p => p.planDigest === planDigest);
+    if (existing) {
+      const total = existing.avgLatencyMs * existing.execCount + sumLatencyMs;
+      existing.execCount += execCount;
+      existing.avgLatencyMs = existing.execCount ? total / existing.execCount : 0;
+      if (row.FIRST_SEEN < existing.firstSeen) existing.firstSeen = row.FIRST_SEEN;
+      if (row.LAST_SEEN > existing.lastSeen) existing.lastSeen = row.LAST_SEEN;
+    } else {
+      entry.plans.push({
+        planDigest,
+        engine: planEngine(row.PLAN),
+        execCount,
+        avgLatencyMs: execCount ? sumLatencyMs / execCount : 0,
+        firstSeen: String(row.FIRST_SEEN),
+        lastSeen: String(row.LAST_SEEN),
+      });
+    }
+  });
+
+  return Array.from(digests.values()).map(entry => ({
+    ...entry,
+    avgLatencyMs: entry.execCount ? entry.sumLatencyMs / entry.execCount : 0,
+    tiflashAvgMs: weightedAverage(entry.plans.filter(p => p.engine === 'TiFlash')),
+    tikvAvgMs: weightedAverage(entry.plans.filter(p => p.engine === 'TiKV')),
+    plans: [...entry.plans].sort((a, b) => a.firstSeen.localeCompare(b.firstSeen)),
+  }));
+};
+
+export const sortStatements = (statements: StatementDigest[], key: StatementSortKey): StatementDigest[] =>
+  [...statements].sort((a, b) => b[key] - a[key]);
+
+// A digest whose optimizer output changed over the summary window
+export const hasPlanChange = (statement: StatementDigest): boolean => statement.plans.length > 1;
+
+export const listStatements = async (dataSource: ClusterDataSource): Promise<StatementDigest[]> => {
+  const result = await dataSource.executeQuery(STATEMENT_SUMMARY_SQL);
+  if (result.error) throw new Error(result.error);
+  return aggregateStatements(result.rows);
+};
+
+export const listSlowQueries = async (dataSource: ClusterDataSource): Promise<SlowQueryEntry[]> => {
+  const result = await dataSource.executeQuery(SLOW_QUERY_SQL);
+  if (result.error) throw new Error(result.error);
+  // SLOW_QUERY reports Query_time in seconds
+  return result.rows.map(row => ({
+    time: String(row.Time),
+    queryTimeMs: Number(row.Query_time) * 1000,
+    digest: row.Digest,
+    planDigest: row.Plan_digest || '',
+    db: row.DB || '',
+    query: row.Query,
+  }));
+};
+
+// Statement summary history is kept in refresh-interval windows (30 minutes by default), so this is as precise as it gets
+export const statementsDuringSql = (from: number, to: number) => `SELECT DIGEST, DIGEST_TEXT, QUERY_SAMPLE_TEXT, SCHEMA_NAME, STMT_TYPE, PLAN_DIGEST, PLAN,
+  EXEC_COUNT, SUM_LATENCY, MAX_LATENCY, FIRST_SEEN, LAST_SEEN
+FROM information_schema.CLUSTER_STATEMENTS_SUMMARY_HISTORY
+WHERE DIGEST IS NOT NULL
+  AND SUMMARY_BEGIN_TIME <= FROM_UNIXTIME(${Math.ceil(to / 1000)})
+  AND SUMMARY_END_TIME >= FROM_UNIXTIME(${Math.floor(from / 1000)})
+ORDER BY SUM_LATENCY DESC
+LIMIT 500`;
+
+/**
+ * Statements whose summary window overlaps [from, to], heaviest first
+ */
+export const listStatementsDuring = async (dataSource: ClusterDataSource, from: number, to: number): Promise<StatementDigest[]> => {
+  const result = await dataSource.executeQuery(statementsDuringSql(from, to));
+  if (result.error) throw new Error(result.error);
+  return sortStatements(aggregateStatements(result.rows), 'sumLatencyMs');
+};
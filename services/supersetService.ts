@@ -0,0 +1,179 @@
+import { SupersetConfig, SupersetDashboard, SupersetDatabase, SupersetDataset } from "../types";
+
+/**
+ * Apache Superset integration over its REST API (`/api/v1`). The API calls
+ * use a JWT from the database login; embedded dashboards use a guest token,
+ * handed to the Superset frame with the same postMessage handshake as
+ * `@superset-ui/embedded-sdk`. Writes also carry the CSRF token Superset
+ * ties to the browser session, so requests include credentials.
+ * scripts/superset-mock-server.mjs serves the subset used here for local
+ * testing.
+ */
+
+const CONFIG_KEY = 'htap-vision.superset';
+
+export const DEFAULT_SUPERSET_URL = 'http://localhost:8088';
+
+// Guest tokens default to a five minute lifetime in Superset
+export const GUEST_TOKEN_REFRESH_MS = 4 * 60 * 1000;
+
+const EMBEDDED_MESSAGE_TYPE = '__embedded_comms__';
+
+export const defaultSupersetConfig = (): SupersetConfig => ({
+  baseUrl: DEFAULT_SUPERSET_URL,
+  username: 'admin',
+  password: '',
+  guestToken: '',
+});
+
+export const loadSupersetConfig = (): SupersetConfig => {
+  const defaults = defaultSupersetConfig();
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    if (!stored) return defaults;
+    return { ...defaults, baseUrl: stored.baseUrl || defaults.baseUrl, username: stored.username ?? defaults.username };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveSupersetConfig = (config: SupersetConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify({ baseUrl: config.baseUrl, username: config.username }));
+};
+
+// Rejects anything but an absolute http(s) URL before it reaches fetch or postMessage
+export const supersetOrigin = (config: SupersetConfig): string => {
+  let url: URL;
+  try {
+    url = new URL(config.baseUrl.trim());
+  } catch {
+    throw new Error(`Superset URL "${config.baseUrl}" is not a valid URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error(`Superset URL must use http or https, not ${url.protocol}`);
+  return url.origin;
+};
+
+const apiUrl = (config: SupersetConfig, path: string) => `${config.baseUrl.trim().replace(/\/+$/, '')}${path}`;
+
+const request = async <T>(config: SupersetConfig, path: string, accessToken: string | null, init?: RequestInit, csrfToken?: string): Promise<T> => {
+  supersetOrigin(config);
+  const response = await fetch(apiUrl(config, path), {
+    ...init,
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...(csrfToken ? { 'X-CSRFToken': csrfToken } : {}),
+    },
+  });
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    // Validation errors come back as `{ message: { field: [reasons] } }`
+    const message = errData.message || errData.msg;
+    const text = message && typeof message === 'object' ? Object.values(message).flat().join('; ') : message;
+    throw new Error(text || `Superset request failed: ${response.status}`);
+  }
+  return response.json();
+};
+
+// List endpoints take their paging as a rison-encoded `q` parameter
+const listQuery = (pageSize: number, orderColumn: string) =>
+  `?q=${encodeURIComponent(`(order_column:${orderColumn},order_direction:desc,page:0,page_size:${pageSize})`)}`;
+
+// Superset checks POSTs against the CSRF token bound to the session cookie set by this call
+const fetchCsrfToken = async (config: SupersetConfig, accessToken: string): Promise<string> => {
+  const data = await request<{ result: string }>(config, '/api/v1/security/csrf_token/', accessToken);
+  if (!data.result) throw new Error("Superset returned no CSRF token");
+  return data.result;
+};
+
+const postWithCsrf = async <T>(config: SupersetConfig, path: string, accessToken: string, body: unknown): Promise<T> =>
+  request<T>(config, path, accessToken, { method: 'POST', body: JSON.stringify(body) }, await fetchCsrfToken(config, accessToken));
+
+export const loginSuperset = async (config: SupersetConfig): Promise<string> => {
+  const data = await request<{ access_token: string }>(config, '/api/v1/security/login', null, {
+    method: 'POST',
+    body: JSON.stringify({ username: config.username, password: config.password, provider: 'db', refresh: false }),
+  });
+  if (!data.access_token) throw new Error("Superset login returned no access token");
+  return data.access_token;
+};
+
+export const listSupersetDashboards = async (config: SupersetConfig, accessToken: string): Promise<SupersetDashboard[]> => {
+  const data = await request<{ result: any[] }>(config, `/api/v1/dashboard/${listQuery(100, 'changed_on_delta_humanized')}`, accessToken);
+  return (data.result || []).map(d => ({
+    id: d.id,
+    title: d.dashboard_title || `Dashboard ${d.id}`,
+    url: d.url || `/superset/dashboard/${d.id}/`,
+    published: !!d.published,
+    changedOn: d.changed_on_delta_humanized || '',
+  }));
+};
+
+// Superset answers 404 when embedding has not been enabled for the dashboard
+export const getEmbeddedId = async (config: SupersetConfig, accessToken: string, dashboardId: number): Promise<string | undefined> => {
+  try {
+    const data = await request<{ result: { uuid: string } }>(config, `/api/v1/dashboard/${dashboardId}/embedded`, accessToken);
+    return data.result?.uuid;
+  } catch {
+    return undefined;
+  }
+};
+
+export const fetchGuestToken = async (config: SupersetConfig, accessToken: string, embeddedId: string): Promise<string> => {
+  const data = await postWithCsrf<{ token: string }>(config, '/api/v1/security/guest_token/', accessToken, {
+    user: { username: 'htap-vision', first_name: 'HTAP', last_name: 'Vision' },
+    resources: [{ type: 'dashboard', id: embeddedId }],
+    rls: [],
+  });
+  return data.token;
+};
+
+export const listSupersetDatabases = async (config: SupersetConfig, accessToken: string): Promise<SupersetDatabase[]> => {
+  const data = await request<{ result: any[] }>(config, `/api/v1/database/${listQuery(100, 'changed_on')}`, accessToken);
+  return (data.result || []).map(d => ({ id: d.id, name: d.database_name, backend: d.backend || '' }));
+};
+
+/**
+ * Saves SQL as a virtual dataset, which Superset charts like a table.
+ * Dataset names must be unique per database and schema.
+ */
+export const createSupersetDataset = async (
+  config: SupersetConfig,
+  accessToken: string,
+  dataset: { databaseId: number; schema: string; name: string; sql: string }
+): Promise<SupersetDataset> => {
+  const data = await postWithCsrf<{ id: number }>(config, '/api/v1/dataset/', accessToken, {
+    database: dataset.databaseId,
+    schema: dataset.schema || null,
+    table_name: dataset.name,
+    // Superset rejects virtual dataset SQL with a trailing semicolon
+    sql: dataset.sql.trim().replace(/;+\s*$/, ''),
+  });
+  return {
+    id: data.id,
+    name: dataset.name,
+    exploreUrl: apiUrl(config, `/explore/?datasource_type=table&datasource_id=${data.id}`),
+  };
+};
+
+/**
+ * Where to frame a dashboard: the embedded page when embedding is enabled
+ * (authenticated by guest token), otherwise the standalone dashboard, which
+ * relies on the browser's own Superset session.
+ */
+export const dashboardFrameUrl = (config: SupersetConfig, dashboard: SupersetDashboard): string =>
+  dashboard.embeddedId
+    ? apiUrl(config, `/embedded/${dashboard.embeddedId}?uiConfig=0`)
+    : apiUrl(config, `${dashboard.url.replace(/\?.*$/, '')}?standalone=2`);
+
+/**
+ * Performs the embedded SDK's port handshake once the frame has loaded and
+ * returns a function that hands a (new) guest token to the dashboard.
+ */
+export const connectEmbeddedFrame = (frame: HTMLIFrameElement, config: SupersetConfig): ((guestToken: string) => void) => {
+  const origin = supersetOrigin(config);
+  const channel = new MessageChannel();
+  frame.contentWindow?.postMessage({ type: EMBEDDED_MESSAGE_TYPE, handshake: 'port transfer' }, origin, [channel.port2]);
+  return (guestToken) => channel.port1.postMessage({ switchboardAction: 'emit', method: 'guestToken', args: { guestToken } });
+};
@@ -0,0 +1,68 @@
+/**
+ * Line diff for showing a rewritten statement next to the original.
+ */
+
+export interface DiffRow {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+type Op = { kind: 'same' | 'removed' | 'added'; line: string };
+
+// Longest-common-subsequence walk; statements are short, so O(n*m) is fine
+const diffOps = (a: string[], b: string[]): Op[] => {
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      ops.push({ kind: 'same', line: b[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: 'removed', line: a[i++] });
+    } else {
+      ops.push({ kind: 'added', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: 'removed', line: a[i++] });
+  while (j < b.length) ops.push({ kind: 'added', line: b[j++] });
+  return ops;
+};
+
+/**
+ * Side-by-side rows: runs of removed and added lines are paired up as
+ * changed rows so the two columns stay aligned.
+ */
+export const diffLines = (original: string, rewritten: string): DiffRow[] => {
+  const ops = diffOps(original.split('\n'), rewritten.split('\n'));
+  const rows: DiffRow[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].kind === 'same') {
+      rows.push({ kind: 'same', left: ops[k].line, right: ops[k].line });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].kind !== 'same') {
+      if (ops[k].kind === 'removed') removed.push(ops[k].line);
+      else added.push(ops[k].line);
+      k++;
+    }
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n];
+      const right = added[n];
+      rows.push({ kind: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+};
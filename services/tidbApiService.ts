@@ -1,62 +1,307 @@
 
-import { TiDBConfig, QueryResult } from "../types";
+import { TiDBConfig, QueryResult, ExecutionPlan, ClusterDataSource, MetricPoint, HTAPStatus, QueryOptions, QueryProgress, SqlSession } from "../types";
+import { isExplainable, isExplainStatement, toExplainSql, parsePlanRows, summarizePlan, primaryEngine } from "./planParser";
+import { collectLiveStatus } from "./liveStatusCollector";
+import { loadCatalog } from "./schemaService";
+import { controlRun, stoppedResult, capRows } from "./queryControl";
+
+export interface TransportResult extends QueryProgress {
+  truncated?: boolean;
+}
+
+export interface TransportOptions {
+  signal?: AbortSignal;
+  maxRows?: number;
+  // Called with every row received so far, by transports that stream. The
+  // rows array is the one the stream keeps appending to; copy it to keep a snapshot.
+  onRows?: (progress: QueryProgress) => void;
+}
+
+export type SqlTransport = (sql: string, options?: TransportOptions) => Promise<TransportResult>;
+
+const NDJSON = 'application/x-ndjson';
+
+// Accept header for SQL requests: the local proxy and stand-in stream rows, the Data Service answers JSON
+export const SQL_ACCEPT = `${NDJSON}, application/json`;
+
+export const isStreamingResponse = (response?: Response): boolean =>
+  !!response?.headers.get('Content-Type')?.includes(NDJSON);
 
 /**
- * Service to interact with TiDB Cloud Data Service
- * https://docs.pingcap.com/tidbcloud/data-service-overview
+ * Reads newline-delimited JSON: a { columns } header, { rows } batches and a
+ * closing { done } or { error }. Stops reading once `maxRows` is exceeded;
+ * cancelling the body makes the server drop the statement.
  */
-export const executeLiveQuery = async (config: TiDBConfig, sql: string): Promise<QueryResult> => {
-  if (!config.endpoint || !config.publicKey || !config.privateKey) {
-    throw new Error("Missing connection credentials");
+const readRowStream = async (response: Response, { maxRows, onRows }: TransportOptions): Promise<TransportResult> => {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  // Batches are appended in place; copying every row so far per batch is quadratic
+  const result: TransportResult = { columns: [], rows: [] };
+  let buffered = '';
+  let finished = false;
+
+  // Returns true once no further lines are needed
+  const handle = (line: string): boolean => {
+    const message = JSON.parse(line);
+    if (message.error) throw new Error(message.error);
+    if (message.columns) {
+      result.columns = message.columns;
+      result.columnTypes = message.columnTypes;
+    }
+    if (message.rows) {
+      const room = maxRows ? maxRows - result.rows.length : Infinity;
+      const take = Math.min(room, message.rows.length);
+      for (let i = 0; i < take; i++) result.rows.push(message.rows[i]);
+      if (take < message.rows.length) result.truncated = true;
+      onRows?.(result);
+    }
+    finished = !!message.done;
+    return finished || !!result.truncated;
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop();
+    for (const line of lines) {
+      if (line.trim() && handle(line)) {
+        await reader.cancel();
+        return result;
+      }
+    }
   }
+  if (buffered.trim()) handle(buffered);
+  if (!finished) throw new Error("Result stream ended before the statement finished");
+  return result;
+};
 
-  const startTime = performance.now();
-  
+/**
+ * Turns a SQL endpoint's response into rows, streamed or as one JSON body
+ */
+export const readSqlResponse = async (
+  response: Response,
+  options: TransportOptions,
+  parseJson: (data: any) => TransportResult
+): Promise<TransportResult> => {
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.message || "Query execution failed");
+  }
+  if (isStreamingResponse(response)) return readRowStream(response, options);
+  const result = capRows(parseJson(await response.json()), options.maxRows);
+  options.onRows?.(result);
+  return result;
+};
+
+// Marks a statement so it can be found in the process list; trailing comments survive TiDB's parser
+const tagSql = (sql: string, tag: string) => `${sql.replace(/[\s;]+$/, '')}\n/* ${tag} */`;
+
+const newRunTag = () => `htap-vision-run:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const postSql = async (config: TiDBConfig, sql: string, options: TransportOptions = {}): Promise<TransportResult> => {
+  // Only runs that can be cancelled are tagged
+  const tag = options.signal && newRunTag();
+  let response: Response | undefined;
   try {
-    const response = await fetch(config.endpoint, {
+    response = await fetch(config.endpoint, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Accept': SQL_ACCEPT,
         'Authorization': `Basic ${btoa(`${config.publicKey}:${config.privateKey}`)}`
       },
-      body: JSON.stringify({ sql })
+      body: JSON.stringify({ sql: tag ? tagSql(sql, tag) : sql }),
+      signal: options.signal
     });
 
-    if (!response.ok) {
-      const errData = await response.json();
-      throw new Error(errData.message || "Query execution failed");
+    // Data Service usually returns results in a specific format
+    return await readSqlResponse(response, options, data => ({
+      columns: data.result?.columns?.map((c: any) => c.name ?? c.col) || [],
+      columnTypes: data.result?.columns?.map((c: any) => c.type ?? c.data_type ?? ''),
+      rows: data.result?.rows || []
+    }));
+  } catch (error) {
+    // Dropping the request does not stop TiDB. The local proxy kills a streamed
+    // statement when its client goes away; otherwise look the statement up by its tag.
+    if (tag && options.signal.aborted && !isStreamingResponse(response)) {
+      killTaggedQuery(config, tag).catch(err => console.warn("KILL QUERY failed:", err));
     }
+    throw error;
+  }
+};
 
-    const data = await response.json();
-    const endTime = performance.now();
+/**
+ * Stops a tagged statement wherever it runs. KILL QUERY by process list ID
+ * reaches any TiDB node while global kill is on, the default since TiDB 6.1.
+ */
+const killTaggedQuery = async (config: TiDBConfig, tag: string) => {
+  const { rows } = await postSql(config, `SELECT ID FROM information_schema.CLUSTER_PROCESSLIST
+WHERE INFO LIKE '%${tag}%' AND INFO NOT LIKE '%CLUSTER_PROCESSLIST%'`);
+  await Promise.all(rows.map(row => postSql(config, `KILL QUERY ${Number(row.ID ?? row.id)}`)));
+};
 
-    // Data Service usually returns results in a specific format
-    const columns = data.result?.columns?.map((c: any) => c.name) || [];
-    const rows = data.result?.rows || [];
+/**
+ * Asks TiDB for the brief plan of a statement. Returns undefined when the
+ * statement cannot be explained or the EXPLAIN call fails or is cancelled
+ * along with its run.
+ */
+const fetchPlan = async (transport: SqlTransport, sql: string, signal?: AbortSignal): Promise<ExecutionPlan | undefined> => {
+  if (!isExplainable(sql)) return undefined;
+  try {
+    const { columns, rows } = await transport(toExplainSql(sql), { signal });
+    return summarizePlan(parsePlanRows(columns, rows));
+  } catch (error) {
+    console.warn("EXPLAIN failed, engine unknown:", error);
+    return undefined;
+  }
+};
+
+/**
+ * Runs a statement over any SQL transport and attaches the plan TiDB picked
+ * for it. A cancelled or timed-out run returns the rows received so far.
+ */
+export const executeWithPlan = async (transport: SqlTransport, sql: string, options: QueryOptions = {}): Promise<QueryResult> => {
+  const startTime = performance.now();
+  const run = controlRun(options);
+  let progress: QueryProgress | null = null;
+
+  try {
+    const { columns, rows, columnTypes, truncated } = await transport(sql, {
+      signal: run.signal,
+      maxRows: options.maxRows,
+      onRows: (next) => {
+        progress = next;
+        options.onRows?.(next);
+      },
+    });
+    const endTime = performance.now();
 
-    const isAnalytical = sql.toUpperCase().includes('GROUP BY') || sql.toUpperCase().includes('JOIN');
+    // An EXPLAIN statement already carries its plan; anything else needs a separate EXPLAIN round trip, taken only on request
+    const plan = isExplainStatement(sql)
+      ? summarizePlan(parsePlanRows(columns, rows))
+      : options.withPlan ? await fetchPlan(transport, sql, run.signal) : undefined;
 
     return {
       columns,
+      columnTypes,
       rows,
       executionTimeMs: endTime - startTime,
-      engine: isAnalytical ? 'TiFlash' : 'TiKV',
-      isMPP: isAnalytical,
-      sql
+      engine: plan ? primaryEngine(plan) : 'Unknown',
+      isMPP: plan?.isMPP ?? false,
+      sql,
+      plan,
+      truncated
     };
   } catch (error: any) {
+    const stopReason = run.stopReason();
+    if (stopReason) return stoppedResult(sql, stopReason, progress, performance.now() - startTime);
     return {
       columns: [],
       rows: [],
       executionTimeMs: 0,
-      engine: 'TiKV',
+      engine: 'Unknown',
       isMPP: false,
       sql,
       error: error.message
     };
+  } finally {
+    run.dispose();
   }
 };
 
+/**
+ * Service to interact with TiDB Cloud Data Service
+ * https://docs.pingcap.com/tidbcloud/data-service-overview
+ */
+export const executeLiveQuery = async (config: TiDBConfig, sql: string, options?: QueryOptions): Promise<QueryResult> => {
+  if (!config.endpoint || !config.publicKey || !config.privateKey) {
+    throw new Error("Missing connection credentials");
+  }
+  return executeWithPlan((s, o) => postSql(config, s, o), sql, options);
+};
+
+// scripts/mysql-proxy.mjs serves sessions next to its REST endpoint: http://host:4200/sql -> ws://host:4200/ws
+export const sessionUrl = (endpoint: string): string => {
+  const url = new URL(endpoint);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.pathname = url.pathname.replace(/\/[^/]*$/, '/ws');
+  url.search = '';
+  return url.toString();
+};
+
+/**
+ * Opens a dedicated database session over the local proxy's WebSocket. The
+ * Data Service itself is stateless, so this fails for TiDB Cloud endpoints.
+ * Cancelling a statement asks the proxy to kill it on the session.
+ */
+export const openProxySession = (config: TiDBConfig, onClose?: (reason: string) => void): Promise<SqlSession> => new Promise((resolve, reject) => {
+  const url = sessionUrl(config.endpoint);
+  const socket = new WebSocket(url);
+  const pending = new Map<number, { resolve: (result: TransportResult) => void; reject: (error: Error) => void }>();
+  let nextId = 1;
+  let ready = false;
+  let closing = false;
+  let inTransaction = false;
+
+  const transport: SqlTransport = (sql, options = {}) => new Promise<TransportResult>((resolveQuery, rejectQuery) => {
+    if (socket.readyState !== WebSocket.OPEN) return rejectQuery(new Error("Session is closed"));
+    const id = nextId++;
+    const onAbort = () => socket.send(JSON.stringify({ type: 'cancel' }));
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const settle = () => options.signal?.removeEventListener('abort', onAbort);
+    pending.set(id, {
+      resolve: (result) => { settle(); resolveQuery(capRows(result, options.maxRows)); },
+      reject: (error) => { settle(); rejectQuery(error); },
+    });
+    socket.send(JSON.stringify({ type: 'query', id, sql }));
+  });
+
+  const session: SqlSession = {
+    executeQuery: (sql, options) => executeWithPlan(transport, sql, options),
+    inTransaction: () => inTransaction,
+    close: () => {
+      closing = true;
+      socket.close();
+    },
+  };
+
+  socket.onopen = () => socket.send(JSON.stringify({ type: 'auth', publicKey: config.publicKey, privateKey: config.privateKey }));
+  socket.onmessage = (event) => {
+    const message = JSON.parse(event.data);
+    if (!ready) {
+      if (message.type === 'ready') {
+        ready = true;
+        resolve(session);
+      } else {
+        reject(new Error(message.message || "Session was refused"));
+      }
+      return;
+    }
+    if (typeof message.inTransaction === 'boolean') inTransaction = message.inTransaction;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === 'result') request.resolve({ columns: message.columns, columnTypes: message.columnTypes, rows: message.rows });
+    else request.reject(new Error(message.message));
+  };
+  const refuse = () => reject(new Error(`No session endpoint at ${url}. Sessions and transactions need the local MySQL proxy (npm run mysql-proxy)`));
+  socket.onerror = () => {
+    if (!ready) refuse();
+  };
+  socket.onclose = () => {
+    pending.forEach(request => request.reject(new Error("Session closed")));
+    pending.clear();
+    if (!ready) {
+      refuse();
+    } else if (!closing) {
+      onClose?.(inTransaction ? "Session closed; the open transaction was rolled back" : "Session closed");
+    }
+    inTransaction = false;
+  };
+});
+
 /**
  * Lightweight verification call
  */
@@ -67,3 +312,27 @@ export const testConnection = async (config: TiDBConfig): Promise<{ success: boo
   }
   return { success: true, message: "Connection established successfully!" };
 };
+
+export const createDataServiceSource = (config: TiDBConfig): ClusterDataSource => {
+  // sampleMetrics and getStatus are polled together; they share one in-flight collection
+  let collecting: Promise<HTAPStatus> | null = null;
+  const collect = () => collecting || (collecting = collectLiveStatus(s => postSql(config, s)).finally(() => { collecting = null; }));
+
+  return {
+    kind: 'dataService',
+    id: `dataService:${config.endpoint}:${config.publicKey}`,
+    executeQuery: (sql, options) => executeLiveQuery(config, sql, options),
+    openSession: (onClose) => openProxySession(config, onClose),
+    sampleMetrics: async (): Promise<MetricPoint> => {
+      const status = await collect();
+      return {
+        time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+        oltp: status.qpsOltp,
+        olap: status.qpsOlap,
+        timestamp: Date.now(),
+      };
+    },
+    getStatus: collect,
+    listSchema: () => loadCatalog(s => postSql(config, s)),
+  };
+};
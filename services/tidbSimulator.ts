@@ -1,46 +1,327 @@
 
-import { MetricPoint, BusinessData, HTAPStatus, QueryResult } from "../types";
+import { MetricPoint, HTAPStatus, QueryResult, ClusterDataSource, SchemaTableInfo, SchemaCatalog, QueryOptions, SqlSession } from "../types";
+import { parsePlanRows, summarizePlan, primaryEngine, isExplainStatement, stripExplain } from "./planParser";
+import { controlRun, abortableDelay, stoppedResult } from "./queryControl";
+import { transactionEffect } from "./sqlScript";
+
+// 0-1 intensity of a 40 second analytical burst every 3 minutes, so OLTP latency has some interference to show
+const analyticalBurst = (ts: number): number => {
+  const phase = (ts % 180_000) / 40_000;
+  return phase < 1 ? Math.sin(Math.PI * phase) : 0;
+};
+
+export const generateMetricPoint = (time: Date = new Date()): MetricPoint => ({
+  time: time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+  oltp: 800 + Math.random() * 400 - analyticalBurst(time.getTime()) * 150,
+  olap: 10 + Math.random() * 5 + analyticalBurst(time.getTime()) * 60,
+  timestamp: time.getTime(),
+});
 
 export const generateRealtimePerformance = (): MetricPoint[] => {
   const data: MetricPoint[] = [];
   const now = new Date();
   for (let i = 10; i >= 0; i--) {
-    const time = new Date(now.getTime() - i * 1000);
-    data.push({
-      time: time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
-      oltp: 800 + Math.random() * 400,
-      olap: 10 + Math.random() * 5,
-    });
+    data.push(generateMetricPoint(new Date(now.getTime() - i * 1000)));
   }
   return data;
 };
 
-export const generateBusinessData = (): BusinessData[] => [
-  { category: 'Electronics', value: 45000, growth: 12 },
-  { category: 'Clothing', value: 28000, growth: -5 },
-  { category: 'Home & Kitchen', value: 32000, growth: 8 },
-  { category: 'Automotive', value: 15000, growth: 22 },
-  { category: 'Beauty', value: 19000, growth: 15 },
+export const SIMULATED_DATABASES = ['analytics', 'archive', 'test'];
+
+export const SIMULATED_TABLES: SchemaTableInfo[] = [
+  {
+    database: 'test',
+    name: 'orders',
+    columns: [
+      { name: 'id', type: 'bigint(20)', nullable: false, key: 'PRI' },
+      { name: 'user_id', type: 'bigint(20)', nullable: false, key: 'MUL' },
+      { name: 'amount', type: 'decimal(12,2)', nullable: false },
+      { name: 'category', type: 'varchar(64)', nullable: true },
+      { name: 'status', type: 'varchar(32)', nullable: false },
+      { name: 'created_at', type: 'datetime', nullable: false, key: 'MUL' },
+    ],
+    indexes: [
+      { name: 'PRIMARY', columns: ['id'], unique: true },
+      { name: 'idx_user_id', columns: ['user_id'], unique: false },
+      { name: 'idx_created_at', columns: ['created_at'], unique: false },
+    ],
+  },
+  {
+    database: 'test',
+    name: 'users',
+    columns: [
+      { name: 'id', type: 'bigint(20)', nullable: false, key: 'PRI' },
+      { name: 'email', type: 'varchar(255)', nullable: false, key: 'UNI' },
+      { name: 'name', type: 'varchar(128)', nullable: true },
+      { name: 'country', type: 'char(2)', nullable: true },
+    ],
+    indexes: [
+      { name: 'PRIMARY', columns: ['id'], unique: true },
+      { name: 'uk_email', columns: ['email'], unique: true },
+    ],
+  },
+  {
+    database: 'test',
+    name: 'products',
+    columns: [
+      { name: 'id', type: 'bigint(20)', nullable: false, key: 'PRI' },
+      { name: 'name', type: 'varchar(255)', nullable: false },
+      { name: 'price', type: 'decimal(10,2)', nullable: false },
+      { name: 'category_id', type: 'int(11)', nullable: true, key: 'MUL' },
+    ],
+    indexes: [
+      { name: 'PRIMARY', columns: ['id'], unique: true },
+      { name: 'idx_category', columns: ['category_id'], unique: false },
+    ],
+  },
+  {
+    database: 'analytics',
+    name: 'daily_sales',
+    columns: [
+      { name: 'day', type: 'date', nullable: false, key: 'PRI' },
+      { name: 'category', type: 'varchar(64)', nullable: false, key: 'PRI' },
+      { name: 'revenue', type: 'decimal(14,2)', nullable: false },
+      { name: 'orders', type: 'int(11)', nullable: false },
+    ],
+    indexes: [
+      { name: 'PRIMARY', columns: ['day', 'category'], unique: true },
+    ],
+  },
 ];
 
-export const getHTAPStatus = (): HTAPStatus => ({
-  tikvRegionCount: 1450,
-  tiflashReplicaCount: 2,
-  syncLagMs: 12 + Math.random() * 50,
-  qpsOltp: 1250,
-  qpsOlap: 15,
-});
+export const getHTAPStatus = (): HTAPStatus => {
+  const burst = analyticalBurst(Date.now());
+  return {
+    tikvRegionCount: 1450,
+    tiflashReplicaCount: 2,
+    syncLagMs: 12 + Math.random() * 50,
+    qpsOltp: 1250,
+    qpsOlap: 15,
+    oltpP99Ms: 8 + Math.random() * 3 + burst * 22,
+    tiflashCpuPercent: 18 + Math.random() * 8 + burst * 65,
+  };
+};
 
-export const runQuery = async (sql: string): Promise<QueryResult> => {
-  // Simulate network latency
-  await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 500));
-  
+const PLAN_COLUMNS = ['id', 'estRows', 'task', 'access object', 'operator info'];
+const ANALYZE_COLUMNS = ['id', 'estRows', 'actRows', 'task', 'access object', 'execution info', 'operator info', 'memory', 'disk'];
+
+// Mirrors the shape of EXPLAIN FORMAT='brief' so the simulator goes through the same plan parser
+export const buildMockPlanRows = (sql: string): any[] => {
   const upperSql = sql.toUpperCase();
-  const isAnalytical = upperSql.includes('GROUP BY') || upperSql.includes('SUM(') || upperSql.includes('JOIN') || upperSql.includes('COUNT(');
+  const hasJoin = upperSql.includes('JOIN');
+  const isAggregate = upperSql.includes('GROUP BY') || upperSql.includes('SUM(') || upperSql.includes('COUNT(');
+
+  if (hasJoin) {
+    return [
+      { id: 'TableReader', estRows: '5.00', task: 'root', 'access object': '', 'operator info': 'MppVersion: 2, data:ExchangeSender' },
+      { id: '└─ExchangeSender', estRows: '5.00', task: 'mpp[tiflash]', 'access object': '', 'operator info': 'ExchangeType: PassThrough' },
+      { id: '  └─HashAgg', estRows: '5.00', task: 'mpp[tiflash]', 'access object': '', 'operator info': 'group by:test.orders.category, funcs:sum(test.orders.amount)->Column#9' },
+      { id: '    └─HashJoin', estRows: '12000.00', task: 'mpp[tiflash]', 'access object': '', 'operator info': 'inner join, equal:[eq(test.orders.user_id, test.users.id)]' },
+      { id: '      ├─ExchangeReceiver(Build)', estRows: '4000.00', task: 'mpp[tiflash]', 'access object': '', 'operator info': '' },
+      { id: '      │ └─ExchangeSender', estRows: '4000.00', task: 'mpp[tiflash]', 'access object': '', 'operator info': 'ExchangeType: Broadcast' },
+      { id: '      │   └─TableFullScan', estRows: '4000.00', task: 'mpp[tiflash]', 'access object': 'table:users', 'operator info': 'keep order:false' },
+      { id: '      └─TableFullScan(Probe)', estRows: '12000.00', task: 'mpp[tiflash]', 'access object': 'table:orders', 'operator info': 'keep order:false' },
+    ];
+  }
+  if (isAggregate) {
+    return [
+      { id: 'Projection', estRows: '5.00', task: 'root', 'access object': '', 'operator info': 'test.orders.category, Column#9' },
+      { id: '└─HashAgg', estRows: '5.00', task: 'root', 'access object': '', 'operator info': 'group by:test.orders.category, funcs:sum(Column#10)->Column#9' },
+      { id: '  └─TableReader', estRows: '5.00', task: 'root', 'access object': '', 'operator info': 'data:HashAgg' },
+      { id: '    └─HashAgg', estRows: '5.00', task: 'batchCop[tiflash]', 'access object': '', 'operator info': 'group by:test.orders.category, funcs:sum(test.orders.amount)->Column#10' },
+      { id: '      └─TableFullScan', estRows: '12000.00', task: 'batchCop[tiflash]', 'access object': 'table:orders', 'operator info': 'keep order:false' },
+    ];
+  }
+  return [
+    { id: 'Limit', estRows: '10.00', task: 'root', 'access object': '', 'operator info': 'offset:0, count:10' },
+    { id: '└─TableReader', estRows: '10.00', task: 'root', 'access object': '', 'operator info': 'data:Limit' },
+    { id: '  └─Limit', estRows: '10.00', task: 'cop[tikv]', 'access object': '', 'operator info': 'offset:0, count:10' },
+    { id: '    └─TableFullScan', estRows: '10.00', task: 'cop[tikv]', 'access object': 'table:orders', 'operator info': 'keep order:false, stats:pseudo' },
+  ];
+};
+
+// Fakes EXPLAIN ANALYZE runtime columns; scans occasionally miss their estimate by a wide margin
+const analyzeMockPlanRows = (planRows: any[]): any[] => {
+  const maxDepth = Math.max(...planRows.map(r => r.id.search(/[A-Za-z]/)));
+  return planRows.map(row => {
+    const depth = row.id.search(/[A-Za-z]/);
+    const est = parseFloat(row.estRows);
+    const skew = row.id.includes('TableFullScan') && Math.random() > 0.5 ? 25 : 0.8 + Math.random() * 0.4;
+    const timeMs = (maxDepth - depth + 1) * (5 + Math.random() * 10);
+    const taskPrefix = row.task === 'root' ? '' : row.task.includes('tiflash') ? 'tiflash_task:{' : 'tikv_task:{';
+    return {
+      ...row,
+      actRows: String(Math.round(est * skew)),
+      'execution info': `${taskPrefix}time:${timeMs.toFixed(1)}ms, loops:${1 + Math.floor(Math.random() * 3)}${taskPrefix ? '}' : ''}`,
+      memory: row.task === 'root' ? `${(Math.random() * 64).toFixed(1)} KB` : 'N/A',
+      disk: 'N/A',
+    };
+  });
+};
+
+// TiFlash replicas the simulator pretends to hold; progress advances each time they are read
+const simulatedReplicas: { database: string; table: string; replicaCount: number; progress: number }[] = [
+  { database: 'test', table: 'orders', replicaCount: 2, progress: 1 },
+];
+
+const REPLICA_COLUMNS = ['TABLE_SCHEMA', 'TABLE_NAME', 'TABLE_ID', 'REPLICA_COUNT', 'LOCATION_LABELS', 'AVAILABLE', 'PROGRESS'];
+
+const readSimulatedReplicas = (): QueryResult => {
+  simulatedReplicas.forEach(r => { r.progress = Math.min(1, r.progress + 0.05 + Math.random() * 0.1); });
+  return {
+    columns: REPLICA_COLUMNS,
+    rows: simulatedReplicas.map((r, i) => ({
+      TABLE_SCHEMA: r.database,
+      TABLE_NAME: r.table,
+      TABLE_ID: 100 + i,
+      REPLICA_COUNT: r.replicaCount,
+      LOCATION_LABELS: '',
+      AVAILABLE: r.progress >= 1 ? 1 : 0,
+      PROGRESS: Number(r.progress.toFixed(2)),
+    })),
+    executionTimeMs: 1 + Math.random() * 2,
+    engine: 'TiKV',
+    isMPP: false,
+    sql: ''
+  };
+};
+
+const alterSimulatedReplica = (database: string, table: string, count: number) => {
+  const idx = simulatedReplicas.findIndex(r => r.database === database && r.table === table);
+  if (count === 0) {
+    if (idx >= 0) simulatedReplicas.splice(idx, 1);
+  } else if (idx >= 0) {
+    simulatedReplicas[idx] = { ...simulatedReplicas[idx], replicaCount: count, progress: 0 };
+  } else {
+    simulatedReplicas.push({ database, table, replicaCount: count, progress: 0 });
+  }
+};
+
+const SIMULATED_STATEMENTS = [
+  { digest: 'a1f3c9', text: 'select `category` , sum ( `amount` ) from `orders` group by `category`', sample: 'SELECT category, SUM(amount) FROM orders GROUP BY category', type: 'Select', plans: [{ digest: 'p-agg-tikv', tiflash: false, ms: 420 }, { digest: 'p-agg-mpp', tiflash: true, ms: 48 }] },
+  { digest: 'b72e10', text: 'select * from `orders` where `user_id` = ?', sample: 'SELECT * FROM orders WHERE user_id = 512', type: 'Select', plans: [{ digest: 'p-idx-user', tiflash: false, ms: 1.8 }] },
+  { digest: 'c4d5e6', text: 'update `orders` set `status` = ? where `id` = ?', sample: "UPDATE orders SET status = 'shipped' WHERE id = 1004", type: 'Update', plans: [{ digest: 'p-point-upd', tiflash: false, ms: 3.2 }] },
+  { digest: 'd09b77', text: 'select `u` . `country` , count ( ? ) from `orders` `o` join `users` `u` on `o` . `user_id` = `u` . `id` group by `u` . `country`', sample: 'SELECT u.country, COUNT(*) FROM orders o JOIN users u ON o.user_id = u.id GROUP BY u.country', type: 'Select', plans: [{ digest: 'p-join-mpp', tiflash: true, ms: 95 }] },
+  { digest: 'e88a21', text: 'insert into `orders` ( `user_id` , `amount` , `status` ) values ( ... )', sample: "INSERT INTO orders (user_id, amount, status) VALUES (77, 19.99, 'new')", type: 'Insert', plans: [{ digest: 'p-insert', tiflash: false, ms: 2.4 }] },
+];
+
+const readSimulatedStatements = (): any[] => {
+  const now = Date.now();
+  return SIMULATED_STATEMENTS.flatMap(stmt => stmt.plans.map((plan, i) => {
+    const execCount = Math.floor((plan.tiflash ? 40 : 4000) * (0.5 + Math.random()));
+    const avgNs = plan.ms * (0.8 + Math.random() * 0.4) * 1e6;
+    return {
+      DIGEST: stmt.digest,
+      DIGEST_TEXT: stmt.text,
+      QUERY_SAMPLE_TEXT: stmt.sample,
+      SCHEMA_NAME: 'test',
+      STMT_TYPE: stmt.type,
+      PLAN_DIGEST: plan.digest,
+      PLAN: plan.tiflash ? '\tid\ttask\n\tTableReader\troot\n\t└─ExchangeSender\tmpp[tiflash]' : '\tid\ttask\n\tTableReader\troot\n\t└─TableRangeScan\tcop[tikv]',
+      EXEC_COUNT: execCount,
+      SUM_LATENCY: Math.round(avgNs * execCount),
+      MAX_LATENCY: Math.round(avgNs * 3),
+      FIRST_SEEN: new Date(now - (stmt.plans.length - i) * 3600_000).toISOString().replace('T', ' ').slice(0, 19),
+      LAST_SEEN: new Date(now - (stmt.plans.length - i - 1) * 1800_000).toISOString().replace('T', ' ').slice(0, 19),
+    };
+  }));
+};
+
+const readSimulatedSlowQueries = (): any[] => {
+  const now = Date.now();
+  return Array.from({ length: 12 }).map((_, i) => {
+    const stmt = SIMULATED_STATEMENTS[i % 2 === 0 ? 0 : 3];
+    const plan = stmt.plans[i % stmt.plans.length];
+    return {
+      Time: new Date(now - i * 600_000).toISOString().replace('T', ' ').slice(0, 19),
+      Query_time: (plan.ms * (3 + Math.random() * 5)) / 1000,
+      Digest: stmt.digest,
+      Plan_digest: plan.digest,
+      DB: 'test',
+      Query: stmt.sample + ';',
+    };
+  });
+};
+
+const ALTER_REPLICA_PATTERN = /^\s*ALTER\s+TABLE\s+(?:`?(\w+)`?\.)?`?(\w+)`?\s+SET\s+TIFLASH\s+REPLICA\s+(\d+)/i;
+
+// SELECT SLEEP(n) holds the "connection" for n seconds, to try out cancel and timeouts
+const SLEEP_PATTERN = /\bSLEEP\(\s*(\d+(?:\.\d+)?)\s*\)/i;
+
+// Transaction control, DML and DDL succeed without returning rows
+const NO_ROWS_PATTERN = /^\s*(BEGIN|START|COMMIT|ROLLBACK|SAVEPOINT|RELEASE|USE|SET|INSERT|REPLACE|UPDATE|DELETE|CREATE|ALTER|DROP|TRUNCATE|RENAME|GRANT|REVOKE|LOCK|UNLOCK)\b/i;
+
+export const runQuery = async (sql: string, options: QueryOptions = {}): Promise<QueryResult> => {
+  const startTime = performance.now();
+  const sleep = sql.match(SLEEP_PATTERN);
+  const run = controlRun(options);
+  try {
+    // Simulate network latency
+    await abortableDelay(sleep ? Number(sleep[1]) * 1000 : 300 + Math.random() * 500, run.signal);
+  } catch {
+    return stoppedResult(sql, run.stopReason(), null, performance.now() - startTime);
+  } finally {
+    run.dispose();
+  }
+
+  if (sleep) {
+    return { columns: ['sleep'], rows: [{ sleep: 0 }], executionTimeMs: performance.now() - startTime, engine: 'TiKV', isMPP: false, sql };
+  }
+
+  if (/information_schema\.TIFLASH_REPLICA/i.test(sql)) {
+    return { ...readSimulatedReplicas(), sql };
+  }
+
+  if (/information_schema\.CLUSTER_STATEMENTS_SUMMARY/i.test(sql)) {
+    const rows = readSimulatedStatements();
+    return { columns: Object.keys(rows[0]), rows, executionTimeMs: 8 + Math.random() * 6, engine: 'TiKV', isMPP: false, sql };
+  }
+
+  if (/information_schema\.SLOW_QUERY/i.test(sql)) {
+    const rows = readSimulatedSlowQueries();
+    return { columns: Object.keys(rows[0]), rows, executionTimeMs: 12 + Math.random() * 8, engine: 'TiKV', isMPP: false, sql };
+  }
+
+  const alter = sql.match(ALTER_REPLICA_PATTERN);
+  if (alter) {
+    const [, database = 'test', table, count] = alter;
+    if (!SIMULATED_TABLES.some(t => t.database === database && t.name === table)) {
+      return { columns: [], rows: [], executionTimeMs: 0, engine: 'TiKV', isMPP: false, sql, error: `Table '${database}.${table}' doesn't exist` };
+    }
+    alterSimulatedReplica(database, table, Number(count));
+    return { columns: [], rows: [], executionTimeMs: 5 + Math.random() * 10, engine: 'TiKV', isMPP: false, sql };
+  }
+
+  if (NO_ROWS_PATTERN.test(sql)) {
+    return { columns: [], rows: [], executionTimeMs: 1 + Math.random() * 4, engine: 'TiKV', isMPP: false, sql };
+  }
+
+  if (isExplainStatement(sql)) {
+    const analyze = /^\s*EXPLAIN\s+ANALYZE\b/i.test(sql);
+    const planRows = buildMockPlanRows(stripExplain(sql));
+    const rows = analyze ? analyzeMockPlanRows(planRows) : planRows;
+    const columns = analyze ? ANALYZE_COLUMNS : PLAN_COLUMNS;
+    const plan = summarizePlan(parsePlanRows(columns, rows));
+    return {
+      columns,
+      rows,
+      executionTimeMs: analyze ? 40 + Math.random() * 30 : 1 + Math.random() * 2,
+      engine: primaryEngine(plan),
+      isMPP: plan.isMPP,
+      sql,
+      plan
+    };
+  }
+
+  const plan = summarizePlan(parsePlanRows(PLAN_COLUMNS, buildMockPlanRows(sql)));
+  const isAnalytical = plan.engines.includes('TiFlash');
   
   const columns = isAnalytical 
     ? ['category', 'total_sales', 'avg_price', 'order_count']
     : ['id', 'user_id', 'amount', 'status', 'created_at'];
+  const columnTypes = isAnalytical
+    ? ['varchar(64)', 'bigint(20)', 'decimal(10,2)', 'bigint(20)']
+    : ['bigint(20)', 'bigint(20)', 'decimal(12,2)', 'varchar(32)', 'datetime'];
 
   const rows = Array.from({ length: isAnalytical ? 5 : 10 }).map((_, i) => {
     if (isAnalytical) {
@@ -62,10 +343,49 @@ export const runQuery = async (sql: string): Promise<QueryResult> => {
 
   return {
     columns,
+    columnTypes,
     rows,
     executionTimeMs: isAnalytical ? 45 + Math.random() * 20 : 2 + Math.random() * 5,
-    engine: isAnalytical ? 'TiFlash' : 'TiKV',
-    isMPP: isAnalytical,
-    sql
+    engine: primaryEngine(plan),
+    isMPP: plan.isMPP,
+    sql,
+    plan
   };
 };
+
+// Same shape a live information_schema load produces, including current replica state
+export const getSimulatedCatalog = (): SchemaCatalog => ({
+  databases: SIMULATED_DATABASES,
+  tables: SIMULATED_TABLES.map(table => {
+    const replica = simulatedReplicas.find(r => r.database === table.database && r.table === table.name);
+    return replica
+      ? { ...table, tiflashReplica: { ...replica, available: replica.progress >= 1 } }
+      : table;
+  }),
+  loadedAt: new Date().toISOString(),
+});
+
+// There are no connections to hold; the session only follows the transaction statements it runs
+const openSimulatedSession = async (): Promise<SqlSession> => {
+  let inTransaction = false;
+  return {
+    executeQuery: async (sql, options) => {
+      const result = await runQuery(sql, options);
+      const effect = transactionEffect(sql);
+      if (effect && !result.error && !result.stopReason) inTransaction = effect === 'begin';
+      return result;
+    },
+    inTransaction: () => inTransaction,
+    close: () => { inTransaction = false; },
+  };
+};
+
+export const simulatorDataSource: ClusterDataSource = {
+  kind: 'simulator',
+  id: 'simulator',
+  executeQuery: runQuery,
+  openSession: openSimulatedSession,
+  sampleMetrics: async () => generateMetricPoint(),
+  getStatus: async () => getHTAPStatus(),
+  listSchema: async () => getSimulatedCatalog(),
+};
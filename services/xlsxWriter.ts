@@ -0,0 +1,262 @@
+import { ExportMetadata, QueryResult } from "../types";
+import { isNull, cellText, isNumericType } from "./resultGrid";
+
+/**
+ * Minimal .xlsx writer: a stored (uncompressed) zip holding a "Results"
+ * sheet with inline strings and a "Query" sheet with the export metadata.
+ * The SQL and engine are also written to the document properties.
+ *
+ * Like the Parquet writer it yields progress between row batches.
+ */
+
+const BATCH_ROWS = 2000;
+const MAX_ROWS = 1_048_576;
+const MAX_CELL_TEXT = 32_767;
+// Excel keeps 15 significant digits; longer integers are written as text so they survive
+const MAX_NUMERIC_DIGITS = 15;
+
+const encoder = new TextEncoder();
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// ---- zip (stored) -------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array, seed = 0): number => {
+  let crc = seed ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: string;
+  parts: Uint8Array[];
+  crc: number;
+  size: number;
+}
+
+const zipEntry = (name: string, parts: Uint8Array[]): ZipEntry => {
+  let crc = 0;
+  let size = 0;
+  parts.forEach(p => {
+    crc = crc32(p, crc);
+    size += p.length;
+  });
+  return { name, parts, crc, size };
+};
+
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+const buildZip = (entries: ZipEntry[], date: Date): Uint8Array[] => {
+  const [time, day] = dosDateTime(date);
+  const out: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    if (offset + entry.size > 0xffffffff) throw new Error('Export exceeds the 4 GB zip limit');
+    const name = encoder.encode(entry.name);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, entry.crc, true);
+    local.setUint32(18, entry.size, true);
+    local.setUint32(22, entry.size, true);
+    local.setUint16(26, name.length, true);
+    out.push(new Uint8Array(local.buffer), name, ...entry.parts);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, day, true);
+    header.setUint32(16, entry.crc, true);
+    header.setUint32(20, entry.size, true);
+    header.setUint32(24, entry.size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + entry.size;
+  });
+
+  const centralSize = central.reduce((sum, p) => sum + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return [...out, ...central, new Uint8Array(end.buffer)];
+};
+
+// ---- SpreadsheetML ------------------------------------------------------
+
+const INVALID_XML = /[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+const escapeXml = (text: string) => text
+  .replace(INVALID_XML, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const columnLetter = (index: number): string => {
+  let n = index + 1;
+  let letters = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+const textCell = (ref: string, text: string, style = 0) => {
+  const value = text.length > MAX_CELL_TEXT ? text.slice(0, MAX_CELL_TEXT) : text;
+  const space = /^\s|\s$/.test(value) ? ' xml:space="preserve"' : '';
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t${space}>${escapeXml(value)}</t></is></c>`;
+};
+
+const numericCell = (ref: string, value: unknown): string | undefined => {
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (!/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(text)) return undefined;
+  if (text.replace(/^-|\..*$|e.*$/gi, '').length > MAX_NUMERIC_DIGITS) return undefined;
+  return Number.isFinite(Number(text)) ? `<c r="${ref}"><v>${text}</v></c>` : undefined;
+};
+
+const sheetOpen = (frozenHeader: boolean) =>
+  `${XML_HEAD}<worksheet xmlns="${NS_MAIN}">` +
+  (frozenHeader ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' : '') +
+  '<sheetData>';
+const SHEET_CLOSE = '</sheetData></worksheet>';
+
+const STYLES = `${XML_HEAD}<styleSheet xmlns="${NS_MAIN}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+const CONTENT_TYPES = `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS = `${XML_HEAD}<Relationships xmlns="${NS_PKG_REL}">` +
+  `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK = `${XML_HEAD}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>` +
+  '<sheet name="Results" sheetId="1" r:id="rId1"/><sheet name="Query" sheetId="2" r:id="rId2"/>' +
+  '</sheets></workbook>';
+
+const WORKBOOK_RELS = `${XML_HEAD}<Relationships xmlns="${NS_PKG_REL}">` +
+  `<Relationship Id="rId1" Type="${NS_REL}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${NS_REL}/worksheet" Target="worksheets/sheet2.xml"/>` +
+  `<Relationship Id="rId3" Type="${NS_REL}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+const coreProperties = (meta: ExportMetadata) =>
+  `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+  'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+  '<dc:title>Query results</dc:title><dc:creator>HTAP Vision</dc:creator>' +
+  `<dc:description>${escapeXml(meta.sql)}</dc:description>` +
+  `<cp:keywords>${escapeXml(meta.isMPP ? `${meta.engine} MPP` : meta.engine)}</cp:keywords>` +
+  `<dcterms:created xsi:type="dcterms:W3CDTF">${meta.exportedAt.replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+  '</cp:coreProperties>';
+
+const metadataSheet = (meta: ExportMetadata) => {
+  const pairs: [string, string][] = [
+    ['SQL', meta.sql],
+    ['Engine', meta.isMPP ? `${meta.engine} (MPP)` : meta.engine],
+    ['Source', meta.sourceId],
+    ['Exported at', meta.exportedAt],
+    ['Rows', String(meta.rowCount)],
+    ...meta.columns.map(c => [`Column ${c.name}`, c.type] as [string, string]),
+  ];
+  const rows = pairs.map(([key, value], i) =>
+    `<row r="${i + 1}">${textCell(`A${i + 1}`, key, 1)}${textCell(`B${i + 1}`, value)}</row>`
+  );
+  return sheetOpen(false) + rows.join('') + SHEET_CLOSE;
+};
+
+/**
+ * Yields progress in [0, 1] while encoding and returns the workbook as blob parts.
+ */
+export function* writeXlsx(
+  result: QueryResult,
+  meta: ExportMetadata,
+  options: { header: boolean; nullValue: string }
+): Generator<number, BlobPart[]> {
+  const { columns, rows } = result;
+  const headerRows = options.header ? 1 : 0;
+  if (rows.length + headerRows > MAX_ROWS) {
+    throw new Error(`Excel sheets hold at most ${MAX_ROWS.toLocaleString()} rows; export as CSV or Parquet instead`);
+  }
+
+  const letters = columns.map((_, i) => columnLetter(i));
+  const numeric = meta.columns.map(c => isNumericType(c.type));
+  const sheet: Uint8Array[] = [];
+  sheet.push(encoder.encode(sheetOpen(options.header)));
+
+  if (options.header) {
+    sheet.push(encoder.encode(`<row r="1">${columns.map((c, i) => textCell(`${letters[i]}1`, c, 1)).join('')}</row>`));
+  }
+
+  for (let start = 0; start < rows.length; start += BATCH_ROWS) {
+    const batch = rows.slice(start, start + BATCH_ROWS).map((row, offset) => {
+      const r = start + offset + 1 + headerRows;
+      const cells = columns.map((column, i) => {
+        const ref = `${letters[i]}${r}`;
+        const value = row[column];
+        if (isNull(value)) return options.nullValue ? textCell(ref, options.nullValue) : '';
+        return (numeric[i] && numericCell(ref, value)) || textCell(ref, cellText(value));
+      });
+      return `<row r="${r}">${cells.join('')}</row>`;
+    });
+    sheet.push(encoder.encode(batch.join('')));
+    yield Math.min(1, (start + BATCH_ROWS) / rows.length);
+  }
+  sheet.push(encoder.encode(SHEET_CLOSE));
+
+  const file = (name: string, xml: string) => zipEntry(name, [encoder.encode(xml)]);
+  return buildZip([
+    file('[Content_Types].xml', CONTENT_TYPES),
+    file('_rels/.rels', ROOT_RELS),
+    file('docProps/core.xml', coreProperties(meta)),
+    file('xl/workbook.xml', WORKBOOK),
+    file('xl/_rels/workbook.xml.rels', WORKBOOK_RELS),
+    file('xl/styles.xml', STYLES),
+    zipEntry('xl/worksheets/sheet1.xml', sheet),
+    file('xl/worksheets/sheet2.xml', metadataSheet(meta)),
+  ], new Date(meta.exportedAt));
+}
@@ -3,13 +3,7 @@ export interface MetricPoint {
   time: string;
   oltp: number;
   olap: number;
-  [key: string]: any;
-}
-
-export interface BusinessData {
-  category: string;
-  value: number;
-  growth: number;
+  timestamp?: number;
   [key: string]: any;
 }
 
@@ -19,39 +13,612 @@ export interface HTAPStatus {
   syncLagMs: number;
   qpsOltp: number;
   qpsOlap: number;
+  // Average TiFlash replication progress (0-1) across tables with a replica; missing when no table has one
+  tiflashReplicaProgress?: number;
+  // p99 transaction latency, the OLTP side of the interference analysis
+  oltpP99Ms?: number;
+  // Busy share of TiFlash CPU, 0-100, averaged across TiFlash nodes
+  tiflashCpuPercent?: number;
+  // Fields a live collector could not read; their values are placeholders
+  unavailable?: StatusFieldError[];
+}
+
+export type HTAPStatusField = 'tikvRegionCount' | 'tiflashReplicaCount' | 'tiflashReplicaProgress' | 'syncLagMs' | 'qpsOltp' | 'qpsOlap' | 'oltpP99Ms' | 'tiflashCpuPercent';
+
+export interface StatusFieldError {
+  field: HTAPStatusField;
+  source: string;
+  reason: string;
 }
 
 export enum DashboardView {
   PERFORMANCE = 'performance',
   ANALYTICS = 'analytics',
   SQL_LAB = 'sql_lab',
+  INTERFERENCE = 'interference',
   SUPERSET = 'superset',
+  COMPARE = 'compare',
+  REPLICAS = 'replicas',
+  STATEMENTS = 'statements',
+  ALERTS = 'alerts',
   SETTINGS = 'settings'
 }
 
+export interface InsightEvidence {
+  metric: string;
+  value: string;
+}
+
+// One finding from an analysis run
 export interface AIInsight {
   title: string;
   content: string;
   recommendation: string;
   severity: 'low' | 'medium' | 'high';
+  evidence: InsightEvidence[];
+  suggestedSql?: string;
+}
+
+// Everything an analysis run is given about the cluster
+export interface InsightContext {
+  status: HTAPStatus;
+  recentMetrics: MetricPoint[];
+  topStatements: StatementDigest[];
+  replicas: TiFlashReplica[];
+  // Context sources that could not be read, with the reason
+  missing: string[];
+}
+
+export interface InsightReport {
+  id: string;
+  sourceId: string;
+  generatedAt: string;
+  findings: AIInsight[];
+  provider: string;
+  // Set when the configured provider failed and the rule-based findings were returned instead
+  fallbackReason?: string;
+}
+
+export type StorageEngine = 'TiKV' | 'TiFlash';
+
+// Unknown when no plan was read for the statement
+export type ResultEngine = StorageEngine | 'Unknown';
+
+export interface PlanOperator {
+  id: string;
+  depth: number;
+  estRows: string;
+  task: string;
+  accessObject: string;
+  operatorInfo: string;
+  // Only present in EXPLAIN ANALYZE output
+  actRows?: string;
+  executionInfo?: string;
+  memory?: string;
+  disk?: string;
+}
+
+export interface PlanTreeNode {
+  operator: PlanOperator;
+  children: PlanTreeNode[];
+  timeMs?: number;
+  selfTimeMs?: number;
+  estimateRatio?: number;
+}
+
+export interface ExecutionPlan {
+  operators: PlanOperator[];
+  engines: StorageEngine[];
+  isMPP: boolean;
+  mppExchanges: string[];
+  analyzed: boolean;
 }
 
 export interface QueryResult {
   columns: string[];
+  // SQL type per column, aligned with `columns`, when the source reports it
+  columnTypes?: string[];
   rows: any[];
   executionTimeMs: number;
-  engine: 'TiKV' | 'TiFlash';
+  engine: ResultEngine;
   isMPP: boolean;
   sql: string;
+  plan?: ExecutionPlan;
   error?: string;
+  // Set when the run was stopped early; `rows` then holds what arrived before it stopped
+  stopReason?: QueryStopReason;
+  // More rows were available than the row limit allowed
+  truncated?: boolean;
+}
+
+export type QueryStopReason = 'cancelled' | 'timeout';
+
+// Rows received so far while a statement is still running
+export interface QueryProgress {
+  columns: string[];
+  columnTypes?: string[];
+  rows: any[];
 }
 
+export interface QueryOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Stop reading after this many rows and mark the result truncated
+  maxRows?: number;
+  onRows?: (progress: QueryProgress) => void;
+  // Look up the plan of a non-EXPLAIN statement too, at the cost of an extra EXPLAIN round trip on live sources
+  withPlan?: boolean;
+}
+
+export type LiveBackend = 'dataService' | 'standIn';
+
 export interface TiDBConfig {
   endpoint: string;
   publicKey: string;
   privateKey: string;
   isLive: boolean;
+  backend: LiveBackend;
+  standInUrl: string;
   host?: string;
   port?: number;
   user?: string;
+  // Connection profile the config was loaded from, if any
+  profileId?: string;
+}
+
+export type ProfileEnvironment = 'production' | 'staging' | 'dr' | 'development';
+
+// Stored in plain text; the keys live in the encrypted credential vault
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  environment: ProfileEnvironment;
+  color: string;
+  backend: LiveBackend;
+  endpoint: string;
+  standInUrl: string;
+}
+
+export interface ProfileCredentials {
+  publicKey: string;
+  privateKey: string;
+}
+
+// AES-GCM ciphertext of every profile's credentials, keyed by a PBKDF2-derived passphrase key
+export interface CredentialVault {
+  salt: string;
+  iv: string;
+  data: string;
+  iterations: number;
+}
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable?: boolean;
+  key?: 'PRI' | 'UNI' | 'MUL';
+}
+
+export interface SchemaIndex {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
+export interface SchemaTableInfo {
+  database: string;
+  name: string;
+  columns: SchemaColumn[];
+  indexes: SchemaIndex[];
+  tiflashReplica?: TiFlashReplica;
+}
+
+export interface SchemaCatalog {
+  databases: string[];
+  tables: SchemaTableInfo[];
+  loadedAt: string;
+}
+
+export type DataSourceKind = 'simulator' | LiveBackend;
+
+/**
+ * Everything a view needs from a cluster. The simulator, the TiDB Cloud
+ * Data Service and the local HTTP stand-in all implement it.
+ */
+export interface ClusterDataSource {
+  kind: DataSourceKind;
+  // Identifies the connection, e.g. for per-connection caches
+  id: string;
+  executeQuery: (sql: string, options?: QueryOptions) => Promise<QueryResult>;
+  sampleMetrics: () => Promise<MetricPoint>;
+  getStatus: () => Promise<HTAPStatus>;
+  listSchema: () => Promise<SchemaCatalog>;
+  // Only sources that can hold a connection open offer sessions; onClose reports a session lost unexpectedly
+  openSession?: (onClose?: (reason: string) => void) => Promise<SqlSession>;
+}
+
+// One dedicated connection, so USE, SET and transactions carry over between statements
+export interface SqlSession {
+  executeQuery: (sql: string, options?: QueryOptions) => Promise<QueryResult>;
+  // Whether the server reported an open transaction after the last statement
+  inTransaction: () => boolean;
+  close: () => void;
+}
+
+export interface ScriptStatement {
+  sql: string;
+  // 1-based line of the script the statement starts on
+  line: number;
+}
+
+export type ScriptStatementStatus = 'pending' | 'running' | 'done' | 'failed' | 'stopped' | 'skipped';
+
+export interface ScriptStatementRun {
+  statement: ScriptStatement;
+  status: ScriptStatementStatus;
+  result?: QueryResult;
+}
+
+export interface ScriptRun {
+  runs: ScriptStatementRun[];
+  // Index of the statement whose result the panel shows
+  selected: number;
+}
+
+export interface TiFlashReplica {
+  database: string;
+  table: string;
+  replicaCount: number;
+  available: boolean;
+  progress: number;
+}
+
+export interface ReplicaProgressSample {
+  time: string;
+  progress: number;
+}
+
+export interface StatementPlan {
+  planDigest: string;
+  engine: StorageEngine;
+  execCount: number;
+  avgLatencyMs: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface StatementDigest {
+  digest: string;
+  digestText: string;
+  sampleSql: string;
+  schemaName: string;
+  stmtType: string;
+  execCount: number;
+  sumLatencyMs: number;
+  avgLatencyMs: number;
+  maxLatencyMs: number;
+  // Average latency of executions whose plan ran on each engine
+  tiflashAvgMs?: number;
+  tikvAvgMs?: number;
+  plans: StatementPlan[];
+}
+
+export interface SlowQueryEntry {
+  time: string;
+  queryTimeMs: number;
+  digest: string;
+  planDigest: string;
+  db: string;
+  query: string;
+}
+
+export type MetricTier = 'raw' | '1m' | '10m';
+
+export type MetricRange = '5m' | '1h' | '24h' | '7d';
+
+// One stored sample; rollup tiers hold averages over `count` raw samples
+export interface MetricSample {
+  sourceId: string;
+  ts: number;
+  // Every field is missing when the source could not read it; p99 and CPU also on samples recorded before they were collected
+  oltp?: number;
+  olap?: number;
+  syncLagMs?: number;
+  maxSyncLagMs?: number;
+  tikvRegionCount?: number;
+  tiflashReplicaCount?: number;
+  oltpP99Ms?: number;
+  tiflashCpuPercent?: number;
+  count: number;
+  // Rollups only: how many of the `count` samples reported each averaged field
+  fieldCounts?: Partial<Record<MetricAveragedField, number>>;
+}
+
+export type MetricAveragedField = 'oltp' | 'olap' | 'syncLagMs' | 'oltpP99Ms' | 'tiflashCpuPercent';
+
+export type AlertField = 'oltp' | 'olap' | 'syncLagMs' | 'tikvRegionCount' | 'tiflashReplicaCount' | 'tiflashReplicaProgress' | 'qpsOltp' | 'qpsOlap' | 'oltpP99Ms' | 'tiflashCpuPercent';
+
+export type AlertComparator = '>' | '>=' | '<' | '<=';
+
+export type AlertSeverity = 'low' | 'medium' | 'high';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  field: AlertField;
+  // threshold: latest value; rateOfChange: change per second between the last two samples;
+  // sustained: every one of the last `samples` values
+  kind: 'threshold' | 'rateOfChange' | 'sustained';
+  comparator: AlertComparator;
+  value: number;
+  samples?: number;
+  severity: AlertSeverity;
+  enabled: boolean;
+}
+
+export interface AlertSample {
+  ts: number;
+  values: Partial<Record<AlertField, number>>;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  state: 'firing' | 'resolved';
+  value: number;
+  at: string;
+}
+
+// SQL drafted from a natural-language question, shown for review before it runs
+export interface GeneratedSql {
+  sql: string;
+  explanation: string;
+  // True for aggregations and scans that TiFlash answers better than TiKV
+  analytical: boolean;
+  tables: string[];
+  // Label of the provider that drafted it, e.g. "gemini · gemini-3-pro-preview"
+  provider: string;
+}
+
+export type AdviceMode = 'explainError' | 'optimize';
+
+export interface AdviceChange {
+  kind: 'index' | 'tiflashReplica';
+  ddl: string;
+  reason: string;
+}
+
+// Structured reply to "Explain this error" / "Optimize this query"
+export interface QueryAdvice {
+  mode: AdviceMode;
+  originalSql: string;
+  rewrittenSql: string;
+  reasoning: string;
+  changes: AdviceChange[];
+  provider: string;
+}
+
+export type InsightProviderKind = 'gemini' | 'openai' | 'rules';
+
+export interface AIProviderConfig {
+  kind: InsightProviderKind;
+  model: string;
+  // OpenAI-compatible servers only; e.g. http://localhost:11434/v1 for a local model server
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface SqlDraft {
+  sql: string;
+  explanation: string;
+  analytical?: boolean;
+}
+
+export interface AdviceRequest {
+  mode: AdviceMode;
+  sql: string;
+  error?: string;
+  plan?: ExecutionPlan;
+  // Catalog entries for the tables the statement reads
+  tables: SchemaTableInfo[];
+  catalog: SchemaCatalog | null;
+}
+
+export interface AdviceDraft {
+  rewrittenSql: string;
+  reasoning: string;
+  changes: AdviceChange[];
+}
+
+// Every AI feature goes through one of these, chosen in Settings
+export interface InsightProvider {
+  kind: InsightProviderKind;
+  label: string;
+  analyzeCluster: (context: InsightContext) => Promise<AIInsight[]>;
+  generateSql: (question: string, catalog: SchemaCatalog | null) => Promise<SqlDraft>;
+  adviseQuery: (request: AdviceRequest) => Promise<AdviceDraft>;
+}
+
+export interface QueryTab {
+  id: string;
+  title: string;
+  sql: string;
+}
+
+export interface QueryHistoryEntry {
+  id: string;
+  sourceId: string;
+  sql: string;
+  executedAt: string;
+  engine: ResultEngine;
+  durationMs: number;
+  rowCount: number;
+  error?: string;
+  stopReason?: QueryStopReason;
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  sql: string;
+  folder: string;
+  tags: string[];
+  updatedAt: string;
+}
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx' | 'parquet';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  delimiter: string;
+  header: boolean;
+  nullValue: string;
+  // CSV gets `#` comment lines, NDJSON a leading `__export` record; xlsx and Parquet always embed it
+  includeMetadata: boolean;
+}
+
+export interface ExportMetadata {
+  sql: string;
+  engine: ResultEngine;
+  isMPP: boolean;
+  sourceId: string;
+  exportedAt: string;
+  rowCount: number;
+  columns: { name: string; type: string }[];
+}
+
+export type ChartType = 'line' | 'bar' | 'stackedBar' | 'area' | 'pie' | 'scatter' | 'heatmap';
+
+export type ChartAggregation = 'none' | 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+export interface ChartConfig {
+  type: ChartType;
+  x: string;
+  y: string[];
+  // Splits y into one series per distinct value of this column; heatmaps use it as the vertical axis
+  series?: string;
+  aggregation: ChartAggregation;
+}
+
+// Position on the dashboard's 12-column grid, in grid cells
+export interface PanelLayout {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface DashboardPanel {
+  id: string;
+  title: string;
+  // Saved query the panel follows; `sql` is the snapshot used when it is gone or the dashboard is imported elsewhere
+  queryId?: string;
+  sql: string;
+  chart: ChartConfig | null;
+  refreshSec: number;
+  layout: PanelLayout;
+}
+
+export interface DashboardVariable {
+  name: string;
+  value: string;
+}
+
+export interface Dashboard {
+  id: string;
+  name: string;
+  range: MetricRange;
+  variables: DashboardVariable[];
+  panels: DashboardPanel[];
+  updatedAt: string;
+}
+
+export interface SupersetConfig {
+  baseUrl: string;
+  username: string;
+  // Secrets are kept in memory only
+  password: string;
+  // Pasted guest token for embedding; when empty one is requested per dashboard with the API login
+  guestToken: string;
+}
+
+export interface SupersetDashboard {
+  id: number;
+  title: string;
+  url: string;
+  published: boolean;
+  changedOn: string;
+  // UUID of the embedded configuration, when embedding is enabled for the dashboard
+  embeddedId?: string;
+}
+
+export interface SupersetDatabase {
+  id: number;
+  name: string;
+  backend: string;
+}
+
+export interface SupersetDataset {
+  id: number;
+  name: string;
+  exploreUrl: string;
+}
+
+// A run of samples where OLTP p99 exceeded the tolerance while analytical load was elevated
+export interface InterferenceInterval {
+  start: number;
+  end: number;
+  samples: number;
+  peakP99Ms: number;
+  avgP99Ms: number;
+  // Peak p99 over the quiet-period baseline, in percent
+  degradationPct: number;
+  avgOlapQps: number;
+  peakTiflashCpu?: number;
+}
+
+export interface InterferenceReport {
+  samples: number;
+  // Pearson correlation against OLTP p99; null when there is too little variance or data
+  olapCorrelation: number | null;
+  cpuCorrelation: number | null;
+  baselineP99Ms: number;
+  thresholdP99Ms: number;
+  intervals: InterferenceInterval[];
+}
+
+// A connection the comparison view can run against; `config` is null while its credentials are locked
+export interface ComparisonTarget {
+  id: string;
+  label: string;
+  color: string;
+  config: TiDBConfig | null;
+}
+
+export interface ComparisonRun {
+  result: QueryResult;
+  // Median over the repeated runs, which smooths out network jitter
+  medianTimeMs: number;
+  timesMs: number[];
+}
+
+export interface ResultDiff {
+  sharedColumns: string[];
+  onlyLeftColumns: string[];
+  onlyRightColumns: string[];
+  matchedRows: number;
+  onlyLeftRows: any[];
+  onlyRightRows: any[];
+  // Same rows in both results, returned in a different order
+  orderDiffers: boolean;
+}
+
+export interface StatusDelta {
+  field: HTAPStatusField;
+  label: string;
+  left?: number;
+  right?: number;
+  delta?: number;
 }